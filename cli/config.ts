@@ -0,0 +1,134 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as toml from "toml";
+import { Cluster, Keypair, PublicKey, clusterApiUrl } from "@solana/web3.js";
+import { PalapaFunRooms } from "../target/types/palapa_fun_rooms";
+
+/** Key of the program in `Anchor.toml` `[programs.<cluster>]`. */
+export const ANCHOR_PROGRAM_NAME = "solana_playground";
+
+export const LOCALNET_URL = "http://127.0.0.1:8899";
+
+/** IDL written by `anchor build`, relative to the workspace root. */
+export const IDL_PATH = path.join("target", "idl", "palapa_fun_rooms.json");
+
+export interface AnchorToml {
+  provider?: { cluster?: string; wallet?: string };
+  programs?: Record<string, Record<string, string | { address: string }>>;
+}
+
+export interface ProviderConfig {
+  /** Cluster name (or URL) as written in `Anchor.toml`. */
+  cluster: string;
+  /** RPC endpoint resolved from `cluster`. */
+  url: string;
+  /** Path of the wallet keypair file, with `~` expanded. */
+  wallet: string;
+}
+
+export const expandHome = (file: string): string =>
+  file === "~" || file.startsWith("~/")
+    ? path.join(os.homedir(), file.slice(1))
+    : file;
+
+/** Walks up from `dir` until an `Anchor.toml` is found. */
+export const findAnchorToml = (dir = process.cwd()): string | undefined => {
+  let current = path.resolve(dir);
+  for (;;) {
+    const candidate = path.join(current, "Anchor.toml");
+    if (fs.existsSync(candidate)) return candidate;
+    const parent = path.dirname(current);
+    if (parent === current) return undefined;
+    current = parent;
+  }
+};
+
+export const readAnchorToml = (file: string): AnchorToml =>
+  toml.parse(fs.readFileSync(file, "utf8"));
+
+/** Maps an `Anchor.toml` cluster name to its RPC endpoint. */
+export const clusterUrl = (cluster: string): string => {
+  switch (cluster) {
+    case "localnet":
+    case "localhost":
+      return LOCALNET_URL;
+    case "mainnet":
+      return clusterApiUrl("mainnet-beta");
+    case "devnet":
+    case "testnet":
+    case "mainnet-beta":
+      return clusterApiUrl(cluster as Cluster);
+    default:
+      return cluster;
+  }
+};
+
+/**
+ * Reads `[provider]` from `Anchor.toml`, letting explicit `url`/`wallet`
+ * values win. Falls back to localnet and the Solana CLI default keypair when
+ * there is no `Anchor.toml`.
+ */
+export const loadProviderConfig = (
+  overrides: { url?: string; wallet?: string; anchorToml?: string } = {}
+): ProviderConfig => {
+  const file = overrides.anchorToml ?? findAnchorToml();
+  const provider = file ? readAnchorToml(file).provider ?? {} : {};
+  const cluster = overrides.url ?? provider.cluster ?? "localnet";
+  return {
+    cluster,
+    url: clusterUrl(cluster),
+    wallet: expandHome(
+      overrides.wallet ?? provider.wallet ?? "~/.config/solana/id.json"
+    ),
+  };
+};
+
+/**
+ * Program ID listed for `cluster` in `Anchor.toml` `[programs.<cluster>]`,
+ * if any. `localhost` entries are also looked up as `localnet`.
+ */
+export const programIdFromAnchorToml = (
+  config: AnchorToml,
+  cluster: string,
+  name = ANCHOR_PROGRAM_NAME
+): PublicKey | undefined => {
+  const names = cluster === "localhost" ? ["localhost", "localnet"] : [cluster];
+  for (const key of names) {
+    const entry = config.programs?.[key]?.[name];
+    if (entry) {
+      return new PublicKey(typeof entry === "string" ? entry : entry.address);
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Loads the program IDL from target/idl next to `Anchor.toml`. Its address is
+ * replaced by `programId` when given, else by the `[programs.<cluster>]` entry.
+ */
+export const loadIdl = (
+  cluster: string,
+  programId?: PublicKey
+): PalapaFunRooms => {
+  const anchorToml = findAnchorToml();
+  const root = anchorToml ? path.dirname(anchorToml) : process.cwd();
+  const idlPath = path.join(root, IDL_PATH);
+  if (!fs.existsSync(idlPath)) {
+    throw new Error(`IDL not found at ${idlPath}; run \`anchor build\` first`);
+  }
+  const idl = JSON.parse(fs.readFileSync(idlPath, "utf8"));
+  const address =
+    programId ??
+    (anchorToml
+      ? programIdFromAnchorToml(readAnchorToml(anchorToml), cluster)
+      : undefined);
+  if (address) idl.address = address.toBase58();
+  return idl;
+};
+
+/** Loads a Solana CLI keypair file (a JSON array of secret key bytes). */
+export const loadKeypair = (file: string): Keypair => {
+  const secret = JSON.parse(fs.readFileSync(expandHome(file), "utf8"));
+  return Keypair.fromSecretKey(Uint8Array.from(secret));
+};
@@ -0,0 +1,886 @@
+#!/usr/bin/env ts-node
+// `palapa` command-line tool for operating rooms.
+//
+//   npm run palapa -- <command> [args] [options]
+//
+// Run with `--help` for the list of commands.
+
+import { parseArgs } from "util";
+import { AnchorProvider, BN, Program, Wallet } from "@coral-xyz/anchor";
+import { Connection, LAMPORTS_PER_SOL, PublicKey } from "@solana/web3.js";
+import { PalapaFunRooms } from "../target/types/palapa_fun_rooms";
+import {
+  ConfigData,
+  PalapaClient,
+  PalapaErrorCode,
+  PalapaProgramError,
+  ROOM_STATUS_INDEX,
+  RoomData,
+  RoomPage,
+  RoomStatusName,
+  RoomTxResult,
+  advertisedPot,
+  decodeInvite,
+  encodeInvite,
+  generateRaffleSecret,
+  isRaffle,
+  listOpenRooms,
+  listRoomsByCreator,
+  listRoomsByEntryFee,
+  listRoomsByPlayer,
+  playerCount,
+  raffleCommitment,
+  revealedPlayers,
+  signInvite,
+  soleWinner,
+  sponsoredTotal,
+  usesTickets,
+  WinnerShare,
+} from "../client";
+import { loadIdl, loadKeypair, loadProviderConfig } from "./config";
+
+export const EXIT_OK = 0;
+export const EXIT_FAILURE = 1;
+export const EXIT_USAGE = 2;
+/** `PalapaError` codes exit with `EXIT_PALAPA_BASE + (code - 6000)`. */
+export const EXIT_PALAPA_BASE = 10;
+
+const USAGE = `Usage: palapa <command> [args] [options]
+
+Commands:
+  create <seed> --max-players <n> --entry-fee <lamports> [--min-players <n>]
+         [--join-deadline <time>] [--settle-deadline <time>]
+         [--mint <pubkey>] [--allowlist <pubkey,...> | --invite-only]
+         [--referees <pubkey,...> [--threshold <n>]]
+         [--dispute-window <seconds> | --reveal-window <seconds>]
+                                   --min-players is the fewest players the
+                                   room can start with and needs a
+                                   --join-deadline. Times are unix
+                                   seconds or ISO 8601 dates;
+                                   with --mint the entry fee is in the
+                                   token's base units. --allowlist and
+                                   --invite-only make a private room;
+                                   --referees lets only them settle it, once
+                                   --threshold of them (default all) approve;
+                                   --dispute-window holds each result that
+                                   long before it can be claimed and needs
+                                   a --settle-deadline;
+                                   --reveal-window makes a raffle drawn from
+                                   the secrets players reveal that long
+                                   after it starts
+  invite <seed> <invitee>          Sign an invite to an invite-only room
+                                   created by the wallet
+  join <creator> <seed> [--invite <invite>] [--secret <hex>]
+                                   Join as the wallet; invite-only rooms need
+                                   the creator's invite. Raffles commit to
+                                   --secret, or to a new one that is printed:
+                                   keep it to reveal it
+  leave <creator> <seed>           Leave an open room and get the entry fee back
+  sponsor <creator> <seed> <lamports> [--fee-exempt]
+                                   Add lamports to the prize pot of an open or
+                                   running room; --fee-exempt pays them to the
+                                   winners without fees. Cancelling or
+                                   expiring the room returns them
+  start <seed>                     Start a room created by the wallet
+  announce <seed> <winner>         Pay out a room created by the wallet
+  announce <seed> <winner>:<bps>...
+                                   Split the prize between several winners,
+                                   first place first (e.g. A:6000 B:3000 C:1000)
+                                   Referees pass --creator <pubkey>
+  approve <creator> <seed> <winner> | <winner>:<bps>...
+                                   Approve a result as a referee of the room
+  dispute <creator> <seed>         Dispute a pending result as a player
+  resolve <seed> <winner> | <winner>:<bps>...
+                                   Settle a disputed result, keeping or
+                                   replacing it; referees pass --creator
+  claim <creator> <seed>           Pay out a result whose dispute window is
+                                   over, or a drawn raffle
+  reveal <creator> <seed> <secret> Reveal the secret the wallet joined a
+                                   raffle with
+  schedule-draw <creator> <seed>   Schedule the draw of a raffle whose reveal
+                                   window is over; the last reveal schedules
+                                   it otherwise
+  draw <creator> <seed>            Draw the winner of a raffle once its draw
+                                   slot has passed
+  cancel <seed>                    Cancel an open room created by the wallet,
+                                   refunding any players
+  expire <creator> <seed>          Expire a room past its deadline, splitting
+                                   the pot between its players
+  close <seed> [--emit-result]     Close a settled room created by the wallet,
+                                   reclaiming its rent; --emit-result logs a
+                                   RoomResult event first
+  close-all [--emit-result]        Close every settled room of the wallet
+  release <creator> <seed>         Release the tickets of a finished room with
+                                   more than 100 seats, refunding their rent
+  show <seed> [--creator <pubkey>] Show a room (creator defaults to the wallet)
+  list [filters]                   List rooms, newest first
+
+List filters:
+  --creator <pubkey>   --player <pubkey>   --status <status>
+  --min-fee <lamports> --max-fee <lamports>
+  --page <n> --page-size <n> --order asc|desc
+  Without --creator, --player, --status or a fee range, open rooms are listed.
+
+Options:
+  -k, --keypair <path>  Wallet keypair (default: Anchor.toml [provider] wallet)
+  -u, --url <url>       RPC URL or cluster name (default: Anchor.toml [provider] cluster)
+      --program-id <id> Program ID (default: Anchor.toml [programs.<cluster>], then the IDL)
+      --json            Print machine-readable JSON
+  -h, --help            Show this help
+
+Exit status: 0 on success, 1 on other failures, 2 on bad usage, and
+${EXIT_PALAPA_BASE} + (code - 6000) for a program error (e.g. ${
+  EXIT_PALAPA_BASE +
+  PalapaErrorCode.RoomFull -
+  PalapaErrorCode.InvalidMaxPlayers
+} for RoomFull).`;
+
+/** Bad command-line input. */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+export const exitCodeFor = (err: unknown): number => {
+  if (err instanceof PalapaProgramError) {
+    return EXIT_PALAPA_BASE + err.code - PalapaErrorCode.InvalidMaxPlayers;
+  }
+  return err instanceof UsageError ? EXIT_USAGE : EXIT_FAILURE;
+};
+
+const OPTIONS = {
+  keypair: { type: "string", short: "k" },
+  url: { type: "string", short: "u" },
+  "program-id": { type: "string" },
+  json: { type: "boolean" },
+  help: { type: "boolean", short: "h" },
+  "max-players": { type: "string" },
+  "min-players": { type: "string" },
+  "entry-fee": { type: "string" },
+  "join-deadline": { type: "string" },
+  "settle-deadline": { type: "string" },
+  mint: { type: "string" },
+  allowlist: { type: "string" },
+  "invite-only": { type: "boolean" },
+  referees: { type: "string" },
+  threshold: { type: "string" },
+  "dispute-window": { type: "string" },
+  "reveal-window": { type: "string" },
+  invite: { type: "string" },
+  secret: { type: "string" },
+  "fee-exempt": { type: "boolean" },
+  "emit-result": { type: "boolean" },
+  creator: { type: "string" },
+  player: { type: "string" },
+  status: { type: "string" },
+  "min-fee": { type: "string" },
+  "max-fee": { type: "string" },
+  page: { type: "string" },
+  "page-size": { type: "string" },
+  order: { type: "string" },
+} as const;
+
+type Flags = ReturnType<typeof parseCommandLine>["values"];
+
+const parseCommandLine = (argv: string[]) => {
+  try {
+    return parseArgs({
+      args: argv,
+      options: OPTIONS,
+      allowPositionals: true,
+      strict: true,
+    });
+  } catch (err) {
+    throw new UsageError((err as Error).message);
+  }
+};
+
+const publicKeyArg = (value: string | undefined, name: string): PublicKey => {
+  if (!value) throw new UsageError(`Missing <${name}>`);
+  try {
+    return new PublicKey(value);
+  } catch {
+    throw new UsageError(`Invalid ${name} public key: ${value}`);
+  }
+};
+
+const integerArg = (value: string | undefined, name: string): number => {
+  if (value === undefined) throw new UsageError(`Missing --${name}`);
+  if (!/^\d+$/.test(value)) {
+    throw new UsageError(`--${name} must be a non-negative integer`);
+  }
+  return Number(value);
+};
+
+const lamportsArg = (value: string | undefined, name: string): BN => {
+  if (value === undefined) throw new UsageError(`Missing --${name}`);
+  if (!/^\d+$/.test(value)) {
+    throw new UsageError(`--${name} must be a whole number of lamports`);
+  }
+  return new BN(value);
+};
+
+/** Unix seconds or an ISO 8601 date, as a `Date`. */
+const deadlineArg = (
+  value: string | undefined,
+  name: string
+): Date | undefined => {
+  if (value === undefined) return undefined;
+  const date = /^\d+$/.test(value)
+    ? new Date(Number(value) * 1000)
+    : new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new UsageError(`--${name} must be unix seconds or an ISO 8601 date`);
+  }
+  return date;
+};
+
+const inviteArg = (value: string | undefined): Uint8Array | undefined => {
+  if (value === undefined) return undefined;
+  try {
+    return decodeInvite(value);
+  } catch {
+    throw new UsageError(`Invalid invite: ${value}`);
+  }
+};
+
+/** A raffle secret: 32 bytes as hex. */
+const secretArg = (value: string, name: string): Uint8Array => {
+  if (!/^[0-9a-fA-F]{64}$/.test(value)) {
+    throw new UsageError(`${name} must be 32 bytes as 64 hex characters`);
+  }
+  return Buffer.from(value, "hex");
+};
+
+/**
+ * `<winner>:<bps>` podium shares, or `undefined` for a single winner given
+ * without a share.
+ */
+const sharesArg = (values: string[]): WinnerShare[] | undefined => {
+  if (values.length <= 1 && !values.some((v) => v.includes(":"))) {
+    return undefined;
+  }
+  return values.map((value) => {
+    const [winner, bps] = value.split(":");
+    if (bps === undefined || !/^\d+$/.test(bps)) {
+      throw new UsageError(
+        `Winner "${value}" needs a share in basis points: <winner>:<bps>`
+      );
+    }
+    return {
+      winner: publicKeyArg(winner, "winner"),
+      shareBasisPoints: Number(bps),
+    };
+  });
+};
+
+const positional = (positionals: string[], index: number, name: string) => {
+  const value = positionals[index];
+  if (value === undefined) throw new UsageError(`Missing <${name}>`);
+  return value;
+};
+
+const statusArg = (value: string): RoomStatusName => {
+  if (!(value in ROOM_STATUS_INDEX)) {
+    throw new UsageError(
+      `--status must be one of ${Object.keys(ROOM_STATUS_INDEX).join(", ")}`
+    );
+  }
+  return value as RoomStatusName;
+};
+
+const statusName = (room: RoomData): string => Object.keys(room.status)[0];
+
+/** Fee rates of the live `Config`, needed to show what a pot pays out. */
+type FeeRates = Pick<
+  ConfigData,
+  "creatorFeeBasisPoints" | "serviceFeeBasisPoints"
+>;
+
+const potOf = (room: RoomData, fees: FeeRates) =>
+  advertisedPot(room, fees.creatorFeeBasisPoints, fees.serviceFeeBasisPoints);
+
+/**
+ * Plain JSON view of a room: keys as base58, amounts as strings. With the
+ * config's `fees` it also shows the pot once full and the prize it pays.
+ */
+export const roomToJson = (
+  address: PublicKey,
+  room: RoomData,
+  fees?: FeeRates
+) => ({
+  address: address.toBase58(),
+  creator: room.creator.toBase58(),
+  roomSeed: room.roomSeed,
+  status: statusName(room),
+  maxPlayers: room.maxPlayers,
+  minPlayers: room.minPlayers,
+  entryFee: room.entryFee.toString(),
+  players: room.players.map((p) => p.toBase58()),
+  playerCount: playerCount(room),
+  usesTickets: usesTickets(room),
+  winners: room.winners.map((w) => w.toBase58()),
+  creationTimestamp: room.creationTimestamp.toNumber(),
+  endTimestamp: room.endTimestamp ? room.endTimestamp.toNumber() : null,
+  joinDeadline: room.joinDeadline ? room.joinDeadline.toNumber() : null,
+  settleDeadline: room.settleDeadline ? room.settleDeadline.toNumber() : null,
+  mint: room.mint ? room.mint.toBase58() : null,
+  access: Object.keys(room.access)[0],
+  allowlist: room.allowlist.map((p) => p.toBase58()),
+  referees: room.referees.map((p) => p.toBase58()),
+  refereeThreshold: room.refereeThreshold,
+  disputeWindow: room.disputeWindow,
+  claimableAt: room.claimableAt ? room.claimableAt.toNumber() : null,
+  disputedBy: room.disputedBy ? room.disputedBy.toBase58() : null,
+  revealWindow: room.revealWindow,
+  revealDeadline: room.revealDeadline ? room.revealDeadline.toNumber() : null,
+  drawSlot: room.drawSlot ? room.drawSlot.toNumber() : null,
+  revealed: revealedPlayers(room).map((p) => p.toBase58()),
+  sponsors: room.sponsors.map(({ sponsor, amount, feeExempt }) => ({
+    sponsor: sponsor.toBase58(),
+    amount: amount.toString(),
+    feeExempt,
+  })),
+  ...(fees
+    ? {
+        pot: potOf(room, fees).total.toString(),
+        prize: potOf(room, fees).prize.toString(),
+      }
+    : {}),
+});
+
+const formatLamports = (lamports: BN): string =>
+  `${lamports.toString()} lamports (${
+    lamports.toNumber() / LAMPORTS_PER_SOL
+  } SOL)`;
+
+/** Entry fee in lamports, or in token base units for token rooms. */
+const formatEntryFee = (room: RoomData): string =>
+  room.mint
+    ? `${room.entryFee.toString()} units of mint ${room.mint.toBase58()}`
+    : formatLamports(room.entryFee);
+
+const formatTime = (unix: number): string =>
+  new Date(unix * 1000).toISOString();
+
+const formatRoom = (
+  address: PublicKey,
+  room: RoomData,
+  fees?: FeeRates
+): string =>
+  [
+    `Room:      ${address.toBase58()}`,
+    `Seed:      ${room.roomSeed}`,
+    `Creator:   ${room.creator.toBase58()}`,
+    `Status:    ${statusName(room)}`,
+    `Players:   ${playerCount(room)}/${room.maxPlayers}${
+      room.minPlayers > 0 ? `, ${room.minPlayers} to start` : ""
+    }${usesTickets(room) ? " (ticket room)" : ""}`,
+    ...room.players.map((p) => `           - ${p.toBase58()}`),
+    `Entry fee: ${formatEntryFee(room)}`,
+    ...(room.sponsors.length > 0
+      ? [
+          `Sponsored: ${formatLamports(sponsoredTotal(room))}`,
+          ...room.sponsors.map(
+            ({ sponsor, amount, feeExempt }) =>
+              `           - ${sponsor.toBase58()}: ${amount.toString()}${
+                feeExempt ? " (fee-exempt)" : ""
+              }`
+          ),
+        ]
+      : []),
+    ...(fees && room.sponsors.length > 0
+      ? [
+          `Pot:       ${formatLamports(potOf(room, fees).total)} once full`,
+          `Prize:     ${formatLamports(potOf(room, fees).prize)} after fees`,
+        ]
+      : []),
+    ...("public" in room.access
+      ? []
+      : [`Access:    ${Object.keys(room.access)[0]}`]),
+    ...room.allowlist.map((p) => `           - ${p.toBase58()}`),
+    ...(room.referees.length > 0
+      ? [`Referees:  ${room.refereeThreshold} of ${room.referees.length}`]
+      : []),
+    ...room.referees.map((p) => `           - ${p.toBase58()}`),
+    `Created:   ${formatTime(room.creationTimestamp.toNumber())}`,
+    ...(room.joinDeadline
+      ? [`Join by:   ${formatTime(room.joinDeadline.toNumber())}`]
+      : []),
+    ...(room.settleDeadline
+      ? [`Settle by: ${formatTime(room.settleDeadline.toNumber())}`]
+      : []),
+    ...room.winners.map(
+      (w, i) =>
+        `${i === 0 ? "Winners:" : "        "}   ${i + 1}. ${w.toBase58()}`
+    ),
+    ...(room.disputeWindow > 0
+      ? [`Disputes:  ${room.disputeWindow}s after the announcement`]
+      : []),
+    ...(isRaffle(room)
+      ? [
+          `Raffle:    ${revealedPlayers(room).length}/${
+            room.players.length
+          } revealed within ${room.revealWindow}s`,
+        ]
+      : []),
+    ...(room.revealDeadline && room.status.inProgress !== undefined
+      ? [`Reveal by: ${formatTime(room.revealDeadline.toNumber())}`]
+      : []),
+    ...(room.drawSlot && room.status.inProgress !== undefined
+      ? [`Draws at:  slot ${room.drawSlot.toString()}`]
+      : []),
+    ...(room.disputedBy ? [`Disputed:  by ${room.disputedBy.toBase58()}`] : []),
+    ...(room.claimableAt && room.status.finished === undefined
+      ? [`Claimable: ${formatTime(room.claimableAt.toNumber())}`]
+      : []),
+    ...(room.endTimestamp
+      ? [`Ended:     ${formatTime(room.endTimestamp.toNumber())}`]
+      : []),
+  ].join("\n");
+
+const formatPage = (page: RoomPage): string => {
+  const first = page.page * page.pageSize;
+  const header = `Rooms ${page.items.length ? first + 1 : 0}-${
+    first + page.items.length
+  } of ${page.total} (page ${page.page})`;
+  const rows = page.items.map(
+    ({ publicKey, account }) =>
+      `${publicKey.toBase58()}  ${statusName(account).padEnd(14)} ${playerCount(
+        account
+      )}/${account.maxPlayers}  ${account.entryFee.toString()} ${
+        account.mint ? "units" : "lamports"
+      }  ${account.roomSeed}`
+  );
+  return [header, ...rows].join("\n");
+};
+
+interface Output {
+  json: unknown;
+  text: string;
+}
+
+const txOutput = (command: string, result: RoomTxResult): Output => ({
+  json: {
+    command,
+    signature: result.signature,
+    vault: result.vaultPda.toBase58(),
+    room: roomToJson(result.roomPda, result.room),
+  },
+  text: `Signature: ${result.signature}\n${formatRoom(
+    result.roomPda,
+    result.room
+  )}`,
+});
+
+/** Builds a client from `Anchor.toml`, the IDL in target/idl and the flags. */
+const createClient = (flags: Flags): PalapaClient => {
+  const config = loadProviderConfig({
+    url: flags.url,
+    wallet: flags.keypair,
+  });
+  const idl = loadIdl(
+    config.cluster,
+    flags["program-id"]
+      ? publicKeyArg(flags["program-id"], "program-id")
+      : undefined
+  );
+  const connection = new Connection(config.url, "confirmed");
+  const wallet = new Wallet(loadKeypair(config.wallet));
+  const provider = new AnchorProvider(connection, wallet, {
+    commitment: "confirmed",
+  });
+  return new PalapaClient(new Program<PalapaFunRooms>(idl, provider));
+};
+
+const listRooms = (
+  program: () => Program<PalapaFunRooms>,
+  flags: Flags
+): Promise<RoomPage> => {
+  const options = {
+    page: flags.page !== undefined ? integerArg(flags.page, "page") : undefined,
+    pageSize:
+      flags["page-size"] !== undefined
+        ? integerArg(flags["page-size"], "page-size")
+        : undefined,
+    order: flags.order as "asc" | "desc" | undefined,
+    status: flags.status !== undefined ? statusArg(flags.status) : undefined,
+  };
+  if (options.order && options.order !== "asc" && options.order !== "desc") {
+    throw new UsageError("--order must be asc or desc");
+  }
+  const optional = <T>(
+    value: string | undefined,
+    parse: (value: string) => T
+  ): T | undefined => (value !== undefined ? parse(value) : undefined);
+  const player = optional(flags.player, (v) => publicKeyArg(v, "player"));
+  const creator = optional(flags.creator, (v) => publicKeyArg(v, "creator"));
+  const range = {
+    min: optional(flags["min-fee"], (v) => lamportsArg(v, "min-fee")),
+    max: optional(flags["max-fee"], (v) => lamportsArg(v, "max-fee")),
+  };
+
+  if (player) return listRoomsByPlayer(program(), player, options);
+  if (creator) return listRoomsByCreator(program(), creator, options);
+  if (range.min || range.max || options.status) {
+    return listRoomsByEntryFee(program(), range, options);
+  }
+  return listOpenRooms(program(), options);
+};
+
+const run = async (
+  command: string,
+  args: string[],
+  flags: Flags
+): Promise<Output> => {
+  // Arguments are validated before the wallet and IDL are loaded.
+  let cached: PalapaClient | undefined;
+  const client = () => (cached ??= createClient(flags));
+  const wallet = () => client().program.provider.publicKey!;
+
+  switch (command) {
+    case "create": {
+      const seed = positional(args, 0, "seed");
+      const maxPlayers = integerArg(flags["max-players"], "max-players");
+      const entryFee = lamportsArg(flags["entry-fee"], "entry-fee");
+      const minPlayers =
+        flags["min-players"] === undefined
+          ? undefined
+          : integerArg(flags["min-players"], "min-players");
+      const joinDeadline = deadlineArg(flags["join-deadline"], "join-deadline");
+      const settleDeadline = deadlineArg(
+        flags["settle-deadline"],
+        "settle-deadline"
+      );
+      const mint =
+        flags.mint === undefined ? undefined : publicKeyArg(flags.mint, "mint");
+      const allowlist = flags.allowlist
+        ?.split(",")
+        .map((key) => publicKeyArg(key.trim(), "allowlist"));
+      const referees = flags.referees
+        ?.split(",")
+        .map((key) => publicKeyArg(key.trim(), "referees"));
+      const refereeThreshold =
+        flags.threshold === undefined
+          ? undefined
+          : integerArg(flags.threshold, "threshold");
+      const disputeWindow =
+        flags["dispute-window"] === undefined
+          ? undefined
+          : integerArg(flags["dispute-window"], "dispute-window");
+      const revealWindow =
+        flags["reveal-window"] === undefined
+          ? undefined
+          : integerArg(flags["reveal-window"], "reveal-window");
+      return txOutput(
+        command,
+        await client().createRoom(wallet(), seed, maxPlayers, entryFee, {
+          joinDeadline,
+          settleDeadline,
+          mint,
+          allowlist,
+          inviteOnly: flags["invite-only"],
+          referees,
+          refereeThreshold,
+          disputeWindow,
+          revealWindow,
+          minPlayers,
+        })
+      );
+    }
+    case "invite": {
+      const seed = positional(args, 0, "seed");
+      const invitee = publicKeyArg(args[1], "invitee");
+      const [roomPda] = client().getRoomPda(wallet(), seed);
+      // Signed offline with the wallet keypair; nothing is sent.
+      const { payer } = client().program.provider.wallet as Wallet;
+      const invite = encodeInvite(signInvite(payer, roomPda, invitee));
+      return {
+        json: {
+          command,
+          room: roomPda.toBase58(),
+          invitee: invitee.toBase58(),
+          invite,
+        },
+        text: `Invite: ${invite}
+Join with: palapa join ${wallet().toBase58()} ${seed} --invite ${invite}`,
+      };
+    }
+    case "join": {
+      const creator = publicKeyArg(args[0], "creator");
+      const seed = positional(args, 1, "seed");
+      const invite = inviteArg(flags.invite);
+      const given =
+        flags.secret === undefined
+          ? undefined
+          : secretArg(flags.secret, "--secret");
+      const [roomPda] = client().getRoomPda(creator, seed);
+      if (!isRaffle(await client().fetchRoomAt(roomPda))) {
+        return txOutput(
+          command,
+          await client().joinRoom(wallet(), creator, seed, { invite })
+        );
+      }
+      const secret = given ?? generateRaffleSecret();
+      const result = await client().joinRoom(wallet(), creator, seed, {
+        invite,
+        raffleCommitment: raffleCommitment(roomPda, wallet(), secret),
+      });
+      const hex = Buffer.from(secret).toString("hex");
+      const output = txOutput(command, result);
+      return {
+        json: { ...(output.json as object), secret: hex },
+        text: `${output.text}
+Secret: ${hex}
+Reveal with: palapa reveal ${creator.toBase58()} ${seed} ${hex}`,
+      };
+    }
+    case "leave": {
+      const creator = publicKeyArg(args[0], "creator");
+      const seed = positional(args, 1, "seed");
+      return txOutput(
+        command,
+        await client().leaveRoom(wallet(), creator, seed)
+      );
+    }
+    case "sponsor": {
+      const creator = publicKeyArg(args[0], "creator");
+      const seed = positional(args, 1, "seed");
+      const lamports = positional(args, 2, "lamports");
+      if (!/^\d+$/.test(lamports)) {
+        throw new UsageError("<lamports> must be a whole number of lamports");
+      }
+      return txOutput(
+        command,
+        await client().addToPot(wallet(), creator, seed, new BN(lamports), {
+          feeExempt: flags["fee-exempt"],
+        })
+      );
+    }
+    case "start": {
+      const seed = positional(args, 0, "seed");
+      return txOutput(command, await client().startRoom(wallet(), seed));
+    }
+    case "announce": {
+      const seed = positional(args, 0, "seed");
+      // Referees settle rooms created by someone else.
+      const creator =
+        flags.creator === undefined
+          ? undefined
+          : publicKeyArg(flags.creator, "creator");
+      const shares = sharesArg(args.slice(1));
+      if (!shares) {
+        const winner = publicKeyArg(args[1], "winner");
+        return txOutput(
+          command,
+          await client().announceWinner(wallet(), seed, winner, { creator })
+        );
+      }
+      return txOutput(
+        command,
+        await client().announceWinners(wallet(), seed, shares, { creator })
+      );
+    }
+    case "approve": {
+      const creator = publicKeyArg(args[0], "creator");
+      const seed = positional(args, 1, "seed");
+      const shares =
+        sharesArg(args.slice(2)) ?? soleWinner(publicKeyArg(args[2], "winner"));
+      return txOutput(
+        command,
+        await client().approveResult(wallet(), creator, seed, shares)
+      );
+    }
+    case "dispute": {
+      const creator = publicKeyArg(args[0], "creator");
+      const seed = positional(args, 1, "seed");
+      return txOutput(
+        command,
+        await client().disputeResult(wallet(), creator, seed)
+      );
+    }
+    case "resolve": {
+      const seed = positional(args, 0, "seed");
+      const creator =
+        flags.creator === undefined
+          ? undefined
+          : publicKeyArg(flags.creator, "creator");
+      const shares =
+        sharesArg(args.slice(1)) ?? soleWinner(publicKeyArg(args[1], "winner"));
+      return txOutput(
+        command,
+        await client().resolveDispute(wallet(), seed, shares, { creator })
+      );
+    }
+    case "claim": {
+      const creator = publicKeyArg(args[0], "creator");
+      const seed = positional(args, 1, "seed");
+      return txOutput(
+        command,
+        await client().claimPrize(wallet(), creator, seed)
+      );
+    }
+    case "reveal": {
+      const creator = publicKeyArg(args[0], "creator");
+      const seed = positional(args, 1, "seed");
+      const secret = secretArg(positional(args, 2, "secret"), "<secret>");
+      return txOutput(
+        command,
+        await client().revealCommitment(wallet(), creator, seed, secret)
+      );
+    }
+    case "schedule-draw": {
+      const creator = publicKeyArg(args[0], "creator");
+      const seed = positional(args, 1, "seed");
+      return txOutput(
+        command,
+        await client().scheduleDraw(wallet(), creator, seed)
+      );
+    }
+    case "draw": {
+      const creator = publicKeyArg(args[0], "creator");
+      const seed = positional(args, 1, "seed");
+      return txOutput(
+        command,
+        await client().drawWinner(wallet(), creator, seed)
+      );
+    }
+    case "cancel": {
+      const seed = positional(args, 0, "seed");
+      return txOutput(
+        command,
+        await client().cancelRoomWithRefunds(wallet(), seed)
+      );
+    }
+    case "expire": {
+      const creator = publicKeyArg(args[0], "creator");
+      const seed = positional(args, 1, "seed");
+      return txOutput(
+        command,
+        await client().expireRoom(wallet(), creator, seed)
+      );
+    }
+    case "close": {
+      const seed = positional(args, 0, "seed");
+      const result = await client().closeRoom(wallet(), seed, {
+        emitResult: flags["emit-result"],
+      });
+      return {
+        json: {
+          command,
+          signature: result.signature,
+          room: result.roomPda.toBase58(),
+          vault: result.vaultPda.toBase58(),
+        },
+        text: `Signature: ${
+          result.signature
+        }\nClosed room ${result.roomPda.toBase58()}`,
+      };
+    }
+    case "close-all": {
+      const result = await client().closeSettledRooms(wallet(), {
+        emitResult: flags["emit-result"],
+      });
+      return {
+        json: {
+          command,
+          signatures: result.signatures,
+          rooms: result.rooms.map((room) => room.toBase58()),
+        },
+        text: [
+          `Closed ${result.rooms.length} room(s)`,
+          ...result.rooms.map((room) => `  - ${room.toBase58()}`),
+          ...result.signatures.map((sig) => `Signature: ${sig}`),
+        ].join("\n"),
+      };
+    }
+    case "release": {
+      const creator = publicKeyArg(args[0], "creator");
+      const seed = positional(args, 1, "seed");
+      return txOutput(
+        command,
+        await client().releaseTickets(wallet(), creator, seed)
+      );
+    }
+    case "show": {
+      const seed = positional(args, 0, "seed");
+      const creator = flags.creator
+        ? publicKeyArg(flags.creator, "creator")
+        : wallet();
+      const [roomPda] = client().getRoomPda(creator, seed);
+      const room = await client().fetchRoomAt(roomPda);
+      const fees = await client().fetchConfig();
+      return {
+        json: roomToJson(roomPda, room, fees),
+        text: formatRoom(roomPda, room, fees),
+      };
+    }
+    case "list": {
+      const page = await listRooms(() => client().program, flags);
+      const fees = await client().fetchConfig();
+      return {
+        json: {
+          page: page.page,
+          pageSize: page.pageSize,
+          total: page.total,
+          items: page.items.map(({ publicKey, account }) =>
+            roomToJson(publicKey, account, fees)
+          ),
+        },
+        text: formatPage(page),
+      };
+    }
+    default:
+      throw new UsageError(`Unknown command: ${command}`);
+  }
+};
+
+const errorToJson = (err: unknown) =>
+  err instanceof PalapaProgramError
+    ? {
+        code: err.code,
+        name: err.errorName,
+        message: err.message,
+        source: err.source,
+        signature: err.signature ?? null,
+      }
+    : {
+        name: (err as Error)?.name ?? "Error",
+        message: (err as Error)?.message ?? String(err),
+      };
+
+/** Runs the CLI and resolves to the process exit status. */
+export const main = async (argv: string[]): Promise<number> => {
+  const json = argv.includes("--json");
+  try {
+    const { values: flags, positionals } = parseCommandLine(argv);
+    const [command, ...args] = positionals;
+    if (flags.help || !command) {
+      console.log(USAGE);
+      return flags.help ? EXIT_OK : EXIT_USAGE;
+    }
+    const output = await run(command, args, flags);
+    console.log(json ? JSON.stringify(output.json, null, 2) : output.text);
+    return EXIT_OK;
+  } catch (err) {
+    const status = exitCodeFor(err);
+    if (json) {
+      console.error(JSON.stringify({ error: errorToJson(err), status }));
+    } else if (err instanceof PalapaProgramError) {
+      console.error(
+        `Error: ${err.errorName} (${err.code}, ${err.source}): ${err.message}`
+      );
+    } else {
+      console.error(`Error: ${(err as Error)?.message ?? err}`);
+      if (err instanceof UsageError)
+        console.error("Run `palapa --help` for usage.");
+    }
+    return status;
+  }
+};
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then((status) => process.exit(status));
+}
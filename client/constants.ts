@@ -0,0 +1,49 @@
+import { BN } from "@coral-xyz/anchor";
+import { PublicKey } from "@solana/web3.js";
+
+// Constants mirrored from programs/solana-playground/src/lib.rs.
+// Keep these in sync with the program after every `anchor build`.
+
+export const ROOM_SEED_PREFIX = Buffer.from("room");
+export const VAULT_SEED_PREFIX = Buffer.from("vault");
+export const CONFIG_SEED_PREFIX = Buffer.from("config");
+export const TICKET_SEED_PREFIX = Buffer.from("ticket");
+
+// Fee Constants
+// The live rates and service wallet are read from the `Config` account; these
+// are the values it is initialized with (see migrations/deploy.ts).
+export const CREATOR_FEE_BASIS_POINTS = new BN(500);
+export const SERVICE_FEE_BASIS_POINTS = new BN(300);
+export const BASIS_POINTS_DENOMINATOR = new BN(10000);
+
+export const SERVICE_WALLET_PUBKEY = new PublicKey(
+  "FDKFLU6mUjfYZRRSrqbS9CPH87MFpae8JSH9Ddt79oRN"
+);
+
+// Caps enforced by `initialize_config` and `update_fees`.
+export const MAX_CREATOR_FEE_BASIS_POINTS = 1000;
+export const MAX_SERVICE_FEE_BASIS_POINTS = 1000;
+
+export const BPF_UPGRADEABLE_LOADER_ID = new PublicKey(
+  "BPFLoaderUpgradeab1e11111111111111111111111"
+);
+
+// Data Size Constants
+export const MAX_ROOM_SEED_LEN = 32;
+export const MAX_PLAYERS_ALLOWED = 10_000;
+/** Larger rooms track their players with `PlayerTicket` PDAs. */
+export const MAX_INLINE_PLAYERS = 100;
+export const MAX_WINNERS = 10;
+/** Most players an allowlist room can list; use invites for more. */
+export const MAX_ALLOWLIST_LEN = 20;
+export const MAX_REFEREES = 5;
+/** Longest dispute window a room can have, in seconds (7 days). */
+export const MAX_DISPUTE_WINDOW = 7 * 24 * 60 * 60;
+/** Longest reveal window a raffle can have, in seconds (7 days). */
+export const MAX_REVEAL_WINDOW = 7 * 24 * 60 * 60;
+/** How many slots after its scheduling a raffle's draw slot is. */
+export const DRAW_DELAY_SLOTS = 10;
+/** Slots after its draw slot that a raffle can still be drawn. */
+export const DRAW_SLOT_LIFETIME = 512;
+/** Most sponsor contributions a room's pot can take. */
+export const MAX_SPONSORS = 5;
@@ -0,0 +1,28 @@
+import { RoomData, WinnerShare } from "./palapa-client";
+
+// Rooms created with a dispute window don't pay out on announcement. The
+// result waits in `pendingPayout` until `claimableAt`, and any player can
+// dispute it until then, freezing it until `resolve_dispute`. Times are unix
+// seconds; the program checks them against the cluster clock, which can be a
+// few seconds off the local one.
+
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+/** The announced result of a room as shares, e.g. to uphold it on a dispute. */
+export const pendingResult = (room: RoomData): WinnerShare[] =>
+  room.winners.map((winner, i) => ({
+    winner,
+    shareBasisPoints: room.winnerShares[i],
+  }));
+
+/** Whether a player can still `dispute_result` the room's pending result. */
+export const isDisputable = (room: RoomData, now = nowSeconds()): boolean =>
+  "pendingPayout" in room.status &&
+  room.claimableAt !== null &&
+  now < room.claimableAt.toNumber();
+
+/** Whether `claim_prize` can pay the room's result out. */
+export const isClaimable = (room: RoomData, now = nowSeconds()): boolean =>
+  "pendingPayout" in room.status &&
+  room.claimableAt !== null &&
+  now >= room.claimableAt.toNumber();
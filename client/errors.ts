@@ -0,0 +1,479 @@
+import { AnchorError, ProgramError } from "@coral-xyz/anchor";
+import { SendTransactionError, TransactionSignature } from "@solana/web3.js";
+
+// Error codes mirrored from `PalapaError` in programs/solana-playground/src/lib.rs.
+export enum PalapaErrorCode {
+  InvalidMaxPlayers = 6000,
+  InvalidEntryFee = 6001,
+  InvalidRoomSeed = 6002,
+  BumpSeedNotFound = 6003,
+  RoomNotJoinable = 6004,
+  RoomFull = 6005,
+  PlayerAlreadyJoined = 6006,
+  RoomNotInProgress = 6007,
+  WinnerNotInRoom = 6008,
+  WinnerAccountMismatch = 6009,
+  VaultNotEmptyAfterPayout = 6010,
+  Unauthorized = 6011,
+  CannotCancelRoomState = 6012,
+  CannotCancelRoomPlayersJoined = 6013,
+  CalculationOverflow = 6014,
+  InvalidServiceWallet = 6015,
+  InsufficientFundsForPayout = 6016,
+  MaxPlayersExceedsLimit = 6017,
+  InvalidCreator = 6018,
+  RoomNotOpenForStarting = 6019,
+  FeeTooHigh = 6020,
+  UnauthorizedAdmin = 6021,
+  PlayerNotInRoom = 6022,
+  CannotLeaveRoomState = 6023,
+  RefundAccountMismatch = 6024,
+  InvalidDeadline = 6025,
+  JoinDeadlinePassed = 6026,
+  SettleDeadlinePassed = 6027,
+  RoomNotExpired = 6028,
+  InvalidPrizeSplit = 6029,
+  MissingTokenAccounts = 6030,
+  TokenAccountMismatch = 6031,
+  TokenRoomUnsupported = 6032,
+  RoomNotSettled = 6033,
+  MissingPlayerTicket = 6034,
+  PlayerTicketMismatch = 6035,
+  RoomNotFinished = 6036,
+  PlayerNotInvited = 6037,
+  InvalidAllowlist = 6038,
+  InvalidReferees = 6039,
+  NotAReferee = 6040,
+  NotEnoughApprovals = 6041,
+  InvalidDisputeWindow = 6042,
+  DisputeWindowClosed = 6043,
+  RoomNotDisputed = 6044,
+  PayoutNotClaimable = 6045,
+  InvalidRaffle = 6046,
+  MissingCommitment = 6047,
+  NotARaffle = 6048,
+  RaffleDrawOnly = 6049,
+  RevealWindowClosed = 6050,
+  AlreadyRevealed = 6051,
+  CommitmentMismatch = 6052,
+  RevealsPending = 6053,
+  InvalidMinPlayers = 6054,
+  NotEnoughPlayers = 6055,
+  InvalidContribution = 6056,
+  RoomNotSponsorable = 6057,
+  TooManySponsors = 6058,
+  SponsorAccountMismatch = 6059,
+  DrawAlreadyScheduled = 6060,
+  NothingRevealed = 6061,
+  DrawSlotPending = 6062,
+  DrawSlotExpired = 6063,
+}
+
+// `#[msg(...)]` text for every `PalapaError` variant.
+export const PALAPA_ERROR_MESSAGES: Record<PalapaErrorCode, string> = {
+  [PalapaErrorCode.InvalidMaxPlayers]:
+    "Invalid number of maximum players specified (must be > 1).",
+  [PalapaErrorCode.InvalidEntryFee]: "Entry fee must be greater than zero.",
+  [PalapaErrorCode.InvalidRoomSeed]:
+    "Room seed is invalid (empty or too long).",
+  [PalapaErrorCode.BumpSeedNotFound]: "Could not find PDA bump seed.",
+  [PalapaErrorCode.RoomNotJoinable]:
+    "Room is not in the correct state to be joined.",
+  [PalapaErrorCode.RoomFull]: "The room is already full.",
+  [PalapaErrorCode.PlayerAlreadyJoined]:
+    "This player has already joined the room.",
+  [PalapaErrorCode.RoomNotInProgress]:
+    "The room is not in progress, cannot announce winner.",
+  [PalapaErrorCode.WinnerNotInRoom]:
+    "The declared winner is not listed as a player in this room.",
+  [PalapaErrorCode.WinnerAccountMismatch]:
+    "The provided winner account does not match the winner pubkey.",
+  [PalapaErrorCode.VaultNotEmptyAfterPayout]:
+    "Vault account was not empty after payout/recovery. Check transfer logic.",
+  [PalapaErrorCode.Unauthorized]:
+    "Unauthorized: Only the room creator can perform this action.",
+  [PalapaErrorCode.CannotCancelRoomState]:
+    "Room cannot be cancelled in its current state (must be Open/Created).",
+  [PalapaErrorCode.CannotCancelRoomPlayersJoined]:
+    "Room cannot be cancelled because players have already joined.",
+  [PalapaErrorCode.CalculationOverflow]:
+    "Arithmetic overflow during fee or payout calculation.",
+  [PalapaErrorCode.InvalidServiceWallet]:
+    "The provided service fee recipient account does not match the expected address.",
+  [PalapaErrorCode.InsufficientFundsForPayout]:
+    "Insufficient funds in vault to cover calculated fees and payout (negative prize share).",
+  [PalapaErrorCode.MaxPlayersExceedsLimit]:
+    "Requested max players exceeds the program's limit used for space allocation.",
+  [PalapaErrorCode.InvalidCreator]:
+    "Invalid Creator account provided for seed derivation.",
+  [PalapaErrorCode.RoomNotOpenForStarting]:
+    "Room is not in the OpenForJoining state, cannot be started.",
+  [PalapaErrorCode.FeeTooHigh]: "Fee basis points exceed the program's cap.",
+  [PalapaErrorCode.UnauthorizedAdmin]:
+    "Unauthorized: Only the config admin can perform this action.",
+  [PalapaErrorCode.PlayerNotInRoom]: "This player has not joined the room.",
+  [PalapaErrorCode.CannotLeaveRoomState]:
+    "Players can only leave a room while it is OpenForJoining.",
+  [PalapaErrorCode.RefundAccountMismatch]:
+    "Refund accounts must be the room's first players, in order, and writable.",
+  [PalapaErrorCode.InvalidDeadline]:
+    "Deadlines must be in the future, and the settle deadline after the join deadline.",
+  [PalapaErrorCode.JoinDeadlinePassed]:
+    "The room's deadline has passed; it can only be expired.",
+  [PalapaErrorCode.SettleDeadlinePassed]:
+    "The room's settle deadline has passed; the winner can no longer be announced.",
+  [PalapaErrorCode.RoomNotExpired]:
+    "The room has not missed a deadline, so it cannot be expired.",
+  [PalapaErrorCode.InvalidPrizeSplit]:
+    "Winner shares must list 1 to 10 distinct winners whose basis points sum to 10000.",
+  [PalapaErrorCode.MissingTokenAccounts]:
+    "Token rooms need the mint, token program and token accounts for this instruction.",
+  [PalapaErrorCode.TokenAccountMismatch]:
+    "A token account or mint does not match the room's mint and expected owner.",
+  [PalapaErrorCode.TokenRoomUnsupported]:
+    "This is not supported for token rooms yet.",
+  [PalapaErrorCode.RoomNotSettled]:
+    "Only finished rooms, or cancelled and expired rooms with every refund paid, can be closed.",
+  [PalapaErrorCode.MissingPlayerTicket]:
+    "Rooms with more than 100 seats need the player's ticket account for this instruction.",
+  [PalapaErrorCode.PlayerTicketMismatch]:
+    "A ticket account does not belong to this room and player, or is not expected here.",
+  [PalapaErrorCode.RoomNotFinished]:
+    "Tickets can only be released once the room is finished.",
+  [PalapaErrorCode.PlayerNotInvited]:
+    "This room is private: the player is not on its allowlist or has no valid invite from the creator.",
+  [PalapaErrorCode.InvalidAllowlist]:
+    "Allowlist rooms need 1 to 20 allowlisted players, and other rooms none.",
+  [PalapaErrorCode.InvalidReferees]:
+    "Rooms can have up to 5 distinct referees, with a threshold between 1 and their number (0 without referees).",
+  [PalapaErrorCode.NotAReferee]:
+    "Only the room's referees can approve or announce its result.",
+  [PalapaErrorCode.NotEnoughApprovals]:
+    "Not enough referees approved this result.",
+  [PalapaErrorCode.InvalidDisputeWindow]:
+    "Dispute windows can be at most 7 days and need a settle deadline.",
+  [PalapaErrorCode.DisputeWindowClosed]:
+    "Results can only be disputed while their payout is pending and the dispute window is open.",
+  [PalapaErrorCode.RoomNotDisputed]: "Only a disputed result can be resolved.",
+  [PalapaErrorCode.PayoutNotClaimable]:
+    "The prize can only be claimed once the result's dispute window is over.",
+  [PalapaErrorCode.InvalidRaffle]:
+    "Raffles need a reveal window of up to 7 days, at most 100 seats, lamport entry fees and no referees or dispute window.",
+  [PalapaErrorCode.MissingCommitment]:
+    "Raffle players must join with a commitment, and players of other rooms without one.",
+  [PalapaErrorCode.NotARaffle]:
+    "Only raffle rooms have commitments to reveal and winners to draw.",
+  [PalapaErrorCode.RaffleDrawOnly]:
+    "Raffle winners are drawn with draw_winner, not announced.",
+  [PalapaErrorCode.RevealWindowClosed]:
+    "Commitments can only be revealed while the room is in progress, before its reveal deadline.",
+  [PalapaErrorCode.AlreadyRevealed]:
+    "This player has already revealed their commitment.",
+  [PalapaErrorCode.CommitmentMismatch]:
+    "The secret does not match the player's commitment.",
+  [PalapaErrorCode.RevealsPending]:
+    "The raffle's draw can only be scheduled, and then drawn, once every player revealed or the reveal deadline passed.",
+  [PalapaErrorCode.InvalidMinPlayers]:
+    "Minimum players cannot exceed max players, and need a join deadline.",
+  [PalapaErrorCode.NotEnoughPlayers]:
+    "The room cannot start before it has its minimum number of players.",
+  [PalapaErrorCode.InvalidContribution]:
+    "Contributions to the pot must be positive.",
+  [PalapaErrorCode.RoomNotSponsorable]:
+    "Only rooms that are open or in progress, before their deadlines, can be sponsored.",
+  [PalapaErrorCode.TooManySponsors]:
+    "The room already has the maximum number of sponsor contributions.",
+  [PalapaErrorCode.SponsorAccountMismatch]:
+    "Sponsor accounts must be the room's sponsors, in order and writable, ahead of the refunded players.",
+  [PalapaErrorCode.DrawAlreadyScheduled]:
+    "The raffle's draw is already scheduled.",
+  [PalapaErrorCode.NothingRevealed]:
+    "Nobody revealed their commitment, so the raffle can only be expired.",
+  [PalapaErrorCode.DrawSlotPending]:
+    "No block has been produced at or after the raffle's draw slot yet.",
+  [PalapaErrorCode.DrawSlotExpired]:
+    "The raffle's draw slot is too old to draw with; schedule the draw again.",
+};
+
+/**
+ * Where a failure was detected: during preflight simulation (nothing landed,
+ * no fee charged) or on-chain after the transaction was processed.
+ */
+export type PalapaErrorSource = "simulation" | "onchain" | "unknown";
+
+/** Base class for every decoded `PalapaError`. */
+export class PalapaProgramError extends Error {
+  readonly code: PalapaErrorCode;
+  readonly errorName: string;
+  readonly source: PalapaErrorSource;
+  readonly logs: string[];
+  readonly signature?: TransactionSignature;
+
+  constructor(
+    code: PalapaErrorCode,
+    source: PalapaErrorSource,
+    logs: string[] = [],
+    signature?: TransactionSignature
+  ) {
+    super(PALAPA_ERROR_MESSAGES[code]);
+    this.name = new.target.name;
+    this.code = code;
+    this.errorName = PalapaErrorCode[code];
+    this.source = source;
+    this.logs = logs;
+    this.signature = signature;
+  }
+
+  get isSimulation(): boolean {
+    return this.source === "simulation";
+  }
+
+  get isOnChain(): boolean {
+    return this.source === "onchain";
+  }
+}
+
+export class InvalidMaxPlayersError extends PalapaProgramError {}
+export class InvalidEntryFeeError extends PalapaProgramError {}
+export class InvalidRoomSeedError extends PalapaProgramError {}
+export class BumpSeedNotFoundError extends PalapaProgramError {}
+export class RoomNotJoinableError extends PalapaProgramError {}
+export class RoomFullError extends PalapaProgramError {}
+export class PlayerAlreadyJoinedError extends PalapaProgramError {}
+export class RoomNotInProgressError extends PalapaProgramError {}
+export class WinnerNotInRoomError extends PalapaProgramError {}
+export class WinnerAccountMismatchError extends PalapaProgramError {}
+export class VaultNotEmptyAfterPayoutError extends PalapaProgramError {}
+export class UnauthorizedError extends PalapaProgramError {}
+export class CannotCancelRoomStateError extends PalapaProgramError {}
+export class CannotCancelRoomPlayersJoinedError extends PalapaProgramError {}
+export class CalculationOverflowError extends PalapaProgramError {}
+export class InvalidServiceWalletError extends PalapaProgramError {}
+export class InsufficientFundsForPayoutError extends PalapaProgramError {}
+export class MaxPlayersExceedsLimitError extends PalapaProgramError {}
+export class InvalidCreatorError extends PalapaProgramError {}
+export class RoomNotOpenForStartingError extends PalapaProgramError {}
+export class FeeTooHighError extends PalapaProgramError {}
+export class UnauthorizedAdminError extends PalapaProgramError {}
+export class PlayerNotInRoomError extends PalapaProgramError {}
+export class CannotLeaveRoomStateError extends PalapaProgramError {}
+export class RefundAccountMismatchError extends PalapaProgramError {}
+export class InvalidDeadlineError extends PalapaProgramError {}
+export class JoinDeadlinePassedError extends PalapaProgramError {}
+export class SettleDeadlinePassedError extends PalapaProgramError {}
+export class RoomNotExpiredError extends PalapaProgramError {}
+export class InvalidPrizeSplitError extends PalapaProgramError {}
+export class MissingTokenAccountsError extends PalapaProgramError {}
+export class TokenAccountMismatchError extends PalapaProgramError {}
+export class TokenRoomUnsupportedError extends PalapaProgramError {}
+export class RoomNotSettledError extends PalapaProgramError {}
+export class MissingPlayerTicketError extends PalapaProgramError {}
+export class PlayerTicketMismatchError extends PalapaProgramError {}
+export class RoomNotFinishedError extends PalapaProgramError {}
+export class PlayerNotInvitedError extends PalapaProgramError {}
+export class InvalidAllowlistError extends PalapaProgramError {}
+export class InvalidRefereesError extends PalapaProgramError {}
+export class NotARefereeError extends PalapaProgramError {}
+export class NotEnoughApprovalsError extends PalapaProgramError {}
+export class InvalidDisputeWindowError extends PalapaProgramError {}
+export class DisputeWindowClosedError extends PalapaProgramError {}
+export class RoomNotDisputedError extends PalapaProgramError {}
+export class PayoutNotClaimableError extends PalapaProgramError {}
+export class InvalidRaffleError extends PalapaProgramError {}
+export class MissingCommitmentError extends PalapaProgramError {}
+export class NotARaffleError extends PalapaProgramError {}
+export class RaffleDrawOnlyError extends PalapaProgramError {}
+export class RevealWindowClosedError extends PalapaProgramError {}
+export class AlreadyRevealedError extends PalapaProgramError {}
+export class CommitmentMismatchError extends PalapaProgramError {}
+export class RevealsPendingError extends PalapaProgramError {}
+export class InvalidMinPlayersError extends PalapaProgramError {}
+export class NotEnoughPlayersError extends PalapaProgramError {}
+export class InvalidContributionError extends PalapaProgramError {}
+export class RoomNotSponsorableError extends PalapaProgramError {}
+export class TooManySponsorsError extends PalapaProgramError {}
+export class SponsorAccountMismatchError extends PalapaProgramError {}
+export class DrawAlreadyScheduledError extends PalapaProgramError {}
+export class NothingRevealedError extends PalapaProgramError {}
+export class DrawSlotPendingError extends PalapaProgramError {}
+export class DrawSlotExpiredError extends PalapaProgramError {}
+
+type PalapaErrorClass = new (
+  code: PalapaErrorCode,
+  source: PalapaErrorSource,
+  logs?: string[],
+  signature?: TransactionSignature
+) => PalapaProgramError;
+
+const ERROR_CLASSES: Record<PalapaErrorCode, PalapaErrorClass> = {
+  [PalapaErrorCode.InvalidMaxPlayers]: InvalidMaxPlayersError,
+  [PalapaErrorCode.InvalidEntryFee]: InvalidEntryFeeError,
+  [PalapaErrorCode.InvalidRoomSeed]: InvalidRoomSeedError,
+  [PalapaErrorCode.BumpSeedNotFound]: BumpSeedNotFoundError,
+  [PalapaErrorCode.RoomNotJoinable]: RoomNotJoinableError,
+  [PalapaErrorCode.RoomFull]: RoomFullError,
+  [PalapaErrorCode.PlayerAlreadyJoined]: PlayerAlreadyJoinedError,
+  [PalapaErrorCode.RoomNotInProgress]: RoomNotInProgressError,
+  [PalapaErrorCode.WinnerNotInRoom]: WinnerNotInRoomError,
+  [PalapaErrorCode.WinnerAccountMismatch]: WinnerAccountMismatchError,
+  [PalapaErrorCode.VaultNotEmptyAfterPayout]: VaultNotEmptyAfterPayoutError,
+  [PalapaErrorCode.Unauthorized]: UnauthorizedError,
+  [PalapaErrorCode.CannotCancelRoomState]: CannotCancelRoomStateError,
+  [PalapaErrorCode.CannotCancelRoomPlayersJoined]:
+    CannotCancelRoomPlayersJoinedError,
+  [PalapaErrorCode.CalculationOverflow]: CalculationOverflowError,
+  [PalapaErrorCode.InvalidServiceWallet]: InvalidServiceWalletError,
+  [PalapaErrorCode.InsufficientFundsForPayout]: InsufficientFundsForPayoutError,
+  [PalapaErrorCode.MaxPlayersExceedsLimit]: MaxPlayersExceedsLimitError,
+  [PalapaErrorCode.InvalidCreator]: InvalidCreatorError,
+  [PalapaErrorCode.RoomNotOpenForStarting]: RoomNotOpenForStartingError,
+  [PalapaErrorCode.FeeTooHigh]: FeeTooHighError,
+  [PalapaErrorCode.UnauthorizedAdmin]: UnauthorizedAdminError,
+  [PalapaErrorCode.PlayerNotInRoom]: PlayerNotInRoomError,
+  [PalapaErrorCode.CannotLeaveRoomState]: CannotLeaveRoomStateError,
+  [PalapaErrorCode.RefundAccountMismatch]: RefundAccountMismatchError,
+  [PalapaErrorCode.InvalidDeadline]: InvalidDeadlineError,
+  [PalapaErrorCode.JoinDeadlinePassed]: JoinDeadlinePassedError,
+  [PalapaErrorCode.SettleDeadlinePassed]: SettleDeadlinePassedError,
+  [PalapaErrorCode.RoomNotExpired]: RoomNotExpiredError,
+  [PalapaErrorCode.InvalidPrizeSplit]: InvalidPrizeSplitError,
+  [PalapaErrorCode.MissingTokenAccounts]: MissingTokenAccountsError,
+  [PalapaErrorCode.TokenAccountMismatch]: TokenAccountMismatchError,
+  [PalapaErrorCode.TokenRoomUnsupported]: TokenRoomUnsupportedError,
+  [PalapaErrorCode.RoomNotSettled]: RoomNotSettledError,
+  [PalapaErrorCode.MissingPlayerTicket]: MissingPlayerTicketError,
+  [PalapaErrorCode.PlayerTicketMismatch]: PlayerTicketMismatchError,
+  [PalapaErrorCode.RoomNotFinished]: RoomNotFinishedError,
+  [PalapaErrorCode.PlayerNotInvited]: PlayerNotInvitedError,
+  [PalapaErrorCode.InvalidAllowlist]: InvalidAllowlistError,
+  [PalapaErrorCode.InvalidReferees]: InvalidRefereesError,
+  [PalapaErrorCode.NotAReferee]: NotARefereeError,
+  [PalapaErrorCode.NotEnoughApprovals]: NotEnoughApprovalsError,
+  [PalapaErrorCode.InvalidDisputeWindow]: InvalidDisputeWindowError,
+  [PalapaErrorCode.DisputeWindowClosed]: DisputeWindowClosedError,
+  [PalapaErrorCode.RoomNotDisputed]: RoomNotDisputedError,
+  [PalapaErrorCode.PayoutNotClaimable]: PayoutNotClaimableError,
+  [PalapaErrorCode.InvalidRaffle]: InvalidRaffleError,
+  [PalapaErrorCode.MissingCommitment]: MissingCommitmentError,
+  [PalapaErrorCode.NotARaffle]: NotARaffleError,
+  [PalapaErrorCode.RaffleDrawOnly]: RaffleDrawOnlyError,
+  [PalapaErrorCode.RevealWindowClosed]: RevealWindowClosedError,
+  [PalapaErrorCode.AlreadyRevealed]: AlreadyRevealedError,
+  [PalapaErrorCode.CommitmentMismatch]: CommitmentMismatchError,
+  [PalapaErrorCode.RevealsPending]: RevealsPendingError,
+  [PalapaErrorCode.InvalidMinPlayers]: InvalidMinPlayersError,
+  [PalapaErrorCode.NotEnoughPlayers]: NotEnoughPlayersError,
+  [PalapaErrorCode.InvalidContribution]: InvalidContributionError,
+  [PalapaErrorCode.RoomNotSponsorable]: RoomNotSponsorableError,
+  [PalapaErrorCode.TooManySponsors]: TooManySponsorsError,
+  [PalapaErrorCode.SponsorAccountMismatch]: SponsorAccountMismatchError,
+  [PalapaErrorCode.DrawAlreadyScheduled]: DrawAlreadyScheduledError,
+  [PalapaErrorCode.NothingRevealed]: NothingRevealedError,
+  [PalapaErrorCode.DrawSlotPending]: DrawSlotPendingError,
+  [PalapaErrorCode.DrawSlotExpired]: DrawSlotExpiredError,
+};
+
+export const isPalapaErrorCode = (code: number): code is PalapaErrorCode =>
+  ERROR_CLASSES[code as PalapaErrorCode] !== undefined;
+
+/** Builds the typed error class for a known `PalapaError` code. */
+export const palapaErrorFromCode = (
+  code: PalapaErrorCode,
+  source: PalapaErrorSource = "unknown",
+  logs: string[] = [],
+  signature?: TransactionSignature
+): PalapaProgramError => new ERROR_CLASSES[code](code, source, logs, signature);
+
+const ANCHOR_LOG_CODE = /Error Number: (\d+)\./;
+const CUSTOM_HEX_CODE = /custom program error: 0x([0-9a-fA-F]+)/;
+const CUSTOM_JSON_CODE = /"Custom":\s*(\d+)/;
+
+const codeFromText = (text: string): number | undefined => {
+  const anchor = ANCHOR_LOG_CODE.exec(text);
+  if (anchor) return Number(anchor[1]);
+  const hex = CUSTOM_HEX_CODE.exec(text);
+  if (hex) return parseInt(hex[1], 16);
+  const json = CUSTOM_JSON_CODE.exec(text);
+  if (json) return Number(json[1]);
+  return undefined;
+};
+
+/** `err.message`, if `err` is an object with a string message. */
+const messageOf = (err: unknown): string | undefined =>
+  typeof err === "object" &&
+  err !== null &&
+  "message" in err &&
+  typeof err.message === "string"
+    ? err.message
+    : undefined;
+
+/** `err.logs`, if `err` is an object with an array of log lines. */
+const logsOf = (err: unknown): string[] =>
+  typeof err === "object" &&
+  err !== null &&
+  "logs" in err &&
+  Array.isArray(err.logs)
+    ? err.logs.filter((line): line is string => typeof line === "string")
+    : [];
+
+/** `err.signature`, if `err` is an object with a string signature. */
+const signatureOf = (err: unknown): TransactionSignature | undefined =>
+  typeof err === "object" &&
+  err !== null &&
+  "signature" in err &&
+  typeof err.signature === "string"
+    ? err.signature
+    : undefined;
+
+const sourceOf = (err: unknown): PalapaErrorSource => {
+  const message = messageOf(err) ?? "";
+  if (message.startsWith("Simulation failed")) return "simulation";
+  if (
+    message.includes("resulted in an error") ||
+    /Raw transaction \w+ failed/.test(message)
+  ) {
+    return "onchain";
+  }
+  return "unknown";
+};
+
+/**
+ * Decodes any error thrown while sending a palapa_fun_rooms transaction
+ * (`AnchorError`, `ProgramError`, `SendTransactionError`, confirmation
+ * errors) into its typed `PalapaProgramError` subclass. Returns `null` when
+ * the failure is not a `PalapaError` (e.g. an Anchor constraint or a
+ * client-side validation error).
+ */
+export const decodePalapaError = (
+  err: unknown,
+  source?: PalapaErrorSource
+): PalapaProgramError | null => {
+  if (err instanceof PalapaProgramError) return err;
+  if (!err) return null;
+
+  let code: number | undefined;
+  let logs: string[] = [];
+
+  if (err instanceof AnchorError) {
+    code = err.error.errorCode.number;
+    logs = err.logs ?? [];
+  } else if (err instanceof ProgramError) {
+    code = err.code;
+    logs = err.logs ?? [];
+  } else {
+    logs = err instanceof SendTransactionError ? err.logs ?? [] : logsOf(err);
+    code = codeFromText(logs.join("\n"));
+    const message = messageOf(err);
+    if (code === undefined && message !== undefined) {
+      code = codeFromText(message);
+    }
+  }
+
+  if (code === undefined || !isPalapaErrorCode(code)) return null;
+  return palapaErrorFromCode(
+    code,
+    source ?? sourceOf(err),
+    logs,
+    signatureOf(err)
+  );
+};
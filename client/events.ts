@@ -0,0 +1,203 @@
+import { EventParser, IdlEvents, Program } from "@coral-xyz/anchor";
+import {
+  Commitment,
+  ConfirmedSignatureInfo,
+  PublicKey,
+  TransactionSignature,
+} from "@solana/web3.js";
+import { PalapaFunRooms } from "../target/types/palapa_fun_rooms";
+
+// The program `emit!`s an event on every room lifecycle change. Unlike the
+// `RoomWatcher` transitions, which are diffed from account snapshots, these
+// come straight from the transaction logs and carry the amounts that moved.
+
+export type PalapaEvents = IdlEvents<PalapaFunRooms>;
+
+export type PalapaEventName = keyof PalapaEvents;
+
+export interface PalapaEventOf<N extends PalapaEventName> {
+  name: N;
+  data: PalapaEvents[N];
+  signature: TransactionSignature;
+  slot: number;
+  /** Only known for events fetched from history. */
+  blockTime?: number | null;
+}
+
+export type PalapaEvent = {
+  [N in PalapaEventName]: PalapaEventOf<N>;
+}[PalapaEventName];
+
+/** Events of this program in `logs`, in the order they were emitted. */
+export const parseEvents = (
+  program: Program<PalapaFunRooms>,
+  logs: string[]
+): Pick<PalapaEvent, "name" | "data">[] => {
+  const parser = new EventParser(program.programId, program.coder);
+  return [...parser.parseLogs(logs)] as Pick<PalapaEvent, "name" | "data">[];
+};
+
+/**
+ * Events emitted by a confirmed transaction. A failed transaction changed
+ * nothing, so it yields none even if it logged events before failing.
+ */
+export const fetchTransactionEvents = async (
+  program: Program<PalapaFunRooms>,
+  signature: TransactionSignature
+): Promise<PalapaEvent[]> => {
+  const tx = await program.provider.connection.getTransaction(signature, {
+    commitment: "confirmed",
+    maxSupportedTransactionVersion: 0,
+  });
+  if (!tx || !tx.meta) {
+    throw new Error(`Transaction ${signature} not found`);
+  }
+  if (tx.meta.err) return [];
+  return parseEvents(program, tx.meta.logMessages ?? []).map(
+    (event) =>
+      ({
+        ...event,
+        signature,
+        slot: tx.slot,
+        blockTime: tx.blockTime ?? null,
+      } as PalapaEvent)
+  );
+};
+
+export interface RoomHistoryOptions {
+  /** Most recent transactions to scan; the RPC default is 1000. */
+  limit?: number;
+  /** Only scan transactions older than this one, to page backwards. */
+  before?: TransactionSignature;
+  /** Stop at this transaction, e.g. the newest one already processed. */
+  until?: TransactionSignature;
+}
+
+/**
+ * Events of one room, oldest first, recovered from the transactions that
+ * touched its `RoomData` account. Works after `close_room` too, as long as
+ * the RPC node still has the transactions.
+ */
+export const fetchRoomEvents = async (
+  program: Program<PalapaFunRooms>,
+  roomPda: PublicKey,
+  options: RoomHistoryOptions = {}
+): Promise<PalapaEvent[]> => {
+  const signatures: ConfirmedSignatureInfo[] =
+    await program.provider.connection.getSignaturesForAddress(
+      roomPda,
+      options,
+      "confirmed"
+    );
+  const events: PalapaEvent[] = [];
+  // Newest first from the RPC; one request at a time to stay under rate limits.
+  for (const { signature, err } of signatures.reverse()) {
+    if (err) continue;
+    const txEvents = await fetchTransactionEvents(program, signature);
+    events.push(...txEvents.filter((event) => event.data.room.equals(roomPda)));
+  }
+  return events;
+};
+
+export interface ListenOptions {
+  /** Only report events of this room. */
+  roomPda?: PublicKey;
+  commitment?: Commitment;
+}
+
+type Listener<N extends PalapaEventName> = (event: PalapaEventOf<N>) => void;
+
+/**
+ * Subscribes to the program's logs (`PalapaClient.listenEvents`) and emits
+ * the decoded events of successful transactions. Unlike `RoomWatcher` it has
+ * nothing to re-fetch: events logged while the websocket was reconnecting are
+ * lost, so use `fetchRoomEvents` to catch up.
+ */
+export class PalapaEventListener {
+  private readonly listeners = new Map<
+    PalapaEventName,
+    Set<(event: never) => void>
+  >();
+  private readonly errorListeners = new Set<(err: unknown) => void>();
+  private subscriptionId?: number;
+
+  private constructor(
+    readonly program: Program<PalapaFunRooms>,
+    readonly options: ListenOptions
+  ) {}
+
+  static listen(
+    program: Program<PalapaFunRooms>,
+    options: ListenOptions = {}
+  ): PalapaEventListener {
+    const listener = new PalapaEventListener(program, options);
+    listener.start();
+    return listener;
+  }
+
+  private get connection() {
+    return this.program.provider.connection;
+  }
+
+  on<N extends PalapaEventName>(name: N, listener: Listener<N>): this {
+    if (!this.listeners.has(name)) this.listeners.set(name, new Set());
+    this.listeners.get(name)!.add(listener);
+    return this;
+  }
+
+  off<N extends PalapaEventName>(name: N, listener: Listener<N>): this {
+    this.listeners.get(name)?.delete(listener);
+    return this;
+  }
+
+  /**
+   * Failures while decoding logs or in listeners; the listener keeps running.
+   * Without an error listener they are dropped.
+   */
+  onError(listener: (err: unknown) => void): this {
+    this.errorListeners.add(listener);
+    return this;
+  }
+
+  async close(): Promise<void> {
+    if (this.subscriptionId === undefined) return;
+    const id = this.subscriptionId;
+    this.subscriptionId = undefined;
+    await this.connection.removeOnLogsListener(id);
+  }
+
+  private start(): void {
+    this.subscriptionId = this.connection.onLogs(
+      this.program.programId,
+      ({ signature, err, logs }, { slot }) => {
+        if (err) return;
+        let events: Pick<PalapaEvent, "name" | "data">[];
+        try {
+          events = parseEvents(this.program, logs);
+        } catch (error) {
+          return this.fail(error);
+        }
+        const { roomPda } = this.options;
+        for (const event of events) {
+          if (roomPda && !event.data.room.equals(roomPda)) continue;
+          this.emit({ ...event, signature, slot } as PalapaEvent);
+        }
+      },
+      this.options.commitment ?? "confirmed"
+    );
+  }
+
+  private emit(event: PalapaEvent): void {
+    this.listeners.get(event.name)?.forEach((listener) => {
+      try {
+        (listener as (event: PalapaEvent) => void)(event);
+      } catch (err) {
+        this.fail(err);
+      }
+    });
+  }
+
+  private fail(err: unknown): void {
+    this.errorListeners.forEach((listener) => listener(err));
+  }
+}
@@ -0,0 +1,18 @@
+export * from "./constants";
+export * from "./disputes";
+export * from "./errors";
+export * from "./events";
+export * from "./invites";
+export * from "./layout";
+export * from "./pda";
+export * from "./palapa-client";
+export * from "./payout";
+export * from "./queries";
+export * from "./raffles";
+export * from "./receipts";
+export * from "./referees";
+export * from "./sponsors";
+export * from "./tickets";
+export * from "./tokens";
+export * from "./transaction";
+export * from "./watch";
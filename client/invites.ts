@@ -0,0 +1,68 @@
+import { utils } from "@coral-xyz/anchor";
+import { ed25519 } from "@noble/curves/ed25519";
+import {
+  Ed25519Program,
+  Keypair,
+  PublicKey,
+  TransactionInstruction,
+} from "@solana/web3.js";
+
+// Invite rooms only admit players holding an invite: the creator's ed25519
+// signature over the room PDA followed by the invitee. Invites are signed and
+// verified offline; `join_room` checks them through an Ed25519 program
+// instruction placed right before it.
+
+/** The 64 bytes a creator signs to invite `invitee` to `room`. */
+export const inviteMessage = (room: PublicKey, invitee: PublicKey): Buffer =>
+  Buffer.concat([room.toBuffer(), invitee.toBuffer()]);
+
+/** Signs an invite to `room` (the room PDA) for `invitee`. */
+export const signInvite = (
+  creator: Keypair,
+  room: PublicKey,
+  invitee: PublicKey
+): Uint8Array =>
+  ed25519.sign(inviteMessage(room, invitee), creator.secretKey.slice(0, 32));
+
+/** Whether `invite` is `creator`'s signed invite to `room` for `invitee`. */
+export const verifyInvite = (
+  invite: Uint8Array,
+  creator: PublicKey,
+  room: PublicKey,
+  invitee: PublicKey
+): boolean => {
+  try {
+    return ed25519.verify(
+      invite,
+      inviteMessage(room, invitee),
+      creator.toBytes()
+    );
+  } catch {
+    return false; // Malformed signature
+  }
+};
+
+/** Invites travel as base58 strings, like transaction signatures. */
+export const encodeInvite = (invite: Uint8Array): string =>
+  utils.bytes.bs58.encode(Buffer.from(invite));
+
+export const decodeInvite = (invite: string): Uint8Array => {
+  const bytes = utils.bytes.bs58.decode(invite);
+  if (bytes.length !== 64) {
+    throw new Error(`Invalid invite: expected 64 bytes, got ${bytes.length}`);
+  }
+  return bytes;
+};
+
+/** The Ed25519 program instruction that must come right before `join_room`. */
+export const inviteInstruction = (
+  creator: PublicKey,
+  room: PublicKey,
+  invitee: PublicKey,
+  invite: Uint8Array
+): TransactionInstruction =>
+  Ed25519Program.createInstructionWithPublicKey({
+    publicKey: creator.toBytes(),
+    message: inviteMessage(room, invitee),
+    signature: invite,
+  });
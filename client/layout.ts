@@ -0,0 +1,31 @@
+// Byte offsets of the fixed-size `RoomData` header, as serialized by Borsh
+// (see the `RoomData` struct in programs/solana-playground/src/lib.rs).
+// Fields after `vault_bump` are variable-length and cannot be used in `memcmp`.
+
+export const ROOM_DISCRIMINATOR_OFFSET = 0;
+export const ROOM_CREATOR_OFFSET = 8;
+export const ROOM_STATUS_OFFSET = 40;
+export const ROOM_MAX_PLAYERS_OFFSET = 41;
+export const ROOM_ENTRY_FEE_OFFSET = 43;
+export const ROOM_CREATION_TIMESTAMP_OFFSET = 51;
+export const ROOM_BUMP_OFFSET = 59;
+export const ROOM_VAULT_BUMP_OFFSET = 60;
+export const ROOM_SEED_OFFSET = 61;
+
+/** Borsh variant index of each `RoomStatus`. */
+export const ROOM_STATUS_INDEX = {
+  created: 0,
+  openForJoining: 1,
+  inProgress: 2,
+  finished: 3,
+  cancelled: 4,
+  expired: 5,
+  pendingPayout: 6,
+  disputed: 7,
+} as const;
+
+export type RoomStatusName = keyof typeof ROOM_STATUS_INDEX;
+
+// `PlayerTicket` is fixed-size: the discriminator, then `room` and `player`.
+export const TICKET_ROOM_OFFSET = 8;
+export const TICKET_PLAYER_OFFSET = 40;
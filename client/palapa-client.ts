@@ -0,0 +1,1640 @@
+import { BN, IdlAccounts, IdlTypes, Program } from "@coral-xyz/anchor";
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+} from "@solana/spl-token";
+import {
+  AccountMeta,
+  Commitment,
+  PublicKey,
+  Signer,
+  SystemProgram,
+  SYSVAR_INSTRUCTIONS_PUBKEY,
+  SYSVAR_SLOT_HASHES_PUBKEY,
+  TransactionInstruction,
+  TransactionSignature,
+} from "@solana/web3.js";
+import { PalapaFunRooms } from "../target/types/palapa_fun_rooms";
+import {
+  getConfigPda,
+  getProgramDataAddress,
+  getRoomPda,
+  getTicketPda,
+  getVaultPda,
+} from "./pda";
+import {
+  fetchRoomEvents,
+  ListenOptions,
+  PalapaEvent,
+  PalapaEventListener,
+  RoomHistoryOptions,
+} from "./events";
+import { inviteInstruction } from "./invites";
+import { roomCreatorFilter } from "./queries";
+import { soleWinner } from "./referees";
+import { sponsorAccounts } from "./sponsors";
+import { listTicketHolders, playerCount, usesTickets } from "./tickets";
+import { createTokenAccountInstructions, getTokenAddress } from "./tokens";
+import { PalapaTransaction, TransactionOptions } from "./transaction";
+import { RoomWatcher, WatchOptions } from "./watch";
+
+export type RoomData = IdlAccounts<PalapaFunRooms>["roomData"];
+export type ConfigData = IdlAccounts<PalapaFunRooms>["config"];
+export type PlayerTicket = IdlAccounts<PalapaFunRooms>["playerTicket"];
+/** One podium place for `announce_winners`: `{ winner, shareBasisPoints }`. */
+export type WinnerShare = IdlTypes<PalapaFunRooms>["winnerShare"];
+
+/**
+ * The wallet acting in an instruction. A `Signer` is added to the transaction
+ * signers; a bare `PublicKey` is expected to be the provider wallet.
+ */
+export type Actor = PublicKey | Signer;
+
+export interface PalapaClientOptions {
+  /**
+   * Service fee recipient passed to `announce_winner`. Defaults to the one in
+   * the `Config` account.
+   */
+  serviceWallet?: PublicKey;
+  /** Commitment used to confirm transactions and fetch rooms. */
+  commitment?: Commitment;
+  /** Send without preflight simulation; failures then surface on-chain. */
+  skipPreflight?: boolean;
+  /** Defaults for every transaction: compute budget, priority fee, retries. */
+  transaction?: TransactionOptions;
+}
+
+export interface RoomTxResult {
+  signature: TransactionSignature;
+  roomPda: PublicKey;
+  vaultPda: PublicKey;
+  room: RoomData;
+}
+
+export interface ConfigTxResult {
+  signature: TransactionSignature;
+  configPda: PublicKey;
+  config: ConfigData;
+}
+
+export interface InitialConfig {
+  creatorFeeBasisPoints: number;
+  serviceFeeBasisPoints: number;
+  serviceWallet: PublicKey;
+}
+
+/** Players refunded per `cancel_room_with_refunds`/`expire_room` transaction by default. */
+export const DEFAULT_REFUND_BATCH_SIZE = 20;
+/**
+ * Players refunded or released per transaction in ticket rooms, which pass
+ * two accounts per player.
+ */
+export const DEFAULT_TICKET_BATCH_SIZE = 10;
+/**
+ * Players refunded per transaction in token rooms, which also pass each
+ * player's token account and make sure it exists.
+ */
+export const DEFAULT_TOKEN_REFUND_BATCH_SIZE = 6;
+
+export interface RefundOptions extends TransactionOptions {
+  /**
+   * Players refunded per transaction. Defaults to `DEFAULT_REFUND_BATCH_SIZE`,
+   * `DEFAULT_TICKET_BATCH_SIZE` in ticket rooms, or
+   * `DEFAULT_TOKEN_REFUND_BATCH_SIZE` in token rooms.
+   */
+  batchSize?: number;
+}
+
+export interface RefundTxResult extends RoomTxResult {
+  /** One signature per batch, in the order they were sent. */
+  signatures: TransactionSignature[];
+}
+
+/** Rooms closed per `closeSettledRooms` transaction by default. */
+export const DEFAULT_CLOSE_BATCH_SIZE = 8;
+
+export interface CloseRoomOptions extends TransactionOptions {
+  /** Emit a `RoomResult` event with the room's outcome before closing it. */
+  emitResult?: boolean;
+}
+
+export interface CloseSettledRoomsOptions extends CloseRoomOptions {
+  /** Rooms closed per transaction. Defaults to `DEFAULT_CLOSE_BATCH_SIZE`. */
+  batchSize?: number;
+}
+
+export interface CloseTxResult {
+  signature: TransactionSignature;
+  roomPda: PublicKey;
+  vaultPda: PublicKey;
+}
+
+/** One `closeSettledRooms` transaction and the rooms it closes. */
+export interface CloseBatch {
+  rooms: PublicKey[];
+  transaction: PalapaTransaction;
+}
+
+export interface CloseSettledRoomsResult {
+  /** One signature per batch, in the order they were sent. */
+  signatures: TransactionSignature[];
+  /** Closed room accounts, in the order they were closed. */
+  rooms: PublicKey[];
+}
+
+/**
+ * Whether `close_room` accepts the room: finished with every ticket released,
+ * or cancelled or expired with every refund paid.
+ */
+export const isRoomSettled = (room: RoomData): boolean =>
+  "finished" in room.status
+    ? room.ticketCount === 0
+    : ("cancelled" in room.status || "expired" in room.status) &&
+      playerCount(room) === 0;
+
+/** A point in time: a `Date`, or unix seconds as a number or `BN`. */
+export type Deadline = Date | number | BN;
+
+export interface CreateRoomOptions extends TransactionOptions {
+  /** After this, nobody can join or start the room and anyone can expire it. */
+  joinDeadline?: Deadline;
+  /**
+   * After this, the winner can no longer be announced and anyone can expire
+   * the room. Must be after `joinDeadline`.
+   */
+  settleDeadline?: Deadline;
+  /**
+   * Makes a token room: the entry fee is in this mint's base units and is
+   * held by the vault's associated token account. Token rooms can't have a
+   * dispute or reveal window, take sponsors or split the prize between
+   * several winners.
+   */
+  mint?: PublicKey;
+  /** Makes a private room that only these players can join. */
+  allowlist?: PublicKey[];
+  /**
+   * Makes a private room that only players holding an invite signed by the
+   * creator can join (see `signInvite`).
+   */
+  inviteOnly?: boolean;
+  /**
+   * Makes a refereed room: only these referees can settle it, once
+   * `refereeThreshold` of them approved the result (see `approveResult`).
+   */
+  referees?: PublicKey[];
+  /** Referees who must approve a result. Defaults to all of them. */
+  refereeThreshold?: number;
+  /**
+   * Seconds during which players can dispute an announced result before
+   * `claimPrize` pays it out, up to `MAX_DISPUTE_WINDOW`. Defaults to 0:
+   * winners are paid on announcement. Lamport rooms only, and requires a
+   * `settleDeadline`: a dispute still open then is refunded by `expireRoom`.
+   */
+  disputeWindow?: number;
+  /**
+   * Makes a raffle: players join with a `raffleCommitment`, reveal its secret
+   * within this many seconds of the room starting, up to `MAX_REVEAL_WINDOW`,
+   * and `drawWinner` picks the winner among those who revealed. Lamport rooms of at most
+   * `MAX_INLINE_PLAYERS` players, without referees or a dispute window.
+   */
+  revealWindow?: number;
+  /**
+   * Fewest players `startRoom` accepts, up to `maxPlayers`. Needs a
+   * `joinDeadline`: a room still short of it then can only be expired,
+   * refunding its players.
+   * Defaults to 0: the creator can start it at any time.
+   */
+  minPlayers?: number;
+}
+
+export interface SettleOptions extends TransactionOptions {
+  /**
+   * The room creator, when a referee settles the room. Defaults to the
+   * acting wallet.
+   */
+  creator?: PublicKey;
+  /**
+   * Other referees approving the result in the same transaction: their
+   * `approve_result` instructions go before the announcement. `Signer`s sign
+   * it right away; for a bare `PublicKey`, `serialize()` the transaction and
+   * collect the referee's signature with `cosignTransaction`.
+   */
+  approvers?: Actor[];
+}
+
+export interface JoinRoomOptions extends TransactionOptions {
+  /** The creator's signed invite, required to join invite-only rooms. */
+  invite?: Uint8Array;
+  /**
+   * The player's `raffleCommitment`, required to join raffles. Keep the
+   * secret: it must be revealed with `revealCommitment` once the room starts.
+   */
+  raffleCommitment?: Uint8Array;
+}
+
+export interface AddToPotOptions extends TransactionOptions {
+  /** Pay the contribution to the winners without creator or service fees. */
+  feeExempt?: boolean;
+}
+
+const toUnixSeconds = (deadline: Deadline | undefined): BN | null => {
+  if (deadline === undefined) return null;
+  if (deadline instanceof Date) {
+    return new BN(Math.floor(deadline.getTime() / 1000));
+  }
+  return new BN(deadline);
+};
+
+const chunks = <T>(items: T[], batchSize: number): T[][] => {
+  if (!Number.isInteger(batchSize) || batchSize < 1) {
+    throw new Error(`batchSize must be a positive integer, got ${batchSize}`);
+  }
+  const batches: T[][] = [];
+  for (let i = 0; i < items.length; i += batchSize) {
+    batches.push(items.slice(i, i + batchSize));
+  }
+  return batches;
+};
+
+/** Splits `players` into refund batches; an empty room still gets one call. */
+const refundBatches = (
+  players: PublicKey[],
+  batchSize: number
+): PublicKey[][] => {
+  const batches = chunks(players, batchSize);
+  if (batches.length === 0) batches.push([]);
+  return batches;
+};
+
+/** Remaining accounts that receive lamports: refunded players or winners. */
+const writableAccounts = (keys: PublicKey[]) =>
+  keys.map((pubkey) => ({ pubkey, isWritable: true, isSigner: false }));
+
+/** One `cancel_room_with_refunds`/`expire_room` call: its players and remaining accounts. */
+interface RefundBatch {
+  players: PublicKey[];
+  accounts: AccountMeta[];
+}
+
+/**
+ * The token accounts `cancel_room_with_refunds` and `expire_room` take, all
+ * null outside token rooms.
+ */
+const refundTokenAccounts = (
+  mint: PublicKey | null,
+  vault: PublicKey,
+  creator: PublicKey
+) => ({
+  mint,
+  vaultTokenAccount: mint && getTokenAddress(mint, vault),
+  creatorTokenAccount: mint && getTokenAddress(mint, creator),
+  tokenProgram: mint && TOKEN_PROGRAM_ID,
+});
+
+const keyOf = (actor: Actor): PublicKey =>
+  actor instanceof PublicKey ? actor : actor.publicKey;
+
+const signersOf = (actor: Actor): Signer[] =>
+  actor instanceof PublicKey ? [] : [actor];
+
+/** Typed wrapper around the palapa_fun_rooms program instructions. */
+export class PalapaClient {
+  readonly serviceWallet?: PublicKey;
+  readonly commitment: Commitment;
+  readonly skipPreflight: boolean;
+  readonly transactionOptions: TransactionOptions;
+
+  constructor(
+    readonly program: Program<PalapaFunRooms>,
+    options: PalapaClientOptions = {}
+  ) {
+    this.serviceWallet = options.serviceWallet;
+    this.commitment = options.commitment ?? "confirmed";
+    this.skipPreflight = options.skipPreflight ?? false;
+    this.transactionOptions = options.transaction ?? {};
+  }
+
+  get programId(): PublicKey {
+    return this.program.programId;
+  }
+
+  get connection() {
+    return this.program.provider.connection;
+  }
+
+  getRoomPda(creator: PublicKey, roomSeed: string): [PublicKey, number] {
+    return getRoomPda(this.programId, creator, roomSeed);
+  }
+
+  getVaultPda(creator: PublicKey, roomSeed: string): [PublicKey, number] {
+    return getVaultPda(this.programId, creator, roomSeed);
+  }
+
+  getConfigPda(): [PublicKey, number] {
+    return getConfigPda(this.programId);
+  }
+
+  getTicketPda(roomPda: PublicKey, player: PublicKey): [PublicKey, number] {
+    return getTicketPda(this.programId, roomPda, player);
+  }
+
+  async fetchConfig(): Promise<ConfigData> {
+    return this.program.account.config.fetch(
+      this.getConfigPda()[0],
+      this.commitment
+    );
+  }
+
+  async fetchRoom(creator: PublicKey, roomSeed: string): Promise<RoomData> {
+    const [roomPda] = this.getRoomPda(creator, roomSeed);
+    return this.fetchRoomAt(roomPda);
+  }
+
+  async fetchRoomAt(roomPda: PublicKey): Promise<RoomData> {
+    return this.program.account.roomData.fetch(roomPda, this.commitment);
+  }
+
+  /** Emits transition events for one room; `close()` the watcher when done. */
+  watchRoom(
+    creator: PublicKey,
+    roomSeed: string,
+    options: WatchOptions = {}
+  ): Promise<RoomWatcher> {
+    const [roomPda] = this.getRoomPda(creator, roomSeed);
+    return RoomWatcher.watchRoom(this.program, roomPda, {
+      commitment: this.commitment,
+      ...options,
+    });
+  }
+
+  /** Emits transition events for every room of the program. */
+  watchAll(options: WatchOptions = {}): Promise<RoomWatcher> {
+    return RoomWatcher.watchAll(this.program, {
+      commitment: this.commitment,
+      ...options,
+    });
+  }
+
+  /** Emits the program's events as they are logged; `close()` it when done. */
+  listenEvents(options: ListenOptions = {}): PalapaEventListener {
+    return PalapaEventListener.listen(this.program, {
+      commitment: this.commitment,
+      ...options,
+    });
+  }
+
+  /** Every event a room has emitted so far, oldest first. */
+  fetchRoomEvents(
+    creator: PublicKey,
+    roomSeed: string,
+    options: RoomHistoryOptions = {}
+  ): Promise<PalapaEvent[]> {
+    const [roomPda] = this.getRoomPda(creator, roomSeed);
+    return fetchRoomEvents(this.program, roomPda, options);
+  }
+
+  /** Unsent `create_room` call, to simulate, serialize or send. */
+  async createRoomTransaction(
+    creator: Actor,
+    roomSeed: string,
+    maxPlayers: number,
+    entryFee: BN | number,
+    {
+      joinDeadline,
+      settleDeadline,
+      mint,
+      allowlist,
+      inviteOnly,
+      referees,
+      refereeThreshold,
+      disputeWindow,
+      revealWindow,
+      minPlayers,
+      ...options
+    }: CreateRoomOptions = {}
+  ): Promise<PalapaTransaction> {
+    const creatorKey = keyOf(creator);
+    const [vaultPda] = this.getVaultPda(creatorKey, roomSeed);
+    const ix = await this.program.methods
+      .createRoom(
+        roomSeed,
+        maxPlayers,
+        new BN(entryFee),
+        toUnixSeconds(joinDeadline),
+        toUnixSeconds(settleDeadline),
+        inviteOnly
+          ? { invite: {} }
+          : allowlist
+          ? { allowlist: {} }
+          : { public: {} },
+        allowlist ?? [],
+        referees ?? [],
+        refereeThreshold ?? referees?.length ?? 0,
+        disputeWindow ?? 0,
+        revealWindow ?? 0,
+        minPlayers ?? 0
+      )
+      .accountsPartial({
+        creator: creatorKey,
+        roomData: this.getRoomPda(creatorKey, roomSeed)[0],
+        roomVault: vaultPda,
+        systemProgram: SystemProgram.programId,
+        mint: mint ?? null,
+        vaultTokenAccount: mint ? getTokenAddress(mint, vaultPda) : null,
+        tokenProgram: mint ? TOKEN_PROGRAM_ID : null,
+        associatedTokenProgram: mint ? ASSOCIATED_TOKEN_PROGRAM_ID : null,
+      })
+      .instruction();
+    return this.transaction([ix], signersOf(creator), options);
+  }
+
+  /**
+   * In a token room the fee is paid from the player's associated token
+   * account. In a ticket room the player's `PlayerTicket` is created too. In
+   * an invite-only room the invite's Ed25519 instruction is added before it.
+   */
+  async joinRoomTransaction(
+    player: Actor,
+    creator: PublicKey,
+    roomSeed: string,
+    { invite, raffleCommitment, ...options }: JoinRoomOptions = {}
+  ): Promise<PalapaTransaction> {
+    const playerKey = keyOf(player);
+    const [roomPda] = this.getRoomPda(creator, roomSeed);
+    const [vaultPda] = this.getVaultPda(creator, roomSeed);
+    const room = await this.fetchRoomAt(roomPda);
+    const { mint } = room;
+    const inviteOnly = "invite" in room.access;
+    const ix = await this.program.methods
+      .joinRoom(
+        roomSeed,
+        raffleCommitment ? Array.from(raffleCommitment) : null
+      )
+      .accountsPartial({
+        player: playerKey,
+        roomData: roomPda,
+        roomVault: vaultPda,
+        systemProgram: SystemProgram.programId,
+        mint,
+        playerTokenAccount: mint && getTokenAddress(mint, playerKey),
+        vaultTokenAccount: mint && getTokenAddress(mint, vaultPda),
+        tokenProgram: mint && TOKEN_PROGRAM_ID,
+        playerTicket: usesTickets(room)
+          ? this.getTicketPda(roomPda, playerKey)[0]
+          : null,
+        instructionsSysvar: inviteOnly ? SYSVAR_INSTRUCTIONS_PUBKEY : null,
+      })
+      .instruction();
+    const setup =
+      inviteOnly && invite
+        ? [inviteInstruction(creator, roomPda, playerKey, invite)]
+        : [];
+    return this.transaction([...setup, ix], signersOf(player), options);
+  }
+
+  async leaveRoomTransaction(
+    player: Actor,
+    creator: PublicKey,
+    roomSeed: string,
+    options: TransactionOptions = {}
+  ): Promise<PalapaTransaction> {
+    const playerKey = keyOf(player);
+    const [roomPda] = this.getRoomPda(creator, roomSeed);
+    const [vaultPda] = this.getVaultPda(creator, roomSeed);
+    const room = await this.fetchRoomAt(roomPda);
+    const { mint } = room;
+    const ix = await this.program.methods
+      .leaveRoom(roomSeed)
+      .accountsPartial({
+        player: playerKey,
+        roomData: roomPda,
+        roomVault: vaultPda,
+        systemProgram: SystemProgram.programId,
+        mint,
+        playerTokenAccount: mint && getTokenAddress(mint, playerKey),
+        vaultTokenAccount: mint && getTokenAddress(mint, vaultPda),
+        tokenProgram: mint && TOKEN_PROGRAM_ID,
+        playerTicket: usesTickets(room)
+          ? this.getTicketPda(roomPda, playerKey)[0]
+          : null,
+      })
+      .instruction();
+    return this.transaction([ix], signersOf(player), options);
+  }
+
+  async addToPotTransaction(
+    sponsor: Actor,
+    creator: PublicKey,
+    roomSeed: string,
+    amount: BN | number,
+    { feeExempt = false, ...options }: AddToPotOptions = {}
+  ): Promise<PalapaTransaction> {
+    const ix = await this.program.methods
+      .addToPot(roomSeed, new BN(amount), feeExempt)
+      .accountsPartial({
+        sponsor: keyOf(sponsor),
+        roomData: this.getRoomPda(creator, roomSeed)[0],
+        roomVault: this.getVaultPda(creator, roomSeed)[0],
+        systemProgram: SystemProgram.programId,
+      })
+      .instruction();
+    return this.transaction([ix], signersOf(sponsor), options);
+  }
+
+  async startRoomTransaction(
+    creator: Actor,
+    roomSeed: string,
+    options: TransactionOptions = {}
+  ): Promise<PalapaTransaction> {
+    const creatorKey = keyOf(creator);
+    const ix = await this.program.methods
+      .startRoom(roomSeed)
+      .accountsPartial({
+        creator: creatorKey,
+        roomData: this.getRoomPda(creatorKey, roomSeed)[0],
+      })
+      .instruction();
+    return this.transaction([ix], signersOf(creator), options);
+  }
+
+  /**
+   * In a token room the fees and prize go to associated token accounts; those
+   * of the creator, service wallet and winner are created first if missing,
+   * paid by `authority`: the creator, or the settling referee in a refereed
+   * room.
+   */
+  async announceWinnerTransaction(
+    authority: Actor,
+    roomSeed: string,
+    winner: PublicKey,
+    { creator, approvers = [], ...options }: SettleOptions = {}
+  ): Promise<PalapaTransaction> {
+    const authorityKey = keyOf(authority);
+    const creatorKey = creator ?? authorityKey;
+    const serviceWallet =
+      this.serviceWallet ?? (await this.fetchConfig()).serviceWallet;
+    const [roomPda] = this.getRoomPda(creatorKey, roomSeed);
+    const [vaultPda] = this.getVaultPda(creatorKey, roomSeed);
+    const room = await this.fetchRoomAt(roomPda);
+    const { mint } = room;
+    const ix = await this.program.methods
+      .announceWinner(roomSeed, winner)
+      .accountsPartial({
+        creator: creatorKey,
+        roomData: roomPda,
+        roomVault: vaultPda,
+        winnerAccount: winner,
+        config: this.getConfigPda()[0],
+        serviceFeeRecipient: serviceWallet,
+        systemProgram: SystemProgram.programId,
+        mint,
+        vaultTokenAccount: mint && getTokenAddress(mint, vaultPda),
+        creatorTokenAccount: mint && getTokenAddress(mint, creatorKey),
+        serviceFeeTokenAccount: mint && getTokenAddress(mint, serviceWallet),
+        winnerTokenAccount: mint && getTokenAddress(mint, winner),
+        tokenProgram: mint && TOKEN_PROGRAM_ID,
+        winnerTicket: usesTickets(room)
+          ? this.getTicketPda(roomPda, winner)[0]
+          : null,
+        authority: authorityKey,
+      })
+      .instruction();
+    const setup = mint
+      ? createTokenAccountInstructions(authorityKey, mint, [
+          creatorKey,
+          serviceWallet,
+          winner,
+        ])
+      : [];
+    const approvals = await this.approvalInstructions(
+      approvers,
+      creatorKey,
+      roomSeed,
+      soleWinner(winner)
+    );
+    return this.transaction(
+      [...setup, ...approvals, ix],
+      [authority, ...approvers].flatMap(signersOf),
+      options
+    );
+  }
+
+  /**
+   * `announce_winners`; `shares` go from first place down and their basis
+   * points must sum to 10000. The winners are passed as remaining accounts,
+   * followed by their tickets in a ticket room.
+   */
+  async announceWinnersTransaction(
+    authority: Actor,
+    roomSeed: string,
+    shares: WinnerShare[],
+    { creator, approvers = [], ...options }: SettleOptions = {}
+  ): Promise<PalapaTransaction> {
+    const authorityKey = keyOf(authority);
+    const creatorKey = creator ?? authorityKey;
+    const serviceWallet =
+      this.serviceWallet ?? (await this.fetchConfig()).serviceWallet;
+    const [roomPda] = this.getRoomPda(creatorKey, roomSeed);
+    const room = await this.fetchRoomAt(roomPda);
+    const winners = shares.map(({ winner }) => winner);
+    const tickets = usesTickets(room)
+      ? winners.map((winner) => ({
+          pubkey: this.getTicketPda(roomPda, winner)[0],
+          isWritable: false,
+          isSigner: false,
+        }))
+      : [];
+    const ix = await this.program.methods
+      .announceWinners(roomSeed, shares)
+      .accountsPartial({
+        creator: creatorKey,
+        roomData: roomPda,
+        roomVault: this.getVaultPda(creatorKey, roomSeed)[0],
+        config: this.getConfigPda()[0],
+        serviceFeeRecipient: serviceWallet,
+        systemProgram: SystemProgram.programId,
+        authority: authorityKey,
+      })
+      .remainingAccounts([...writableAccounts(winners), ...tickets])
+      .instruction();
+    const approvals = await this.approvalInstructions(
+      approvers,
+      creatorKey,
+      roomSeed,
+      shares
+    );
+    return this.transaction(
+      [...approvals, ix],
+      [authority, ...approvers].flatMap(signersOf),
+      options
+    );
+  }
+
+  /**
+   * `approve_result` by a referee of a refereed room. `shares` must be what
+   * will be announced: `soleWinner(winner)` for `announce_winner`.
+   */
+  async approveResultTransaction(
+    referee: Actor,
+    creator: PublicKey,
+    roomSeed: string,
+    shares: WinnerShare[],
+    options: TransactionOptions = {}
+  ): Promise<PalapaTransaction> {
+    const [ix] = await this.approvalInstructions(
+      [referee],
+      creator,
+      roomSeed,
+      shares
+    );
+    return this.transaction([ix], signersOf(referee), options);
+  }
+
+  /**
+   * `dispute_result` by a player of a room whose result is pending; passes
+   * the player's ticket in a ticket room.
+   */
+  async disputeResultTransaction(
+    player: Actor,
+    creator: PublicKey,
+    roomSeed: string,
+    options: TransactionOptions = {}
+  ): Promise<PalapaTransaction> {
+    const playerKey = keyOf(player);
+    const [roomPda] = this.getRoomPda(creator, roomSeed);
+    const room = await this.fetchRoomAt(roomPda);
+    const ix = await this.program.methods
+      .disputeResult(roomSeed)
+      .accountsPartial({
+        player: playerKey,
+        roomData: roomPda,
+        playerTicket: usesTickets(room)
+          ? this.getTicketPda(roomPda, playerKey)[0]
+          : null,
+      })
+      .instruction();
+    return this.transaction([ix], signersOf(player), options);
+  }
+
+  /**
+   * `resolve_dispute`, signed like `announceWinnersTransaction`. Pass the
+   * room's `pendingResult` to uphold it, or other `shares` to replace it.
+   * The winners' tickets follow in a ticket room.
+   */
+  async resolveDisputeTransaction(
+    authority: Actor,
+    roomSeed: string,
+    shares: WinnerShare[],
+    { creator, approvers = [], ...options }: SettleOptions = {}
+  ): Promise<PalapaTransaction> {
+    const authorityKey = keyOf(authority);
+    const creatorKey = creator ?? authorityKey;
+    const [roomPda] = this.getRoomPda(creatorKey, roomSeed);
+    const room = await this.fetchRoomAt(roomPda);
+    const tickets = usesTickets(room)
+      ? shares.map(({ winner }) => ({
+          pubkey: this.getTicketPda(roomPda, winner)[0],
+          isWritable: false,
+          isSigner: false,
+        }))
+      : [];
+    const ix = await this.program.methods
+      .resolveDispute(roomSeed, shares)
+      .accountsPartial({ authority: authorityKey, roomData: roomPda })
+      .remainingAccounts(tickets)
+      .instruction();
+    const approvals = await this.approvalInstructions(
+      approvers,
+      creatorKey,
+      roomSeed,
+      shares
+    );
+    return this.transaction(
+      [...approvals, ix],
+      [authority, ...approvers].flatMap(signersOf),
+      options
+    );
+  }
+
+  /**
+   * `claim_prize` for a room whose dispute window is over, passing its
+   * winners as remaining accounts. Any wallet can be the `caller`.
+   */
+  async claimPrizeTransaction(
+    caller: Actor,
+    creator: PublicKey,
+    roomSeed: string,
+    options: TransactionOptions = {}
+  ): Promise<PalapaTransaction> {
+    const serviceWallet =
+      this.serviceWallet ?? (await this.fetchConfig()).serviceWallet;
+    const [roomPda] = this.getRoomPda(creator, roomSeed);
+    const { winners } = await this.fetchRoomAt(roomPda);
+    const ix = await this.program.methods
+      .claimPrize(roomSeed)
+      .accountsPartial({
+        creator,
+        roomData: roomPda,
+        roomVault: this.getVaultPda(creator, roomSeed)[0],
+        config: this.getConfigPda()[0],
+        serviceFeeRecipient: serviceWallet,
+        systemProgram: SystemProgram.programId,
+        caller: keyOf(caller),
+      })
+      .remainingAccounts(writableAccounts(winners))
+      .instruction();
+    return this.transaction([ix], signersOf(caller), options);
+  }
+
+  /** `reveal_commitment` of the secret a raffle player joined with. */
+  async revealCommitmentTransaction(
+    player: Actor,
+    creator: PublicKey,
+    roomSeed: string,
+    secret: Uint8Array,
+    options: TransactionOptions = {}
+  ): Promise<PalapaTransaction> {
+    const ix = await this.program.methods
+      .revealCommitment(roomSeed, Array.from(secret))
+      .accountsPartial({
+        player: keyOf(player),
+        roomData: this.getRoomPda(creator, roomSeed)[0],
+      })
+      .instruction();
+    return this.transaction([ix], signersOf(player), options);
+  }
+
+  /**
+   * `schedule_draw` of a raffle whose reveal window is over before every
+   * player revealed; the last reveal schedules it otherwise. It also replaces
+   * a draw slot too old to draw with. Any wallet can be the `caller`.
+   */
+  async scheduleDrawTransaction(
+    caller: Actor,
+    creator: PublicKey,
+    roomSeed: string,
+    options: TransactionOptions = {}
+  ): Promise<PalapaTransaction> {
+    const ix = await this.program.methods
+      .scheduleDraw(roomSeed)
+      .accountsPartial({
+        caller: keyOf(caller),
+        roomData: this.getRoomPda(creator, roomSeed)[0],
+      })
+      .instruction();
+    return this.transaction([ix], signersOf(caller), options);
+  }
+
+  /**
+   * `draw_winner` of a raffle whose draw slot has passed. Any wallet can be
+   * the `caller`; `claimPrize` then pays out.
+   */
+  async drawWinnerTransaction(
+    caller: Actor,
+    creator: PublicKey,
+    roomSeed: string,
+    options: TransactionOptions = {}
+  ): Promise<PalapaTransaction> {
+    const ix = await this.program.methods
+      .drawWinner(roomSeed)
+      .accountsPartial({
+        caller: keyOf(caller),
+        roomData: this.getRoomPda(creator, roomSeed)[0],
+        config: this.getConfigPda()[0],
+        slotHashes: SYSVAR_SLOT_HASHES_PUBKEY,
+      })
+      .instruction();
+    return this.transaction([ix], signersOf(caller), options);
+  }
+
+  /**
+   * In a token room, tokens left in the vault go to the creator's associated
+   * token account, created first if missing. Sponsors get their contributions
+   * back.
+   */
+  async cancelRoomTransaction(
+    creator: Actor,
+    roomSeed: string,
+    options: TransactionOptions = {}
+  ): Promise<PalapaTransaction> {
+    const creatorKey = keyOf(creator);
+    const [roomPda] = this.getRoomPda(creatorKey, roomSeed);
+    const [vaultPda] = this.getVaultPda(creatorKey, roomSeed);
+    const room = await this.fetchRoomAt(roomPda);
+    const { mint } = room;
+    const ix = await this.program.methods
+      .cancelRoom(roomSeed)
+      .accountsPartial({
+        creator: creatorKey,
+        roomData: roomPda,
+        roomVault: vaultPda,
+        systemProgram: SystemProgram.programId,
+        mint,
+        vaultTokenAccount: mint && getTokenAddress(mint, vaultPda),
+        creatorTokenAccount: mint && getTokenAddress(mint, creatorKey),
+        tokenProgram: mint && TOKEN_PROGRAM_ID,
+      })
+      .remainingAccounts(writableAccounts(sponsorAccounts(room)))
+      .instruction();
+    const setup = mint
+      ? createTokenAccountInstructions(creatorKey, mint, [creatorKey])
+      : [];
+    return this.transaction([...setup, ix], signersOf(creator), options);
+  }
+
+  /**
+   * `cancel_room_with_refunds` calls refunding every player still listed,
+   * `batchSize` per transaction in join order, after returning the sponsors'
+   * contributions in the first one. Send them in order: each call refunds the
+   * first players left in the room. Ticket room batches after the first can
+   * be sent in any order. Token rooms refund the entry fees to the players'
+   * associated token accounts, and the creator's gets what is left; the
+   * creator pays for any of them that are missing.
+   */
+  async cancelRoomWithRefundsTransactions(
+    creator: Actor,
+    roomSeed: string,
+    { batchSize, ...options }: RefundOptions = {}
+  ): Promise<PalapaTransaction[]> {
+    const creatorKey = keyOf(creator);
+    const [roomPda] = this.getRoomPda(creatorKey, roomSeed);
+    const [vaultPda] = this.getVaultPda(creatorKey, roomSeed);
+    const { mint, batches } = await this.refundAccountBatches(
+      roomPda,
+      batchSize
+    );
+
+    return Promise.all(
+      batches.map(async ({ players, accounts }) => {
+        const ix = await this.program.methods
+          .cancelRoomWithRefunds(roomSeed)
+          .accountsPartial({
+            creator: creatorKey,
+            roomData: roomPda,
+            roomVault: vaultPda,
+            systemProgram: SystemProgram.programId,
+            ...refundTokenAccounts(mint, vaultPda, creatorKey),
+          })
+          .remainingAccounts(accounts)
+          .instruction();
+        const setup = mint
+          ? createTokenAccountInstructions(creatorKey, mint, [
+              ...players,
+              creatorKey,
+            ])
+          : [];
+        return this.transaction([...setup, ix], signersOf(creator), options);
+      })
+    );
+  }
+
+  /**
+   * `expire_room` calls splitting the pot of a room past its deadline, or of
+   * a raffle nobody revealed in (see `isRaffleVoid`), between the
+   * players still listed, `batchSize` per transaction in join order, once
+   * the first one returned the sponsors' contributions. Any wallet can be the
+   * `caller`. Send them in order. Token rooms split the vault's tokens between
+   * the players' associated token accounts, and the creator's gets what is
+   * left; the `caller` pays for any of them that are missing.
+   */
+  async expireRoomTransactions(
+    caller: Actor,
+    creator: PublicKey,
+    roomSeed: string,
+    { batchSize, ...options }: RefundOptions = {}
+  ): Promise<PalapaTransaction[]> {
+    const callerKey = keyOf(caller);
+    const [roomPda] = this.getRoomPda(creator, roomSeed);
+    const [vaultPda] = this.getVaultPda(creator, roomSeed);
+    const { mint, batches } = await this.refundAccountBatches(
+      roomPda,
+      batchSize
+    );
+
+    return Promise.all(
+      batches.map(async ({ players, accounts }) => {
+        const ix = await this.program.methods
+          .expireRoom(roomSeed)
+          .accountsPartial({
+            caller: callerKey,
+            roomData: roomPda,
+            roomVault: vaultPda,
+            creator,
+            systemProgram: SystemProgram.programId,
+            ...refundTokenAccounts(mint, vaultPda, creator),
+          })
+          .remainingAccounts(accounts)
+          .instruction();
+        const setup = mint
+          ? createTokenAccountInstructions(callerKey, mint, [
+              ...players,
+              creator,
+            ])
+          : [];
+        return this.transaction([...setup, ix], signersOf(caller), options);
+      })
+    );
+  }
+
+  /**
+   * `release_tickets` calls closing every ticket of a finished ticket room,
+   * `batchSize` players per transaction, so `close_room` can close it. Any
+   * wallet can be the `caller`; the ticket rent goes back to the players.
+   */
+  async releaseTicketsTransactions(
+    caller: Actor,
+    creator: PublicKey,
+    roomSeed: string,
+    { batchSize = DEFAULT_TICKET_BATCH_SIZE, ...options }: RefundOptions = {}
+  ): Promise<PalapaTransaction[]> {
+    const [roomPda] = this.getRoomPda(creator, roomSeed);
+    const holders = await listTicketHolders(this.program, roomPda);
+
+    return Promise.all(
+      refundBatches(holders, batchSize).map(async (batch) => {
+        const ix = await this.program.methods
+          .releaseTickets(roomSeed)
+          .accountsPartial({ caller: keyOf(caller), roomData: roomPda })
+          .remainingAccounts(this.ticketAccounts(roomPda, batch))
+          .instruction();
+        return this.transaction([ix], signersOf(caller), options);
+      })
+    );
+  }
+
+  /**
+   * `close_room` for a settled room, returning the rent of its `RoomData`
+   * and anything left in the vault to the creator.
+   */
+  async closeRoomTransaction(
+    creator: Actor,
+    roomSeed: string,
+    { emitResult = false, ...options }: CloseRoomOptions = {}
+  ): Promise<PalapaTransaction> {
+    const ix = await this.closeRoomInstruction(
+      keyOf(creator),
+      roomSeed,
+      emitResult
+    );
+    return this.transaction([ix], signersOf(creator), options);
+  }
+
+  /**
+   * `close_room` calls for every settled room of `creator`, `batchSize` rooms
+   * per transaction. Rooms still waiting on refunds are left alone.
+   */
+  async closeSettledRoomsTransactions(
+    creator: Actor,
+    {
+      batchSize = DEFAULT_CLOSE_BATCH_SIZE,
+      emitResult = false,
+      ...options
+    }: CloseSettledRoomsOptions = {}
+  ): Promise<CloseBatch[]> {
+    const creatorKey = keyOf(creator);
+    const rooms = (
+      await this.program.account.roomData.all([roomCreatorFilter(creatorKey)])
+    ).filter(({ account }) => isRoomSettled(account));
+
+    return Promise.all(
+      chunks(rooms, batchSize).map(async (batch) => {
+        const ixs = await Promise.all(
+          batch.map(({ account }) =>
+            this.closeRoomInstruction(creatorKey, account.roomSeed, emitResult)
+          )
+        );
+        return {
+          rooms: batch.map(({ publicKey }) => publicKey),
+          transaction: this.transaction(ixs, signersOf(creator), options),
+        };
+      })
+    );
+  }
+
+  /**
+   * `initialize_config`; `admin` must be the program's upgrade authority and
+   * becomes the config admin.
+   */
+  async initializeConfigTransaction(
+    admin: Actor,
+    config: InitialConfig,
+    options: TransactionOptions = {}
+  ): Promise<PalapaTransaction> {
+    const ix = await this.program.methods
+      .initializeConfig(
+        config.creatorFeeBasisPoints,
+        config.serviceFeeBasisPoints,
+        config.serviceWallet
+      )
+      .accountsPartial({
+        admin: keyOf(admin),
+        config: this.getConfigPda()[0],
+        program: this.programId,
+        programData: getProgramDataAddress(this.programId),
+        systemProgram: SystemProgram.programId,
+      })
+      .instruction();
+    return this.transaction([ix], signersOf(admin), options);
+  }
+
+  async updateFeesTransaction(
+    admin: Actor,
+    creatorFeeBasisPoints: number,
+    serviceFeeBasisPoints: number,
+    options: TransactionOptions = {}
+  ): Promise<PalapaTransaction> {
+    const ix = await this.program.methods
+      .updateFees(creatorFeeBasisPoints, serviceFeeBasisPoints)
+      .accountsPartial({
+        admin: keyOf(admin),
+        config: this.getConfigPda()[0],
+      })
+      .instruction();
+    return this.transaction([ix], signersOf(admin), options);
+  }
+
+  async setServiceWalletTransaction(
+    admin: Actor,
+    serviceWallet: PublicKey,
+    options: TransactionOptions = {}
+  ): Promise<PalapaTransaction> {
+    const ix = await this.program.methods
+      .setServiceWallet(serviceWallet)
+      .accountsPartial({
+        admin: keyOf(admin),
+        config: this.getConfigPda()[0],
+      })
+      .instruction();
+    return this.transaction([ix], signersOf(admin), options);
+  }
+
+  /** `set_admin`; `admin` loses the role as soon as it lands. */
+  async setAdminTransaction(
+    admin: Actor,
+    newAdmin: PublicKey,
+    options: TransactionOptions = {}
+  ): Promise<PalapaTransaction> {
+    const ix = await this.program.methods
+      .setAdmin(newAdmin)
+      .accountsPartial({
+        admin: keyOf(admin),
+        config: this.getConfigPda()[0],
+      })
+      .instruction();
+    return this.transaction([ix], signersOf(admin), options);
+  }
+
+  async initializeConfig(
+    admin: Actor,
+    config: InitialConfig,
+    options?: TransactionOptions
+  ): Promise<ConfigTxResult> {
+    const tx = await this.initializeConfigTransaction(admin, config, options);
+    return this.configResult(await tx.send());
+  }
+
+  async updateFees(
+    admin: Actor,
+    creatorFeeBasisPoints: number,
+    serviceFeeBasisPoints: number,
+    options?: TransactionOptions
+  ): Promise<ConfigTxResult> {
+    const tx = await this.updateFeesTransaction(
+      admin,
+      creatorFeeBasisPoints,
+      serviceFeeBasisPoints,
+      options
+    );
+    return this.configResult(await tx.send());
+  }
+
+  async setServiceWallet(
+    admin: Actor,
+    serviceWallet: PublicKey,
+    options?: TransactionOptions
+  ): Promise<ConfigTxResult> {
+    const tx = await this.setServiceWalletTransaction(
+      admin,
+      serviceWallet,
+      options
+    );
+    return this.configResult(await tx.send());
+  }
+
+  async setAdmin(
+    admin: Actor,
+    newAdmin: PublicKey,
+    options?: TransactionOptions
+  ): Promise<ConfigTxResult> {
+    const tx = await this.setAdminTransaction(admin, newAdmin, options);
+    return this.configResult(await tx.send());
+  }
+
+  async createRoom(
+    creator: Actor,
+    roomSeed: string,
+    maxPlayers: number,
+    entryFee: BN | number,
+    options?: CreateRoomOptions
+  ): Promise<RoomTxResult> {
+    const tx = await this.createRoomTransaction(
+      creator,
+      roomSeed,
+      maxPlayers,
+      entryFee,
+      options
+    );
+    return this.result(await tx.send(), keyOf(creator), roomSeed);
+  }
+
+  async joinRoom(
+    player: Actor,
+    creator: PublicKey,
+    roomSeed: string,
+    options?: JoinRoomOptions
+  ): Promise<RoomTxResult> {
+    const tx = await this.joinRoomTransaction(
+      player,
+      creator,
+      roomSeed,
+      options
+    );
+    return this.result(await tx.send(), creator, roomSeed);
+  }
+
+  /** Leaves a room that is still `OpenForJoining`; the entry fee is refunded. */
+  async leaveRoom(
+    player: Actor,
+    creator: PublicKey,
+    roomSeed: string,
+    options?: TransactionOptions
+  ): Promise<RoomTxResult> {
+    const tx = await this.leaveRoomTransaction(
+      player,
+      creator,
+      roomSeed,
+      options
+    );
+    return this.result(await tx.send(), creator, roomSeed);
+  }
+
+  /**
+   * Adds `amount` lamports from `sponsor` to the pot of an open or running
+   * lamport room. See `advertisedPot` for what the room can then advertise.
+   */
+  async addToPot(
+    sponsor: Actor,
+    creator: PublicKey,
+    roomSeed: string,
+    amount: BN | number,
+    options?: AddToPotOptions
+  ): Promise<RoomTxResult> {
+    const tx = await this.addToPotTransaction(
+      sponsor,
+      creator,
+      roomSeed,
+      amount,
+      options
+    );
+    return this.result(await tx.send(), creator, roomSeed);
+  }
+
+  /** Starts an open room that has at least its `minPlayers`. */
+  async startRoom(
+    creator: Actor,
+    roomSeed: string,
+    options?: TransactionOptions
+  ): Promise<RoomTxResult> {
+    const tx = await this.startRoomTransaction(creator, roomSeed, options);
+    return this.result(await tx.send(), keyOf(creator), roomSeed);
+  }
+
+  /**
+   * Signed by the creator, or in a refereed room by a referee passing
+   * `{ creator }`, with enough approvals recorded or in `approvers`. In a
+   * room with a dispute window nothing is paid until `claimPrize`.
+   */
+  async announceWinner(
+    authority: Actor,
+    roomSeed: string,
+    winner: PublicKey,
+    options?: SettleOptions
+  ): Promise<RoomTxResult> {
+    const tx = await this.announceWinnerTransaction(
+      authority,
+      roomSeed,
+      winner,
+      options
+    );
+    return this.result(
+      await tx.send(),
+      options?.creator ?? keyOf(authority),
+      roomSeed
+    );
+  }
+
+  /** Pays out a podium, e.g. 60/30/10 as shares of 6000, 3000 and 1000. */
+  async announceWinners(
+    authority: Actor,
+    roomSeed: string,
+    shares: WinnerShare[],
+    options?: SettleOptions
+  ): Promise<RoomTxResult> {
+    const tx = await this.announceWinnersTransaction(
+      authority,
+      roomSeed,
+      shares,
+      options
+    );
+    return this.result(
+      await tx.send(),
+      options?.creator ?? keyOf(authority),
+      roomSeed
+    );
+  }
+
+  /** Records `referee`'s approval of `shares` in a refereed room. */
+  async approveResult(
+    referee: Actor,
+    creator: PublicKey,
+    roomSeed: string,
+    shares: WinnerShare[],
+    options?: TransactionOptions
+  ): Promise<RoomTxResult> {
+    const tx = await this.approveResultTransaction(
+      referee,
+      creator,
+      roomSeed,
+      shares,
+      options
+    );
+    return this.result(await tx.send(), creator, roomSeed);
+  }
+
+  /** Freezes the pending payout of a room the player is in. */
+  async disputeResult(
+    player: Actor,
+    creator: PublicKey,
+    roomSeed: string,
+    options?: TransactionOptions
+  ): Promise<RoomTxResult> {
+    const tx = await this.disputeResultTransaction(
+      player,
+      creator,
+      roomSeed,
+      options
+    );
+    return this.result(await tx.send(), creator, roomSeed);
+  }
+
+  /** Upholds or replaces a disputed result; the prize is claimable right away. */
+  async resolveDispute(
+    authority: Actor,
+    roomSeed: string,
+    shares: WinnerShare[],
+    options?: SettleOptions
+  ): Promise<RoomTxResult> {
+    const tx = await this.resolveDisputeTransaction(
+      authority,
+      roomSeed,
+      shares,
+      options
+    );
+    return this.result(
+      await tx.send(),
+      options?.creator ?? keyOf(authority),
+      roomSeed
+    );
+  }
+
+  /** Pays out a pending result whose dispute window is over. */
+  async claimPrize(
+    caller: Actor,
+    creator: PublicKey,
+    roomSeed: string,
+    options?: TransactionOptions
+  ): Promise<RoomTxResult> {
+    const tx = await this.claimPrizeTransaction(
+      caller,
+      creator,
+      roomSeed,
+      options
+    );
+    return this.result(await tx.send(), creator, roomSeed);
+  }
+
+  /** Reveals a raffle player's secret, adding it to the draw's entropy. */
+  async revealCommitment(
+    player: Actor,
+    creator: PublicKey,
+    roomSeed: string,
+    secret: Uint8Array,
+    options?: TransactionOptions
+  ): Promise<RoomTxResult> {
+    const tx = await this.revealCommitmentTransaction(
+      player,
+      creator,
+      roomSeed,
+      secret,
+      options
+    );
+    return this.result(await tx.send(), creator, roomSeed);
+  }
+
+  /** Schedules a raffle's draw a few slots ahead. */
+  async scheduleDraw(
+    caller: Actor,
+    creator: PublicKey,
+    roomSeed: string,
+    options?: TransactionOptions
+  ): Promise<RoomTxResult> {
+    const tx = await this.scheduleDrawTransaction(
+      caller,
+      creator,
+      roomSeed,
+      options
+    );
+    return this.result(await tx.send(), creator, roomSeed);
+  }
+
+  /** Draws a raffle's winner; the prize is then claimable right away. */
+  async drawWinner(
+    caller: Actor,
+    creator: PublicKey,
+    roomSeed: string,
+    options?: TransactionOptions
+  ): Promise<RoomTxResult> {
+    const tx = await this.drawWinnerTransaction(
+      caller,
+      creator,
+      roomSeed,
+      options
+    );
+    return this.result(await tx.send(), creator, roomSeed);
+  }
+
+  async cancelRoom(
+    creator: Actor,
+    roomSeed: string,
+    options?: TransactionOptions
+  ): Promise<RoomTxResult> {
+    const tx = await this.cancelRoomTransaction(creator, roomSeed, options);
+    return this.result(await tx.send(), keyOf(creator), roomSeed);
+  }
+
+  /**
+   * Cancels a room with or without players, refunding every entry fee and
+   * then returning the vault rent to the creator. Also finishes the refunds
+   * of a cancellation that stopped part way.
+   */
+  async cancelRoomWithRefunds(
+    creator: Actor,
+    roomSeed: string,
+    options?: RefundOptions
+  ): Promise<RefundTxResult> {
+    const txs = await this.cancelRoomWithRefundsTransactions(
+      creator,
+      roomSeed,
+      options
+    );
+    return this.sendBatches(txs, keyOf(creator), roomSeed);
+  }
+
+  /**
+   * Expires a room whose join or settle deadline has passed, splitting the
+   * pot evenly between its players and returning the rest of the vault to the
+   * creator. Also finishes an expiry that stopped part way.
+   */
+  async expireRoom(
+    caller: Actor,
+    creator: PublicKey,
+    roomSeed: string,
+    options?: RefundOptions
+  ): Promise<RefundTxResult> {
+    const txs = await this.expireRoomTransactions(
+      caller,
+      creator,
+      roomSeed,
+      options
+    );
+    return this.sendBatches(txs, creator, roomSeed);
+  }
+
+  /** Releases every ticket of a finished ticket room, refunding their rent. */
+  async releaseTickets(
+    caller: Actor,
+    creator: PublicKey,
+    roomSeed: string,
+    options?: RefundOptions
+  ): Promise<RefundTxResult> {
+    const txs = await this.releaseTicketsTransactions(
+      caller,
+      creator,
+      roomSeed,
+      options
+    );
+    return this.sendBatches(txs, creator, roomSeed);
+  }
+
+  /**
+   * Closes a finished room, or a cancelled or expired one with every refund
+   * paid, reclaiming its rent for the creator.
+   */
+  async closeRoom(
+    creator: Actor,
+    roomSeed: string,
+    options?: CloseRoomOptions
+  ): Promise<CloseTxResult> {
+    const tx = await this.closeRoomTransaction(creator, roomSeed, options);
+    const signature = await tx.send();
+    const [roomPda] = this.getRoomPda(keyOf(creator), roomSeed);
+    const [vaultPda] = this.getVaultPda(keyOf(creator), roomSeed);
+    return { signature, roomPda, vaultPda };
+  }
+
+  /** Closes every settled room of `creator`; a no-op when there is none. */
+  async closeSettledRooms(
+    creator: Actor,
+    options?: CloseSettledRoomsOptions
+  ): Promise<CloseSettledRoomsResult> {
+    const batches = await this.closeSettledRoomsTransactions(creator, options);
+    const result: CloseSettledRoomsResult = { signatures: [], rooms: [] };
+    for (const { rooms, transaction } of batches) {
+      result.signatures.push(await transaction.send());
+      result.rooms.push(...rooms);
+    }
+    return result;
+  }
+
+  /** Wraps `instructions` with the client defaults overridden by `options`. */
+  transaction(
+    instructions: TransactionInstruction[],
+    signers: Signer[] = [],
+    options: TransactionOptions = {}
+  ): PalapaTransaction {
+    return new PalapaTransaction(this.program, instructions, signers, {
+      commitment: this.commitment,
+      simulate: !this.skipPreflight,
+      ...this.transactionOptions,
+      ...options,
+    });
+  }
+
+  private async sendBatches(
+    txs: PalapaTransaction[],
+    creator: PublicKey,
+    roomSeed: string
+  ): Promise<RefundTxResult> {
+    const signatures: TransactionSignature[] = [];
+    for (const tx of txs) signatures.push(await tx.send());
+    const result = await this.result(
+      signatures[signatures.length - 1],
+      creator,
+      roomSeed
+    );
+    return { ...result, signatures };
+  }
+
+  /**
+   * The refund batches of a room and its mint. Each batch's remaining
+   * accounts are the players still listed, or `(ticket, player)` pairs for
+   * the ticket holders of a ticket room, followed in token rooms by the
+   * players' associated token accounts.
+   */
+  private async refundAccountBatches(
+    roomPda: PublicKey,
+    batchSize?: number
+  ): Promise<{ mint: PublicKey | null; batches: RefundBatch[] }> {
+    const room = await this.fetchRoomAt(roomPda);
+    const { mint } = room;
+    const tickets = usesTickets(room);
+    const players = tickets
+      ? await listTicketHolders(this.program, roomPda)
+      : room.players;
+    const defaultBatchSize = mint
+      ? DEFAULT_TOKEN_REFUND_BATCH_SIZE
+      : tickets
+      ? DEFAULT_TICKET_BATCH_SIZE
+      : DEFAULT_REFUND_BATCH_SIZE;
+    const batches = refundBatches(players, batchSize ?? defaultBatchSize).map(
+      (batch) => ({
+        players: batch,
+        accounts: [
+          ...(tickets
+            ? this.ticketAccounts(roomPda, batch)
+            : writableAccounts(batch)),
+          ...(mint
+            ? writableAccounts(batch.map((p) => getTokenAddress(mint, p)))
+            : []),
+        ],
+      })
+    );
+    // The first call returns the sponsors' contributions, ahead of its players.
+    batches[0].accounts = [
+      ...writableAccounts(sponsorAccounts(room)),
+      ...batches[0].accounts,
+    ];
+    return { mint, batches };
+  }
+
+  /** `(ticket, player)` remaining account pairs, all writable. */
+  private ticketAccounts(roomPda: PublicKey, players: PublicKey[]) {
+    return writableAccounts(
+      players.flatMap((player) => [
+        this.getTicketPda(roomPda, player)[0],
+        player,
+      ])
+    );
+  }
+
+  private closeRoomInstruction(
+    creator: PublicKey,
+    roomSeed: string,
+    emitResult: boolean
+  ): Promise<TransactionInstruction> {
+    return this.program.methods
+      .closeRoom(roomSeed, emitResult)
+      .accountsPartial({
+        creator,
+        roomData: this.getRoomPda(creator, roomSeed)[0],
+        roomVault: this.getVaultPda(creator, roomSeed)[0],
+        systemProgram: SystemProgram.programId,
+      })
+      .instruction();
+  }
+
+  private async configResult(
+    signature: TransactionSignature
+  ): Promise<ConfigTxResult> {
+    const [configPda] = this.getConfigPda();
+    return { signature, configPda, config: await this.fetchConfig() };
+  }
+
+  private approvalInstructions(
+    referees: Actor[],
+    creator: PublicKey,
+    roomSeed: string,
+    shares: WinnerShare[]
+  ): Promise<TransactionInstruction[]> {
+    const [roomPda] = this.getRoomPda(creator, roomSeed);
+    return Promise.all(
+      referees.map((referee) =>
+        this.program.methods
+          .approveResult(roomSeed, shares)
+          .accountsPartial({ referee: keyOf(referee), roomData: roomPda })
+          .instruction()
+      )
+    );
+  }
+
+  private async result(
+    signature: TransactionSignature,
+    creator: PublicKey,
+    roomSeed: string
+  ): Promise<RoomTxResult> {
+    const [roomPda] = this.getRoomPda(creator, roomSeed);
+    const [vaultPda] = this.getVaultPda(creator, roomSeed);
+    const room = await this.fetchRoomAt(roomPda);
+    return { signature, roomPda, vaultPda, room };
+  }
+}
@@ -0,0 +1,135 @@
+import { BN } from "@coral-xyz/anchor";
+import { BASIS_POINTS_DENOMINATOR, MAX_WINNERS } from "./constants";
+import { PalapaErrorCode, palapaErrorFromCode } from "./errors";
+
+const U64_MAX = new BN(1).shln(64).subn(1);
+
+/** How `announce_winner` splits a vault, in lamports. */
+export interface PayoutBreakdown {
+  /** Vault balance above the rent-exempt minimum. */
+  prizePool: BN;
+  creatorFee: BN;
+  serviceFee: BN;
+  /** Prize pool minus both fees, including the rounding remainder. */
+  winnerShare: BN;
+  /** Everything the winner receives: `winnerShare` plus the vault rent. */
+  winnerAmount: BN;
+}
+
+/** How `announce_winners` splits a vault between several winners. */
+export interface SplitPayoutBreakdown extends PayoutBreakdown {
+  /**
+   * What each place receives, first place down. First place also gets the
+   * rounding remainder and the vault rent; they add up to `winnerAmount`.
+   */
+  winnerAmounts: BN[];
+}
+
+// Mirrors the program's `checked_*` u64 arithmetic.
+const checked = (value: BN): BN => {
+  if (value.isNeg() || value.gt(U64_MAX)) {
+    throw palapaErrorFromCode(PalapaErrorCode.CalculationOverflow);
+  }
+  return value;
+};
+
+/**
+ * Reproduces the `announce_winner` payout for a vault holding
+ * `vaultLamports`. Fees are floored basis points of the prize pool, less any
+ * `feeExempt` sponsorship, and the rounding remainder stays with the winner.
+ * With no prize pool (zero entry fee) the winner simply receives the whole
+ * vault balance. The rates are the live ones from `PalapaClient.fetchConfig`,
+ * since the admin can change them.
+ */
+export const computePayout = (
+  vaultLamports: BN | number,
+  rentExempt: BN | number,
+  creatorBps: BN | number,
+  serviceBps: BN | number,
+  feeExempt: BN | number = 0
+): PayoutBreakdown => {
+  const vault = new BN(vaultLamports);
+  const rent = new BN(rentExempt);
+  const zero = new BN(0);
+
+  // `checked_sub(vault_rent).unwrap_or(0)`
+  const prizePool = vault.gte(rent) ? vault.sub(rent) : zero;
+  if (prizePool.isZero()) {
+    return {
+      prizePool,
+      creatorFee: zero,
+      serviceFee: zero,
+      winnerShare: zero,
+      winnerAmount: vault,
+    };
+  }
+
+  // `saturating_sub(fee_exempt_total)`
+  const exempt = BN.min(new BN(feeExempt), prizePool);
+  const feeBase = prizePool.sub(exempt);
+  const creatorFee = checked(feeBase.mul(new BN(creatorBps))).div(
+    BASIS_POINTS_DENOMINATOR
+  );
+  const serviceFee = checked(feeBase.mul(new BN(serviceBps))).div(
+    BASIS_POINTS_DENOMINATOR
+  );
+  const winnerShare = checked(
+    prizePool.sub(checked(creatorFee.add(serviceFee)))
+  );
+  const winnerAmount = checked(winnerShare.add(rent));
+
+  return { prizePool, creatorFee, serviceFee, winnerShare, winnerAmount };
+};
+
+/**
+ * Reproduces the `announce_winners` payout: fees as in `computePayout`, then
+ * the winners' share split by `shareBasisPoints` (first place first, summing
+ * to 10000). Each place gets its floored share; the rounding remainder and the
+ * vault rent go to first place. Throws `InvalidPrizeSplitError` for shares the
+ * program would reject.
+ */
+export const computeSplitPayout = (
+  vaultLamports: BN | number,
+  rentExempt: BN | number,
+  shareBasisPoints: (BN | number)[],
+  creatorBps: BN | number,
+  serviceBps: BN | number,
+  feeExempt: BN | number = 0
+): SplitPayoutBreakdown => {
+  const shares = shareBasisPoints.map((bps) => new BN(bps));
+  const total = shares.reduce((sum, bps) => sum.add(bps), new BN(0));
+  if (
+    shares.length === 0 ||
+    shares.length > MAX_WINNERS ||
+    !total.eq(BASIS_POINTS_DENOMINATOR)
+  ) {
+    throw palapaErrorFromCode(PalapaErrorCode.InvalidPrizeSplit);
+  }
+
+  const payout = computePayout(
+    vaultLamports,
+    rentExempt,
+    creatorBps,
+    serviceBps,
+    feeExempt
+  );
+  if (payout.prizePool.isZero()) {
+    return {
+      ...payout,
+      winnerAmounts: shares.map((_, i) =>
+        i === 0 ? payout.winnerAmount : new BN(0)
+      ),
+    };
+  }
+
+  const winnerAmounts = shares.map((bps) =>
+    checked(payout.winnerShare.mul(bps)).div(BASIS_POINTS_DENOMINATOR)
+  );
+  const distributed = winnerAmounts.reduce((sum, a) => sum.add(a), new BN(0));
+  winnerAmounts[0] = checked(
+    winnerAmounts[0]
+      .add(payout.winnerShare.sub(distributed))
+      .add(new BN(rentExempt))
+  );
+  return { ...payout, winnerAmounts };
+};
@@ -0,0 +1,122 @@
+import { PublicKey } from "@solana/web3.js";
+import {
+  BPF_UPGRADEABLE_LOADER_ID,
+  CONFIG_SEED_PREFIX,
+  MAX_INLINE_PLAYERS,
+  MAX_ROOM_SEED_LEN,
+  MAX_SPONSORS,
+  MAX_WINNERS,
+  ROOM_SEED_PREFIX,
+  TICKET_SEED_PREFIX,
+  VAULT_SEED_PREFIX,
+} from "./constants";
+
+const seedBufferFor = (roomSeed: string): Buffer => {
+  const seedBuffer = Buffer.from(roomSeed);
+  if (seedBuffer.length === 0 || seedBuffer.length > MAX_ROOM_SEED_LEN) {
+    throw new Error(
+      `Invalid room seed length for PDA derivation: "${roomSeed}" (len ${seedBuffer.length})`
+    );
+  }
+  return seedBuffer;
+};
+
+/** Derives the `RoomData` PDA: `["room", creator, room_seed]`. */
+export const getRoomPda = (
+  programId: PublicKey,
+  creator: PublicKey,
+  roomSeed: string
+): [PublicKey, number] =>
+  PublicKey.findProgramAddressSync(
+    [ROOM_SEED_PREFIX, creator.toBuffer(), seedBufferFor(roomSeed)],
+    programId
+  );
+
+/** Derives the room vault PDA: `["vault", creator, room_seed]`. */
+export const getVaultPda = (
+  programId: PublicKey,
+  creator: PublicKey,
+  roomSeed: string
+): [PublicKey, number] =>
+  PublicKey.findProgramAddressSync(
+    [VAULT_SEED_PREFIX, creator.toBuffer(), seedBufferFor(roomSeed)],
+    programId
+  );
+
+/** Derives a ticket room's `PlayerTicket` PDA: `["ticket", room, player]`. */
+export const getTicketPda = (
+  programId: PublicKey,
+  room: PublicKey,
+  player: PublicKey
+): [PublicKey, number] =>
+  PublicKey.findProgramAddressSync(
+    [TICKET_SEED_PREFIX, room.toBuffer(), player.toBuffer()],
+    programId
+  );
+
+/** Derives the singleton `Config` PDA: `["config"]`. */
+export const getConfigPda = (programId: PublicKey): [PublicKey, number] =>
+  PublicKey.findProgramAddressSync([CONFIG_SEED_PREFIX], programId);
+
+/** Derives the upgradeable loader's `ProgramData` account of `programId`. */
+export const getProgramDataAddress = (programId: PublicKey): PublicKey =>
+  PublicKey.findProgramAddressSync(
+    [programId.toBuffer()],
+    BPF_UPGRADEABLE_LOADER_ID
+  )[0];
+
+/** Size of a `RoomData` account; must match `RoomData::calculate_space`. */
+export const getRoomDataSize = (
+  roomSeed: string,
+  maxPlayers: number,
+  allowlistLen = 0,
+  refereeCount = 0,
+  raffle = false
+): number => {
+  const seedLen = Buffer.from(roomSeed).length;
+  if (seedLen === 0 || seedLen > MAX_ROOM_SEED_LEN) {
+    throw new Error(
+      `Invalid room seed length for size calculation: "${roomSeed}" (len ${seedLen})`
+    );
+  }
+  const playersCapacity = maxPlayers > MAX_INLINE_PLAYERS ? 0 : maxPlayers;
+  const raffleCapacity = raffle ? playersCapacity : 0;
+  return (
+    8 + // Anchor discriminator
+    32 + // creator: Pubkey
+    2 + // status: RoomStatus (RoomStatus::SPACE)
+    2 + // max_players: u16
+    8 + // entry_fee: u64
+    8 + // creation_timestamp: i64
+    1 + // bump: u8
+    1 + // vault_bump: u8
+    (4 + seedLen) + // room_seed: String
+    (4 + MAX_WINNERS * 32) + // winners: Vec<Pubkey>
+    (4 + playersCapacity * 32) + // players: Vec<Pubkey>
+    (1 + 8) + // end_timestamp: Option<i64>
+    (1 + 8) + // join_deadline: Option<i64>
+    (1 + 8) + // settle_deadline: Option<i64>
+    (1 + 32) + // mint: Option<Pubkey>
+    2 + // ticket_count: u16
+    1 + // access: RoomAccess
+    (4 + allowlistLen * 32) + // allowlist: Vec<Pubkey>
+    (4 + refereeCount * 32) + // referees: Vec<Pubkey>
+    1 + // referee_threshold: u8
+    (4 + refereeCount * 64) + // approvals: Vec<RefereeApproval>
+    4 + // dispute_window: u32
+    (1 + 8) + // claimable_at: Option<i64>
+    (4 + MAX_WINNERS * 2) + // winner_shares: Vec<u16>
+    (1 + 32) + // disputed_by: Option<Pubkey>
+    4 + // reveal_window: u32
+    (1 + 8) + // reveal_deadline: Option<i64>
+    32 + // entropy: [u8; 32]
+    (4 + raffleCapacity * 33) + // raffle_entries: Vec<RaffleEntry>
+    2 + // min_players: u16
+    (4 + MAX_SPONSORS * 41) + // sponsors: Vec<SponsorContribution>
+    (1 + 4) + // payout_fees: Option<FeeRates>
+    (1 + 8) // draw_slot: Option<u64>
+  );
+};
+
+/** Size of a `PlayerTicket` account; must match `PlayerTicket::SPACE`. */
+export const PLAYER_TICKET_SIZE = 8 + 32 + 32;
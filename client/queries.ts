@@ -0,0 +1,218 @@
+import { BN, Program, utils } from "@coral-xyz/anchor";
+import { GetProgramAccountsFilter, PublicKey } from "@solana/web3.js";
+import { PalapaFunRooms } from "../target/types/palapa_fun_rooms";
+import {
+  ROOM_CREATOR_OFFSET,
+  ROOM_ENTRY_FEE_OFFSET,
+  ROOM_STATUS_INDEX,
+  ROOM_STATUS_OFFSET,
+  RoomStatusName,
+  TICKET_PLAYER_OFFSET,
+} from "./layout";
+import { RoomData } from "./palapa-client";
+
+export interface RoomAccount {
+  publicKey: PublicKey;
+  account: RoomData;
+}
+
+export interface PageOptions {
+  /** Zero-based page index. Defaults to 0. */
+  page?: number;
+  /** Rooms per page. Defaults to `DEFAULT_PAGE_SIZE`. */
+  pageSize?: number;
+  /** Sort direction on `creation_timestamp`. Defaults to newest first. */
+  order?: "asc" | "desc";
+}
+
+export interface RoomPage {
+  items: RoomAccount[];
+  page: number;
+  pageSize: number;
+  /** Number of rooms matching the query across all pages. */
+  total: number;
+}
+
+export interface EntryFeeRange {
+  /** Inclusive lower bound in lamports. */
+  min?: BN | number;
+  /** Inclusive upper bound in lamports. */
+  max?: BN | number;
+}
+
+export const DEFAULT_PAGE_SIZE = 20;
+
+// Only `entry_fee` and `creation_timestamp` are downloaded while ranking rooms.
+const SLICE_OFFSET = ROOM_ENTRY_FEE_OFFSET;
+const SLICE_LENGTH = 16;
+
+interface RoomSummary {
+  publicKey: PublicKey;
+  entryFee: BN;
+  creationTimestamp: number;
+}
+
+const discriminatorFilter = (
+  program: Program<PalapaFunRooms>
+): GetProgramAccountsFilter => ({
+  memcmp: program.coder.accounts.memcmp("roomData"),
+});
+
+export const roomStatusFilter = (
+  status: RoomStatusName
+): GetProgramAccountsFilter => ({
+  memcmp: {
+    offset: ROOM_STATUS_OFFSET,
+    bytes: utils.bytes.bs58.encode(Buffer.from([ROOM_STATUS_INDEX[status]])),
+  },
+});
+
+export const roomCreatorFilter = (
+  creator: PublicKey
+): GetProgramAccountsFilter => ({
+  memcmp: { offset: ROOM_CREATOR_OFFSET, bytes: creator.toBase58() },
+});
+
+const compareRooms =
+  (order: "asc" | "desc") =>
+  (
+    a: { creationTimestamp: number; publicKey: PublicKey },
+    b: { creationTimestamp: number; publicKey: PublicKey }
+  ): number => {
+    const byTime = a.creationTimestamp - b.creationTimestamp;
+    const cmp =
+      byTime !== 0
+        ? byTime
+        : a.publicKey.toBase58().localeCompare(b.publicKey.toBase58());
+    return order === "asc" ? cmp : -cmp;
+  };
+
+const pageBounds = (options: PageOptions) => {
+  const page = Math.max(0, options.page ?? 0);
+  const pageSize = Math.max(1, options.pageSize ?? DEFAULT_PAGE_SIZE);
+  return { page, pageSize, start: page * pageSize, end: (page + 1) * pageSize };
+};
+
+/**
+ * Ranks matching rooms using only their fixed-size header, then downloads
+ * and decodes just the requested page.
+ */
+const pageRooms = async (
+  program: Program<PalapaFunRooms>,
+  filters: GetProgramAccountsFilter[],
+  options: PageOptions,
+  predicate: (summary: RoomSummary) => boolean = () => true
+): Promise<RoomPage> => {
+  const slices = await program.provider.connection.getProgramAccounts(
+    program.programId,
+    {
+      filters: [discriminatorFilter(program), ...filters],
+      dataSlice: { offset: SLICE_OFFSET, length: SLICE_LENGTH },
+    }
+  );
+  const summaries: RoomSummary[] = slices
+    .map(({ pubkey, account }) => ({
+      publicKey: pubkey,
+      entryFee: new BN(account.data.subarray(0, 8), "le"),
+      creationTimestamp: new BN(account.data.subarray(8, 16), "le")
+        .fromTwos(64)
+        .toNumber(),
+    }))
+    .filter(predicate)
+    .sort(compareRooms(options.order ?? "desc"));
+
+  const { page, pageSize, start, end } = pageBounds(options);
+  const keys = summaries.slice(start, end).map((s) => s.publicKey);
+  const accounts = await program.account.roomData.fetchMultiple(keys);
+  const items: RoomAccount[] = [];
+  keys.forEach((publicKey, i) => {
+    const account = accounts[i];
+    // A room may have been closed between the two requests.
+    if (account) items.push({ publicKey, account });
+  });
+  return { items, page, pageSize, total: summaries.length };
+};
+
+/** Rooms currently accepting players. */
+export const listOpenRooms = (
+  program: Program<PalapaFunRooms>,
+  options: PageOptions = {}
+): Promise<RoomPage> =>
+  pageRooms(program, [roomStatusFilter("openForJoining")], options);
+
+/** Rooms created by `creator`, optionally restricted to one status. */
+export const listRoomsByCreator = (
+  program: Program<PalapaFunRooms>,
+  creator: PublicKey,
+  options: PageOptions & { status?: RoomStatusName } = {}
+): Promise<RoomPage> =>
+  pageRooms(
+    program,
+    [
+      roomCreatorFilter(creator),
+      ...(options.status ? [roomStatusFilter(options.status)] : []),
+    ],
+    options
+  );
+
+/**
+ * Rooms with an entry fee inside `range`. RPC filters cannot compare ranges,
+ * so the fee is checked on the downloaded header slice.
+ */
+export const listRoomsByEntryFee = (
+  program: Program<PalapaFunRooms>,
+  range: EntryFeeRange,
+  options: PageOptions & { status?: RoomStatusName } = {}
+): Promise<RoomPage> => {
+  const min = range.min !== undefined ? new BN(range.min) : undefined;
+  const max = range.max !== undefined ? new BN(range.max) : undefined;
+  return pageRooms(
+    program,
+    options.status ? [roomStatusFilter(options.status)] : [],
+    options,
+    ({ entryFee }) =>
+      (min === undefined || entryFee.gte(min)) &&
+      (max === undefined || entryFee.lte(max))
+  );
+};
+
+/**
+ * Rooms `player` has joined. `players` sits behind variable-length fields, so
+ * it cannot be matched with `memcmp`; full accounts are fetched (narrowed by
+ * `status` when given) and filtered client-side. Ticket rooms are matched by
+ * the player's tickets.
+ */
+export const listRoomsByPlayer = async (
+  program: Program<PalapaFunRooms>,
+  player: PublicKey,
+  options: PageOptions & { status?: RoomStatusName } = {}
+): Promise<RoomPage> => {
+  const [all, tickets] = await Promise.all([
+    program.account.roomData.all(
+      options.status ? [roomStatusFilter(options.status)] : []
+    ),
+    program.account.playerTicket.all([
+      { memcmp: { offset: TICKET_PLAYER_OFFSET, bytes: player.toBase58() } },
+    ]),
+  ]);
+  const ticketRooms = new Set(
+    tickets.map(({ account }) => account.room.toBase58())
+  );
+  const joined = all
+    .filter(
+      ({ publicKey, account }) =>
+        account.players.some((p) => p.equals(player)) ||
+        ticketRooms.has(publicKey.toBase58())
+    )
+    .map((room) => ({
+      ...room,
+      creationTimestamp: room.account.creationTimestamp.toNumber(),
+    }))
+    .sort(compareRooms(options.order ?? "desc"));
+
+  const { page, pageSize, start, end } = pageBounds(options);
+  const items = joined
+    .slice(start, end)
+    .map(({ publicKey, account }) => ({ publicKey, account }));
+  return { items, page, pageSize, total: joined.length };
+};
@@ -0,0 +1,115 @@
+import { sha256 } from "@noble/hashes/sha2";
+import { randomBytes } from "@noble/hashes/utils";
+import { PublicKey } from "@solana/web3.js";
+import { DRAW_SLOT_LIFETIME } from "./constants";
+import { RoomData } from "./palapa-client";
+
+// Raffles are drawn on-chain instead of announced. Each player joins with a
+// commitment to a secret and reveals it once the room starts; the revealed
+// secrets are XORed into the room's `entropy`. The last reveal, or
+// `schedule_draw` once `revealDeadline` passed, sets `drawSlot` to a slot
+// still ahead, and `draw_winner` hashes the entropy with that slot's hash to
+// pick the winner, so the drawing wallet can't pick the hash by picking when
+// to draw. Players who don't reveal before `revealDeadline` are left out of
+// the draw.
+
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+/** A fresh secret to commit to when joining a raffle. */
+export const generateRaffleSecret = (): Uint8Array => randomBytes(32);
+
+/**
+ * What a player joins a raffle with: the SHA-256 of the room, the player and
+ * the secret, as `raffle_commitment` computes it on-chain.
+ */
+export const raffleCommitment = (
+  roomPda: PublicKey,
+  player: PublicKey,
+  secret: Uint8Array
+): Uint8Array =>
+  sha256(Buffer.concat([roomPda.toBuffer(), player.toBuffer(), secret]));
+
+export const isRaffle = (room: RoomData): boolean => room.revealWindow > 0;
+
+/** Players who revealed their secret, in join order. */
+export const revealedPlayers = (room: RoomData): PublicKey[] =>
+  room.players.filter((_, i) => room.raffleEntries[i]?.revealed);
+
+/**
+ * Whether `schedule_draw` can schedule the raffle's draw at `slot`: the
+ * reveal deadline passed without every player revealing, and someone did,
+ * or its draw slot is too old to draw with.
+ */
+export const isDrawSchedulable = (
+  room: RoomData,
+  slot: number,
+  now = nowSeconds()
+): boolean => {
+  if (!isRaffle(room) || !("inProgress" in room.status)) {
+    return false;
+  }
+  if (room.drawSlot !== null) {
+    return slot > room.drawSlot.toNumber() + DRAW_SLOT_LIFETIME;
+  }
+  return (
+    room.revealDeadline !== null &&
+    now >= room.revealDeadline.toNumber() &&
+    revealedPlayers(room).length > 0
+  );
+};
+
+/**
+ * Whether `draw_winner` can draw the raffle at `slot`: its draw slot has
+ * passed and is not too old. It still fails if no block was produced since
+ * the draw slot.
+ */
+export const isDrawable = (room: RoomData, slot: number): boolean =>
+  isRaffle(room) &&
+  "inProgress" in room.status &&
+  room.drawSlot !== null &&
+  slot > room.drawSlot.toNumber() &&
+  slot <= room.drawSlot.toNumber() + DRAW_SLOT_LIFETIME;
+
+/**
+ * Whether a raffle in progress can never be drawn, so `expire_room` refunds
+ * it: nobody revealed by the reveal deadline.
+ */
+export const isRaffleVoid = (room: RoomData, now = nowSeconds()): boolean =>
+  isRaffle(room) &&
+  "inProgress" in room.status &&
+  room.drawSlot === null &&
+  room.revealDeadline !== null &&
+  now >= room.revealDeadline.toNumber() &&
+  revealedPlayers(room).length === 0;
+
+/** The players a draw picks from: those who revealed. */
+export const raffleCandidates = (room: RoomData): PublicKey[] =>
+  revealedPlayers(room);
+
+/**
+ * The winner `draw_winner` picks among `candidates`, from the room's
+ * `entropy` and the hash of its draw slot (or of the first slot after it
+ * with a block), both found in the `WinnerDrawn` event. Lets anyone check a
+ * draw off-chain.
+ */
+export const drawRaffleWinner = (
+  roomPda: PublicKey,
+  candidates: PublicKey[],
+  entropy: Uint8Array | number[],
+  slotHash: Uint8Array | number[]
+): PublicKey => {
+  if (candidates.length === 0) {
+    throw new Error("A raffle needs at least one candidate");
+  }
+  const seed = Buffer.from(
+    sha256(
+      Buffer.concat([
+        Buffer.from(entropy),
+        Buffer.from(slotHash),
+        roomPda.toBuffer(),
+      ])
+    )
+  );
+  const index = seed.readBigUInt64LE(0) % BigInt(candidates.length);
+  return candidates[Number(index)];
+};
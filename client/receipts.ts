@@ -0,0 +1,383 @@
+import { BN, BorshInstructionCoder, Program } from "@coral-xyz/anchor";
+import { PublicKey, TransactionSignature } from "@solana/web3.js";
+import { PalapaFunRooms } from "../target/types/palapa_fun_rooms";
+
+export type PayoutKind =
+  | "announceWinner"
+  | "announceWinners"
+  | "claimPrize"
+  | "cancelRoom";
+
+/**
+ * Token amounts recovered from the `msg!` lines of a token room's
+ * `announce_winner` or `cancel_room`, in the mint's base units.
+ */
+export interface TokenPayoutAmounts {
+  /** Vault token balance before the payout. */
+  vaultBalance: BN;
+  creatorFee: BN;
+  serviceFee: BN;
+  winnerAmount: BN;
+  /** Tokens returned to the creator (`cancel_room`). */
+  creatorRefund: BN;
+}
+
+/** Amounts recovered from the `msg!` lines of a settled room. */
+export interface PayoutAmounts {
+  /** Vault balance before the payout. */
+  vaultBalance: BN;
+  /** Rent-exempt minimum of the vault, returned with the payout; 0 on cancel. */
+  vaultRent: BN;
+  /** Collected entry fees and sponsorship (vault balance minus rent); 0 on cancel. */
+  prizePool: BN;
+  creatorFee: BN;
+  serviceFee: BN;
+  /** Winner share plus vault rent (`announce_winner`), or the sum over every place. */
+  winnerAmount: BN;
+  /** What each place received, first place down; empty on cancel. */
+  winnerAmounts: BN[];
+  /** Vault balance returned to the creator (`cancel_room`). */
+  creatorRefund: BN;
+  /** Sponsorship returned to the sponsors (`cancel_room`). */
+  sponsorRefunds: BN;
+  /**
+   * What a token room paid out of its vault token account; `null` when no
+   * tokens moved. The lamport figures above then only cover the vault's rent.
+   */
+  tokens: TokenPayoutAmounts | null;
+}
+
+export interface PayoutRecipients {
+  creator: PublicKey;
+  /** First place. */
+  winner?: PublicKey;
+  /** Every winner from first place down. */
+  winners?: PublicKey[];
+  serviceWallet?: PublicKey;
+  /** Sponsors refunded by `cancel_room`. */
+  sponsors?: PublicKey[];
+}
+
+export interface PayoutReceipt extends PayoutAmounts {
+  kind: PayoutKind;
+  signature: TransactionSignature;
+  slot: number;
+  blockTime: number | null;
+  room: PublicKey;
+  vault: PublicKey;
+  recipients: PayoutRecipients;
+  /** Lamports that left the vault according to the transaction balances. */
+  vaultOutflow: BN;
+  /** The token room's mint; `null` for lamport rooms. */
+  mint: PublicKey | null;
+  /**
+   * Tokens that left the vault token account according to the transaction's
+   * token balances; `null` for lamport rooms.
+   */
+  vaultTokenOutflow: BN | null;
+}
+
+/** Thrown when a receipt's amounts do not add up. */
+export class PayoutReceiptMismatchError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Payout receipt does not balance: ${problems.join("; ")}`);
+    this.name = "PayoutReceiptMismatchError";
+  }
+}
+
+const LOG_PREFIX = "Program log: ";
+
+const PATTERNS = {
+  vault: /^Vault Balance: (\d+), Vault Rent: (\d+)$/,
+  prizePool: /^Total prize pool \(excluding rent\): (\d+) lamports$/,
+  creatorFee: /^Calculated Creator Fee: (\d+)$/,
+  serviceFee: /^Calculated Service Fee: (\d+)$/,
+  winnerRentOnly: /^Transferred remaining vault balance (\d+) to winner \w+$/,
+  placeAmount: /^Transferred place (\d+) amount (\d+) to \w+$/,
+  creatorRefund:
+    /^Successfully recovered (\d+) lamports from vault to creator\.$/,
+  sponsorRefund: /^Refunded sponsor contribution (\d+) to \w+$/,
+  tokenPrizePool: /^Total prize pool: (\d+) tokens$/,
+  tokenCreatorFee: /^Transferred creator fee (\d+) tokens to \w+$/,
+  tokenServiceFee: /^Transferred service fee (\d+) tokens to \w+$/,
+  tokenWinnerAmount: /^Transferred winner amount (\d+) tokens to \w+$/,
+  tokenCreatorRefund:
+    /^Returned remaining (\d+) tokens from vault to creator\.$/,
+};
+
+const programLogs = (logs: string[]): string[] =>
+  logs
+    .filter((line) => line.startsWith(LOG_PREFIX))
+    .map((line) => line.slice(LOG_PREFIX.length));
+
+const firstMatch = (
+  lines: string[],
+  pattern: RegExp
+): RegExpExecArray | null => {
+  for (const line of lines) {
+    const match = pattern.exec(line);
+    if (match) return match;
+  }
+  return null;
+};
+
+const amount = (lines: string[], pattern: RegExp): BN => {
+  const match = firstMatch(lines, pattern);
+  return new BN(match ? match[1] : 0);
+};
+
+const tokenAmounts = (lines: string[]): TokenPayoutAmounts | null => {
+  const prizePool = firstMatch(lines, PATTERNS.tokenPrizePool);
+  const creatorRefund = firstMatch(lines, PATTERNS.tokenCreatorRefund);
+  if (!prizePool && !creatorRefund) return null;
+  return {
+    vaultBalance: new BN(prizePool ? prizePool[1] : creatorRefund![1]),
+    creatorFee: amount(lines, PATTERNS.tokenCreatorFee),
+    serviceFee: amount(lines, PATTERNS.tokenServiceFee),
+    winnerAmount: amount(lines, PATTERNS.tokenWinnerAmount),
+    creatorRefund: amount(lines, PATTERNS.tokenCreatorRefund),
+  };
+};
+
+/**
+ * Extracts payout amounts from the logs of an `announce_winner`,
+ * `announce_winners`, `claim_prize` or `cancel_room` transaction. Lines that
+ * were not logged (e.g. fees on a zero-fee room) read as zero.
+ */
+export const parsePayoutLogs = (
+  logs: string[],
+  kind: PayoutKind
+): PayoutAmounts => {
+  const lines = programLogs(logs);
+
+  if (kind === "cancelRoom") {
+    const creatorRefund = amount(lines, PATTERNS.creatorRefund);
+    const sponsorRefunds = lines
+      .map((line) => PATTERNS.sponsorRefund.exec(line))
+      .filter((match): match is RegExpExecArray => match !== null)
+      .reduce((sum, match) => sum.add(new BN(match[1])), new BN(0));
+    return {
+      vaultBalance: creatorRefund.add(sponsorRefunds),
+      vaultRent: new BN(0),
+      prizePool: new BN(0),
+      creatorFee: new BN(0),
+      serviceFee: new BN(0),
+      winnerAmount: new BN(0),
+      winnerAmounts: [],
+      creatorRefund,
+      sponsorRefunds,
+      tokens: tokenAmounts(lines),
+    };
+  }
+
+  const vault = firstMatch(lines, PATTERNS.vault);
+  if (!vault) {
+    throw new Error("Logs do not contain a payout vault summary");
+  }
+  // `announce_winner` pays out like a podium with a single place.
+  let winnerAmounts = lines
+    .map((line) => PATTERNS.placeAmount.exec(line))
+    .filter((match): match is RegExpExecArray => match !== null)
+    .map((match) => new BN(match[2]));
+  // A room without prize pool pays the whole vault to first place.
+  if (winnerAmounts.length === 0) {
+    winnerAmounts = [amount(lines, PATTERNS.winnerRentOnly)];
+  }
+  return {
+    vaultBalance: new BN(vault[1]),
+    vaultRent: new BN(vault[2]),
+    prizePool: amount(lines, PATTERNS.prizePool),
+    creatorFee: amount(lines, PATTERNS.creatorFee),
+    serviceFee: amount(lines, PATTERNS.serviceFee),
+    winnerAmount: winnerAmounts.reduce((sum, a) => sum.add(a), new BN(0)),
+    winnerAmounts,
+    creatorRefund: new BN(0),
+    sponsorRefunds: new BN(0),
+    tokens: tokenAmounts(lines),
+  };
+};
+
+/**
+ * Lists every way in which `receipt` fails to add up; empty when it balances.
+ * A cancel only returns the vault to the creator and the sponsors, so it is
+ * checked against those refunds instead of a prize pool. Token payouts are
+ * checked the same way against `vaultTokenOutflow`, when it is known.
+ */
+export const checkPayoutReceipt = (
+  receipt: PayoutAmounts & {
+    kind: PayoutKind;
+    vaultOutflow: BN;
+    vaultTokenOutflow?: BN | null;
+  }
+): string[] => {
+  const problems: string[] = [];
+  const paidOut =
+    receipt.kind === "cancelRoom"
+      ? receipt.creatorRefund.add(receipt.sponsorRefunds)
+      : receipt.creatorFee.add(receipt.serviceFee).add(receipt.winnerAmount);
+
+  if (
+    receipt.kind !== "cancelRoom" &&
+    !receipt.prizePool.add(receipt.vaultRent).eq(receipt.vaultBalance)
+  ) {
+    problems.push(
+      `prize pool ${receipt.prizePool} + rent ${receipt.vaultRent} != vault balance ${receipt.vaultBalance}`
+    );
+  }
+  if (!paidOut.eq(receipt.vaultBalance)) {
+    problems.push(
+      `payouts ${paidOut} != vault balance ${receipt.vaultBalance}`
+    );
+  }
+  if (!paidOut.eq(receipt.vaultOutflow)) {
+    problems.push(
+      `payouts ${paidOut} != lamports that left the vault ${receipt.vaultOutflow}`
+    );
+  }
+
+  const { tokens, vaultTokenOutflow } = receipt;
+  if (tokens) {
+    const tokensPaidOut = tokens.creatorFee
+      .add(tokens.serviceFee)
+      .add(tokens.winnerAmount)
+      .add(tokens.creatorRefund);
+    if (!tokensPaidOut.eq(tokens.vaultBalance)) {
+      problems.push(
+        `token payouts ${tokensPaidOut} != vault token balance ${tokens.vaultBalance}`
+      );
+    }
+  }
+  const tokensLogged = tokens ? tokens.vaultBalance : new BN(0);
+  if (vaultTokenOutflow && !tokensLogged.eq(vaultTokenOutflow)) {
+    problems.push(
+      `token payouts ${tokensLogged} != tokens that left the vault ${vaultTokenOutflow}`
+    );
+  }
+  return problems;
+};
+
+/**
+ * Fetches a confirmed `announce_winner`, `announce_winners`, `claim_prize` or
+ * `cancel_room` transaction and turns it into a `PayoutReceipt`. Throws
+ * `PayoutReceiptMismatchError` if the logged amounts do not match what left
+ * the vault. In a room with a dispute window the announcement pays nothing;
+ * its receipt is the one of the `claim_prize` transaction. Token rooms also
+ * get their token payouts, checked against the vault token account's balance
+ * change.
+ */
+export const fetchPayoutReceipt = async (
+  program: Program<PalapaFunRooms>,
+  signature: TransactionSignature
+): Promise<PayoutReceipt> => {
+  const tx = await program.provider.connection.getTransaction(signature, {
+    commitment: "confirmed",
+    maxSupportedTransactionVersion: 0,
+  });
+  if (!tx || !tx.meta) {
+    throw new Error(`Transaction ${signature} not found`);
+  }
+  if (tx.meta.err) {
+    throw new Error(`Transaction ${signature} failed; it paid nothing out`);
+  }
+
+  const accountKeys = tx.transaction.message.getAccountKeys({
+    accountKeysFromLookups: tx.meta.loadedAddresses,
+  });
+  const coder = new BorshInstructionCoder(program.idl);
+  let kind: PayoutKind | undefined;
+  let accounts: PublicKey[] = [];
+  for (const ix of tx.transaction.message.compiledInstructions) {
+    if (!accountKeys.get(ix.programIdIndex)?.equals(program.programId)) {
+      continue;
+    }
+    const decoded = coder.decode(Buffer.from(ix.data));
+    if (
+      decoded?.name === "announceWinner" ||
+      decoded?.name === "announceWinners" ||
+      decoded?.name === "claimPrize" ||
+      decoded?.name === "cancelRoom"
+    ) {
+      kind = decoded.name;
+      accounts = ix.accountKeyIndexes.map((i) => accountKeys.get(i)!);
+      break;
+    }
+  }
+  if (!kind) {
+    throw new Error(
+      `Transaction ${signature} is not an announce_winner(s), claim_prize or cancel_room call`
+    );
+  }
+
+  // Account order follows the AnnounceWinner / AnnounceWinners / ClaimPrize /
+  // CancelRoom contexts; the winners of `announce_winners` and `claim_prize`
+  // are their remaining accounts, after the settling `authority` or `caller`,
+  // and so are the sponsors refunded by `cancel_room`.
+  const [creator, room, vault] = accounts;
+  let recipients: PayoutRecipients = { creator };
+  if (kind === "cancelRoom") {
+    recipients = { creator, sponsors: accounts.slice(8) };
+  } else if (kind === "announceWinner") {
+    const winner = accounts[3];
+    recipients = {
+      creator,
+      winner,
+      winners: [winner],
+      serviceWallet: accounts[5],
+    };
+  } else if (kind === "announceWinners" || kind === "claimPrize") {
+    const winners = accounts.slice(7);
+    recipients = {
+      creator,
+      winner: winners[0],
+      winners,
+      serviceWallet: accounts[4],
+    };
+  }
+
+  let vaultIndex = -1;
+  for (let i = 0; i < accountKeys.length; i++) {
+    if (accountKeys.get(i)!.equals(vault)) vaultIndex = i;
+  }
+  if (vaultIndex === -1) {
+    throw new Error(
+      `Transaction ${signature} does not list the room vault ${vault}`
+    );
+  }
+  const vaultOutflow = new BN(
+    tx.meta.preBalances[vaultIndex] - tx.meta.postBalances[vaultIndex]
+  );
+
+  // The vault owns a single token account, its ATA for the room's mint. It
+  // is closed by the payout, so it may have no post balance.
+  const vaultTokens = (tx.meta.preTokenBalances ?? []).find(
+    (balance) => balance.owner === vault.toBase58()
+  );
+  const postVaultTokens = (tx.meta.postTokenBalances ?? []).find(
+    (balance) => balance.accountIndex === vaultTokens?.accountIndex
+  );
+  const mint = vaultTokens ? new PublicKey(vaultTokens.mint) : null;
+  const vaultTokenOutflow = vaultTokens
+    ? new BN(vaultTokens.uiTokenAmount.amount).sub(
+        new BN(postVaultTokens?.uiTokenAmount.amount ?? 0)
+      )
+    : null;
+
+  const receipt: PayoutReceipt = {
+    ...parsePayoutLogs(tx.meta.logMessages ?? [], kind),
+    kind,
+    signature,
+    slot: tx.slot,
+    blockTime: tx.blockTime ?? null,
+    room,
+    vault,
+    recipients,
+    vaultOutflow,
+    mint,
+    vaultTokenOutflow,
+  };
+  const problems = checkPayoutReceipt(receipt);
+  if (problems.length > 0) {
+    throw new PayoutReceiptMismatchError(problems);
+  }
+  return receipt;
+};
@@ -0,0 +1,77 @@
+import { sha256 } from "@noble/hashes/sha2";
+import { PublicKey, Signer, Transaction } from "@solana/web3.js";
+import { BASIS_POINTS_DENOMINATOR } from "./constants";
+import { RoomData, WinnerShare } from "./palapa-client";
+
+// Refereed rooms are settled by their referees instead of the creator. Each
+// referee approves a result with `approve_result`, separately or inside the
+// settling transaction, and any referee announces it once `refereeThreshold`
+// of them (counting the announcing one) approved exactly the same shares.
+
+/** The shares an `announce_winner` of `winner` is approved as. */
+export const soleWinner = (winner: PublicKey): WinnerShare[] => [
+  { winner, shareBasisPoints: BASIS_POINTS_DENOMINATOR.toNumber() },
+];
+
+/**
+ * What a referee approves: the SHA-256 of `shares` in their Borsh layout,
+ * as `WinnerShare::result_hash` computes it on-chain.
+ */
+export const resultHash = (shares: WinnerShare[]): Uint8Array => {
+  const data = Buffer.alloc(4 + shares.length * 34);
+  data.writeUInt32LE(shares.length, 0);
+  shares.forEach(({ winner, shareBasisPoints }, i) => {
+    winner.toBuffer().copy(data, 4 + i * 34);
+    data.writeUInt16LE(shareBasisPoints, 4 + i * 34 + 32);
+  });
+  return sha256(data);
+};
+
+export const isRefereed = (room: RoomData): boolean => room.referees.length > 0;
+
+export interface ApprovalStatus {
+  /** Referees whose current approval is for these shares. */
+  approvedBy: PublicKey[];
+  /**
+   * Further approvals needed before `authority` can announce the shares;
+   * the announcing referee counts as approving them.
+   */
+  missing: number;
+}
+
+/** How far a refereed room is from being settled with `shares`. */
+export const approvalStatus = (
+  room: RoomData,
+  shares: WinnerShare[],
+  authority?: PublicKey
+): ApprovalStatus => {
+  const result = Buffer.from(resultHash(shares));
+  const approvedBy = room.approvals
+    .filter((approval) => result.equals(Buffer.from(approval.result)))
+    .map((approval) => approval.referee);
+  const signerCounts =
+    authority !== undefined &&
+    room.referees.some((referee) => referee.equals(authority)) &&
+    !approvedBy.some((referee) => referee.equals(authority));
+  const count = approvedBy.length + (signerCounts ? 1 : 0);
+  return {
+    approvedBy,
+    missing: Math.max(0, room.refereeThreshold - count),
+  };
+};
+
+/**
+ * Adds `referee`'s signature to a serialized settlement (see the `approvers`
+ * option of `PalapaClient.announceWinnerTransaction`) and returns it
+ * serialized again, for the next referee or for the fee payer to send.
+ */
+export const cosignTransaction = (
+  serialized: string,
+  referee: Signer
+): string => {
+  const tx = Transaction.from(Buffer.from(serialized, "base64"));
+  tx.partialSign(referee);
+  return tx
+    .serialize({ requireAllSignatures: false, verifySignatures: false })
+    .toString("base64");
+};
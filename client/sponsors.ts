@@ -0,0 +1,63 @@
+import { BN } from "@coral-xyz/anchor";
+import { PublicKey } from "@solana/web3.js";
+import { RoomData } from "./palapa-client";
+import { computePayout } from "./payout";
+
+// Sponsors add lamports to a room's pot with `add_to_pot`, on top of the
+// entry fees. `RoomData.sponsors` records each contribution apart from the
+// entry fees; fee-exempt ones reach the winners without creator or service
+// fees. Cancelling or expiring the room returns every contribution to its
+// sponsor, so that call passes the sponsors ahead of the players it refunds.
+
+/** Lamports sponsors added to the pot. */
+export const sponsoredTotal = (room: RoomData): BN =>
+  room.sponsors.reduce((sum, { amount }) => sum.add(amount), new BN(0));
+
+/** Sponsored lamports the winners receive without fees. */
+export const feeExemptTotal = (room: RoomData): BN =>
+  room.sponsors
+    .filter(({ feeExempt }) => feeExempt)
+    .reduce((sum, { amount }) => sum.add(amount), new BN(0));
+
+/**
+ * The accounts `cancel_room`, or the first `cancel_room_with_refunds` or
+ * `expire_room` call, returns contributions to, in `RoomData.sponsors` order.
+ */
+export const sponsorAccounts = (room: RoomData): PublicKey[] =>
+  room.sponsors.map(({ sponsor }) => sponsor);
+
+export interface AdvertisedPot {
+  /** Entry fees once every seat is taken. */
+  entryFees: BN;
+  /** Lamports sponsors added so far. */
+  sponsored: BN;
+  /** `entryFees` plus `sponsored`. */
+  total: BN;
+  /** What the winners share of `total` after the creator and service fees. */
+  prize: BN;
+}
+
+/**
+ * The pot a room can advertise: the entry fees of a full room plus what
+ * sponsors added, and the prize the winners would share, since fees are not
+ * taken on fee-exempt sponsorship. Pass the fee rates of the live `Config`.
+ * Token rooms count their entry fees in the
+ * mint's base units and have no sponsors.
+ */
+export const advertisedPot = (
+  room: RoomData,
+  creatorBps: BN | number,
+  serviceBps: BN | number
+): AdvertisedPot => {
+  const entryFees = room.entryFee.muln(room.maxPlayers);
+  const sponsored = sponsoredTotal(room);
+  const total = entryFees.add(sponsored);
+  const { winnerShare } = computePayout(
+    total,
+    0,
+    creatorBps,
+    serviceBps,
+    feeExemptTotal(room)
+  );
+  return { entryFees, sponsored, total, prize: winnerShare };
+};
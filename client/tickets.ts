@@ -0,0 +1,32 @@
+import { Program } from "@coral-xyz/anchor";
+import { PublicKey } from "@solana/web3.js";
+import { PalapaFunRooms } from "../target/types/palapa_fun_rooms";
+import { MAX_INLINE_PLAYERS } from "./constants";
+import { TICKET_ROOM_OFFSET } from "./layout";
+import { RoomData } from "./palapa-client";
+
+// Rooms with more than `MAX_INLINE_PLAYERS` seats don't list their players in
+// `RoomData.players`. Each player holds a `PlayerTicket` PDA instead, and the
+// room only keeps `ticket_count`.
+
+/** Whether the room tracks its players with `PlayerTicket` PDAs. */
+export const usesTickets = (room: RoomData): boolean =>
+  room.maxPlayers > MAX_INLINE_PLAYERS;
+
+/** Players in the room, or still owed a refund once it is cancelled or expired. */
+export const playerCount = (room: RoomData): number =>
+  usesTickets(room) ? room.ticketCount : room.players.length;
+
+/**
+ * Players holding a ticket for `room`. Tickets of a finished room are kept
+ * until `release_tickets` closes them.
+ */
+export const listTicketHolders = async (
+  program: Program<PalapaFunRooms>,
+  room: PublicKey
+): Promise<PublicKey[]> => {
+  const tickets = await program.account.playerTicket.all([
+    { memcmp: { offset: TICKET_ROOM_OFFSET, bytes: room.toBase58() } },
+  ]);
+  return tickets.map(({ account }) => account.player);
+};
@@ -0,0 +1,31 @@
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  getAssociatedTokenAddressSync,
+} from "@solana/spl-token";
+import { PublicKey, TransactionInstruction } from "@solana/web3.js";
+
+// Token rooms (created with a `mint`) hold entry fees in the vault PDA's
+// associated token account and pay out to the recipients' associated token
+// accounts.
+
+/** `owner`'s associated token account for `mint`; `owner` may be a PDA. */
+export const getTokenAddress = (mint: PublicKey, owner: PublicKey): PublicKey =>
+  getAssociatedTokenAddressSync(mint, owner, true);
+
+/**
+ * Instructions creating the associated token accounts of `owners` for `mint`,
+ * paid by `payer`. Accounts that already exist are left alone.
+ */
+export const createTokenAccountInstructions = (
+  payer: PublicKey,
+  mint: PublicKey,
+  owners: PublicKey[]
+): TransactionInstruction[] =>
+  owners.map((owner) =>
+    createAssociatedTokenAccountIdempotentInstruction(
+      payer,
+      getTokenAddress(mint, owner),
+      owner,
+      mint
+    )
+  );
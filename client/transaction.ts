@@ -0,0 +1,377 @@
+import {
+  Program,
+  parseIdlErrors,
+  translateError,
+  utils,
+} from "@coral-xyz/anchor";
+import {
+  Commitment,
+  ComputeBudgetProgram,
+  PublicKey,
+  SendTransactionError,
+  Signer,
+  Transaction,
+  TransactionExpiredBlockheightExceededError,
+  TransactionInstruction,
+  TransactionSignature,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { PalapaFunRooms } from "../target/types/palapa_fun_rooms";
+import { PalapaErrorSource, decodePalapaError } from "./errors";
+
+/** Compute units a transaction may use at most. */
+export const MAX_COMPUTE_UNIT_LIMIT = 1_400_000;
+export const DEFAULT_COMPUTE_UNIT_MARGIN = 1.1;
+export const DEFAULT_MAX_ATTEMPTS = 3;
+/** Percentile of recent prioritization fees used by `priorityFee: "auto"`. */
+export const AUTO_PRIORITY_FEE_PERCENTILE = 75;
+/**
+ * Pause before resending the same transaction after a transport failure, and
+ * between rebroadcasts while it is unconfirmed.
+ */
+export const RESEND_INTERVAL_MS = 2_000;
+
+export interface TransactionOptions {
+  /**
+   * Compute unit limit. `"auto"` simulates first and uses the units consumed
+   * times `computeUnitMargin`. Unset keeps the runtime default.
+   */
+  computeUnitLimit?: number | "auto";
+  /** Multiplier applied to simulated units with `"auto"`. Defaults to 1.1. */
+  computeUnitMargin?: number;
+  /**
+   * Priority fee in micro-lamports per compute unit. `"auto"` uses a
+   * percentile of the recent fees paid for the accounts this transaction
+   * writes. Unset adds no priority fee.
+   */
+  priorityFee?: number | "auto";
+  /**
+   * Simulate before sending, so failures are thrown without paying a fee.
+   * When `false` the RPC preflight is skipped too and failures land on-chain.
+   * Defaults to `true`.
+   */
+  simulate?: boolean;
+  /**
+   * Attempts, each with a fresh blockhash, when the blockhash expires before
+   * confirmation. Within an attempt, transport failures resend the same
+   * signed transaction, so it can never land twice. Defaults to 3.
+   */
+  maxAttempts?: number;
+  /** Commitment used to confirm. Defaults to `confirmed`. */
+  commitment?: Commitment;
+  /** Fee payer; defaults to the provider wallet. */
+  feePayer?: PublicKey;
+}
+
+export interface SimulationResult {
+  /** Compute units consumed by the simulation, when reported. */
+  unitsConsumed?: number;
+  logs: string[];
+  /**
+   * Why the simulation failed: a typed `PalapaProgramError` for program
+   * errors, else the translated Anchor or RPC error.
+   */
+  error?: Error;
+}
+
+/**
+ * A program call ready to be simulated, serialized for an external wallet or
+ * signed and sent. Compute budget instructions are prepended according to
+ * `options`.
+ */
+export class PalapaTransaction {
+  readonly options: TransactionOptions;
+
+  constructor(
+    readonly program: Program<PalapaFunRooms>,
+    readonly instructions: TransactionInstruction[],
+    /** Extra signers besides the fee payer (e.g. a player keypair). */
+    readonly signers: Signer[] = [],
+    options: TransactionOptions = {}
+  ) {
+    this.options = options;
+  }
+
+  get connection() {
+    return this.program.provider.connection;
+  }
+
+  get commitment(): Commitment {
+    return this.options.commitment ?? "confirmed";
+  }
+
+  get feePayer(): PublicKey {
+    const payer =
+      this.options.feePayer ?? this.program.provider.wallet?.publicKey;
+    if (!payer) {
+      throw new Error("No fee payer: pass `feePayer` or use a provider wallet");
+    }
+    return payer;
+  }
+
+  /**
+   * Simulates the call (signatures are not checked) with the configured
+   * priority fee and the maximum compute limit, so the reported units are
+   * what the call needs.
+   */
+  async simulate(): Promise<SimulationResult> {
+    const priorityFee = await this.priorityFee();
+    const tx = this.assemble(MAX_COMPUTE_UNIT_LIMIT, priorityFee);
+    tx.recentBlockhash = PublicKey.default.toBase58();
+    tx.feePayer = this.feePayer;
+
+    const { value } = await this.connection.simulateTransaction(
+      new VersionedTransaction(tx.compileMessage()),
+      {
+        sigVerify: false,
+        replaceRecentBlockhash: true,
+        commitment: this.commitment,
+      }
+    );
+    const logs = value.logs ?? [];
+    const result: SimulationResult = {
+      unitsConsumed: value.unitsConsumed,
+      logs,
+    };
+    if (value.err) {
+      result.error = this.translate(
+        new SendTransactionError({
+          action: "simulate",
+          signature: "",
+          transactionMessage: `Simulation failed: ${JSON.stringify(value.err)}`,
+          logs,
+        }),
+        "simulation"
+      ) as Error;
+    }
+    return result;
+  }
+
+  /**
+   * Builds the transaction with compute budget instructions and a fresh
+   * blockhash, partially signed by `signers` only.
+   */
+  async build(): Promise<{
+    transaction: Transaction;
+    lastValidBlockHeight: number;
+  }> {
+    const priorityFee = await this.priorityFee();
+    let limit: number | undefined;
+    if (this.options.computeUnitLimit === "auto") {
+      const simulation = await this.simulate();
+      if (simulation.error) throw simulation.error;
+      limit = simulation.unitsConsumed
+        ? Math.min(
+            MAX_COMPUTE_UNIT_LIMIT,
+            Math.ceil(
+              simulation.unitsConsumed *
+                (this.options.computeUnitMargin ?? DEFAULT_COMPUTE_UNIT_MARGIN)
+            )
+          )
+        : undefined;
+    } else {
+      limit = this.options.computeUnitLimit;
+    }
+
+    const transaction = this.assemble(limit, priorityFee);
+    const { blockhash, lastValidBlockHeight } =
+      await this.connection.getLatestBlockhash(this.commitment);
+    transaction.recentBlockhash = blockhash;
+    transaction.feePayer = this.feePayer;
+    if (this.signers.length > 0) transaction.partialSign(...this.signers);
+    return { transaction, lastValidBlockHeight };
+  }
+
+  /**
+   * Base64 wire format of the transaction, unsigned by the fee payer, for a
+   * wallet to sign and submit.
+   */
+  async serialize(): Promise<string> {
+    const { transaction } = await this.build();
+    return transaction
+      .serialize({ requireAllSignatures: false, verifySignatures: false })
+      .toString("base64");
+  }
+
+  /**
+   * Signs with the provider wallet, sends and confirms. Failures are rethrown
+   * as a typed `PalapaProgramError` tagged with where they happened, or as the
+   * translated Anchor error. Transport failures resend the same signed bytes
+   * until its blockhash expires, and so does waiting for confirmation, every
+   * `RESEND_INTERVAL_MS`, in case a node dropped it. Only an expired blockhash
+   * rebuilds the transaction, up to `maxAttempts` times.
+   */
+  async send(): Promise<TransactionSignature> {
+    const { wallet } = this.program.provider;
+    if (!wallet) {
+      throw new Error(
+        "PalapaTransaction.send requires a provider with a wallet"
+      );
+    }
+    const simulate = this.options.simulate ?? true;
+    if (simulate && this.options.computeUnitLimit !== "auto") {
+      const { error } = await this.simulate();
+      if (error) throw error;
+    }
+
+    const maxAttempts = Math.max(
+      1,
+      this.options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS
+    );
+    for (let attempt = 1; ; attempt++) {
+      const { transaction, lastValidBlockHeight } = await this.build();
+      const signed = await wallet.signTransaction(transaction);
+      const raw = signed.serialize();
+      // Known before sending, so a send that timed out can still be confirmed.
+      const signature = utils.bytes.bs58.encode(signed.signature!);
+      await this.sendRaw(raw, lastValidBlockHeight);
+
+      const rebroadcast = setInterval(
+        () => this.rebroadcast(raw, lastValidBlockHeight),
+        RESEND_INTERVAL_MS
+      );
+      try {
+        const { value } = await this.connection.confirmTransaction(
+          {
+            signature,
+            blockhash: transaction.recentBlockhash!,
+            lastValidBlockHeight,
+          },
+          this.commitment
+        );
+        if (value.err) {
+          throw await this.onChainFailure(signature, JSON.stringify(value.err));
+        }
+        return signature;
+      } catch (err) {
+        if (
+          err instanceof TransactionExpiredBlockheightExceededError &&
+          attempt < maxAttempts
+        ) {
+          continue;
+        }
+        throw err;
+      } finally {
+        clearInterval(rebroadcast);
+      }
+    }
+  }
+
+  /**
+   * Sends `raw`, resending the same bytes after transport failures until its
+   * blockhash expires. A send that looked failed may still have reached the
+   * leader, so a new transaction is never built here.
+   */
+  private async sendRaw(
+    raw: Buffer,
+    lastValidBlockHeight: number
+  ): Promise<void> {
+    for (;;) {
+      try {
+        await this.connection.sendRawTransaction(raw, {
+          // Already simulated above, or deliberately skipped.
+          skipPreflight: true,
+          preflightCommitment: this.commitment,
+        });
+        return;
+      } catch (err) {
+        // Rejected by the node (e.g. preflight); anything else is transport.
+        if (err instanceof SendTransactionError) {
+          throw this.translate(err, "simulation");
+        }
+        let blockHeight: number;
+        try {
+          blockHeight = await this.connection.getBlockHeight(this.commitment);
+        } catch {
+          throw this.translate(err, "simulation");
+        }
+        // Expired: confirmation tells whether an earlier send landed.
+        if (blockHeight > lastValidBlockHeight) return;
+        await new Promise((resolve) => setTimeout(resolve, RESEND_INTERVAL_MS));
+      }
+    }
+  }
+
+  /**
+   * Sends `raw` again while its confirmation is pending, unless its blockhash
+   * expired. Failures are ignored: the confirmation reports the outcome.
+   */
+  private rebroadcast(raw: Buffer, lastValidBlockHeight: number): void {
+    this.connection
+      .getBlockHeight(this.commitment)
+      .then((blockHeight) => {
+        if (blockHeight > lastValidBlockHeight) return;
+        return this.connection.sendRawTransaction(raw, {
+          skipPreflight: true,
+          preflightCommitment: this.commitment,
+        });
+      })
+      .catch(() => undefined);
+  }
+
+  private assemble(
+    computeUnitLimit: number | undefined,
+    priorityFee: number | undefined
+  ): Transaction {
+    const tx = new Transaction();
+    if (computeUnitLimit !== undefined) {
+      tx.add(
+        ComputeBudgetProgram.setComputeUnitLimit({ units: computeUnitLimit })
+      );
+    }
+    if (priorityFee !== undefined && priorityFee > 0) {
+      tx.add(
+        ComputeBudgetProgram.setComputeUnitPrice({ microLamports: priorityFee })
+      );
+    }
+    return tx.add(...this.instructions);
+  }
+
+  private async priorityFee(): Promise<number | undefined> {
+    const { priorityFee } = this.options;
+    if (priorityFee !== "auto") return priorityFee;
+
+    const writable = new Map<string, PublicKey>();
+    this.instructions.forEach((ix) =>
+      ix.keys
+        .filter((key) => key.isWritable)
+        .forEach((key) => writable.set(key.pubkey.toBase58(), key.pubkey))
+    );
+    const recent = await this.connection.getRecentPrioritizationFees({
+      lockedWritableAccounts: [...writable.values()],
+    });
+    if (recent.length === 0) return undefined;
+    const fees = recent
+      .map(({ prioritizationFee }) => prioritizationFee)
+      .sort((a, b) => a - b);
+    const index =
+      Math.ceil((AUTO_PRIORITY_FEE_PERCENTILE / 100) * fees.length) - 1;
+    return fees[Math.max(0, index)];
+  }
+
+  private async onChainFailure(
+    signature: TransactionSignature,
+    message: string
+  ): Promise<unknown> {
+    const failed = await this.connection.getTransaction(signature, {
+      commitment: "confirmed",
+      maxSupportedTransactionVersion: 0,
+    });
+    return this.translate(
+      new SendTransactionError({
+        action: "send",
+        signature,
+        transactionMessage: message,
+        logs: failed?.meta?.logMessages ?? undefined,
+      }),
+      "onchain"
+    );
+  }
+
+  private translate(err: unknown, source: PalapaErrorSource): unknown {
+    return (
+      decodePalapaError(err, source) ??
+      translateError(err, parseIdlErrors(this.program.idl))
+    );
+  }
+}
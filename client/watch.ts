@@ -0,0 +1,433 @@
+import { Program } from "@coral-xyz/anchor";
+import { AccountInfo, Commitment, PublicKey } from "@solana/web3.js";
+import { PalapaFunRooms } from "../target/types/palapa_fun_rooms";
+import { RoomData } from "./palapa-client";
+import { playerCount } from "./tickets";
+
+interface RoomEventBase {
+  roomPda: PublicKey;
+  /** Room state after the transition. */
+  room: RoomData;
+  /** Slot of the snapshot the event was derived from. */
+  slot: number;
+}
+
+export interface PlayerJoinedEvent extends RoomEventBase {
+  type: "playerJoined";
+  player: PublicKey;
+}
+
+/** The player called `leave_room` and was refunded. */
+export interface PlayerLeftEvent extends RoomEventBase {
+  type: "playerLeft";
+  player: PublicKey;
+}
+
+/** `join_room` filled the last seat and flipped the room to `InProgress`. */
+export interface RoomFullEvent extends RoomEventBase {
+  type: "roomFull";
+}
+
+/** The creator started a room that still had free seats. */
+export interface RoomStartedEvent extends RoomEventBase {
+  type: "roomStarted";
+}
+
+/**
+ * The winners were announced, or drawn in a raffle. In a room with a dispute
+ * window and in a raffle they are only paid by `claim_prize`, reported as
+ * `prizeClaimed`.
+ */
+export interface WinnerAnnouncedEvent extends RoomEventBase {
+  type: "winnerAnnounced";
+  /** First place. */
+  winner: PublicKey;
+  /** Every winner from first place down; one entry for `announce_winner`. */
+  winners: PublicKey[];
+}
+
+/** A player froze the pending payout with `dispute_result`. */
+export interface ResultDisputedEvent extends RoomEventBase {
+  type: "resultDisputed";
+  player: PublicKey;
+}
+
+/** `resolve_dispute` upheld or replaced the disputed result. */
+export interface DisputeResolvedEvent extends RoomEventBase {
+  type: "disputeResolved";
+  winners: PublicKey[];
+}
+
+/** `claim_prize` paid out the result of a room with a dispute window or a raffle. */
+export interface PrizeClaimedEvent extends RoomEventBase {
+  type: "prizeClaimed";
+  winners: PublicKey[];
+}
+
+export interface RoomCancelledEvent extends RoomEventBase {
+  type: "roomCancelled";
+}
+
+/** A deadline passed and `expire_room` refunded the players. */
+export interface RoomExpiredEvent extends RoomEventBase {
+  type: "roomExpired";
+}
+
+export type RoomEvent =
+  | PlayerJoinedEvent
+  | PlayerLeftEvent
+  | RoomFullEvent
+  | RoomStartedEvent
+  | WinnerAnnouncedEvent
+  | ResultDisputedEvent
+  | DisputeResolvedEvent
+  | PrizeClaimedEvent
+  | RoomCancelledEvent
+  | RoomExpiredEvent;
+
+export type RoomEventType = RoomEvent["type"];
+
+export type RoomEventOf<T extends RoomEventType> = Extract<
+  RoomEvent,
+  { type: T }
+>;
+
+export interface WatchOptions {
+  /** Commitment of the subscription and re-fetches. */
+  commitment?: Commitment;
+  /**
+   * How often state is re-fetched and diffed, to recover updates lost while
+   * the websocket was reconnecting. `0` disables it. Defaults to 30s.
+   */
+  resyncIntervalMs?: number;
+}
+
+export const DEFAULT_RESYNC_INTERVAL_MS = 30_000;
+
+type Transition = { type: RoomEventType; player?: PublicKey };
+
+const isOpen = (room: RoomData) =>
+  room.status.openForJoining !== undefined || room.status.created !== undefined;
+
+const hasLeftOpen = (room: RoomData) =>
+  room.status.inProgress !== undefined || isAnnounced(room);
+
+/** Winners are set: paid, or pending and possibly disputed. */
+const isAnnounced = (room: RoomData) =>
+  room.status.finished !== undefined ||
+  room.status.pendingPayout !== undefined ||
+  room.status.disputed !== undefined;
+
+const isResolved = (room: RoomData) =>
+  room.disputedBy !== null &&
+  (room.status.pendingPayout !== undefined ||
+    room.status.finished !== undefined);
+
+/**
+ * Transitions between two snapshots of a room, in the order they happened.
+ * Steps skipped between the snapshots are filled in, so a room seen open and
+ * then finished still yields its joins, `roomFull`/`roomStarted` and
+ * `winnerAnnounced` (followed by `prizeClaimed` with a dispute window or in
+ * a raffle).
+ * Ticket rooms don't list their players, so they yield no
+ * `playerJoined`/`playerLeft` events.
+ */
+export const diffRoom = (prev: RoomData, next: RoomData): Transition[] => {
+  const transitions: Transition[] = [];
+  const remaining = new Set(next.players.map((p) => p.toBase58()));
+  for (const player of prev.players) {
+    if (!remaining.has(player.toBase58())) {
+      transitions.push({ type: "playerLeft", player });
+    }
+  }
+  const known = new Set(prev.players.map((p) => p.toBase58()));
+  for (const player of next.players) {
+    if (!known.has(player.toBase58())) {
+      transitions.push({ type: "playerJoined", player });
+    }
+  }
+  if (isOpen(prev) && hasLeftOpen(next)) {
+    transitions.push({
+      type: playerCount(next) >= next.maxPlayers ? "roomFull" : "roomStarted",
+    });
+  }
+  if (!isAnnounced(prev) && isAnnounced(next)) {
+    transitions.push({ type: "winnerAnnounced" });
+  }
+  if (prev.disputedBy === null && next.disputedBy !== null) {
+    transitions.push({ type: "resultDisputed", player: next.disputedBy });
+  }
+  if (!isResolved(prev) && isResolved(next)) {
+    transitions.push({ type: "disputeResolved" });
+  }
+  if (
+    (next.disputeWindow > 0 || next.revealWindow > 0) &&
+    prev.status.finished === undefined &&
+    next.status.finished !== undefined
+  ) {
+    transitions.push({ type: "prizeClaimed" });
+  }
+  if (
+    prev.status.cancelled === undefined &&
+    next.status.cancelled !== undefined
+  ) {
+    transitions.push({ type: "roomCancelled" });
+  }
+  if (prev.status.expired === undefined && next.status.expired !== undefined) {
+    transitions.push({ type: "roomExpired" });
+  }
+  return transitions;
+};
+
+/** State of a room right after `create_room`, used for rooms first seen late. */
+const freshRoom = (room: RoomData): RoomData => ({
+  ...room,
+  status: { openForJoining: {} },
+  players: [],
+  winners: [],
+  endTimestamp: null,
+  ticketCount: 0,
+  claimableAt: null,
+  winnerShares: [],
+  disputedBy: null,
+  revealDeadline: null,
+  entropy: new Array(32).fill(0),
+  raffleEntries: [],
+  sponsors: [],
+  payoutFees: null,
+  drawSlot: null,
+});
+
+type Listener<T extends RoomEventType> = (event: RoomEventOf<T>) => void;
+
+interface Snapshot {
+  room: RoomData;
+  slot: number;
+}
+
+/**
+ * Subscribes to one room (`PalapaClient.watchRoom`) or every room of the
+ * program (`PalapaClient.watchAll`) and emits typed transition events.
+ * Snapshots older than the last one seen are ignored, and state is re-fetched
+ * periodically so transitions missed during a reconnect are still reported.
+ * Closed rooms are forgotten.
+ */
+export class RoomWatcher {
+  private readonly listeners = new Map<
+    RoomEventType,
+    Set<(event: never) => void>
+  >();
+  private readonly errorListeners = new Set<(err: unknown) => void>();
+  private readonly snapshots = new Map<string, Snapshot>();
+  /** Accounts whose decoding failure was already reported. */
+  private readonly undecodable = new Set<string>();
+  private baselineLoaded = false;
+  private subscriptionId?: number;
+  private resyncTimer?: NodeJS.Timeout;
+  private readonly commitment: Commitment;
+  private readonly resyncIntervalMs: number;
+
+  private constructor(
+    readonly program: Program<PalapaFunRooms>,
+    /** Watched room, or `undefined` when watching every room. */
+    readonly roomPda: PublicKey | undefined,
+    options: WatchOptions
+  ) {
+    this.commitment = options.commitment ?? "confirmed";
+    this.resyncIntervalMs =
+      options.resyncIntervalMs ?? DEFAULT_RESYNC_INTERVAL_MS;
+  }
+
+  static async watchRoom(
+    program: Program<PalapaFunRooms>,
+    roomPda: PublicKey,
+    options: WatchOptions = {}
+  ): Promise<RoomWatcher> {
+    const watcher = new RoomWatcher(program, roomPda, options);
+    await watcher.start();
+    return watcher;
+  }
+
+  static async watchAll(
+    program: Program<PalapaFunRooms>,
+    options: WatchOptions = {}
+  ): Promise<RoomWatcher> {
+    const watcher = new RoomWatcher(program, undefined, options);
+    await watcher.start();
+    return watcher;
+  }
+
+  private get connection() {
+    return this.program.provider.connection;
+  }
+
+  on<T extends RoomEventType>(type: T, listener: Listener<T>): this {
+    if (!this.listeners.has(type)) this.listeners.set(type, new Set());
+    this.listeners.get(type)!.add(listener);
+    return this;
+  }
+
+  off<T extends RoomEventType>(type: T, listener: Listener<T>): this {
+    this.listeners.get(type)?.delete(listener);
+    return this;
+  }
+
+  /**
+   * Failures while re-fetching or decoding, or thrown by listeners; the
+   * watcher keeps running. Without an error listener they are dropped.
+   */
+  onError(listener: (err: unknown) => void): this {
+    this.errorListeners.add(listener);
+    return this;
+  }
+
+  /** Latest known state of `roomPda`. */
+  current(roomPda: PublicKey): RoomData | undefined {
+    return this.snapshots.get(roomPda.toBase58())?.room;
+  }
+
+  /** Re-fetches state now and emits whatever changed since the last snapshot. */
+  async resync(): Promise<void> {
+    if (this.roomPda) {
+      const { context, value } = await this.connection.getAccountInfoAndContext(
+        this.roomPda,
+        this.commitment
+      );
+      if (value) {
+        this.apply(this.roomPda, value, context.slot);
+      } else {
+        this.forget(this.roomPda.toBase58(), context.slot);
+      }
+      return;
+    }
+    const { context, value } = await this.connection.getProgramAccounts(
+      this.program.programId,
+      {
+        commitment: this.commitment,
+        filters: [{ memcmp: this.program.coder.accounts.memcmp("roomData") }],
+        withContext: true,
+      }
+    );
+    value.forEach(({ pubkey, account }) =>
+      this.apply(pubkey, account, context.slot)
+    );
+    // Rooms missing from the listing were closed.
+    const listed = new Set(value.map(({ pubkey }) => pubkey.toBase58()));
+    for (const key of [...this.snapshots.keys(), ...this.undecodable]) {
+      if (!listed.has(key)) this.forget(key, context.slot);
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.resyncTimer) clearInterval(this.resyncTimer);
+    this.resyncTimer = undefined;
+    if (this.subscriptionId === undefined) return;
+    const id = this.subscriptionId;
+    this.subscriptionId = undefined;
+    if (this.roomPda) {
+      await this.connection.removeAccountChangeListener(id);
+    } else {
+      await this.connection.removeProgramAccountChangeListener(id);
+    }
+  }
+
+  /** Subscribes, then loads the baseline without emitting events for it. */
+  private async start(): Promise<void> {
+    const config = { commitment: this.commitment };
+    if (this.roomPda) {
+      const roomPda = this.roomPda;
+      this.subscriptionId = this.connection.onAccountChange(
+        roomPda,
+        (account, { slot }) => this.apply(roomPda, account, slot),
+        config
+      );
+    } else {
+      this.subscriptionId = this.connection.onProgramAccountChange(
+        this.program.programId,
+        ({ accountId, accountInfo }, { slot }) =>
+          this.apply(accountId, accountInfo, slot),
+        {
+          ...config,
+          filters: [{ memcmp: this.program.coder.accounts.memcmp("roomData") }],
+        }
+      );
+    }
+
+    try {
+      await this.resync();
+    } catch (err) {
+      await this.close();
+      throw err;
+    }
+    // Anything seen from here on is a change.
+    this.baselineLoaded = true;
+
+    if (this.resyncIntervalMs > 0) {
+      this.resyncTimer = setInterval(() => {
+        this.resync().catch((err) => this.fail(err));
+      }, this.resyncIntervalMs);
+    }
+  }
+
+  private apply(
+    roomPda: PublicKey,
+    account: AccountInfo<Buffer>,
+    slot: number
+  ): void {
+    const key = roomPda.toBase58();
+    // A closed account has no data left to decode.
+    if (account.data.length === 0) return this.forget(key, slot);
+    let room: RoomData;
+    try {
+      room = this.program.coder.accounts.decode("roomData", account.data);
+    } catch (err) {
+      // Reported once, not again on every resync.
+      if (this.undecodable.has(key)) return;
+      this.undecodable.add(key);
+      return this.fail(err);
+    }
+    this.undecodable.delete(key);
+
+    const prev = this.snapshots.get(key);
+    if (prev && prev.slot > slot) return;
+    this.snapshots.set(key, { room, slot });
+
+    const before = prev?.room ?? (this.baselineLoaded ? freshRoom(room) : room);
+    for (const { type, player } of diffRoom(before, room)) {
+      const base = { roomPda, room, slot };
+      this.emit(
+        type === "playerJoined" ||
+          type === "playerLeft" ||
+          type === "resultDisputed"
+          ? { ...base, type, player: player! }
+          : type === "winnerAnnounced"
+          ? { ...base, type, winner: room.winners[0], winners: room.winners }
+          : type === "disputeResolved" || type === "prizeClaimed"
+          ? { ...base, type, winners: room.winners }
+          : ({ ...base, type } as RoomEvent)
+      );
+    }
+  }
+
+  /** Drops a closed room's snapshot, unless a newer one was already seen. */
+  private forget(key: string, slot: number): void {
+    const prev = this.snapshots.get(key);
+    if (prev && prev.slot > slot) return;
+    this.snapshots.delete(key);
+    this.undecodable.delete(key);
+  }
+
+  private emit(event: RoomEvent): void {
+    this.listeners.get(event.type)?.forEach((listener) => {
+      try {
+        (listener as (event: RoomEvent) => void)(event);
+      } catch (err) {
+        this.fail(err);
+      }
+    });
+  }
+
+  private fail(err: unknown): void {
+    this.errorListeners.forEach((listener) => listener(err));
+  }
+}
@@ -0,0 +1,3 @@
+export * from "./indexer";
+export * from "./server";
+export * from "./store";
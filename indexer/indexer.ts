@@ -0,0 +1,235 @@
+import { Program } from "@coral-xyz/anchor";
+import { unpackAccount } from "@solana/spl-token";
+import { AccountInfo, Commitment, PublicKey } from "@solana/web3.js";
+import { PalapaFunRooms } from "../target/types/palapa_fun_rooms";
+import {
+  PlayerTicket,
+  RoomData,
+  RoomStatusName,
+  getTokenAddress,
+  getVaultPda,
+} from "../client";
+import { IndexedRoom, IndexedTicket, RoomStore } from "./store";
+
+export interface RoomIndexerOptions {
+  /** Commitment for the backfill and the subscription. Defaults to `confirmed`. */
+  commitment?: Commitment;
+  /** Re-run the backfill this often to catch missed or closed accounts. */
+  resyncIntervalMs?: number;
+}
+
+// `getMultipleAccountsInfo` accepts at most 100 keys.
+const BALANCE_BATCH = 100;
+
+/**
+ * The vault's lamports, or in token rooms the amount in its token account,
+ * which is closed (0) once the room has paid out.
+ */
+const vaultBalance = (
+  { room, balanceAccount }: { room: RoomData; balanceAccount: PublicKey },
+  info: AccountInfo<Buffer> | null
+): string => {
+  if (!room.mint) return String(info?.lamports ?? 0);
+  return info ? unpackAccount(balanceAccount, info).amount.toString() : "0";
+};
+
+/**
+ * Mirrors every `RoomData` and `PlayerTicket` account of the program into a
+ * `RoomStore`: a full backfill on `start()`, then live updates from
+ * `onProgramAccountChange`.
+ * Vaults are system accounts, so their balance is re-read whenever their room
+ * changes (every deposit or payout also writes the room). Token rooms hold
+ * their pot in the vault's token account, which is read the same way.
+ */
+export class RoomIndexer {
+  readonly commitment: Commitment;
+  private subscriptionId?: number;
+  private resyncTimer?: NodeJS.Timeout;
+  private readonly resyncIntervalMs?: number;
+
+  constructor(
+    readonly program: Program<PalapaFunRooms>,
+    readonly store: RoomStore,
+    options: RoomIndexerOptions = {}
+  ) {
+    this.commitment = options.commitment ?? "confirmed";
+    this.resyncIntervalMs = options.resyncIntervalMs;
+  }
+
+  get connection() {
+    return this.program.provider.connection;
+  }
+
+  /** Subscribes first, then backfills, so no change falls in between. */
+  async start(): Promise<void> {
+    this.subscriptionId = this.connection.onProgramAccountChange(
+      this.program.programId,
+      ({ accountId, accountInfo }, { slot }) => {
+        this.apply(accountId, accountInfo, slot).catch((err) =>
+          console.error(`Failed to index ${accountId.toBase58()}:`, err)
+        );
+      },
+      { commitment: this.commitment }
+    );
+    await this.backfill();
+    if (this.resyncIntervalMs) {
+      this.resyncTimer = setInterval(() => {
+        this.backfill().catch((err) => console.error("Resync failed:", err));
+      }, this.resyncIntervalMs);
+    }
+  }
+
+  async stop(): Promise<void> {
+    if (this.resyncTimer) clearInterval(this.resyncTimer);
+    this.resyncTimer = undefined;
+    if (this.subscriptionId !== undefined) {
+      await this.connection.removeProgramAccountChangeListener(
+        this.subscriptionId
+      );
+      this.subscriptionId = undefined;
+    }
+  }
+
+  /**
+   * Loads every room account with its vault balance and every ticket, and
+   * drops rooms and tickets whose account no longer exists. Returns the
+   * number of rooms indexed.
+   */
+  async backfill(): Promise<number> {
+    const { context, value } = await this.connection.getProgramAccounts(
+      this.program.programId,
+      { commitment: this.commitment, withContext: true }
+    );
+    const rooms = value
+      .filter(({ account }) => this.isAccount("roomData", account.data))
+      .map(({ pubkey, account }) => this.decode(pubkey, account.data));
+    const tickets = value
+      .filter(({ account }) => this.isAccount("playerTicket", account.data))
+      .map(({ pubkey, account }) =>
+        this.decodeTicket(pubkey, account.data, context.slot)
+      );
+
+    const balances: string[] = [];
+    for (let i = 0; i < rooms.length; i += BALANCE_BATCH) {
+      const batch = rooms.slice(i, i + BALANCE_BATCH);
+      const infos = await this.connection.getMultipleAccountsInfo(
+        batch.map(({ balanceAccount }) => balanceAccount),
+        this.commitment
+      );
+      balances.push(...infos.map((info, j) => vaultBalance(batch[j], info)));
+    }
+
+    const live = new Set<string>();
+    rooms.forEach(({ pubkey, room, vault }, i) => {
+      live.add(pubkey.toBase58());
+      this.store.upsert(
+        this.toIndexed(pubkey, room, vault, balances[i], context.slot)
+      );
+    });
+    this.store
+      .roomPdas()
+      .filter((pda) => !live.has(pda))
+      .forEach((pda) => this.store.remove(pda, context.slot));
+    const liveTickets = new Set(tickets.map(({ pda }) => pda));
+    tickets.forEach((ticket) => this.store.upsertTicket(ticket));
+    this.store
+      .ticketPdas()
+      .filter((pda) => !liveTickets.has(pda))
+      .forEach((pda) => this.store.removeTicket(pda, context.slot));
+    this.store.lastSlot = context.slot;
+    return rooms.length;
+  }
+
+  private async apply(
+    pubkey: PublicKey,
+    account: AccountInfo<Buffer>,
+    slot: number
+  ): Promise<void> {
+    if (account.lamports === 0 || account.data.length === 0) {
+      // A closed account no longer says what it was.
+      if (!this.store.remove(pubkey.toBase58(), slot)) {
+        this.store.removeTicket(pubkey.toBase58(), slot);
+      }
+    } else if (this.isAccount("playerTicket", account.data)) {
+      this.store.upsertTicket(this.decodeTicket(pubkey, account.data, slot));
+    } else if (this.isAccount("roomData", account.data)) {
+      const decoded = this.decode(pubkey, account.data);
+      const info = await this.connection.getAccountInfo(
+        decoded.balanceAccount,
+        { commitment: this.commitment, minContextSlot: slot }
+      );
+      this.store.upsert(
+        this.toIndexed(
+          pubkey,
+          decoded.room,
+          decoded.vault,
+          vaultBalance(decoded, info),
+          slot
+        )
+      );
+    }
+    this.store.lastSlot = slot;
+  }
+
+  private decode(pubkey: PublicKey, data: Buffer) {
+    const room: RoomData = this.program.coder.accounts.decode("roomData", data);
+    const [vault] = getVaultPda(
+      this.program.programId,
+      room.creator,
+      room.roomSeed
+    );
+    const balanceAccount = room.mint
+      ? getTokenAddress(room.mint, vault)
+      : vault;
+    return { pubkey, room, vault, balanceAccount };
+  }
+
+  private toIndexed(
+    pubkey: PublicKey,
+    room: RoomData,
+    vault: PublicKey,
+    vaultBalance: string,
+    slot: number
+  ): IndexedRoom {
+    return {
+      pda: pubkey.toBase58(),
+      creator: room.creator.toBase58(),
+      roomSeed: room.roomSeed,
+      status: Object.keys(room.status)[0] as RoomStatusName,
+      maxPlayers: room.maxPlayers,
+      entryFee: room.entryFee.toString(),
+      mint: room.mint ? room.mint.toBase58() : null,
+      players: room.players.map((p) => p.toBase58()),
+      winner: room.winners.length > 0 ? room.winners[0].toBase58() : null,
+      creationTimestamp: room.creationTimestamp.toNumber(),
+      endTimestamp: room.endTimestamp ? room.endTimestamp.toNumber() : null,
+      vault: vault.toBase58(),
+      vaultBalance,
+      slot,
+    };
+  }
+
+  private decodeTicket(
+    pubkey: PublicKey,
+    data: Buffer,
+    slot: number
+  ): IndexedTicket {
+    const ticket: PlayerTicket = this.program.coder.accounts.decode(
+      "playerTicket",
+      data
+    );
+    return {
+      pda: pubkey.toBase58(),
+      room: ticket.room.toBase58(),
+      player: ticket.player.toBase58(),
+      slot,
+    };
+  }
+
+  private isAccount(name: "roomData" | "playerTicket", data: Buffer): boolean {
+    const { discriminator } = this.program.idl.accounts.find(
+      (account) => account.name === name
+    )!;
+    return data.subarray(0, 8).equals(Buffer.from(discriminator));
+  }
+}
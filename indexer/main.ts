@@ -0,0 +1,74 @@
+#!/usr/bin/env ts-node
+// Room indexer service.
+//
+//   npm run indexer -- [--url <url>] [--port <n>] [--db <file>]
+//
+// Backfills every room, follows changes over the RPC websocket and serves
+// them on http://localhost:<port>.
+
+import { parseArgs } from "util";
+import { Program } from "@coral-xyz/anchor";
+import { Connection, PublicKey } from "@solana/web3.js";
+import { PalapaFunRooms } from "../target/types/palapa_fun_rooms";
+import { loadIdl, loadProviderConfig } from "../cli/config";
+import { RoomIndexer } from "./indexer";
+import { createIndexerServer } from "./server";
+import { RoomStore } from "./store";
+
+const DEFAULT_PORT = 8787;
+const SAVE_INTERVAL_MS = 5_000;
+
+const main = async () => {
+  const { values: flags } = parseArgs({
+    options: {
+      url: { type: "string", short: "u" },
+      port: { type: "string", short: "p" },
+      db: { type: "string" },
+      "program-id": { type: "string" },
+      "resync-seconds": { type: "string" },
+    },
+  });
+  const config = loadProviderConfig({ url: flags.url });
+  const idl = loadIdl(
+    config.cluster,
+    flags["program-id"] ? new PublicKey(flags["program-id"]) : undefined
+  );
+  const connection = new Connection(config.url, "confirmed");
+  const program = new Program<PalapaFunRooms>(idl, { connection });
+
+  const store = await RoomStore.open(flags.db);
+  const indexer = new RoomIndexer(program, store, {
+    resyncIntervalMs: flags["resync-seconds"]
+      ? Number(flags["resync-seconds"]) * 1000
+      : undefined,
+  });
+  await indexer.start();
+  console.log(
+    `Indexed ${
+      store.roomPdas().length
+    } rooms of ${program.programId.toBase58()} on ${config.url}`
+  );
+
+  const saveTimer = flags.db
+    ? setInterval(() => store.save(), SAVE_INTERVAL_MS)
+    : undefined;
+  const port = flags.port ? Number(flags.port) : DEFAULT_PORT;
+  const server = createIndexerServer(store).listen(port, () =>
+    console.log(`Serving /rooms on http://localhost:${port}`)
+  );
+
+  const shutdown = async () => {
+    if (saveTimer) clearInterval(saveTimer);
+    server.close();
+    await indexer.stop();
+    store.close();
+    process.exit(0);
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+};
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
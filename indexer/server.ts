@@ -0,0 +1,100 @@
+import * as http from "http";
+import { PublicKey } from "@solana/web3.js";
+import { ROOM_STATUS_INDEX, RoomStatusName } from "../client";
+import { RoomQuery, RoomStore } from "./store";
+
+/** A 4xx answer to a malformed request. */
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+const pubkeyParam = (value: string, name: string): string => {
+  try {
+    return new PublicKey(value).toBase58();
+  } catch {
+    throw new HttpError(400, `Invalid ${name}: ${value}`);
+  }
+};
+
+const integerParam = (
+  params: URLSearchParams,
+  name: string
+): number | undefined => {
+  const value = params.get(name);
+  if (value === null) return undefined;
+  if (!/^\d+$/.test(value)) {
+    throw new HttpError(400, `${name} must be a non-negative integer`);
+  }
+  return Number(value);
+};
+
+const roomQuery = (params: URLSearchParams): RoomQuery => {
+  const status = params.get("status");
+  if (status !== null && !(status in ROOM_STATUS_INDEX)) {
+    throw new HttpError(
+      400,
+      `status must be one of ${Object.keys(ROOM_STATUS_INDEX).join(", ")}`
+    );
+  }
+  const creator = params.get("creator");
+  return {
+    status: (status ?? undefined) as RoomStatusName | undefined,
+    creator: creator !== null ? pubkeyParam(creator, "creator") : undefined,
+    page: integerParam(params, "page"),
+    pageSize: integerParam(params, "pageSize"),
+  };
+};
+
+/**
+ * Routes:
+ *   GET /rooms?status=&creator=&page=&pageSize=
+ *   GET /rooms/:pda
+ *   GET /players/:pubkey/rooms?status=&page=&pageSize=
+ */
+const route = (store: RoomStore, url: URL): unknown => {
+  const parts = url.pathname.split("/").filter(Boolean);
+
+  if (parts.length === 1 && parts[0] === "rooms") {
+    return store.listRooms(roomQuery(url.searchParams));
+  }
+  if (parts.length === 2 && parts[0] === "rooms") {
+    const room = store.getRoom(pubkeyParam(parts[1], "room address"));
+    if (!room) throw new HttpError(404, `Room ${parts[1]} is not indexed`);
+    return room;
+  }
+  if (parts.length === 3 && parts[0] === "players" && parts[2] === "rooms") {
+    const { creator: _creator, ...query } = roomQuery(url.searchParams);
+    return store.listRoomsByPlayer(pubkeyParam(parts[1], "player"), query);
+  }
+  throw new HttpError(404, `No route for ${url.pathname}`);
+};
+
+const send = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+  });
+  res.end(JSON.stringify(body));
+};
+
+/** Read-only JSON API over `store`. Call `listen()` on the result. */
+export const createIndexerServer = (store: RoomStore): http.Server =>
+  http.createServer((req, res) => {
+    if (req.method !== "GET") {
+      return send(res, 405, { error: "Only GET is supported" });
+    }
+    try {
+      const url = new URL(req.url ?? "/", "http://localhost");
+      send(res, 200, route(store, url));
+    } catch (err) {
+      if (err instanceof HttpError) {
+        send(res, err.status, { error: err.message });
+      } else {
+        console.error("Indexer request failed:", err);
+        send(res, 500, { error: "Internal error" });
+      }
+    }
+  });
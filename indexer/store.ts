@@ -0,0 +1,355 @@
+import * as fs from "fs";
+import initSqlJs, { Database, SqlValue } from "sql.js";
+import { RoomStatusName } from "../client";
+
+/**
+ * A room as kept by the indexer. Keys are base58, amounts are strings in the
+ * room's unit: lamports, or `mint`'s base units in token rooms.
+ */
+export interface IndexedRoom {
+  pda: string;
+  creator: string;
+  roomSeed: string;
+  status: RoomStatusName;
+  maxPlayers: number;
+  entryFee: string;
+  /** The token room's mint, or null when fees are in lamports. */
+  mint: string | null;
+  /** `RoomData.players`, or the ticket holders of a ticket room, sorted by key. */
+  players: string[];
+  /** First place; podium rooms list every winner in `RoomData.winners`. */
+  winner: string | null;
+  creationTimestamp: number;
+  endTimestamp: number | null;
+  vault: string;
+  /** The vault's lamports, or its token account's balance in token rooms. */
+  vaultBalance: string;
+  /** Slot of the account state this row reflects. */
+  slot: number;
+}
+
+/** A `PlayerTicket`: proof that `player` joined the ticket room `room`. */
+export interface IndexedTicket {
+  pda: string;
+  room: string;
+  player: string;
+  slot: number;
+}
+
+export interface RoomQuery {
+  status?: RoomStatusName;
+  creator?: string;
+  /** Zero-based page index. Defaults to 0. */
+  page?: number;
+  /** Rooms per page. Defaults to `DEFAULT_PAGE_SIZE`. */
+  pageSize?: number;
+}
+
+export interface IndexedRoomPage {
+  items: IndexedRoom[];
+  page: number;
+  pageSize: number;
+  total: number;
+}
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS rooms (
+    pda TEXT PRIMARY KEY,
+    creator TEXT NOT NULL,
+    room_seed TEXT NOT NULL,
+    status TEXT NOT NULL,
+    max_players INTEGER NOT NULL,
+    entry_fee TEXT NOT NULL,
+    mint TEXT,
+    winner TEXT,
+    creation_timestamp INTEGER NOT NULL,
+    end_timestamp INTEGER,
+    vault TEXT NOT NULL,
+    vault_balance TEXT NOT NULL,
+    slot INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS rooms_status ON rooms (status);
+  CREATE INDEX IF NOT EXISTS rooms_creator ON rooms (creator);
+  CREATE TABLE IF NOT EXISTS room_players (
+    room TEXT NOT NULL REFERENCES rooms (pda) ON DELETE CASCADE,
+    player TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    PRIMARY KEY (room, player)
+  );
+  CREATE INDEX IF NOT EXISTS room_players_player ON room_players (player);
+  CREATE TABLE IF NOT EXISTS tickets (
+    pda TEXT PRIMARY KEY,
+    room TEXT NOT NULL,
+    player TEXT NOT NULL,
+    slot INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS tickets_room ON tickets (room);
+  CREATE INDEX IF NOT EXISTS tickets_player ON tickets (player);
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+`;
+
+type Row = Record<string, SqlValue>;
+
+/**
+ * SQLite (sql.js, in-process) store of indexed rooms. With a `file` the
+ * database is loaded from and saved back to disk; otherwise it lives in
+ * memory only.
+ */
+export class RoomStore {
+  private constructor(private readonly db: Database, readonly file?: string) {}
+
+  static async open(file?: string): Promise<RoomStore> {
+    const SQL = await initSqlJs();
+    const db =
+      file && fs.existsSync(file)
+        ? new SQL.Database(fs.readFileSync(file))
+        : new SQL.Database();
+    db.run("PRAGMA foreign_keys = ON;");
+    db.run(SCHEMA);
+    // Files saved before rooms recorded their mint; the backfill on start fills it in.
+    const [{ values }] = db.exec("PRAGMA table_info(rooms)");
+    if (!values.some(([, name]) => name === "mint")) {
+      db.run("ALTER TABLE rooms ADD COLUMN mint TEXT");
+    }
+    return new RoomStore(db, file);
+  }
+
+  /**
+   * Inserts or replaces `room` unless the stored row comes from a later
+   * slot. Returns whether the row was written.
+   */
+  upsert(room: IndexedRoom): boolean {
+    const current = this.one("SELECT slot FROM rooms WHERE pda = ?", [
+      room.pda,
+    ]);
+    if (current && Number(current.slot) > room.slot) return false;
+
+    this.transaction(() => {
+      this.db.run(
+        `INSERT OR REPLACE INTO rooms (pda, creator, room_seed, status,
+           max_players, entry_fee, mint, winner, creation_timestamp,
+           end_timestamp, vault, vault_balance, slot)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          room.pda,
+          room.creator,
+          room.roomSeed,
+          room.status,
+          room.maxPlayers,
+          room.entryFee,
+          room.mint,
+          room.winner,
+          room.creationTimestamp,
+          room.endTimestamp,
+          room.vault,
+          room.vaultBalance,
+          room.slot,
+        ]
+      );
+      this.db.run("DELETE FROM room_players WHERE room = ?", [room.pda]);
+      room.players.forEach((player, position) =>
+        this.db.run(
+          "INSERT INTO room_players (room, player, position) VALUES (?, ?, ?)",
+          [room.pda, player, position]
+        )
+      );
+    });
+    return true;
+  }
+
+  /** Drops a room whose account was closed at or after its stored slot. */
+  remove(pda: string, slot: number): boolean {
+    const current = this.one("SELECT slot FROM rooms WHERE pda = ?", [pda]);
+    if (!current || Number(current.slot) > slot) return false;
+    this.transaction(() => {
+      this.db.run("DELETE FROM room_players WHERE room = ?", [pda]);
+      this.db.run("DELETE FROM rooms WHERE pda = ?", [pda]);
+    });
+    return true;
+  }
+
+  /**
+   * Inserts `ticket` unless the stored row comes from a later slot. Tickets
+   * are kept apart from rooms, since their notifications can arrive first.
+   */
+  upsertTicket(ticket: IndexedTicket): boolean {
+    const current = this.one("SELECT slot FROM tickets WHERE pda = ?", [
+      ticket.pda,
+    ]);
+    if (current && Number(current.slot) > ticket.slot) return false;
+    this.db.run(
+      "INSERT OR REPLACE INTO tickets (pda, room, player, slot) VALUES (?, ?, ?, ?)",
+      [ticket.pda, ticket.room, ticket.player, ticket.slot]
+    );
+    return true;
+  }
+
+  /** Drops a ticket whose account was closed at or after its stored slot. */
+  removeTicket(pda: string, slot: number): boolean {
+    const current = this.one("SELECT slot FROM tickets WHERE pda = ?", [pda]);
+    if (!current || Number(current.slot) > slot) return false;
+    this.db.run("DELETE FROM tickets WHERE pda = ?", [pda]);
+    return true;
+  }
+
+  ticketPdas(): string[] {
+    return this.all("SELECT pda FROM tickets", []).map((row) =>
+      String(row.pda)
+    );
+  }
+
+  getRoom(pda: string): IndexedRoom | null {
+    const row = this.one("SELECT * FROM rooms WHERE pda = ?", [pda]);
+    return row ? this.toRoom(row) : null;
+  }
+
+  roomPdas(): string[] {
+    return this.all("SELECT pda FROM rooms", []).map((row) => String(row.pda));
+  }
+
+  /** Rooms matching `query`, newest first. */
+  listRooms(query: RoomQuery = {}): IndexedRoomPage {
+    const where: string[] = [];
+    const params: SqlValue[] = [];
+    if (query.status) {
+      where.push("status = ?");
+      params.push(query.status);
+    }
+    if (query.creator) {
+      where.push("creator = ?");
+      params.push(query.creator);
+    }
+    return this.page(
+      `FROM rooms ${where.length ? `WHERE ${where.join(" AND ")}` : ""}`,
+      params,
+      query
+    );
+  }
+
+  /** Rooms `player` has joined or holds a ticket of, newest first. */
+  listRoomsByPlayer(
+    player: string,
+    query: Omit<RoomQuery, "creator"> = {}
+  ): IndexedRoomPage {
+    const params: SqlValue[] = [player, player];
+    let filter = "";
+    if (query.status) {
+      filter = "AND rooms.status = ?";
+      params.push(query.status);
+    }
+    return this.page(
+      `FROM rooms WHERE rooms.pda IN (
+         SELECT room FROM room_players WHERE player = ?
+         UNION SELECT room FROM tickets WHERE player = ?
+       ) ${filter}`,
+      params,
+      query
+    );
+  }
+
+  /** Highest slot seen so far, persisted across restarts. */
+  get lastSlot(): number {
+    const row = this.one("SELECT value FROM meta WHERE key = 'last_slot'", []);
+    return row ? Number(row.value) : 0;
+  }
+
+  set lastSlot(slot: number) {
+    if (slot <= this.lastSlot) return;
+    this.db.run(
+      "INSERT OR REPLACE INTO meta (key, value) VALUES ('last_slot', ?)",
+      [String(slot)]
+    );
+  }
+
+  /** Writes the database to `file`, if one was given. */
+  save(): void {
+    if (this.file) fs.writeFileSync(this.file, Buffer.from(this.db.export()));
+  }
+
+  close(): void {
+    this.save();
+    this.db.close();
+  }
+
+  private page(
+    from: string,
+    params: SqlValue[],
+    query: RoomQuery
+  ): IndexedRoomPage {
+    const page = Math.max(0, query.page ?? 0);
+    const pageSize = Math.min(
+      MAX_PAGE_SIZE,
+      Math.max(1, query.pageSize ?? DEFAULT_PAGE_SIZE)
+    );
+    const total = Number(this.one(`SELECT COUNT(*) AS n ${from}`, params)!.n);
+    const items = this.all(
+      `SELECT rooms.* ${from}
+       ORDER BY rooms.creation_timestamp DESC, rooms.pda
+       LIMIT ? OFFSET ?`,
+      [...params, pageSize, page * pageSize]
+    ).map((row) => this.toRoom(row));
+    return { items, page, pageSize, total };
+  }
+
+  private toRoom(row: Row): IndexedRoom {
+    const players = [
+      ...this.all(
+        "SELECT player FROM room_players WHERE room = ? ORDER BY position",
+        [row.pda]
+      ),
+      ...this.all("SELECT player FROM tickets WHERE room = ? ORDER BY player", [
+        row.pda,
+      ]),
+    ].map((p) => String(p.player));
+    return {
+      pda: String(row.pda),
+      creator: String(row.creator),
+      roomSeed: String(row.room_seed),
+      status: String(row.status) as RoomStatusName,
+      maxPlayers: Number(row.max_players),
+      entryFee: String(row.entry_fee),
+      mint: row.mint === null ? null : String(row.mint),
+      players,
+      winner: row.winner === null ? null : String(row.winner),
+      creationTimestamp: Number(row.creation_timestamp),
+      endTimestamp:
+        row.end_timestamp === null ? null : Number(row.end_timestamp),
+      vault: String(row.vault),
+      vaultBalance: String(row.vault_balance),
+      slot: Number(row.slot),
+    };
+  }
+
+  private transaction(fn: () => void): void {
+    this.db.run("BEGIN");
+    try {
+      fn();
+      this.db.run("COMMIT");
+    } catch (err) {
+      this.db.run("ROLLBACK");
+      throw err;
+    }
+  }
+
+  private one(sql: string, params: SqlValue[]): Row | undefined {
+    return this.all(sql, params)[0];
+  }
+
+  private all(sql: string, params: SqlValue[]): Row[] {
+    const stmt = this.db.prepare(sql);
+    try {
+      stmt.bind(params);
+      const rows: Row[] = [];
+      while (stmt.step()) rows.push(stmt.getAsObject());
+      return rows;
+    } finally {
+      stmt.free();
+    }
+  }
+}
@@ -1,12 +1,366 @@
 // Migrations are an early feature. Currently, they're nothing more than this
 // single deploy script that's invoked from the CLI, injecting a provider
 // configured from the workspace's Anchor.toml.
+//
+// `anchor migrate` runs it after `anchor deploy`. It:
+//   1. checks the deployed program ID against `declare_id!` and Anchor.toml,
+//   2. checks the on-chain IDL matches target/idl,
+//   3. creates the Config account with the defaults from client/constants.ts
+//      if it does not exist yet (the deployer must be the upgrade authority),
+//   4. runs a create/join/start/announce/cancel smoke test on throwaway seeds
+//      (set PALAPA_SKIP_SMOKE=1 to skip, PALAPA_SMOKE_ENTRY_FEE for the fee),
+//   5. writes deployments/<cluster>.json describing what is live.
 
 import * as anchor from "@coral-xyz/anchor";
+import { BN, Program } from "@coral-xyz/anchor";
+import {
+  Keypair,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+} from "@solana/web3.js";
+import { createHash } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { PalapaFunRooms } from "../target/types/palapa_fun_rooms";
+import {
+  BPF_UPGRADEABLE_LOADER_ID,
+  CREATOR_FEE_BASIS_POINTS,
+  ConfigData,
+  PalapaClient,
+  SERVICE_FEE_BASIS_POINTS,
+  SERVICE_WALLET_PUBKEY,
+  fetchPayoutReceipt,
+  getConfigPda,
+} from "../client";
+import {
+  IDL_PATH,
+  clusterUrl,
+  findAnchorToml,
+  programIdFromAnchorToml,
+  readAnchorToml,
+} from "../cli/config";
+
+const PROGRAM_SOURCE = path.join(
+  "programs",
+  "solana-playground",
+  "src",
+  "lib.rs"
+);
+const DEPLOYMENTS_DIR = "deployments";
+const DEFAULT_SMOKE_ENTRY_FEE = 0.01 * LAMPORTS_PER_SOL;
+
+interface DeploymentManifest {
+  programId: string;
+  cluster: string;
+  rpcUrl: string;
+  /** `sha256:<hex>` of the IDL, with keys sorted. */
+  idlHash: string;
+  serviceWallet: string;
+  config: {
+    address: string;
+    admin: string;
+    creatorFeeBasisPoints: number;
+    serviceFeeBasisPoints: number;
+  };
+  deployer: string;
+  upgradeAuthority: string | null;
+  lastDeploySlot: number | null;
+  timestamp: string;
+  smokeTest: { roomSeed: string; signatures: Record<string, string> } | null;
+}
+
+/** JSON with object keys sorted, so equal IDLs hash equally. */
+const canonicalJson = (value: unknown): string =>
+  JSON.stringify(value, (_key, v) =>
+    v && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(
+          Object.keys(v)
+            .sort()
+            .map((k) => [k, v[k]])
+        )
+      : v
+  );
+
+const idlHash = (idl: unknown): string =>
+  "sha256:" + createHash("sha256").update(canonicalJson(idl)).digest("hex");
+
+const readPubkeyMacro = (source: string, pattern: RegExp, what: string) => {
+  const match = pattern.exec(source);
+  if (!match) throw new Error(`Could not find ${what} in ${PROGRAM_SOURCE}`);
+  return new PublicKey(match[1]);
+};
+
+/** Cluster name from Anchor.toml matching `rpcUrl`, or the URL itself. */
+const clusterNameFor = (rpcUrl: string, configured?: string): string => {
+  const names = [configured, "localnet", "devnet", "testnet", "mainnet-beta"];
+  const name = names.find((n) => n && clusterUrl(n) === rpcUrl);
+  if (name) return name;
+  return /127\.0\.0\.1|localhost/.test(rpcUrl) ? "localnet" : rpcUrl;
+};
+
+const checkProgramId = async (
+  provider: anchor.AnchorProvider,
+  root: string,
+  cluster: string,
+  idl: PalapaFunRooms
+): Promise<PublicKey> => {
+  const source = fs.readFileSync(path.join(root, PROGRAM_SOURCE), "utf8");
+  const declared = readPubkeyMacro(
+    source,
+    /declare_id!\("(\w+)"\)/,
+    "declare_id!"
+  );
+
+  const listed = programIdFromAnchorToml(
+    readAnchorToml(path.join(root, "Anchor.toml")),
+    cluster
+  );
+  if (listed && !listed.equals(declared)) {
+    throw new Error(
+      `Anchor.toml [programs.${cluster}] lists ${listed.toBase58()} but declare_id! is ${declared.toBase58()}`
+    );
+  }
+  if (idl.address !== declared.toBase58()) {
+    throw new Error(
+      `${IDL_PATH} targets ${
+        idl.address
+      } but declare_id! is ${declared.toBase58()}; run \`anchor build\``
+    );
+  }
+
+  const account = await provider.connection.getAccountInfo(declared);
+  if (!account || !account.executable) {
+    throw new Error(
+      `No executable program at ${declared.toBase58()} on ${cluster}; run \`anchor deploy\` first`
+    );
+  }
+  return declared;
+};
+
+const checkIdl = async (
+  provider: anchor.AnchorProvider,
+  programId: PublicKey,
+  idl: PalapaFunRooms
+): Promise<void> => {
+  const onChain = await Program.fetchIdl(programId, provider);
+  if (!onChain) {
+    throw new Error(
+      `No IDL account for ${programId.toBase58()}; run \`anchor idl init\``
+    );
+  }
+  if (idlHash(onChain) !== idlHash(idl)) {
+    throw new Error(
+      `On-chain IDL differs from ${IDL_PATH}; run \`anchor idl upgrade\``
+    );
+  }
+};
+
+/** Upgrade authority and last deploy slot from the ProgramData account. */
+const programDataInfo = async (
+  provider: anchor.AnchorProvider,
+  programId: PublicKey
+): Promise<{
+  upgradeAuthority: string | null;
+  lastDeploySlot: number | null;
+}> => {
+  const { connection } = provider;
+  const program = await connection.getAccountInfo(programId);
+  if (!program || !program.owner.equals(BPF_UPGRADEABLE_LOADER_ID)) {
+    return { upgradeAuthority: null, lastDeploySlot: null };
+  }
+  // UpgradeableLoaderState::Program { programdata_address }
+  const programData = new PublicKey(program.data.subarray(4, 36));
+  const data = (await connection.getAccountInfo(programData))?.data;
+  if (!data) return { upgradeAuthority: null, lastDeploySlot: null };
+  // UpgradeableLoaderState::ProgramData { slot, upgrade_authority_address }
+  return {
+    lastDeploySlot: new BN(data.subarray(4, 12), "le").toNumber(),
+    upgradeAuthority:
+      data[12] === 1 ? new PublicKey(data.subarray(13, 45)).toBase58() : null,
+  };
+};
+
+/**
+ * Returns the `Config` account, creating it with the defaults from
+ * client/constants.ts on a first deploy.
+ */
+const ensureConfig = async (
+  provider: anchor.AnchorProvider,
+  program: Program<PalapaFunRooms>
+): Promise<ConfigData> => {
+  const [configPda] = getConfigPda(program.programId);
+  const existing = await program.account.config.fetchNullable(configPda);
+  if (existing) return existing;
+
+  const { upgradeAuthority } = await programDataInfo(
+    provider,
+    program.programId
+  );
+  if (upgradeAuthority !== provider.wallet.publicKey.toBase58()) {
+    throw new Error(
+      `Config ${configPda.toBase58()} is missing and only the upgrade authority (${upgradeAuthority}) can initialize it`
+    );
+  }
+  console.log(`Initializing config ${configPda.toBase58()}`);
+  const { config } = await new PalapaClient(program).initializeConfig(
+    provider.wallet.publicKey,
+    {
+      creatorFeeBasisPoints: CREATOR_FEE_BASIS_POINTS.toNumber(),
+      serviceFeeBasisPoints: SERVICE_FEE_BASIS_POINTS.toNumber(),
+      serviceWallet: SERVICE_WALLET_PUBKEY,
+    }
+  );
+  return config;
+};
+
+const transfer = async (
+  provider: anchor.AnchorProvider,
+  from: PublicKey,
+  transfers: { to: PublicKey; lamports: number }[],
+  signers: Keypair[] = []
+): Promise<void> => {
+  const tx = new Transaction().add(
+    ...transfers.map(({ to, lamports }) =>
+      SystemProgram.transfer({ fromPubkey: from, toPubkey: to, lamports })
+    )
+  );
+  await provider.sendAndConfirm(tx, signers);
+};
+
+/**
+ * Runs every instruction once on throwaway seeds owned by the deployer
+ * wallet. The two players are funded from the wallet and swept back after.
+ */
+const smokeTest = async (
+  provider: anchor.AnchorProvider,
+  program: Program<PalapaFunRooms>,
+  cluster: string,
+  serviceWallet: PublicKey
+): Promise<DeploymentManifest["smokeTest"]> => {
+  const { connection } = provider;
+  const client = new PalapaClient(program, { serviceWallet });
+  const wallet = provider.wallet.publicKey;
+  const entryFee = Number(
+    process.env.PALAPA_SMOKE_ENTRY_FEE ?? DEFAULT_SMOKE_ENTRY_FEE
+  );
+  const rent = await connection.getMinimumBalanceForRentExemption(0);
+
+  // A fee payout below rent into an empty service wallet would fail.
+  if ((await connection.getBalance(serviceWallet)) < rent) {
+    if (cluster !== "localnet") {
+      throw new Error(
+        `Service wallet ${serviceWallet.toBase58()} is not rent-exempt on ${cluster}; fund it before deploying`
+      );
+    }
+    const sig = await connection.requestAirdrop(
+      serviceWallet,
+      LAMPORTS_PER_SOL
+    );
+    await connection.confirmTransaction(sig, "confirmed");
+  }
+
+  const roomSeed = `smoke-${Date.now().toString(36)}`;
+  const players = [Keypair.generate(), Keypair.generate()];
+  const signatures: Record<string, string> = {};
+  console.log(
+    `Smoke test on seed ${roomSeed} (entry fee ${entryFee} lamports)`
+  );
+
+  await transfer(
+    provider,
+    wallet,
+    players.map((p) => ({ to: p.publicKey, lamports: entryFee + rent }))
+  );
+  try {
+    signatures.create = (
+      await client.createRoom(wallet, roomSeed, 3, entryFee)
+    ).signature;
+    signatures.join = (
+      await client.joinRoom(players[0], wallet, roomSeed)
+    ).signature;
+    await client.joinRoom(players[1], wallet, roomSeed);
+    signatures.start = (await client.startRoom(wallet, roomSeed)).signature;
+    signatures.announce = (
+      await client.announceWinner(wallet, roomSeed, players[0].publicKey)
+    ).signature;
+    // Throws if the logged payout does not match what left the vault.
+    await fetchPayoutReceipt(program, signatures.announce);
+
+    const cancelSeed = `${roomSeed}-c`;
+    await client.createRoom(wallet, cancelSeed, 2, entryFee);
+    signatures.cancel = (await client.cancelRoom(wallet, cancelSeed)).signature;
+  } finally {
+    for (const player of players) {
+      const lamports = await connection.getBalance(player.publicKey);
+      if (lamports > 0) {
+        await transfer(
+          provider,
+          player.publicKey,
+          [{ to: wallet, lamports }],
+          [player]
+        );
+      }
+    }
+  }
+  console.log("Smoke test passed");
+  return { roomSeed, signatures };
+};
 
 module.exports = async function (provider: anchor.AnchorProvider) {
   // Configure client to use the provider.
   anchor.setProvider(provider);
 
-  // Add your deploy script here.
+  const anchorToml = findAnchorToml();
+  if (!anchorToml) throw new Error("Anchor.toml not found");
+  const root = path.dirname(anchorToml);
+  const rpcUrl = provider.connection.rpcEndpoint;
+  const cluster = clusterNameFor(
+    rpcUrl,
+    readAnchorToml(anchorToml).provider?.cluster
+  );
+  const idl: PalapaFunRooms = JSON.parse(
+    fs.readFileSync(path.join(root, IDL_PATH), "utf8")
+  );
+
+  console.log(`Checking deployment on ${cluster} (${rpcUrl})`);
+  const programId = await checkProgramId(provider, root, cluster, idl);
+  await checkIdl(provider, programId, idl);
+  console.log(`Program ${programId.toBase58()} and its IDL are current`);
+
+  const program = new Program<PalapaFunRooms>(idl, provider);
+  const config = await ensureConfig(provider, program);
+  const { serviceWallet } = config;
+  console.log(
+    `Config: creator fee ${config.creatorFeeBasisPoints} bps, service fee ${
+      config.serviceFeeBasisPoints
+    } bps to ${serviceWallet.toBase58()}, admin ${config.admin.toBase58()}`
+  );
+  const smoke = process.env.PALAPA_SKIP_SMOKE
+    ? null
+    : await smokeTest(provider, program, cluster, serviceWallet);
+
+  const manifest: DeploymentManifest = {
+    programId: programId.toBase58(),
+    cluster,
+    rpcUrl,
+    idlHash: idlHash(idl),
+    serviceWallet: serviceWallet.toBase58(),
+    config: {
+      address: getConfigPda(programId)[0].toBase58(),
+      admin: config.admin.toBase58(),
+      creatorFeeBasisPoints: config.creatorFeeBasisPoints,
+      serviceFeeBasisPoints: config.serviceFeeBasisPoints,
+    },
+    deployer: provider.wallet.publicKey.toBase58(),
+    ...(await programDataInfo(provider, programId)),
+    timestamp: new Date().toISOString(),
+    smokeTest: smoke,
+  };
+  const dir = path.join(root, DEPLOYMENTS_DIR);
+  fs.mkdirSync(dir, { recursive: true });
+  const file = path.join(dir, `${cluster.replace(/[^\w.-]+/g, "_")}.json`);
+  fs.writeFileSync(file, JSON.stringify(manifest, null, 2) + "\n");
+  console.log(`Wrote deployment manifest to ${file}`);
 };
@@ -1,77 +1,303 @@
 // src/lib.rs
 use anchor_lang::prelude::*;
 use anchor_lang::system_program;
+use anchor_lang::solana_program::ed25519_program;
+use anchor_lang::solana_program::hash::{hash, hashv};
 use anchor_lang::solana_program::program::invoke;
 use anchor_lang::solana_program::system_instruction;
-use anchor_lang::solana_program::pubkey;
+use anchor_lang::solana_program::sysvar::instructions::{self as instructions_sysvar, load_current_index_checked, load_instruction_at_checked};
+use anchor_spl::associated_token::{self, get_associated_token_address, AssociatedToken};
+use anchor_spl::token::{self, CloseAccount, Mint, Token, TokenAccount, TransferChecked};
 
 declare_id!("Fu5sXvLemQ5meB4y3GWM4oacD2uDwbF8URFh2WpmCMeR");
 
 // --- Constants ---
 const ROOM_SEED_PREFIX: &[u8] = b"room";
 const VAULT_SEED_PREFIX: &[u8] = b"vault";
+const CONFIG_SEED_PREFIX: &[u8] = b"config";
+const TICKET_SEED_PREFIX: &[u8] = b"ticket";
 
 // --- Fee Constants ---
-const CREATOR_FEE_BASIS_POINTS: u64 = 500; // 5%
-const SERVICE_FEE_BASIS_POINTS: u64 = 300; // 3%
-const SERVICE_WALLET_PUBKEY: Pubkey = pubkey!("FDKFLU6mUjfYZRRSrqbS9CPH87MFpae8JSH9Ddt79oRN");
+// Fee rates and the service wallet live in the `Config` account; these are the caps it enforces.
+const MAX_CREATOR_FEE_BASIS_POINTS: u16 = 1000; // 10%
+const MAX_SERVICE_FEE_BASIS_POINTS: u16 = 1000; // 10%
 const BASIS_POINTS_DENOMINATOR: u64 = 10000;
 
 // --- Data Size Constants (FOR MANUAL CALCULATION) ---
 const MAX_ROOM_SEED_LEN: usize = 32;
-const MAX_PLAYERS_ALLOWED: usize = 100; // Max players for Vec allocation
+const MAX_PLAYERS_ALLOWED: usize = 10_000; // Max seats in a room
+const MAX_INLINE_PLAYERS: usize = 100; // Larger rooms track players with `PlayerTicket` PDAs instead of `RoomData.players`
+const MAX_WINNERS: usize = 10; // Max podium size for `announce_winners`
+const MAX_ALLOWLIST_LEN: usize = 20; // Max allowlisted players, small enough for `create_room` to fit in a transaction
+const MAX_REFEREES: usize = 5; // Max referees of a room
+const MAX_DISPUTE_WINDOW: u32 = 7 * 24 * 60 * 60; // Longest dispute window, in seconds
+const MAX_REVEAL_WINDOW: u32 = 7 * 24 * 60 * 60; // Longest time raffle players get to reveal, in seconds
+const DRAW_DELAY_SLOTS: u64 = 10; // How far ahead of its scheduling a raffle's draw slot is
+const DRAW_SLOT_LIFETIME: u64 = 512; // Slots a draw slot's hash is sure to stay in SlotHashes (its entry count)
+const MAX_SPONSORS: usize = 5; // Max sponsor contributions to a room's pot
 
 
 #[program]
 pub mod palapa_fun_rooms {
     use super::*;
 
+    /// Creates the singleton `Config`. Only the program's upgrade authority can call it; it becomes the admin.
+    pub fn initialize_config(
+        ctx: Context<InitializeConfig>,
+        creator_fee_basis_points: u16,
+        service_fee_basis_points: u16,
+        service_wallet: Pubkey,
+    ) -> Result<()> {
+        Config::validate_fees(creator_fee_basis_points, service_fee_basis_points)?;
+        require!(service_wallet != Pubkey::default(), PalapaError::InvalidServiceWallet);
+
+        let config = &mut ctx.accounts.config;
+        config.admin = ctx.accounts.admin.key();
+        config.service_wallet = service_wallet;
+        config.creator_fee_basis_points = creator_fee_basis_points;
+        config.service_fee_basis_points = service_fee_basis_points;
+        config.bump = ctx.bumps.config;
+
+        msg!("Config initialized by admin {}", config.admin);
+        msg!("Creator fee: {} bps, Service fee: {} bps, Service wallet: {}", config.creator_fee_basis_points, config.service_fee_basis_points, config.service_wallet);
+        Ok(())
+    }
+
+    /// Changes the fee rates applied by `announce_winner`, within the program's caps.
+    pub fn update_fees(ctx: Context<UpdateConfig>, creator_fee_basis_points: u16, service_fee_basis_points: u16) -> Result<()> {
+        Config::validate_fees(creator_fee_basis_points, service_fee_basis_points)?;
+
+        let config = &mut ctx.accounts.config;
+        config.creator_fee_basis_points = creator_fee_basis_points;
+        config.service_fee_basis_points = service_fee_basis_points;
+        msg!("Fees updated: creator {} bps, service {} bps", creator_fee_basis_points, service_fee_basis_points);
+        Ok(())
+    }
+
+    /// Rotates the wallet that receives service fees.
+    pub fn set_service_wallet(ctx: Context<UpdateConfig>, service_wallet: Pubkey) -> Result<()> {
+        require!(service_wallet != Pubkey::default(), PalapaError::InvalidServiceWallet);
+
+        let config = &mut ctx.accounts.config;
+        msg!("Service wallet changed from {} to {}", config.service_wallet, service_wallet);
+        config.service_wallet = service_wallet;
+        Ok(())
+    }
+
+    /// Hands the config admin role to another wallet. The current admin loses it immediately.
+    pub fn set_admin(ctx: Context<UpdateConfig>, new_admin: Pubkey) -> Result<()> {
+        let config = &mut ctx.accounts.config;
+        msg!("Config admin changed from {} to {}", config.admin, new_admin);
+        config.admin = new_admin;
+        Ok(())
+    }
+
     /// Creates a new game room associated with the creator.
+    /// Optional deadlines (unix timestamps) bound how long the room may stay open and unsettled;
+    /// once one passes anyone can call `expire_room` to refund the players.
+    /// Passing a `mint` makes a token room: the entry fee is in that token's base units and is held in the
+    /// vault PDA's associated token account, created here.
+    /// `access` restricts who may join: `Allowlist` rooms only admit the players in `allowlist`, `Invite`
+    /// rooms only players holding an invite signed by the creator (see `check_invite`).
+    /// With `referees`, only they can settle the room, once `referee_threshold` of them approved the result
+    /// (see `approve_result`); without, the creator settles it and the threshold must be 0.
+    /// A `dispute_window` (seconds) holds announced results in `PendingPayout` for that long, so players can
+    /// `dispute_result` before anyone can `claim_prize`; 0 pays the winners out on announcement. Rooms with
+    /// a dispute window need a `settle_deadline`, after which an unresolved dispute can be expired.
+    /// A `reveal_window` (seconds) makes the room a raffle: players join with a commitment, reveal it within
+    /// that long of the room starting, and `draw_winner` picks the winner instead of the creator.
+    /// `min_players` (0 for none) is the fewest players `start_room` accepts; a room still short of it at
+    /// its join deadline, which it needs, can only be expired, refunding the players.
     pub fn create_room(
         ctx: Context<CreateRoom>,
         room_seed: String,
         max_players: u16,
         entry_fee: u64,
+        join_deadline: Option<i64>,
+        settle_deadline: Option<i64>,
+        access: RoomAccess,
+        allowlist: Vec<Pubkey>,
+        referees: Vec<Pubkey>,
+        referee_threshold: u8,
+        dispute_window: u32,
+        reveal_window: u32,
+        min_players: u16,
     ) -> Result<()> {
         // Input validation using constants
         require!(max_players > 1, PalapaError::InvalidMaxPlayers);
         require!(!room_seed.is_empty() && room_seed.len() <= MAX_ROOM_SEED_LEN, PalapaError::InvalidRoomSeed);
-        // Check against the hardcoded allocation limit used in calculate_space
         require!(max_players as usize <= MAX_PLAYERS_ALLOWED, PalapaError::MaxPlayersExceedsLimit);
+        // Without a join deadline, a room that never reaches its minimum could never be expired.
+        require!(min_players <= max_players && (min_players == 0 || join_deadline.is_some()), PalapaError::InvalidMinPlayers);
 
         let room_data = &mut ctx.accounts.room_data;
         let clock = Clock::get()?;
 
+        require!(join_deadline.map_or(true, |d| d > clock.unix_timestamp), PalapaError::InvalidDeadline);
+        require!(settle_deadline.map_or(true, |d| d > clock.unix_timestamp), PalapaError::InvalidDeadline);
+        if let (Some(join), Some(settle)) = (join_deadline, settle_deadline) {
+            require!(settle > join, PalapaError::InvalidDeadline);
+        }
+        if access == RoomAccess::Allowlist {
+            require!(!allowlist.is_empty() && allowlist.len() <= MAX_ALLOWLIST_LEN, PalapaError::InvalidAllowlist);
+        } else {
+            require!(allowlist.is_empty(), PalapaError::InvalidAllowlist);
+        }
+        require!(referees.len() <= MAX_REFEREES && referee_threshold as usize <= referees.len(), PalapaError::InvalidReferees);
+        require!(referees.is_empty() || referee_threshold > 0, PalapaError::InvalidReferees);
+        for (i, referee) in referees.iter().enumerate() {
+            require!(!referees[..i].contains(referee), PalapaError::InvalidReferees);
+        }
+        require!(dispute_window <= MAX_DISPUTE_WINDOW, PalapaError::InvalidDisputeWindow);
+        if reveal_window > 0 {
+            // Raffles draw from `players` and settle themselves, so there is nobody to referee or dispute them.
+            require!(reveal_window <= MAX_REVEAL_WINDOW && max_players as usize <= MAX_INLINE_PLAYERS, PalapaError::InvalidRaffle);
+            require!(referees.is_empty() && dispute_window == 0, PalapaError::InvalidRaffle);
+        }
+        // A disputed result is only refunded by `expire_room` once the settle deadline passes.
+        require!(dispute_window == 0 || settle_deadline.is_some(), PalapaError::InvalidDisputeWindow);
+
         // Initialize room data
         room_data.creator = *ctx.accounts.creator.key;
         room_data.room_seed = room_seed;
         room_data.bump = ctx.bumps.room_data; // Access bumps from context
         room_data.vault_bump = ctx.bumps.room_vault; // Access bumps from context
         room_data.status = RoomStatus::OpenForJoining; // Rooms are open for joining immediately
-        room_data.winner = None;
+        room_data.winners = Vec::new();
         room_data.max_players = max_players; // Store the actual limit for this room
         room_data.entry_fee = entry_fee;
-        room_data.players = Vec::with_capacity(max_players as usize);
+        room_data.players = Vec::new();
         room_data.creation_timestamp = clock.unix_timestamp;
         room_data.end_timestamp = None;
+        room_data.join_deadline = join_deadline;
+        room_data.settle_deadline = settle_deadline;
+        room_data.mint = None;
+        room_data.ticket_count = 0;
+        room_data.access = access;
+        room_data.allowlist = allowlist;
+        room_data.referees = referees;
+        room_data.referee_threshold = referee_threshold;
+        room_data.approvals = Vec::new();
+        room_data.dispute_window = dispute_window;
+        room_data.claimable_at = None;
+        room_data.winner_shares = Vec::new();
+        room_data.disputed_by = None;
+        room_data.reveal_window = reveal_window;
+        room_data.reveal_deadline = None;
+        room_data.entropy = [0; 32];
+        room_data.raffle_entries = Vec::new();
+        room_data.min_players = min_players;
+        room_data.sponsors = Vec::new();
+        room_data.payout_fees = None;
+        room_data.draw_slot = None;
+
+        if let Some(mint) = &ctx.accounts.mint {
+            // `claim_prize`, which also pays out raffles, only pays out lamports so far.
+            require!(dispute_window == 0 && reveal_window == 0, PalapaError::TokenRoomUnsupported);
+            associated_token::create(CpiContext::new(
+                required(&ctx.accounts.associated_token_program)?.to_account_info(),
+                associated_token::Create {
+                    payer: ctx.accounts.creator.to_account_info(),
+                    associated_token: required(&ctx.accounts.vault_token_account)?.to_account_info(),
+                    authority: ctx.accounts.room_vault.to_account_info(),
+                    mint: mint.to_account_info(),
+                    system_program: ctx.accounts.system_program.to_account_info(),
+                    token_program: required(&ctx.accounts.token_program)?.to_account_info(),
+                },
+            ))?;
+            room_data.mint = Some(mint.key());
+            msg!("Token room: entry fees are paid in mint {}", mint.key());
+        }
 
         msg!("Room created by {} with seed '{}'", room_data.creator, room_data.room_seed);
-        msg!("Max players: {}, Entry fee: {} lamports", room_data.max_players, room_data.entry_fee);
+        msg!("Max players: {}, Entry fee: {} {}", room_data.max_players, room_data.entry_fee, if room_data.mint.is_some() { "tokens" } else { "lamports" });
+        msg!("Join deadline: {:?}, Settle deadline: {:?}", room_data.join_deadline, room_data.settle_deadline);
+        if room_data.min_players > 0 {
+            msg!("The room starts with at least {} players.", room_data.min_players);
+        }
+        if room_data.uses_tickets() {
+            msg!("Players are tracked with ticket accounts.");
+        }
+        match room_data.access {
+            RoomAccess::Public => {}
+            RoomAccess::Allowlist => msg!("Private room: {} players allowlisted.", room_data.allowlist.len()),
+            RoomAccess::Invite => msg!("Private room: players need an invite signed by the creator."),
+        }
+        if !room_data.referees.is_empty() {
+            msg!("Refereed room: {} of {} referees must approve the result.", room_data.referee_threshold, room_data.referees.len());
+        }
+        if room_data.dispute_window > 0 {
+            msg!("Results can be disputed for {} seconds before the prize is claimed.", room_data.dispute_window);
+        }
+        if room_data.is_raffle() {
+            msg!("Raffle: players reveal their commitments within {} seconds of the start.", room_data.reveal_window);
+        }
+        emit!(RoomCreated {
+            room: room_data.key(),
+            creator: room_data.creator,
+            room_seed: room_data.room_seed.clone(),
+            max_players: room_data.max_players,
+            entry_fee: room_data.entry_fee,
+            mint: room_data.mint,
+            join_deadline: room_data.join_deadline,
+            settle_deadline: room_data.settle_deadline,
+            access: room_data.access,
+            referees: room_data.referees.clone(),
+            referee_threshold: room_data.referee_threshold,
+            dispute_window: room_data.dispute_window,
+            reveal_window: room_data.reveal_window,
+            min_players: room_data.min_players,
+        });
         Ok(())
     }
 
     /// Allows a player to join an existing, open room by paying the entry fee.
-    pub fn join_room(ctx: Context<JoinRoom>, _room_seed: String) -> Result<()> {
+    /// In rooms with more than `MAX_INLINE_PLAYERS` seats this creates the player's `PlayerTicket`, paid by
+    /// the player; joining twice fails because the ticket already exists.
+    /// Invite rooms need the creator's invite verified by an Ed25519 program instruction placed right
+    /// before this one, and the instructions sysvar to find it.
+    /// Raffle players pass their `commitment` (see `raffle_commitment`); other rooms take none.
+    pub fn join_room(ctx: Context<JoinRoom>, _room_seed: String, commitment: Option<[u8; 32]>) -> Result<()> {
         let room_data = &mut ctx.accounts.room_data;
         let player = &ctx.accounts.player;
         let vault = &ctx.accounts.room_vault;
         let system_program_account = &ctx.accounts.system_program;
+        let now = Clock::get()?.unix_timestamp;
 
         require!(room_data.status == RoomStatus::OpenForJoining, PalapaError::RoomNotJoinable);
-        require!(room_data.players.len() < room_data.max_players as usize, PalapaError::RoomFull);
-        require!(!room_data.players.contains(player.key), PalapaError::PlayerAlreadyJoined);
+        require!(!room_data.deadline_passed(now), PalapaError::JoinDeadlinePassed);
+        require!(room_data.player_count() < room_data.max_players as usize, PalapaError::RoomFull);
+        match room_data.access {
+            RoomAccess::Public => {}
+            RoomAccess::Allowlist => require!(room_data.allowlist.contains(player.key), PalapaError::PlayerNotInvited),
+            RoomAccess::Invite => {
+                let instructions = ctx.accounts.instructions_sysvar.as_ref().ok_or(PalapaError::PlayerNotInvited)?;
+                check_invite(instructions, &room_data.creator, &room_data.key(), player.key)?;
+            }
+        }
+        if room_data.uses_tickets() {
+            let ticket = ctx.accounts.player_ticket.as_mut().ok_or(PalapaError::MissingPlayerTicket)?;
+            ticket.room = room_data.key();
+            ticket.player = player.key();
+            room_data.ticket_count = room_data.ticket_count.checked_add(1).ok_or(PalapaError::CalculationOverflow)?;
+        } else {
+            require!(ctx.accounts.player_ticket.is_none(), PalapaError::PlayerTicketMismatch);
+            require!(!room_data.players.contains(player.key), PalapaError::PlayerAlreadyJoined);
+            room_data.players.push(*player.key);
+        }
+        if room_data.is_raffle() {
+            // Raffles never use tickets, so entries stay at the same index as their player.
+            let commitment = commitment.ok_or(PalapaError::MissingCommitment)?;
+            room_data.raffle_entries.push(RaffleEntry { commitment, revealed: false });
+        } else {
+            require!(commitment.is_none(), PalapaError::MissingCommitment);
+        }
 
-        if room_data.entry_fee > 0 {
+        if room_data.entry_fee > 0 && room_data.mint.is_some() {
+            let mint = required(&ctx.accounts.mint)?;
+            token::transfer_checked(CpiContext::new(required(&ctx.accounts.token_program)?.to_account_info(), TransferChecked { from: required(&ctx.accounts.player_token_account)?.to_account_info(), mint: mint.to_account_info(), to: required(&ctx.accounts.vault_token_account)?.to_account_info(), authority: player.to_account_info() }), room_data.entry_fee, mint.decimals)?;
+            msg!("Player {} paid {} tokens entry fee", player.key(), room_data.entry_fee);
+        } else if room_data.entry_fee > 0 {
             let transfer_instruction = system_instruction::transfer(
                 player.key,
                 vault.key,
@@ -90,30 +316,143 @@ pub mod palapa_fun_rooms {
              msg!("Player {} joined a free room", player.key());
         }
 
-        room_data.players.push(*player.key);
-        msg!("Player {} joined the room. Total players: {}", player.key(), room_data.players.len());
+        msg!("Player {} joined the room. Total players: {}", player.key(), room_data.player_count());
+        emit!(PlayerJoined { room: room_data.key(), player: player.key(), entry_fee: room_data.entry_fee, player_count: room_data.player_count() as u16 });
 
-        if room_data.players.len() == room_data.max_players as usize {
+        if room_data.player_count() == room_data.max_players as usize {
             room_data.status = RoomStatus::InProgress;
+            room_data.open_reveals(now)?;
             msg!("Room is now full and in progress.");
+            emit!(RoomStarted { room: room_data.key(), player_count: room_data.player_count() as u16, full: true });
+        }
+        Ok(())
+    }
+
+    /// Lets a player leave a room that has not started yet, refunding their entry fee from the vault, in
+    /// tokens to their associated token account in token rooms. In ticket rooms the player's ticket is
+    /// closed, returning its rent.
+    pub fn leave_room(ctx: Context<LeaveRoom>, _room_seed: String) -> Result<()> {
+        let room_data = &mut ctx.accounts.room_data;
+        let player = &ctx.accounts.player;
+        let vault = &ctx.accounts.room_vault;
+        let system_program_account = &ctx.accounts.system_program;
+
+        require!(room_data.status == RoomStatus::OpenForJoining, PalapaError::CannotLeaveRoomState);
+        if room_data.uses_tickets() {
+            // The ticket is closed by Anchor when the instruction succeeds.
+            require!(ctx.accounts.player_ticket.is_some(), PalapaError::MissingPlayerTicket);
+            room_data.ticket_count = room_data.ticket_count.checked_sub(1).ok_or(PalapaError::CalculationOverflow)?;
+        } else {
+            require!(ctx.accounts.player_ticket.is_none(), PalapaError::PlayerTicketMismatch);
+            let position = room_data.players.iter().position(|p| p == player.key).ok_or(PalapaError::PlayerNotInRoom)?;
+
+            // Keep the join order of the remaining players.
+            room_data.players.remove(position);
+            if room_data.is_raffle() {
+                room_data.raffle_entries.remove(position);
+            }
+        }
+        msg!("Player {} left the room. Total players: {}", player.key(), room_data.player_count());
+        emit!(PlayerLeft { room: room_data.key(), player: player.key(), refund: room_data.entry_fee, player_count: room_data.player_count() as u16 });
+
+        if room_data.entry_fee > 0 {
+            let creator_key_bytes = room_data.creator.key().to_bytes();
+            let room_seed_bytes = room_data.room_seed.as_bytes();
+            let vault_bump_slice = &[room_data.vault_bump];
+            let signer_seeds: &[&[&[u8]]] = &[&[
+                VAULT_SEED_PREFIX, creator_key_bytes.as_ref(), room_seed_bytes, vault_bump_slice,
+            ]];
+
+            if room_data.mint.is_some() {
+                let vault_token_account = required(&ctx.accounts.vault_token_account)?;
+                transfer_vault_tokens(required(&ctx.accounts.token_program)?, required(&ctx.accounts.mint)?, vault, vault_token_account, required(&ctx.accounts.player_token_account)?, signer_seeds, room_data.entry_fee)?;
+                msg!("Refunded entry fee {} tokens to {}", room_data.entry_fee, player.key());
+            } else {
+                system_program::transfer(CpiContext::new_with_signer(system_program_account.to_account_info(), system_program::Transfer { from: vault.to_account_info(), to: player.to_account_info() }, signer_seeds), room_data.entry_fee)?;
+                msg!("Refunded entry fee {} to {}", room_data.entry_fee, player.key());
+            }
+        }
+        Ok(())
+    }
+
+    /// Lets anyone sponsor a lamport room that is open or in progress, before its deadlines, by adding
+    /// `amount` lamports to its prize pot. Contributions are recorded in `RoomData.sponsors`, apart from the
+    /// entry fees; a sponsor's repeated contributions with the same `fee_exempt` add up. `fee_exempt` ones
+    /// reach the winners without creator or service fees. Cancelling or expiring the room returns every
+    /// contribution to its sponsor (see `RoomData::take_sponsor_refunds`).
+    pub fn add_to_pot(ctx: Context<AddToPot>, _room_seed: String, amount: u64, fee_exempt: bool) -> Result<()> {
+        let room_data = &mut ctx.accounts.room_data;
+        let sponsor = &ctx.accounts.sponsor;
+        let now = Clock::get()?.unix_timestamp;
+
+        require!(room_data.status == RoomStatus::OpenForJoining || room_data.status == RoomStatus::InProgress, PalapaError::RoomNotSponsorable);
+        require!(!room_data.deadline_passed(now), PalapaError::RoomNotSponsorable);
+        require!(room_data.mint.is_none(), PalapaError::TokenRoomUnsupported);
+        require!(amount > 0, PalapaError::InvalidContribution);
+
+        match room_data.sponsors.iter_mut().find(|c| c.sponsor == sponsor.key() && c.fee_exempt == fee_exempt) {
+            Some(contribution) => contribution.amount = contribution.amount.checked_add(amount).ok_or(PalapaError::CalculationOverflow)?,
+            None => {
+                require!(room_data.sponsors.len() < MAX_SPONSORS, PalapaError::TooManySponsors);
+                room_data.sponsors.push(SponsorContribution { sponsor: sponsor.key(), amount, fee_exempt });
+            }
         }
+        system_program::transfer(CpiContext::new(ctx.accounts.system_program.to_account_info(), system_program::Transfer { from: sponsor.to_account_info(), to: ctx.accounts.room_vault.to_account_info() }), amount)?;
+
+        let sponsored_total = room_data.sponsored_total()?;
+        msg!("Sponsor {} added {} lamports{} to the pot, {} lamports sponsored in total", sponsor.key(), amount, if fee_exempt { " (fee-exempt)" } else { "" }, sponsored_total);
+        emit!(PotContributed { room: room_data.key(), sponsor: sponsor.key(), amount, fee_exempt, sponsored_total });
         Ok(())
     }
 
     /// Allows the room creator to start the game if it's open for joining.
     /// This is typically used if the room doesn't fill up to max_players but the creator wants to proceed.
+    /// It needs at least `min_players` players.
     pub fn start_room(ctx: Context<StartRoom>, _room_seed: String) -> Result<()> {
         let room_data = &mut ctx.accounts.room_data;
+        let now = Clock::get()?.unix_timestamp;
 
         require!(room_data.status == RoomStatus::OpenForJoining, PalapaError::RoomNotOpenForStarting);
+        require!(!room_data.deadline_passed(now), PalapaError::JoinDeadlinePassed);
+        require!(room_data.player_count() >= room_data.min_players as usize, PalapaError::NotEnoughPlayers);
 
         room_data.status = RoomStatus::InProgress;
+        room_data.open_reveals(now)?;
         msg!("Room '{}' manually started by creator {}. Status changed to InProgress.", room_data.room_seed, ctx.accounts.creator.key());
+        emit!(RoomStarted { room: room_data.key(), player_count: room_data.player_count() as u16, full: false });
         Ok(())
     }
 
 
-    /// Called by the room creator to declare the winner and distribute the vault funds.
+    /// A referee approves a result: `shares` as they will be passed to `announce_winners`, or a single
+    /// 10000 basis-point share for `announce_winner`. Approving again replaces the referee's earlier
+    /// approval. Referees approve in their own transactions, or co-sign the settling transaction with
+    /// their approvals placed before the announcement. Disputed rooms take approvals too, for `resolve_dispute`.
+    pub fn approve_result(ctx: Context<ApproveResult>, _room_seed: String, shares: Vec<WinnerShare>) -> Result<()> {
+        let room_data = &mut ctx.accounts.room_data;
+        let referee = ctx.accounts.referee.key();
+
+        require!(room_data.status == RoomStatus::InProgress || room_data.status == RoomStatus::Disputed, PalapaError::RoomNotInProgress);
+        require!(room_data.referees.contains(&referee), PalapaError::NotAReferee);
+        WinnerShare::validate(&shares)?;
+
+        let result = WinnerShare::result_hash(&shares);
+        room_data.approvals.retain(|approval| approval.referee != referee);
+        room_data.approvals.push(RefereeApproval { referee, result });
+        let approvals = room_data.approvals.iter().filter(|approval| approval.result == result).count();
+        msg!("Referee {} approved {} winners, first place: {} ({} of {} approvals)", referee, shares.len(), shares[0].winner, approvals, room_data.referee_threshold);
+        emit!(ResultApproved {
+            room: room_data.key(),
+            referee,
+            winners: shares.iter().map(|share| share.winner).collect(),
+            approvals: approvals as u8,
+        });
+        Ok(())
+    }
+
+    /// Declares the winner and distributes the vault funds. Signed by the room creator, or in refereed
+    /// rooms by a referee once enough referees approved this winner (see `RoomData::check_settlement`).
+    /// Rooms with a dispute window only record the winner; `claim_prize` pays out later.
     pub fn announce_winner(ctx: Context<AnnounceWinner>, _room_seed: String, winner_pubkey: Pubkey) -> Result<()> {
         let room_data = &mut ctx.accounts.room_data;
         let vault = &ctx.accounts.room_vault;
@@ -121,75 +460,321 @@ pub mod palapa_fun_rooms {
         let creator_account = &ctx.accounts.creator;
         let service_fee_recipient = &ctx.accounts.service_fee_recipient;
         let system_program_account = &ctx.accounts.system_program;
+        let config = &ctx.accounts.config;
         let clock = Clock::get()?;
 
         require!(room_data.status == RoomStatus::InProgress, PalapaError::RoomNotInProgress);
-        require!(room_data.players.contains(&winner_pubkey), PalapaError::WinnerNotInRoom);
+        require!(!room_data.deadline_passed(clock.unix_timestamp), PalapaError::SettleDeadlinePassed);
+        require!(!room_data.is_raffle(), PalapaError::RaffleDrawOnly);
+        if room_data.uses_tickets() {
+            // `winner_ticket` is checked against the room and winner by its account constraint.
+            require!(ctx.accounts.winner_ticket.is_some(), PalapaError::MissingPlayerTicket);
+        } else {
+            require!(room_data.players.contains(&winner_pubkey), PalapaError::WinnerNotInRoom);
+        }
+        room_data.check_settlement(&ctx.accounts.authority.key(), &[WinnerShare { winner: winner_pubkey, share_basis_points: BASIS_POINTS_DENOMINATOR as u16 }])?;
 
-        room_data.winner = Some(winner_pubkey);
+        room_data.winners = vec![winner_pubkey];
+        room_data.winner_shares = vec![BASIS_POINTS_DENOMINATOR as u16];
+        msg!("Winner announced: {}", winner_pubkey);
+        if room_data.dispute_window > 0 {
+            let room_key = room_data.key();
+            return room_data.hold_payout(room_key, clock.unix_timestamp, config.fee_rates());
+        }
         room_data.status = RoomStatus::Finished;
         room_data.end_timestamp = Some(clock.unix_timestamp);
-        msg!("Winner announced: {}", winner_pubkey);
-
-        let vault_rent = Rent::get()?.minimum_balance(0);
-        let total_prize_amount = vault.lamports().checked_sub(vault_rent).unwrap_or(0);
 
-        msg!("Vault Balance: {}, Vault Rent: {}", vault.lamports(), vault_rent);
-        msg!("Total prize pool (excluding rent): {} lamports", total_prize_amount);
+        // Token rooms pay the prize out of the vault token account first. The lamport vault then only
+        // holds its rent, which goes to the winner below like a free room's.
+        let mut token_payout = None;
+        if room_data.mint.is_some() {
+            let creator_key_bytes = room_data.creator.key().to_bytes();
+            let room_seed_bytes = room_data.room_seed.as_bytes();
+            let vault_bump_slice = &[ctx.bumps.room_vault];
+            let signer_seeds: &[&[&[u8]]] = &[&[
+                VAULT_SEED_PREFIX, creator_key_bytes.as_ref(), room_seed_bytes, vault_bump_slice,
+            ]];
+            let token_program = required(&ctx.accounts.token_program)?;
+            let mint = required(&ctx.accounts.mint)?;
+            let vault_token_account = required(&ctx.accounts.vault_token_account)?;
+            let total_prize_tokens = vault_token_account.amount;
+            let (creator_fee, service_fee) = config.fee_rates().fees(total_prize_tokens)?;
+            let winner_share_prize = total_prize_tokens.checked_sub(creator_fee).and_then(|rest| rest.checked_sub(service_fee)).ok_or(PalapaError::CalculationOverflow)?;
+            msg!("Total prize pool: {} tokens", total_prize_tokens);
 
-        let creator_key_bytes = room_data.creator.key().to_bytes();
-        let room_seed_bytes = room_data.room_seed.as_bytes();
-        let vault_bump_slice = &[ctx.bumps.room_vault];
-        let signer_seeds: &[&[&[u8]]] = &[&[
-            VAULT_SEED_PREFIX, creator_key_bytes.as_ref(), room_seed_bytes, vault_bump_slice,
-        ]];
+            if creator_fee > 0 {
+                transfer_vault_tokens(token_program, mint, vault, vault_token_account, required(&ctx.accounts.creator_token_account)?, signer_seeds, creator_fee)?;
+                msg!("Transferred creator fee {} tokens to {}", creator_fee, creator_account.key());
+            }
+            if service_fee > 0 {
+                transfer_vault_tokens(token_program, mint, vault, vault_token_account, required(&ctx.accounts.service_fee_token_account)?, signer_seeds, service_fee)?;
+                msg!("Transferred service fee {} tokens to {}", service_fee, service_fee_recipient.key());
+            }
+            if winner_share_prize > 0 {
+                transfer_vault_tokens(token_program, mint, vault, vault_token_account, required(&ctx.accounts.winner_token_account)?, signer_seeds, winner_share_prize)?;
+                msg!("Transferred winner amount {} tokens to {}", winner_share_prize, winner_account.key());
+            }
+            close_vault_token_account(token_program, vault, vault_token_account, &creator_account.to_account_info(), signer_seeds)?;
+            token_payout = Some(WinnerAnnounced { room: room_data.key(), winners: room_data.winners.clone(), amounts: vec![winner_share_prize], prize_pool: total_prize_tokens, creator_fee, service_fee, vault_rent: 0, mint: room_data.mint });
+        }
 
-        if total_prize_amount > 0 {
-            let creator_fee = total_prize_amount.checked_mul(CREATOR_FEE_BASIS_POINTS).ok_or(PalapaError::CalculationOverflow)?.checked_div(BASIS_POINTS_DENOMINATOR).ok_or(PalapaError::CalculationOverflow)?;
-            let service_fee = total_prize_amount.checked_mul(SERVICE_FEE_BASIS_POINTS).ok_or(PalapaError::CalculationOverflow)?.checked_div(BASIS_POINTS_DENOMINATOR).ok_or(PalapaError::CalculationOverflow)?;
-            let fees_total = creator_fee.checked_add(service_fee).ok_or(PalapaError::CalculationOverflow)?;
-            let winner_share_prize = total_prize_amount.checked_sub(fees_total).ok_or(PalapaError::CalculationOverflow)?;
-            let winner_total_receive = winner_share_prize.checked_add(vault_rent).ok_or(PalapaError::CalculationOverflow)?;
+        // The lamport vault pays out like a podium with a single place holding all 10000 basis points.
+        let lamport_payout = pay_out_winners(room_data, config.fee_rates(), vault, creator_account, service_fee_recipient, system_program_account, std::slice::from_ref(winner_account))?;
+        // A token room's event keeps its token figures; lamports sent to its vault just follow the rent.
+        let payout = match token_payout {
+            Some(token_payout) => WinnerAnnounced { vault_rent: lamport_payout.vault_rent, ..token_payout },
+            None => lamport_payout,
+        };
+        emit!(payout);
+        Ok(())
+    }
 
-            msg!("Calculated Creator Fee: {}", creator_fee);
-            msg!("Calculated Service Fee: {}", service_fee);
-            msg!("Calculated Winner Share (Prize): {}", winner_share_prize);
-            msg!("Total to Winner (Share + Rent): {}", winner_total_receive);
+    /// Like `announce_winner`, for podiums: the prize left after fees is split between several winners by
+    /// basis-point shares summing to 10000 (e.g. 6000/3000/1000). Shares are listed from first place down
+    /// and the winner accounts are passed as writable remaining accounts in the same order, followed in
+    /// ticket rooms by each winner's `PlayerTicket`, also in share order. Rounding dust and the vault's rent
+    /// go to first place. Signed like `announce_winner`: refereed rooms need approvals of these exact shares.
+    /// Rooms with a dispute window only record the winners; `claim_prize` pays out later.
+    pub fn announce_winners<'info>(ctx: Context<'_, '_, 'info, 'info, AnnounceWinners<'info>>, _room_seed: String, shares: Vec<WinnerShare>) -> Result<()> {
+        let room_data = &mut ctx.accounts.room_data;
+        let vault = &ctx.accounts.room_vault;
+        let creator_account = &ctx.accounts.creator;
+        let service_fee_recipient = &ctx.accounts.service_fee_recipient;
+        let system_program_account = &ctx.accounts.system_program;
+        let config = &ctx.accounts.config;
+        let (winner_accounts, winner_tickets) = ctx.remaining_accounts.split_at(shares.len().min(ctx.remaining_accounts.len()));
+        let clock = Clock::get()?;
 
-            if creator_fee > 0 {
-                system_program::transfer(CpiContext::new_with_signer(system_program_account.to_account_info(), system_program::Transfer { from: vault.to_account_info(), to: creator_account.to_account_info() }, signer_seeds), creator_fee)?;
-                msg!("Transferred creator fee {} to {}", creator_fee, creator_account.key());
+        require!(room_data.status == RoomStatus::InProgress, PalapaError::RoomNotInProgress);
+        require!(!room_data.deadline_passed(clock.unix_timestamp), PalapaError::SettleDeadlinePassed);
+        require!(!room_data.is_raffle(), PalapaError::RaffleDrawOnly);
+        require!(room_data.mint.is_none(), PalapaError::TokenRoomUnsupported);
+        WinnerShare::validate(&shares)?;
+        require!(winner_accounts.len() == shares.len(), PalapaError::WinnerAccountMismatch);
+        if room_data.uses_tickets() {
+            require!(winner_tickets.len() == shares.len(), PalapaError::MissingPlayerTicket);
+            for (share, ticket) in shares.iter().zip(winner_tickets.iter()) {
+                check_ticket(ticket, &room_data.key(), &share.winner)?;
             }
-            if service_fee > 0 {
-                system_program::transfer(CpiContext::new_with_signer(system_program_account.to_account_info()   , system_program::Transfer { from: vault.to_account_info(), to: service_fee_recipient.to_account_info() }, signer_seeds), service_fee)?;
-                msg!("Transferred service fee {} to {}", service_fee, service_fee_recipient.key());
+        } else {
+            require!(winner_tickets.is_empty(), PalapaError::PlayerTicketMismatch);
+        }
+        for (share, account) in shares.iter().zip(winner_accounts.iter()) {
+            require!(room_data.uses_tickets() || room_data.players.contains(&share.winner), PalapaError::WinnerNotInRoom);
+            require!(account.key == &share.winner && account.is_writable, PalapaError::WinnerAccountMismatch);
+        }
+        room_data.check_settlement(&ctx.accounts.authority.key(), &shares)?;
+
+        room_data.winners = shares.iter().map(|share| share.winner).collect();
+        room_data.winner_shares = shares.iter().map(|share| share.share_basis_points).collect();
+        msg!("{} winners announced, first place: {}", shares.len(), shares[0].winner);
+        if room_data.dispute_window > 0 {
+            let room_key = room_data.key();
+            return room_data.hold_payout(room_key, clock.unix_timestamp, config.fee_rates());
+        }
+        room_data.status = RoomStatus::Finished;
+        room_data.end_timestamp = Some(clock.unix_timestamp);
+
+        let payout = pay_out_winners(room_data, config.fee_rates(), vault, creator_account, service_fee_recipient, system_program_account, winner_accounts)?;
+        emit!(payout);
+        Ok(())
+    }
+
+    /// A player of the room disputes a pending result before its dispute window closes. The payout is
+    /// frozen until the creator, or the referees of a refereed room, settle it with `resolve_dispute`.
+    pub fn dispute_result(ctx: Context<DisputeResult>, _room_seed: String) -> Result<()> {
+        let room_data = &mut ctx.accounts.room_data;
+        let player = ctx.accounts.player.key();
+        let now = Clock::get()?.unix_timestamp;
+
+        require!(room_data.status == RoomStatus::PendingPayout && room_data.claimable_at.map_or(false, |at| now < at), PalapaError::DisputeWindowClosed);
+        if room_data.uses_tickets() {
+            // `player_ticket` is checked against the room and player by its account constraint.
+            require!(ctx.accounts.player_ticket.is_some(), PalapaError::MissingPlayerTicket);
+        } else {
+            require!(ctx.accounts.player_ticket.is_none(), PalapaError::PlayerTicketMismatch);
+            require!(room_data.players.contains(&player), PalapaError::PlayerNotInRoom);
+        }
+
+        room_data.status = RoomStatus::Disputed;
+        room_data.disputed_by = Some(player);
+        msg!("Player {} disputed the result; the payout is frozen until it is resolved.", player);
+        emit!(ResultDisputed { room: room_data.key(), player });
+        Ok(())
+    }
+
+    /// Settles a disputed result, keeping it or replacing it with `shares`. Signed like `announce_winners`:
+    /// by the creator, or in refereed rooms by a referee once enough referees approved `shares`. The
+    /// resolution is final: it cannot be disputed again and the prize can be claimed right away. Ticket
+    /// rooms pass the winners' `PlayerTicket`s as remaining accounts, in share order.
+    pub fn resolve_dispute<'info>(ctx: Context<'_, '_, 'info, 'info, ResolveDispute<'info>>, _room_seed: String, shares: Vec<WinnerShare>) -> Result<()> {
+        let room_data = &mut ctx.accounts.room_data;
+        let winner_tickets = ctx.remaining_accounts;
+        let now = Clock::get()?.unix_timestamp;
+
+        require!(room_data.status == RoomStatus::Disputed, PalapaError::RoomNotDisputed);
+        require!(!room_data.deadline_passed(now), PalapaError::SettleDeadlinePassed);
+        WinnerShare::validate(&shares)?;
+        if room_data.uses_tickets() {
+            require!(winner_tickets.len() == shares.len(), PalapaError::MissingPlayerTicket);
+            for (share, ticket) in shares.iter().zip(winner_tickets.iter()) {
+                check_ticket(ticket, &room_data.key(), &share.winner)?;
             }
-            if winner_total_receive > 0 {
-                system_program::transfer(CpiContext::new_with_signer(system_program_account.to_account_info(), system_program::Transfer { from: vault.to_account_info(), to: winner_account.to_account_info() }, signer_seeds), winner_total_receive)?;
-                msg!("Transferred total winner amount {} to {}", winner_total_receive, winner_account.key());
+        } else {
+            require!(winner_tickets.is_empty(), PalapaError::PlayerTicketMismatch);
+            for share in shares.iter() {
+                require!(room_data.players.contains(&share.winner), PalapaError::WinnerNotInRoom);
             }
+        }
+        room_data.check_settlement(&ctx.accounts.authority.key(), &shares)?;
+
+        let winners: Vec<Pubkey> = shares.iter().map(|share| share.winner).collect();
+        let winner_shares: Vec<u16> = shares.iter().map(|share| share.share_basis_points).collect();
+        let upheld = room_data.winners == winners && room_data.winner_shares == winner_shares;
+        room_data.winners = winners;
+        room_data.winner_shares = winner_shares;
+        room_data.status = RoomStatus::PendingPayout;
+        room_data.claimable_at = Some(now);
+        msg!("Dispute resolved by {}: result {}, first place: {}", ctx.accounts.authority.key(), if upheld { "upheld" } else { "replaced" }, shares[0].winner);
+        emit!(DisputeResolved {
+            room: room_data.key(),
+            resolver: ctx.accounts.authority.key(),
+            winners: room_data.winners.clone(),
+            shares: room_data.winner_shares.clone(),
+            upheld,
+        });
+        Ok(())
+    }
+
+    /// Permissionless: pays out a pending result once its dispute window is over, or once its dispute is
+    /// resolved, the same way `announce_winners` does. The winners are passed as writable remaining
+    /// accounts in `RoomData.winners` order. Fees follow the rates recorded when the result was announced.
+    pub fn claim_prize<'info>(ctx: Context<'_, '_, 'info, 'info, ClaimPrize<'info>>, _room_seed: String) -> Result<()> {
+        let room_data = &mut ctx.accounts.room_data;
+        let winner_accounts = ctx.remaining_accounts;
+        let now = Clock::get()?.unix_timestamp;
+
+        require!(room_data.status == RoomStatus::PendingPayout && room_data.claimable_at.map_or(false, |at| now >= at), PalapaError::PayoutNotClaimable);
+        require!(winner_accounts.len() == room_data.winners.len(), PalapaError::WinnerAccountMismatch);
+        for (winner, account) in room_data.winners.iter().zip(winner_accounts.iter()) {
+            require!(account.key == winner && account.is_writable, PalapaError::WinnerAccountMismatch);
+        }
+
+        room_data.status = RoomStatus::Finished;
+        room_data.end_timestamp = Some(now);
+        msg!("Prize of {} winners claimed by {}", room_data.winners.len(), ctx.accounts.caller.key());
+
+        let fee_rates = room_data.payout_fees.ok_or(PalapaError::PayoutNotClaimable)?;
+        let payout = pay_out_winners(room_data, fee_rates, &ctx.accounts.room_vault, &ctx.accounts.creator, &ctx.accounts.service_fee_recipient, &ctx.accounts.system_program, winner_accounts)?;
+        emit!(payout);
+        Ok(())
+    }
+
+    /// Raffles: a player reveals the secret behind their `join_room` commitment while the room is in
+    /// progress and its reveal deadline has not passed. Revealed secrets are XORed into `entropy`;
+    /// players who never reveal are left out of the draw. The last player to reveal schedules the draw.
+    pub fn reveal_commitment(ctx: Context<RevealCommitment>, _room_seed: String, secret: [u8; 32]) -> Result<()> {
+        let room_data = &mut ctx.accounts.room_data;
+        let player = ctx.accounts.player.key();
+        let room_key = room_data.key();
+        let clock = Clock::get()?;
+        let now = clock.unix_timestamp;
+
+        require!(room_data.is_raffle(), PalapaError::NotARaffle);
+        require!(room_data.status == RoomStatus::InProgress && room_data.reveal_deadline.map_or(false, |d| now < d), PalapaError::RevealWindowClosed);
+        let position = room_data.players.iter().position(|p| *p == player).ok_or(PalapaError::PlayerNotInRoom)?;
+        let entry = &mut room_data.raffle_entries[position];
+        require!(!entry.revealed, PalapaError::AlreadyRevealed);
+        require!(raffle_commitment(&room_key, &player, &secret) == entry.commitment, PalapaError::CommitmentMismatch);
+        entry.revealed = true;
+        for (byte, secret_byte) in room_data.entropy.iter_mut().zip(secret.iter()) {
+            *byte ^= secret_byte;
+        }
+
+        let revealed = room_data.raffle_entries.iter().filter(|entry| entry.revealed).count();
+        msg!("Player {} revealed; {} of {} players revealed", player, revealed, room_data.players.len());
+        emit!(CommitmentRevealed { room: room_key, player, revealed: revealed as u16, player_count: room_data.players.len() as u16 });
+        if revealed == room_data.players.len() {
+            room_data.schedule_draw(room_key, clock.slot)?;
+        }
+        Ok(())
+    }
+
+    /// Permissionless: schedules the draw of a raffle whose reveal deadline passed before every player
+    /// revealed. A raffle nobody revealed in has no one to draw from, so `expire_room` refunds it instead.
+    /// A draw slot more than `DRAW_SLOT_LIFETIME` slots old, which `draw_winner` can't use any more, is
+    /// replaced by a new one the same way.
+    pub fn schedule_draw(ctx: Context<ScheduleDraw>, _room_seed: String) -> Result<()> {
+        let room_data = &mut ctx.accounts.room_data;
+        let room_key = room_data.key();
+        let clock = Clock::get()?;
 
+        require!(room_data.is_raffle(), PalapaError::NotARaffle);
+        require!(room_data.status == RoomStatus::InProgress, PalapaError::RoomNotInProgress);
+        require!(!room_data.deadline_passed(clock.unix_timestamp), PalapaError::SettleDeadlinePassed);
+        if room_data.draw_slot.is_some() {
+            require!(room_data.draw_expired(clock.slot), PalapaError::DrawAlreadyScheduled);
         } else {
-             msg!("No prize pool to distribute fees from.");
-             let current_vault_balance = vault.lamports();
-             if current_vault_balance > 0 {
-                 msg!("Transferring remaining vault balance (rent: {}) to winner", current_vault_balance);
-                 system_program::transfer(CpiContext::new_with_signer(system_program_account.to_account_info(), system_program::Transfer { from: vault.to_account_info(), to: winner_account.to_account_info() }, signer_seeds), current_vault_balance)?;
-                 msg!("Transferred remaining vault balance {} to winner {}", current_vault_balance, winner_account.key());
-             } else {
-                 msg!("Vault was already empty.");
-             }
+            require!(room_data.reveal_deadline.map_or(false, |d| clock.unix_timestamp >= d), PalapaError::RevealsPending);
+            require!(room_data.raffle_entries.iter().any(|entry| entry.revealed), PalapaError::NothingRevealed);
         }
+        msg!("Raffle draw scheduled by {}", ctx.accounts.caller.key());
+        room_data.schedule_draw(room_key, clock.slot)
+    }
+
+    /// Permissionless: draws a raffle's winner once its draw slot has passed. The winner is picked among
+    /// the players who revealed, in join order, at index `sha256(entropy || slot_hash || room)` mod their
+    /// number, read as a little-endian u64 from the first 8 bytes. `slot_hash` is the hash of `draw_slot`,
+    /// or of the first slot after it that has a block, so the caller can't pick it by choosing when to
+    /// draw. Once `draw_slot` is `DRAW_SLOT_LIFETIME` slots old its hash may have left the SlotHashes
+    /// sysvar, and `schedule_draw` has to set a new one first. The room moves to `PendingPayout`, and
+    /// `claim_prize` pays the winner out right away.
+    pub fn draw_winner(ctx: Context<DrawWinner>, _room_seed: String) -> Result<()> {
+        let room_data = &mut ctx.accounts.room_data;
+        let room_key = room_data.key();
+        let clock = Clock::get()?;
+        let now = clock.unix_timestamp;
+
+        require!(room_data.is_raffle(), PalapaError::NotARaffle);
+        require!(room_data.status == RoomStatus::InProgress, PalapaError::RoomNotInProgress);
+        require!(!room_data.deadline_passed(now), PalapaError::SettleDeadlinePassed);
+        let draw_slot = room_data.draw_slot.ok_or(PalapaError::RevealsPending)?;
+        require!(!room_data.draw_expired(clock.slot), PalapaError::DrawSlotExpired);
+        let (slot, slot_hash) = draw_slot_hash(&ctx.accounts.slot_hashes, draw_slot)?.ok_or(PalapaError::DrawSlotPending)?;
+        // Not revealing costs a player their chance.
+        let candidates: Vec<Pubkey> = room_data.players.iter()
+            .zip(room_data.raffle_entries.iter())
+            .filter(|(_, entry)| entry.revealed)
+            .map(|(player, _)| *player)
+            .collect();
+        require!(!candidates.is_empty(), PalapaError::NothingRevealed);
 
-        let vault_lamports_after = vault.to_account_info().lamports();
-        require!(vault_lamports_after == 0, PalapaError::VaultNotEmptyAfterPayout);
-        msg!("Vault is now empty.");
+        let seed = hashv(&[room_data.entropy.as_ref(), slot_hash.as_ref(), room_key.as_ref()]).to_bytes();
+        let mut index_bytes = [0u8; 8];
+        index_bytes.copy_from_slice(&seed[..8]);
+        let winner = candidates[(u64::from_le_bytes(index_bytes) % candidates.len() as u64) as usize];
 
+        room_data.winners = vec![winner];
+        room_data.winner_shares = vec![BASIS_POINTS_DENOMINATOR as u16];
+        room_data.status = RoomStatus::PendingPayout;
+        room_data.claimable_at = Some(now);
+        room_data.payout_fees = Some(ctx.accounts.config.fee_rates());
+        msg!("Raffle drawn by {} with the hash of slot {}: winner {} among {} players", ctx.accounts.caller.key(), slot, winner, candidates.len());
+        emit!(WinnerDrawn {
+            room: room_key,
+            caller: ctx.accounts.caller.key(),
+            winner,
+            slot,
+            slot_hash,
+            entropy: room_data.entropy,
+            candidates: candidates.len() as u16,
+        });
         Ok(())
     }
 
      /// Allows the creator to cancel a room IF it's OpenForJoining/Created AND has no players.
-     pub fn cancel_room(ctx: Context<CancelRoom>, _room_seed: String) -> Result<()> {
+     /// The room's sponsors, if any, are passed as writable remaining accounts and get their contributions back.
+     pub fn cancel_room<'info>(ctx: Context<'_, '_, 'info, 'info, CancelRoom<'info>>, _room_seed: String) -> Result<()> {
         let room_data = &mut ctx.accounts.room_data;
         let vault = &ctx.accounts.room_vault;
         let creator = &ctx.accounts.creator;
@@ -198,21 +783,29 @@ pub mod palapa_fun_rooms {
 
         // Note: `create_room` sets status to OpenForJoining. `Created` might be a legacy or planned future state.
         require!(room_data.status == RoomStatus::OpenForJoining || room_data.status == RoomStatus::Created, PalapaError::CannotCancelRoomState);
-        require!(room_data.players.is_empty(), PalapaError::CannotCancelRoomPlayersJoined);
+        require!(room_data.player_count() == 0, PalapaError::CannotCancelRoomPlayersJoined);
 
         room_data.status = RoomStatus::Cancelled;
         room_data.end_timestamp = Some(clock.unix_timestamp);
         msg!("Room cancelled by creator {}", creator.key());
+        let (sponsor_refunds, _) = room_data.take_sponsor_refunds(ctx.remaining_accounts)?;
+
+        let creator_key_bytes = room_data.creator.key().to_bytes();
+        let room_seed_bytes = room_data.room_seed.as_bytes();
+        let vault_bump_slice = &[ctx.bumps.room_vault];
+        let signer_seeds: &[&[&[u8]]] = &[&[
+            VAULT_SEED_PREFIX, creator_key_bytes.as_ref(), room_seed_bytes, vault_bump_slice,
+        ]];
+        refund_sponsors(room_data.key(), &sponsor_refunds, vault, system_program_account, signer_seeds)?;
+
+        // Nobody joined, so a token vault is normally empty; anything sent to it goes back to the creator.
+        if room_data.mint.is_some() {
+            let vault_token_account = required(&ctx.accounts.vault_token_account)?;
+            sweep_vault_tokens(required(&ctx.accounts.token_program)?, required(&ctx.accounts.mint)?, vault, vault_token_account, &ctx.accounts.creator_token_account, &creator.to_account_info(), signer_seeds, vault_token_account.amount)?;
+        }
 
         let vault_balance = vault.lamports();
         if vault_balance > 0 {
-             let creator_key_bytes = room_data.creator.key().to_bytes();
-             let room_seed_bytes = room_data.room_seed.as_bytes();
-             let vault_bump_slice = &[ctx.bumps.room_vault];
-             let signer_seeds: &[&[&[u8]]] = &[&[
-                 VAULT_SEED_PREFIX, creator_key_bytes.as_ref(), room_seed_bytes, vault_bump_slice,
-             ]];
-
             msg!("Attempting to recover {} lamports (rent) from vault to creator", vault_balance);
             system_program::transfer(CpiContext::new_with_signer(system_program_account.to_account_info(), system_program::Transfer { from: vault.to_account_info(), to: creator.to_account_info() }, signer_seeds), vault_balance)?;
             msg!("Successfully recovered {} lamports from vault to creator.", vault_balance);
@@ -222,111 +815,878 @@ pub mod palapa_fun_rooms {
         } else {
              msg!("Vault was already empty, no rent to recover.");
         }
+        emit!(RoomCancelled { room: room_data.key(), refunded: Vec::new(), refund: 0, players_left: 0, creator_refund: vault_balance });
         Ok(())
     }
-}
 
-// --- Account Structs & Contexts ---
+    /// Cancels an open room that players have already joined, refunding their entry fees.
+    /// The players are passed as writable remaining accounts, in `RoomData.players` order, or as
+    /// `(ticket, player)` pairs in ticket rooms (see `RoomData::take_refund_batch`). Large rooms can be
+    /// refunded in batches, and the call that refunds the last player returns the vault's remaining
+    /// rent to the creator. The first call passes the room's sponsors ahead of the players and returns
+    /// their contributions (see `RoomData::take_sponsor_refunds`). Token rooms refund the entry fee in
+    /// tokens, to the refunded players' token accounts passed after them (see `split_refund_token_accounts`).
+    pub fn cancel_room_with_refunds<'info>(ctx: Context<'_, '_, 'info, 'info, CancelRoomWithRefunds<'info>>, _room_seed: String) -> Result<()> {
+        let room_data = &mut ctx.accounts.room_data;
+        let vault = &ctx.accounts.room_vault;
+        let creator = &ctx.accounts.creator;
+        let system_program_account = &ctx.accounts.system_program;
+        let refund_accounts = ctx.remaining_accounts;
 
-#[derive(Accounts)]
-#[instruction(room_seed: String, max_players: u16)]
-pub struct CreateRoom<'info> {
-    #[account(mut)]
-    pub creator: Signer<'info>,
-    #[account(
-        init,
-        payer = creator,
-        space = RoomData::calculate_space(max_players, &room_seed),
-        seeds = [ROOM_SEED_PREFIX, creator.key().as_ref(), room_seed.as_bytes()],
-        bump
-    )]
-    pub room_data: Account<'info, RoomData>,
-    /// CHECK: This PDA is initialized here using specific seeds and payer.
-    /// Space is 0, owner is SystemProgram. Anchor handles the init checks.
-    /// It only holds lamports transferred via CPI, used solely as a vault.
-    #[account(
-        init,
-        payer = creator,
-        space = 0,
-        seeds = [VAULT_SEED_PREFIX, creator.key().as_ref(), room_seed.as_bytes()],
-        bump,
-        owner = system_program::ID
-    )]
-    pub room_vault: AccountInfo<'info>,
-    pub system_program: Program<'info, System>,
-}
+        // A Cancelled room that still has players has refunds left from an earlier batch.
+        let refunds_pending = room_data.status == RoomStatus::Cancelled && room_data.player_count() > 0;
+        require!(
+            room_data.status == RoomStatus::OpenForJoining || room_data.status == RoomStatus::Created || refunds_pending,
+            PalapaError::CannotCancelRoomState
+        );
 
-#[derive(Accounts)]
-#[instruction(room_seed: String)]
-pub struct JoinRoom<'info> {
-    #[account(mut)]
-    pub player: Signer<'info>,
-    #[account(
-        mut,
-        seeds = [ROOM_SEED_PREFIX, room_data.creator.as_ref(), room_seed.as_bytes()],
-        bump = room_data.bump,
-    )]
-    pub room_data: Account<'info, RoomData>,
-    /// CHECK: Vault PDA corresponding to the room. Mutable for receiving entry fees via CPI. Seeds verified by Anchor.
-    #[account(
-        mut,
-        seeds = [VAULT_SEED_PREFIX, room_data.creator.as_ref(), room_seed.as_bytes()],
-        bump = room_data.vault_bump
-    )]
-    pub room_vault: AccountInfo<'info>,
-    pub system_program: Program<'info, System>,
-}
+        if !refunds_pending {
+            room_data.status = RoomStatus::Cancelled;
+            room_data.end_timestamp = Some(Clock::get()?.unix_timestamp);
+            msg!("Room cancelled by creator {} with {} players to refund", creator.key(), room_data.player_count());
+        }
+        let room_key = room_data.key();
+        let (sponsor_refunds, refund_accounts) = room_data.take_sponsor_refunds(refund_accounts)?;
+        let (refund_accounts, token_accounts) = split_refund_token_accounts(room_data, refund_accounts)?;
+        let refunded = room_data.take_refund_batch(&room_key, refund_accounts)?;
 
-#[derive(Accounts)]
-#[instruction(room_seed: String)] // The room_seed is passed as an argument to the instruction
-pub struct StartRoom<'info> {
-    #[account(mut)]
-    pub creator: Signer<'info>, // The one calling the instruction, must be the room creator
-    #[account(
-        mut,
-        seeds = [ROOM_SEED_PREFIX, creator.key().as_ref(), room_seed.as_bytes()], // PDA derived using signer's key and room_seed
-        bump = room_data.bump, // Verify stored bump
-        has_one = creator @ PalapaError::Unauthorized // Ensure the signer is the original creator of this room
-    )]
-    pub room_data: Account<'info, RoomData>,
-}
+        let creator_key_bytes = room_data.creator.key().to_bytes();
+        let room_seed = room_data.room_seed.clone();
+        let vault_bump_slice = &[room_data.vault_bump];
+        let signer_seeds: &[&[&[u8]]] = &[&[
+            VAULT_SEED_PREFIX, creator_key_bytes.as_ref(), room_seed.as_bytes(), vault_bump_slice,
+        ]];
+        refund_sponsors(room_key, &sponsor_refunds, vault, system_program_account, signer_seeds)?;
 
+        let entry_fee = room_data.entry_fee;
+        if room_data.mint.is_some() {
+            let token_program = required(&ctx.accounts.token_program)?;
+            let mint = required(&ctx.accounts.mint)?;
+            let vault_token_account = required(&ctx.accounts.vault_token_account)?;
+            refund_tokens(room_data, token_program, mint, vault, vault_token_account, &refunded, token_accounts, signer_seeds, entry_fee)?;
+            if room_data.player_count() == 0 {
+                // `amount` was loaded before this call's refunds.
+                let refunded_total = entry_fee.checked_mul(refunded.len() as u64).ok_or(PalapaError::CalculationOverflow)?;
+                let left = vault_token_account.amount.checked_sub(refunded_total).ok_or(PalapaError::CalculationOverflow)?;
+                sweep_vault_tokens(token_program, mint, vault, vault_token_account, &ctx.accounts.creator_token_account, &creator.to_account_info(), signer_seeds, left)?;
+            }
+        } else if entry_fee > 0 {
+            for account in refunded.iter() {
+                system_program::transfer(CpiContext::new_with_signer(system_program_account.to_account_info(), system_program::Transfer { from: vault.to_account_info(), to: account.clone() }, signer_seeds), entry_fee)?;
+                msg!("Refunded entry fee {} to {}", entry_fee, account.key());
+            }
+        }
 
-#[derive(Accounts)]
-#[instruction(room_seed: String, winner_pubkey: Pubkey)]
-pub struct AnnounceWinner<'info> {
-    #[account(mut)]
-    pub creator: Signer<'info>,
-    #[account(
-        mut,
-        seeds = [ROOM_SEED_PREFIX, creator.key().as_ref(), room_seed.as_bytes()],
-        bump = room_data.bump, // Use stored bump
-        has_one = creator @ PalapaError::Unauthorized
-    )]
-    pub room_data: Account<'info, RoomData>,
-    /// CHECK: Vault PDA corresponding to the room. Mutable for transferring funds out via CPI signed by PDA seeds. Seeds verified by Anchor. Bump derived for transfer.
-    #[account(
-        mut,
-        seeds = [VAULT_SEED_PREFIX, creator.key().as_ref(), room_seed.as_bytes()],
-        bump // Bump for room_vault PDA (can be different from room_data.vault_bump if not stored explicitly)
-             // If room_data.vault_bump is always correct for the vault, use `bump = room_data.vault_bump`
-    )]
-    pub room_vault: AccountInfo<'info>,
-    /// CHECK: Winner account, mutable for receiving funds. Checked by constraint.
-    #[account(
+        let mut creator_refund = 0;
+        if room_data.player_count() > 0 {
+            msg!("{} players left to refund", room_data.player_count());
+        } else {
+            creator_refund = vault.lamports();
+            if creator_refund > 0 {
+                system_program::transfer(CpiContext::new_with_signer(system_program_account.to_account_info(), system_program::Transfer { from: vault.to_account_info(), to: creator.to_account_info() }, signer_seeds), creator_refund)?;
+                msg!("Successfully recovered {} lamports from vault to creator.", creator_refund);
+            }
+            require!(vault.lamports() == 0, PalapaError::VaultNotEmptyAfterPayout);
+            msg!("All players refunded; vault is now empty.");
+        }
+        emit!(RoomCancelled { room: room_key, refunded: refunded.iter().map(|account| account.key()).collect(), refund: entry_fee, players_left: room_data.player_count() as u16, creator_refund });
+        Ok(())
+    }
+
+    /// Permissionless: once a room's join or settle deadline has passed without it being settled,
+    /// anyone can expire it, as well as a raffle nobody revealed in by its reveal deadline. Sponsors get their contributions back first, and the rest of the pot (minus
+    /// the vault's rent) is split evenly between the players, passed as writable remaining accounts and
+    /// batched like `cancel_room_with_refunds`; the call that refunds the last player returns what is left
+    /// in the vault to the creator. Token rooms split the vault's tokens instead, and their players' token
+    /// accounts follow them as in `cancel_room_with_refunds`.
+    pub fn expire_room<'info>(ctx: Context<'_, '_, 'info, 'info, ExpireRoom<'info>>, _room_seed: String) -> Result<()> {
+        let room_data = &mut ctx.accounts.room_data;
+        let vault = &ctx.accounts.room_vault;
+        let creator = &ctx.accounts.creator;
+        let system_program_account = &ctx.accounts.system_program;
+        let refund_accounts = ctx.remaining_accounts;
+        let clock = Clock::get()?;
+
+        // An Expired room that still has players has refunds left from an earlier batch.
+        let refunds_pending = room_data.status == RoomStatus::Expired && room_data.player_count() > 0;
+        require!(refunds_pending || room_data.deadline_passed(clock.unix_timestamp) || room_data.raffle_void(clock.unix_timestamp), PalapaError::RoomNotExpired);
+
+        if !refunds_pending {
+            room_data.status = RoomStatus::Expired;
+            room_data.end_timestamp = Some(clock.unix_timestamp);
+            // A result still disputed at the settle deadline is void.
+            room_data.winners.clear();
+            room_data.winner_shares.clear();
+            msg!("Room expired by {} with {} players to refund", ctx.accounts.caller.key(), room_data.player_count());
+        }
+        let room_key = room_data.key();
+        let (sponsor_refunds, refund_accounts) = room_data.take_sponsor_refunds(refund_accounts)?;
+
+        let creator_key_bytes = room_data.creator.key().to_bytes();
+        let room_seed = room_data.room_seed.clone();
+        let vault_bump_slice = &[room_data.vault_bump];
+        let signer_seeds: &[&[&[u8]]] = &[&[
+            VAULT_SEED_PREFIX, creator_key_bytes.as_ref(), room_seed.as_bytes(), vault_bump_slice,
+        ]];
+        refund_sponsors(room_key, &sponsor_refunds, vault, system_program_account, signer_seeds)?;
+
+        // Recomputed per batch from what is left, so every player gets the same share give or take a lamport.
+        let mut share = 0;
+        if room_data.player_count() > 0 {
+            let pot = if room_data.mint.is_some() {
+                required(&ctx.accounts.vault_token_account)?.amount
+            } else {
+                vault.lamports().checked_sub(Rent::get()?.minimum_balance(0)).unwrap_or(0)
+            };
+            share = pot.checked_div(room_data.player_count() as u64).ok_or(PalapaError::CalculationOverflow)?;
+        }
+        let (refund_accounts, token_accounts) = split_refund_token_accounts(room_data, refund_accounts)?;
+        let refunded = room_data.take_refund_batch(&room_key, refund_accounts)?;
+        if room_data.mint.is_some() {
+            let token_program = required(&ctx.accounts.token_program)?;
+            let mint = required(&ctx.accounts.mint)?;
+            let vault_token_account = required(&ctx.accounts.vault_token_account)?;
+            refund_tokens(room_data, token_program, mint, vault, vault_token_account, &refunded, token_accounts, signer_seeds, share)?;
+            if room_data.player_count() == 0 {
+                // `amount` was loaded before this call's refunds.
+                let refunded_total = share.checked_mul(refunded.len() as u64).ok_or(PalapaError::CalculationOverflow)?;
+                let left = vault_token_account.amount.checked_sub(refunded_total).ok_or(PalapaError::CalculationOverflow)?;
+                sweep_vault_tokens(token_program, mint, vault, vault_token_account, &ctx.accounts.creator_token_account, creator, signer_seeds, left)?;
+            }
+        } else if share > 0 {
+            for account in refunded.iter() {
+                system_program::transfer(CpiContext::new_with_signer(system_program_account.to_account_info(), system_program::Transfer { from: vault.to_account_info(), to: account.clone() }, signer_seeds), share)?;
+                msg!("Refunded share {} to {}", share, account.key());
+            }
+        }
+
+        let mut creator_refund = 0;
+        if room_data.player_count() > 0 {
+            msg!("{} players left to refund", room_data.player_count());
+        } else {
+            creator_refund = vault.lamports();
+            if creator_refund > 0 {
+                system_program::transfer(CpiContext::new_with_signer(system_program_account.to_account_info(), system_program::Transfer { from: vault.to_account_info(), to: creator.to_account_info() }, signer_seeds), creator_refund)?;
+                msg!("Returned remaining {} lamports from vault to creator.", creator_refund);
+            }
+            require!(vault.lamports() == 0, PalapaError::VaultNotEmptyAfterPayout);
+            msg!("All players refunded; vault is now empty.");
+        }
+        emit!(RoomExpired { room: room_key, caller: ctx.accounts.caller.key(), refunded: refunded.iter().map(|account| account.key()).collect(), share, players_left: room_data.player_count() as u16, creator_refund });
+        Ok(())
+    }
+
+    /// Closes a settled room: a finished one, or a cancelled or expired one whose refunds are all paid.
+    /// `RoomData`'s rent and anything left in the vault go back to the creator. With `emit_result`, a
+    /// `RoomResult` event records the outcome first, since the account is gone afterwards.
+    pub fn close_room(ctx: Context<CloseRoom>, _room_seed: String, emit_result: bool) -> Result<()> {
+        let room_data = &ctx.accounts.room_data;
+        let vault = &ctx.accounts.room_vault;
+        let creator = &ctx.accounts.creator;
+        let system_program_account = &ctx.accounts.system_program;
+
+        require!(room_data.is_settled(), PalapaError::RoomNotSettled);
+
+        if emit_result {
+            emit!(RoomResult {
+                room: room_data.key(),
+                creator: room_data.creator,
+                room_seed: room_data.room_seed.clone(),
+                status: room_data.status.clone(),
+                entry_fee: room_data.entry_fee,
+                mint: room_data.mint,
+                player_count: room_data.player_count() as u16,
+                winners: room_data.winners.clone(),
+                end_timestamp: room_data.end_timestamp,
+            });
+        }
+
+        // Settling empties the vault, but anyone can still send lamports to it afterwards.
+        let vault_balance = vault.lamports();
+        if vault_balance > 0 {
+            let creator_key_bytes = room_data.creator.key().to_bytes();
+            let room_seed_bytes = room_data.room_seed.as_bytes();
+            let vault_bump_slice = &[room_data.vault_bump];
+            let signer_seeds: &[&[&[u8]]] = &[&[
+                VAULT_SEED_PREFIX, creator_key_bytes.as_ref(), room_seed_bytes, vault_bump_slice,
+            ]];
+            system_program::transfer(CpiContext::new_with_signer(system_program_account.to_account_info(), system_program::Transfer { from: vault.to_account_info(), to: creator.to_account_info() }, signer_seeds), vault_balance)?;
+            msg!("Recovered {} lamports from vault to creator.", vault_balance);
+        }
+
+        msg!("Room '{}' closed by creator {}", room_data.room_seed, creator.key());
+        Ok(())
+    }
+
+    /// Permissionless: closes tickets of a finished ticket room, returning each ticket's rent to its
+    /// player. The tickets are passed as writable `(ticket, player)` remaining account pairs, in any order
+    /// and as many batches as needed. `close_room` waits until every ticket has been released.
+    pub fn release_tickets<'info>(ctx: Context<'_, '_, 'info, 'info, ReleaseTickets<'info>>, _room_seed: String) -> Result<()> {
+        let room_data = &mut ctx.accounts.room_data;
+
+        require!(room_data.status == RoomStatus::Finished, PalapaError::RoomNotFinished);
+        let released = close_tickets(&room_data.key(), ctx.remaining_accounts)?;
+        room_data.ticket_count = room_data.ticket_count.checked_sub(released.len() as u16).ok_or(PalapaError::CalculationOverflow)?;
+
+        msg!("Released {} tickets, {} left", released.len(), room_data.ticket_count);
+        Ok(())
+    }
+}
+
+// --- Payout Helpers ---
+
+/// Pays a lamport room's announced result out of its vault: the creator and service fees (none on
+/// fee-exempt sponsorship), then each winner their floored share (`RoomData.winner_shares`) of the rest. Rounding dust and the vault's rent
+/// go to first place, and a room without prize pool pays the whole vault to first place.
+/// `winner_accounts` are the winners, writable and in `RoomData.winners` order.
+fn pay_out_winners<'info>(
+    room_data: &Account<'info, RoomData>,
+    fee_rates: FeeRates,
+    vault: &AccountInfo<'info>,
+    creator: &AccountInfo<'info>,
+    service_fee_recipient: &AccountInfo<'info>,
+    system_program_account: &Program<'info, System>,
+    winner_accounts: &[AccountInfo<'info>],
+) -> Result<WinnerAnnounced> {
+    let vault_rent = Rent::get()?.minimum_balance(0);
+    let total_prize_amount = vault.lamports().checked_sub(vault_rent).unwrap_or(0);
+    let mut payout = WinnerAnnounced { room: room_data.key(), winners: room_data.winners.clone(), amounts: vec![0; room_data.winners.len()], prize_pool: total_prize_amount, creator_fee: 0, service_fee: 0, vault_rent, mint: None };
+
+    msg!("Vault Balance: {}, Vault Rent: {}", vault.lamports(), vault_rent);
+    msg!("Total prize pool (excluding rent): {} lamports", total_prize_amount);
+
+    let creator_key_bytes = room_data.creator.key().to_bytes();
+    let room_seed = room_data.room_seed.clone();
+    let vault_bump_slice = &[room_data.vault_bump];
+    let signer_seeds: &[&[&[u8]]] = &[&[
+        VAULT_SEED_PREFIX, creator_key_bytes.as_ref(), room_seed.as_bytes(), vault_bump_slice,
+    ]];
+
+    if total_prize_amount > 0 {
+        let (creator_fee, service_fee) = fee_rates.fees(total_prize_amount.saturating_sub(room_data.fee_exempt_total()?))?;
+        let fees_total = creator_fee.checked_add(service_fee).ok_or(PalapaError::CalculationOverflow)?;
+        let winners_prize = total_prize_amount.checked_sub(fees_total).ok_or(PalapaError::CalculationOverflow)?;
+
+        msg!("Calculated Creator Fee: {}", creator_fee);
+        msg!("Calculated Service Fee: {}", service_fee);
+        msg!("Calculated Winner Share (Prize): {}", winners_prize);
+
+        let mut amounts = Vec::with_capacity(room_data.winner_shares.len());
+        for basis_points in room_data.winner_shares.iter() {
+            amounts.push(winners_prize.checked_mul(*basis_points as u64).ok_or(PalapaError::CalculationOverflow)?.checked_div(BASIS_POINTS_DENOMINATOR).ok_or(PalapaError::CalculationOverflow)?);
+        }
+        let distributed = amounts.iter().try_fold(0u64, |sum, amount| sum.checked_add(*amount)).ok_or(PalapaError::CalculationOverflow)?;
+        let dust = winners_prize.checked_sub(distributed).ok_or(PalapaError::CalculationOverflow)?;
+        amounts[0] = amounts[0].checked_add(dust).ok_or(PalapaError::CalculationOverflow)?.checked_add(vault_rent).ok_or(PalapaError::CalculationOverflow)?;
+
+        if creator_fee > 0 {
+            system_program::transfer(CpiContext::new_with_signer(system_program_account.to_account_info(), system_program::Transfer { from: vault.to_account_info(), to: creator.to_account_info() }, signer_seeds), creator_fee)?;
+            msg!("Transferred creator fee {} to {}", creator_fee, creator.key());
+        }
+        if service_fee > 0 {
+            system_program::transfer(CpiContext::new_with_signer(system_program_account.to_account_info(), system_program::Transfer { from: vault.to_account_info(), to: service_fee_recipient.to_account_info() }, signer_seeds), service_fee)?;
+            msg!("Transferred service fee {} to {}", service_fee, service_fee_recipient.key());
+        }
+        for (place, (account, amount)) in winner_accounts.iter().zip(amounts.iter()).enumerate() {
+            if *amount > 0 {
+                system_program::transfer(CpiContext::new_with_signer(system_program_account.to_account_info(), system_program::Transfer { from: vault.to_account_info(), to: account.clone() }, signer_seeds), *amount)?;
+            }
+            msg!("Transferred place {} amount {} to {}", place + 1, amount, account.key());
+        }
+        (payout.creator_fee, payout.service_fee, payout.amounts) = (creator_fee, service_fee, amounts);
+    } else {
+        msg!("No prize pool to distribute fees from.");
+        let current_vault_balance = vault.lamports();
+        payout.amounts[0] = current_vault_balance;
+        if current_vault_balance > 0 {
+            system_program::transfer(CpiContext::new_with_signer(system_program_account.to_account_info(), system_program::Transfer { from: vault.to_account_info(), to: winner_accounts[0].clone() }, signer_seeds), current_vault_balance)?;
+            msg!("Transferred remaining vault balance {} to winner {}", current_vault_balance, winner_accounts[0].key());
+        }
+    }
+
+    require!(vault.lamports() == 0, PalapaError::VaultNotEmptyAfterPayout);
+    msg!("Vault is now empty.");
+    Ok(payout)
+}
+
+// --- Sponsor Helpers ---
+
+/// Returns the contributions taken by `RoomData::take_sponsor_refunds` from the vault to their sponsors.
+fn refund_sponsors<'info>(
+    room: Pubkey,
+    refunds: &[(AccountInfo<'info>, u64)],
+    vault: &AccountInfo<'info>,
+    system_program_account: &Program<'info, System>,
+    signer_seeds: &[&[&[u8]]],
+) -> Result<()> {
+    for (account, amount) in refunds.iter() {
+        system_program::transfer(CpiContext::new_with_signer(system_program_account.to_account_info(), system_program::Transfer { from: vault.to_account_info(), to: account.clone() }, signer_seeds), *amount)?;
+        msg!("Refunded sponsor contribution {} to {}", amount, account.key());
+        emit!(SponsorRefunded { room, sponsor: account.key(), amount: *amount });
+    }
+    Ok(())
+}
+
+// --- Raffle Helpers ---
+
+/// What a raffle player commits to in `join_room`: `sha256(room || player || secret)`. Binding the secret
+/// to the room and player keeps anyone from copying another player's commitment.
+fn raffle_commitment(room: &Pubkey, player: &Pubkey, secret: &[u8; 32]) -> [u8; 32] {
+    hashv(&[room.as_ref(), player.as_ref(), secret.as_ref()]).to_bytes()
+}
+
+/// The `(slot, hash)` of the SlotHashes sysvar for the oldest slot at or after `draw_slot`, if a block
+/// has been produced since. Its data is a u64 entry count followed by `(u64 slot, [u8; 32] hash)`
+/// entries, newest first; it is too large to deserialize whole. Skipped slots have no entry.
+fn draw_slot_hash(slot_hashes: &AccountInfo, draw_slot: u64) -> Result<Option<(u64, [u8; 32])>> {
+    let data = slot_hashes.try_borrow_data()?;
+    require!(data.len() >= 8, anchor_lang::error::ErrorCode::AccountDidNotDeserialize);
+    let mut count = [0u8; 8];
+    count.copy_from_slice(&data[..8]);
+    let mut found = None;
+    for entry in data[8..].chunks_exact(40).take(u64::from_le_bytes(count) as usize) {
+        let mut slot = [0u8; 8];
+        slot.copy_from_slice(&entry[..8]);
+        let slot = u64::from_le_bytes(slot);
+        if slot < draw_slot {
+            break;
+        }
+        let mut hash = [0u8; 32];
+        hash.copy_from_slice(&entry[8..]);
+        found = Some((slot, hash));
+    }
+    Ok(found)
+}
+
+// --- Token Helpers ---
+
+/// Unwraps one of the optional token accounts, which token rooms require.
+fn required<T>(account: &Option<T>) -> Result<&T> {
+    account.as_ref().ok_or_else(|| error!(PalapaError::MissingTokenAccounts))
+}
+
+/// Pays `amount` out of a token room's vault token account, signed by the vault PDA.
+fn transfer_vault_tokens<'info>(
+    token_program: &Program<'info, Token>,
+    mint: &Account<'info, Mint>,
+    vault: &AccountInfo<'info>,
+    vault_token_account: &Account<'info, TokenAccount>,
+    to: &Account<'info, TokenAccount>,
+    signer_seeds: &[&[&[u8]]],
+    amount: u64,
+) -> Result<()> {
+    token::transfer_checked(
+        CpiContext::new_with_signer(token_program.to_account_info(), TransferChecked { from: vault_token_account.to_account_info(), mint: mint.to_account_info(), to: to.to_account_info(), authority: vault.clone() }, signer_seeds),
+        amount,
+        mint.decimals,
+    )
+}
+
+/// Closes an emptied vault token account, returning its rent to the creator who paid for it.
+fn close_vault_token_account<'info>(
+    token_program: &Program<'info, Token>,
+    vault: &AccountInfo<'info>,
+    vault_token_account: &Account<'info, TokenAccount>,
+    creator: &AccountInfo<'info>,
+    signer_seeds: &[&[&[u8]]],
+) -> Result<()> {
+    token::close_account(CpiContext::new_with_signer(token_program.to_account_info(), CloseAccount { account: vault_token_account.to_account_info(), destination: creator.clone(), authority: vault.clone() }, signer_seeds))
+}
+
+/// Returns what is left in a token room's vault token account to the creator and closes it.
+fn sweep_vault_tokens<'info>(
+    token_program: &Program<'info, Token>,
+    mint: &Account<'info, Mint>,
+    vault: &AccountInfo<'info>,
+    vault_token_account: &Account<'info, TokenAccount>,
+    creator_token_account: &Option<Account<'info, TokenAccount>>,
+    creator: &AccountInfo<'info>,
+    signer_seeds: &[&[&[u8]]],
+    left: u64,
+) -> Result<()> {
+    if left > 0 {
+        transfer_vault_tokens(token_program, mint, vault, vault_token_account, required(creator_token_account)?, signer_seeds, left)?;
+        msg!("Returned remaining {} tokens from vault to creator.", left);
+    }
+    close_vault_token_account(token_program, vault, vault_token_account, creator, signer_seeds)
+}
+
+/// Splits a refund batch's remaining accounts into the players (or `(ticket, player)` pairs) and, in
+/// token rooms, the token accounts that follow them: one per refunded player, in the same order.
+fn split_refund_token_accounts<'info>(room_data: &RoomData, accounts: &'info [AccountInfo<'info>]) -> Result<(&'info [AccountInfo<'info>], &'info [AccountInfo<'info>])> {
+    if room_data.mint.is_none() {
+        return Ok((accounts, &[]));
+    }
+    let per_player = if room_data.uses_tickets() { 3 } else { 2 };
+    require!(accounts.len() % per_player == 0, PalapaError::RefundAccountMismatch);
+    Ok(accounts.split_at(accounts.len() / per_player * (per_player - 1)))
+}
+
+/// Pays `amount` tokens out of a token room's vault to each refunded player's token account.
+fn refund_tokens<'info>(
+    room_data: &RoomData,
+    token_program: &Program<'info, Token>,
+    mint: &Account<'info, Mint>,
+    vault: &AccountInfo<'info>,
+    vault_token_account: &Account<'info, TokenAccount>,
+    refunded: &[AccountInfo<'info>],
+    token_accounts: &'info [AccountInfo<'info>],
+    signer_seeds: &[&[&[u8]]],
+    amount: u64,
+) -> Result<()> {
+    require!(token_accounts.len() == refunded.len(), PalapaError::TokenAccountMismatch);
+    for (player, token_account) in refunded.iter().zip(token_accounts.iter()) {
+        require!(*token_account.key == room_data.token_address(player.key) && token_account.is_writable, PalapaError::TokenAccountMismatch);
+        if amount > 0 {
+            transfer_vault_tokens(token_program, mint, vault, vault_token_account, &Account::<TokenAccount>::try_from(token_account)?, signer_seeds, amount)?;
+            msg!("Refunded {} tokens to {}", amount, player.key());
+        }
+    }
+    Ok(())
+}
+
+// --- Ticket Helpers ---
+
+/// Checks that `ticket` is the `PlayerTicket` of `player` in `room`. Only this program creates
+/// tickets, always at `["ticket", room, player]`, so its stored fields can be trusted.
+fn check_ticket<'info>(ticket: &'info AccountInfo<'info>, room: &Pubkey, player: &Pubkey) -> Result<Account<'info, PlayerTicket>> {
+    let ticket = Account::<PlayerTicket>::try_from(ticket)?;
+    require!(ticket.room == *room && ticket.player == *player, PalapaError::PlayerTicketMismatch);
+    Ok(ticket)
+}
+
+/// Closes the `(ticket, player)` pairs passed as remaining accounts, returning each ticket's rent to
+/// its player, and returns the player accounts. A ticket listed twice fails once it is closed.
+fn close_tickets<'info>(room: &Pubkey, accounts: &'info [AccountInfo<'info>]) -> Result<Vec<AccountInfo<'info>>> {
+    require!(accounts.len() % 2 == 0, PalapaError::PlayerTicketMismatch);
+    let mut players = Vec::with_capacity(accounts.len() / 2);
+    for pair in accounts.chunks(2) {
+        let (ticket, player) = (&pair[0], &pair[1]);
+        require!(ticket.is_writable && player.is_writable, PalapaError::PlayerTicketMismatch);
+        check_ticket(ticket, room, player.key)?.close(player.clone())?;
+        players.push(player.clone());
+    }
+    Ok(players)
+}
+
+// --- Invite Helpers ---
+
+/// What a creator signs to invite `invitee` to `room`: the room PDA followed by the invitee.
+fn invite_message(room: &Pubkey, invitee: &Pubkey) -> [u8; 64] {
+    let mut message = [0u8; 64];
+    message[..32].copy_from_slice(room.as_ref());
+    message[32..].copy_from_slice(invitee.as_ref());
+    message
+}
+
+/// Checks that the instruction right before the current one is an Ed25519 program instruction
+/// verifying `creator`'s signature over `invite_message(room, player)`. The Ed25519 program fails the
+/// whole transaction on a bad signature, so only what it verified needs checking here.
+fn check_invite(instructions: &AccountInfo, creator: &Pubkey, room: &Pubkey, player: &Pubkey) -> Result<()> {
+    let current = load_current_index_checked(instructions)? as usize;
+    require!(current > 0, PalapaError::PlayerNotInvited);
+    let ed25519_ix = load_instruction_at_checked(current - 1, instructions)?;
+    require!(ed25519_ix.program_id == ed25519_program::ID, PalapaError::PlayerNotInvited);
+
+    // Data: signature count and padding, then one 14-byte entry of u16 offsets. Instruction indexes
+    // must be `u16::MAX`, meaning the signature, key and message all sit in this instruction's data.
+    let data = &ed25519_ix.data;
+    require!(data.len() >= 16 && data[0] == 1, PalapaError::PlayerNotInvited);
+    let read_u16 = |at: usize| u16::from_le_bytes([data[at], data[at + 1]]);
+    require!(read_u16(4) == u16::MAX && read_u16(8) == u16::MAX && read_u16(14) == u16::MAX, PalapaError::PlayerNotInvited);
+    let (public_key_offset, message_offset, message_size) = (read_u16(6) as usize, read_u16(10) as usize, read_u16(12) as usize);
+    require!(data.get(public_key_offset..public_key_offset + 32) == Some(creator.as_ref()), PalapaError::PlayerNotInvited);
+    require!(message_size == 64 && data.get(message_offset..message_offset + 64) == Some(&invite_message(room, player)[..]), PalapaError::PlayerNotInvited);
+    Ok(())
+}
+
+// --- Account Structs & Contexts ---
+
+#[derive(Accounts)]
+pub struct InitializeConfig<'info> {
+    #[account(mut)]
+    pub admin: Signer<'info>,
+    #[account(
+        init,
+        payer = admin,
+        space = Config::SPACE,
+        seeds = [CONFIG_SEED_PREFIX],
+        bump
+    )]
+    pub config: Account<'info, Config>,
+    #[account(constraint = program.programdata_address()? == Some(program_data.key()) @ PalapaError::UnauthorizedAdmin)]
+    pub program: Program<'info, crate::program::PalapaFunRooms>,
+    // Ties the first admin to whoever can upgrade the program, so nobody can front-run the setup.
+    #[account(constraint = program_data.upgrade_authority_address == Some(admin.key()) @ PalapaError::UnauthorizedAdmin)]
+    pub program_data: Account<'info, ProgramData>,
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+pub struct UpdateConfig<'info> {
+    pub admin: Signer<'info>,
+    #[account(
+        mut,
+        seeds = [CONFIG_SEED_PREFIX],
+        bump = config.bump,
+        has_one = admin @ PalapaError::UnauthorizedAdmin
+    )]
+    pub config: Account<'info, Config>,
+}
+
+#[derive(Accounts)]
+#[instruction(room_seed: String, max_players: u16, entry_fee: u64, join_deadline: Option<i64>, settle_deadline: Option<i64>, access: RoomAccess, allowlist: Vec<Pubkey>, referees: Vec<Pubkey>, referee_threshold: u8, dispute_window: u32, reveal_window: u32, min_players: u16)]
+pub struct CreateRoom<'info> {
+    #[account(mut)]
+    pub creator: Signer<'info>,
+    #[account(
+        init,
+        payer = creator,
+        space = RoomData::calculate_space(max_players, &room_seed, allowlist.len(), referees.len(), reveal_window > 0),
+        seeds = [ROOM_SEED_PREFIX, creator.key().as_ref(), room_seed.as_bytes()],
+        bump
+    )]
+    pub room_data: Account<'info, RoomData>,
+    /// CHECK: This PDA is initialized here using specific seeds and payer.
+    /// Space is 0, owner is SystemProgram. Anchor handles the init checks.
+    /// It only holds lamports transferred via CPI, used solely as a vault.
+    #[account(
+        init,
+        payer = creator,
+        space = 0,
+        seeds = [VAULT_SEED_PREFIX, creator.key().as_ref(), room_seed.as_bytes()],
+        bump,
+        owner = system_program::ID
+    )]
+    pub room_vault: AccountInfo<'info>,
+    pub system_program: Program<'info, System>,
+    // Token rooms only: the mint entry fees are paid in, and what is needed to create the vault's token account.
+    pub mint: Option<Account<'info, Mint>>,
+    /// CHECK: The vault PDA's associated token account for `mint`, created in the handler. The associated token program checks its address.
+    #[account(mut)]
+    pub vault_token_account: Option<UncheckedAccount<'info>>,
+    pub token_program: Option<Program<'info, Token>>,
+    pub associated_token_program: Option<Program<'info, AssociatedToken>>,
+}
+
+#[derive(Accounts)]
+#[instruction(room_seed: String)]
+pub struct JoinRoom<'info> {
+    #[account(mut)]
+    pub player: Signer<'info>,
+    #[account(
+        mut,
+        seeds = [ROOM_SEED_PREFIX, room_data.creator.as_ref(), room_seed.as_bytes()],
+        bump = room_data.bump,
+    )]
+    pub room_data: Account<'info, RoomData>,
+    /// CHECK: Vault PDA corresponding to the room. Mutable for receiving entry fees via CPI. Seeds verified by Anchor.
+    #[account(
+        mut,
+        seeds = [VAULT_SEED_PREFIX, room_data.creator.as_ref(), room_seed.as_bytes()],
+        bump = room_data.vault_bump
+    )]
+    pub room_vault: AccountInfo<'info>,
+    pub system_program: Program<'info, System>,
+    // Token rooms only.
+    #[account(constraint = room_data.mint == Some(mint.key()) @ PalapaError::TokenAccountMismatch)]
+    pub mint: Option<Account<'info, Mint>>,
+    #[account(mut, address = room_data.token_address(&player.key()) @ PalapaError::TokenAccountMismatch)]
+    pub player_token_account: Option<Account<'info, TokenAccount>>,
+    #[account(mut, address = room_data.token_address(&room_vault.key()) @ PalapaError::TokenAccountMismatch)]
+    pub vault_token_account: Option<Account<'info, TokenAccount>>,
+    pub token_program: Option<Program<'info, Token>>,
+    // Ticket rooms only: created here, paid by the player.
+    #[account(
+        init,
+        payer = player,
+        space = PlayerTicket::SPACE,
+        seeds = [TICKET_SEED_PREFIX, room_data.key().as_ref(), player.key().as_ref()],
+        bump
+    )]
+    pub player_ticket: Option<Account<'info, PlayerTicket>>,
+    /// CHECK: Invite rooms only: the instructions sysvar, read to find the creator's signed invite.
+    #[account(address = instructions_sysvar::ID)]
+    pub instructions_sysvar: Option<UncheckedAccount<'info>>,
+}
+
+#[derive(Accounts)]
+#[instruction(room_seed: String)]
+pub struct LeaveRoom<'info> {
+    #[account(mut)]
+    pub player: Signer<'info>,
+    #[account(
+        mut,
+        seeds = [ROOM_SEED_PREFIX, room_data.creator.as_ref(), room_seed.as_bytes()],
+        bump = room_data.bump,
+    )]
+    pub room_data: Account<'info, RoomData>,
+    /// CHECK: Vault PDA corresponding to the room. Mutable for refunding the entry fee via CPI signed by PDA seeds. Seeds verified by Anchor.
+    #[account(
+        mut,
+        seeds = [VAULT_SEED_PREFIX, room_data.creator.as_ref(), room_seed.as_bytes()],
+        bump = room_data.vault_bump
+    )]
+    pub room_vault: AccountInfo<'info>,
+    pub system_program: Program<'info, System>,
+    // Ticket rooms only: closed back to the player.
+    #[account(
+        mut,
+        close = player,
+        constraint = player_ticket.room == room_data.key() && player_ticket.player == player.key() @ PalapaError::PlayerTicketMismatch
+    )]
+    pub player_ticket: Option<Account<'info, PlayerTicket>>,
+    // Token rooms only: the entry fee is refunded from the vault token account.
+    #[account(constraint = room_data.mint == Some(mint.key()) @ PalapaError::TokenAccountMismatch)]
+    pub mint: Option<Account<'info, Mint>>,
+    #[account(mut, address = room_data.token_address(&player.key()) @ PalapaError::TokenAccountMismatch)]
+    pub player_token_account: Option<Account<'info, TokenAccount>>,
+    #[account(mut, address = room_data.token_address(&room_vault.key()) @ PalapaError::TokenAccountMismatch)]
+    pub vault_token_account: Option<Account<'info, TokenAccount>>,
+    pub token_program: Option<Program<'info, Token>>,
+}
+
+#[derive(Accounts)]
+#[instruction(room_seed: String)]
+pub struct AddToPot<'info> {
+    #[account(mut)]
+    pub sponsor: Signer<'info>,
+    #[account(
+        mut,
+        seeds = [ROOM_SEED_PREFIX, room_data.creator.as_ref(), room_seed.as_bytes()],
+        bump = room_data.bump,
+    )]
+    pub room_data: Account<'info, RoomData>,
+    /// CHECK: Vault PDA corresponding to the room. Mutable for receiving the contribution via CPI. Seeds verified by Anchor.
+    #[account(
+        mut,
+        seeds = [VAULT_SEED_PREFIX, room_data.creator.as_ref(), room_seed.as_bytes()],
+        bump = room_data.vault_bump
+    )]
+    pub room_vault: AccountInfo<'info>,
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+#[instruction(room_seed: String)] // The room_seed is passed as an argument to the instruction
+pub struct StartRoom<'info> {
+    #[account(mut)]
+    pub creator: Signer<'info>, // The one calling the instruction, must be the room creator
+    #[account(
+        mut,
+        seeds = [ROOM_SEED_PREFIX, creator.key().as_ref(), room_seed.as_bytes()], // PDA derived using signer's key and room_seed
+        bump = room_data.bump, // Verify stored bump
+        has_one = creator @ PalapaError::Unauthorized // Ensure the signer is the original creator of this room
+    )]
+    pub room_data: Account<'info, RoomData>,
+}
+
+
+#[derive(Accounts)]
+#[instruction(room_seed: String, winner_pubkey: Pubkey)]
+pub struct AnnounceWinner<'info> {
+    /// CHECK: The room creator, receives the creator fee. Checked by `has_one` on `room_data`.
+    #[account(mut)]
+    pub creator: AccountInfo<'info>,
+    #[account(
+        mut,
+        seeds = [ROOM_SEED_PREFIX, creator.key().as_ref(), room_seed.as_bytes()],
+        bump = room_data.bump, // Use stored bump
+        has_one = creator @ PalapaError::Unauthorized
+    )]
+    pub room_data: Account<'info, RoomData>,
+    /// CHECK: Vault PDA corresponding to the room. Mutable for transferring funds out via CPI signed by PDA seeds. Seeds verified by Anchor. Bump derived for transfer.
+    #[account(
+        mut,
+        seeds = [VAULT_SEED_PREFIX, creator.key().as_ref(), room_seed.as_bytes()],
+        bump // Bump for room_vault PDA (can be different from room_data.vault_bump if not stored explicitly)
+             // If room_data.vault_bump is always correct for the vault, use `bump = room_data.vault_bump`
+    )]
+    pub room_vault: AccountInfo<'info>,
+    /// CHECK: Winner account, mutable for receiving funds. Checked by constraint.
+    #[account(
+        mut,
+        constraint = winner_account.key() == winner_pubkey @ PalapaError::WinnerAccountMismatch
+    )]
+    pub winner_account: AccountInfo<'info>,
+    #[account(seeds = [CONFIG_SEED_PREFIX], bump = config.bump)]
+    pub config: Account<'info, Config>,
+    /// CHECK: Service fee account, mutable for receiving funds. Checked by constraint.
+    #[account(
+        mut,
+        constraint = service_fee_recipient.key() == config.service_wallet @ PalapaError::InvalidServiceWallet
+    )]
+    pub service_fee_recipient: AccountInfo<'info>,
+    pub system_program: Program<'info, System>,
+    // Token rooms only: the fees and the prize go to the recipients' associated token accounts.
+    #[account(constraint = room_data.mint == Some(mint.key()) @ PalapaError::TokenAccountMismatch)]
+    pub mint: Option<Account<'info, Mint>>,
+    #[account(mut, address = room_data.token_address(&room_vault.key()) @ PalapaError::TokenAccountMismatch)]
+    pub vault_token_account: Option<Account<'info, TokenAccount>>,
+    #[account(mut, address = room_data.token_address(&creator.key()) @ PalapaError::TokenAccountMismatch)]
+    pub creator_token_account: Option<Account<'info, TokenAccount>>,
+    #[account(mut, address = room_data.token_address(&service_fee_recipient.key()) @ PalapaError::TokenAccountMismatch)]
+    pub service_fee_token_account: Option<Account<'info, TokenAccount>>,
+    #[account(mut, address = room_data.token_address(&winner_pubkey) @ PalapaError::TokenAccountMismatch)]
+    pub winner_token_account: Option<Account<'info, TokenAccount>>,
+    pub token_program: Option<Program<'info, Token>>,
+    // Ticket rooms only: proves the winner joined. Released later with the other tickets.
+    #[account(constraint = winner_ticket.room == room_data.key() && winner_ticket.player == winner_pubkey @ PalapaError::PlayerTicketMismatch)]
+    pub winner_ticket: Option<Account<'info, PlayerTicket>>,
+    /// The creator, or a referee in refereed rooms. Last, so the accounts above keep their positions.
+    pub authority: Signer<'info>,
+}
+
+
+#[derive(Accounts)]
+#[instruction(room_seed: String)]
+pub struct AnnounceWinners<'info> {
+    /// CHECK: The room creator, receives the creator fee. Checked by `has_one` on `room_data`.
+    #[account(mut)]
+    pub creator: AccountInfo<'info>,
+    #[account(
+        mut,
+        seeds = [ROOM_SEED_PREFIX, creator.key().as_ref(), room_seed.as_bytes()],
+        bump = room_data.bump,
+        has_one = creator @ PalapaError::Unauthorized
+    )]
+    pub room_data: Account<'info, RoomData>,
+    /// CHECK: Vault PDA corresponding to the room. Mutable for the payouts via CPI signed by PDA seeds. Seeds verified by Anchor.
+    #[account(
+        mut,
+        seeds = [VAULT_SEED_PREFIX, creator.key().as_ref(), room_seed.as_bytes()],
+        bump = room_data.vault_bump
+    )]
+    pub room_vault: AccountInfo<'info>,
+    #[account(seeds = [CONFIG_SEED_PREFIX], bump = config.bump)]
+    pub config: Account<'info, Config>,
+    /// CHECK: Service fee account, mutable for receiving funds. Checked by constraint.
+    #[account(
+        mut,
+        constraint = service_fee_recipient.key() == config.service_wallet @ PalapaError::InvalidServiceWallet
+    )]
+    pub service_fee_recipient: AccountInfo<'info>,
+    pub system_program: Program<'info, System>,
+    /// The creator, or a referee in refereed rooms.
+    pub authority: Signer<'info>,
+}
+
+#[derive(Accounts)]
+#[instruction(room_seed: String)]
+pub struct ApproveResult<'info> {
+    pub referee: Signer<'info>,
+    #[account(
+        mut,
+        seeds = [ROOM_SEED_PREFIX, room_data.creator.as_ref(), room_seed.as_bytes()],
+        bump = room_data.bump,
+    )]
+    pub room_data: Account<'info, RoomData>,
+}
+
+#[derive(Accounts)]
+#[instruction(room_seed: String)]
+pub struct DisputeResult<'info> {
+    pub player: Signer<'info>,
+    #[account(
+        mut,
+        seeds = [ROOM_SEED_PREFIX, room_data.creator.as_ref(), room_seed.as_bytes()],
+        bump = room_data.bump,
+    )]
+    pub room_data: Account<'info, RoomData>,
+    // Ticket rooms only: proves the player joined.
+    #[account(constraint = player_ticket.room == room_data.key() && player_ticket.player == player.key() @ PalapaError::PlayerTicketMismatch)]
+    pub player_ticket: Option<Account<'info, PlayerTicket>>,
+}
+
+#[derive(Accounts)]
+#[instruction(room_seed: String)]
+pub struct ResolveDispute<'info> {
+    /// The creator, or a referee in refereed rooms.
+    pub authority: Signer<'info>,
+    #[account(
+        mut,
+        seeds = [ROOM_SEED_PREFIX, room_data.creator.as_ref(), room_seed.as_bytes()],
+        bump = room_data.bump,
+    )]
+    pub room_data: Account<'info, RoomData>,
+}
+
+#[derive(Accounts)]
+#[instruction(room_seed: String)]
+pub struct ClaimPrize<'info> {
+    /// CHECK: The room creator, receives the creator fee. Checked by `has_one` on `room_data`.
+    #[account(mut)]
+    pub creator: AccountInfo<'info>,
+    #[account(
+        mut,
+        seeds = [ROOM_SEED_PREFIX, creator.key().as_ref(), room_seed.as_bytes()],
+        bump = room_data.bump,
+        has_one = creator @ PalapaError::InvalidCreator
+    )]
+    pub room_data: Account<'info, RoomData>,
+    /// CHECK: Vault PDA corresponding to the room. Mutable for the payouts via CPI signed by PDA seeds. Seeds verified by Anchor.
+    #[account(
         mut,
-        constraint = winner_account.key() == winner_pubkey @ PalapaError::WinnerAccountMismatch
+        seeds = [VAULT_SEED_PREFIX, creator.key().as_ref(), room_seed.as_bytes()],
+        bump = room_data.vault_bump
     )]
-    pub winner_account: AccountInfo<'info>,
+    pub room_vault: AccountInfo<'info>,
+    #[account(seeds = [CONFIG_SEED_PREFIX], bump = config.bump)]
+    pub config: Account<'info, Config>,
     /// CHECK: Service fee account, mutable for receiving funds. Checked by constraint.
     #[account(
         mut,
-        constraint = service_fee_recipient.key() == SERVICE_WALLET_PUBKEY @ PalapaError::InvalidServiceWallet
+        constraint = service_fee_recipient.key() == config.service_wallet @ PalapaError::InvalidServiceWallet
     )]
     pub service_fee_recipient: AccountInfo<'info>,
     pub system_program: Program<'info, System>,
+    /// Anyone may claim the prize, usually a winner; they only pay the transaction fee.
+    pub caller: Signer<'info>,
+}
+
+#[derive(Accounts)]
+#[instruction(room_seed: String)]
+pub struct RevealCommitment<'info> {
+    pub player: Signer<'info>,
+    #[account(
+        mut,
+        seeds = [ROOM_SEED_PREFIX, room_data.creator.as_ref(), room_seed.as_bytes()],
+        bump = room_data.bump,
+    )]
+    pub room_data: Account<'info, RoomData>,
+}
+
+#[derive(Accounts)]
+#[instruction(room_seed: String)]
+pub struct ScheduleDraw<'info> {
+    /// Anyone may schedule a raffle's draw once its reveal deadline passed.
+    pub caller: Signer<'info>,
+    #[account(
+        mut,
+        seeds = [ROOM_SEED_PREFIX, room_data.creator.as_ref(), room_seed.as_bytes()],
+        bump = room_data.bump,
+    )]
+    pub room_data: Account<'info, RoomData>,
 }
 
+#[derive(Accounts)]
+#[instruction(room_seed: String)]
+pub struct DrawWinner<'info> {
+    /// Anyone may draw a raffle once it is drawable; they only pay the transaction fee.
+    pub caller: Signer<'info>,
+    #[account(
+        mut,
+        seeds = [ROOM_SEED_PREFIX, room_data.creator.as_ref(), room_seed.as_bytes()],
+        bump = room_data.bump,
+    )]
+    pub room_data: Account<'info, RoomData>,
+    /// Its fee rates are recorded for `claim_prize`.
+    #[account(seeds = [CONFIG_SEED_PREFIX], bump = config.bump)]
+    pub config: Account<'info, Config>,
+    /// CHECK: The SlotHashes sysvar, checked by address and read raw by `draw_slot_hash`.
+    #[account(address = anchor_lang::solana_program::sysvar::slot_hashes::ID)]
+    pub slot_hashes: UncheckedAccount<'info>,
+}
 
 #[derive(Accounts)]
 #[instruction(room_seed: String)]
@@ -338,7 +1698,7 @@ pub struct CancelRoom<'info> {
         seeds = [ROOM_SEED_PREFIX, creator.key().as_ref(), room_seed.as_bytes()],
         bump = room_data.bump, // Use stored bump
         has_one = creator @ PalapaError::Unauthorized,
-        // close = creator // Optional: Close room data account
+        // Closed later by `close_room`
     )]
     pub room_data: Account<'info, RoomData>,
     /// CHECK: Vault PDA corresponding to the room. Mutable for transferring rent back via CPI signed by PDA seeds. Seeds verified by Anchor. Bump derived for transfer.
@@ -347,49 +1707,667 @@ pub struct CancelRoom<'info> {
         seeds = [VAULT_SEED_PREFIX, creator.key().as_ref(), room_seed.as_bytes()],
         bump // Bump for room_vault PDA
              // If room_data.vault_bump is always correct for the vault, use `bump = room_data.vault_bump`
-        // close = creator // Optional: Close vault account (AFTER transfer)
     )]
     pub room_vault: AccountInfo<'info>,
     pub system_program: Program<'info, System>,
+    // Token rooms only: the vault token account is closed back to the creator.
+    #[account(constraint = room_data.mint == Some(mint.key()) @ PalapaError::TokenAccountMismatch)]
+    pub mint: Option<Account<'info, Mint>>,
+    #[account(mut, address = room_data.token_address(&room_vault.key()) @ PalapaError::TokenAccountMismatch)]
+    pub vault_token_account: Option<Account<'info, TokenAccount>>,
+    #[account(mut, address = room_data.token_address(&creator.key()) @ PalapaError::TokenAccountMismatch)]
+    pub creator_token_account: Option<Account<'info, TokenAccount>>,
+    pub token_program: Option<Program<'info, Token>>,
+}
+
+#[derive(Accounts)]
+#[instruction(room_seed: String)]
+pub struct CancelRoomWithRefunds<'info> {
+    #[account(mut)]
+    pub creator: Signer<'info>,
+    #[account(
+        mut,
+        seeds = [ROOM_SEED_PREFIX, creator.key().as_ref(), room_seed.as_bytes()],
+        bump = room_data.bump,
+        has_one = creator @ PalapaError::Unauthorized,
+    )]
+    pub room_data: Account<'info, RoomData>,
+    /// CHECK: Vault PDA corresponding to the room. Mutable for refunds and the rent return via CPI signed by PDA seeds. Seeds verified by Anchor.
+    #[account(
+        mut,
+        seeds = [VAULT_SEED_PREFIX, creator.key().as_ref(), room_seed.as_bytes()],
+        bump = room_data.vault_bump
+    )]
+    pub room_vault: AccountInfo<'info>,
+    pub system_program: Program<'info, System>,
+    // Token rooms only: the entry fees are refunded in tokens and the emptied vault token account is closed.
+    #[account(constraint = room_data.mint == Some(mint.key()) @ PalapaError::TokenAccountMismatch)]
+    pub mint: Option<Account<'info, Mint>>,
+    #[account(mut, address = room_data.token_address(&room_vault.key()) @ PalapaError::TokenAccountMismatch)]
+    pub vault_token_account: Option<Account<'info, TokenAccount>>,
+    #[account(mut, address = room_data.token_address(&creator.key()) @ PalapaError::TokenAccountMismatch)]
+    pub creator_token_account: Option<Account<'info, TokenAccount>>,
+    pub token_program: Option<Program<'info, Token>>,
+}
+
+#[derive(Accounts)]
+#[instruction(room_seed: String)]
+pub struct ExpireRoom<'info> {
+    /// Anyone may expire a room once its deadline has passed; they only pay the transaction fee.
+    #[account(mut)]
+    pub caller: Signer<'info>,
+    #[account(
+        mut,
+        seeds = [ROOM_SEED_PREFIX, room_data.creator.as_ref(), room_seed.as_bytes()],
+        bump = room_data.bump,
+    )]
+    pub room_data: Account<'info, RoomData>,
+    /// CHECK: Vault PDA corresponding to the room. Mutable for refunds and the final sweep via CPI signed by PDA seeds. Seeds verified by Anchor.
+    #[account(
+        mut,
+        seeds = [VAULT_SEED_PREFIX, room_data.creator.as_ref(), room_seed.as_bytes()],
+        bump = room_data.vault_bump
+    )]
+    pub room_vault: AccountInfo<'info>,
+    /// CHECK: Room creator, receives what is left in the vault. Checked against `room_data.creator`.
+    #[account(mut, address = room_data.creator @ PalapaError::InvalidCreator)]
+    pub creator: AccountInfo<'info>,
+    pub system_program: Program<'info, System>,
+    // Token rooms only: the vault's tokens are split between the players and the emptied vault token account is closed.
+    #[account(constraint = room_data.mint == Some(mint.key()) @ PalapaError::TokenAccountMismatch)]
+    pub mint: Option<Account<'info, Mint>>,
+    #[account(mut, address = room_data.token_address(&room_vault.key()) @ PalapaError::TokenAccountMismatch)]
+    pub vault_token_account: Option<Account<'info, TokenAccount>>,
+    #[account(mut, address = room_data.token_address(&room_data.creator) @ PalapaError::TokenAccountMismatch)]
+    pub creator_token_account: Option<Account<'info, TokenAccount>>,
+    pub token_program: Option<Program<'info, Token>>,
+}
+
+#[derive(Accounts)]
+#[instruction(room_seed: String)]
+pub struct CloseRoom<'info> {
+    #[account(mut)]
+    pub creator: Signer<'info>,
+    #[account(
+        mut,
+        seeds = [ROOM_SEED_PREFIX, creator.key().as_ref(), room_seed.as_bytes()],
+        bump = room_data.bump,
+        has_one = creator @ PalapaError::Unauthorized,
+        close = creator
+    )]
+    pub room_data: Account<'info, RoomData>,
+    /// CHECK: Vault PDA corresponding to the room. Mutable for sweeping leftover lamports via CPI signed by PDA seeds. Seeds verified by Anchor.
+    #[account(
+        mut,
+        seeds = [VAULT_SEED_PREFIX, creator.key().as_ref(), room_seed.as_bytes()],
+        bump = room_data.vault_bump
+    )]
+    pub room_vault: AccountInfo<'info>,
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+#[instruction(room_seed: String)]
+pub struct ReleaseTickets<'info> {
+    /// Anyone may release the tickets of a finished room; they only pay the transaction fee.
+    pub caller: Signer<'info>,
+    #[account(
+        mut,
+        seeds = [ROOM_SEED_PREFIX, room_data.creator.as_ref(), room_seed.as_bytes()],
+        bump = room_data.bump,
+    )]
+    pub room_data: Account<'info, RoomData>,
+}
+
+// --- Events ---
+// Emitted with `emit!` on every room lifecycle change, so clients can parse them from the logs with
+// Anchor's `EventParser` instead of the free-text `msg!` lines. Amounts are in the room's unit:
+// lamports, or the mint's base units for token rooms.
+
+#[event]
+pub struct RoomCreated {
+    pub room: Pubkey,
+    pub creator: Pubkey,
+    pub room_seed: String,
+    pub max_players: u16,
+    pub entry_fee: u64,
+    pub mint: Option<Pubkey>,
+    pub join_deadline: Option<i64>,
+    pub settle_deadline: Option<i64>,
+    pub access: RoomAccess,
+    pub referees: Vec<Pubkey>, // Empty when the creator settles the room
+    pub referee_threshold: u8,
+    pub dispute_window: u32, // Seconds; 0 when results are paid out on announcement
+    pub reveal_window: u32, // Seconds raffle players have to reveal once the room starts; 0 for other rooms
+    pub min_players: u16, // Fewest players `start_room` accepts; 0 for no minimum
+}
+
+#[event]
+pub struct PlayerJoined {
+    pub room: Pubkey,
+    pub player: Pubkey,
+    pub entry_fee: u64,
+    pub player_count: u16, // Including the new player
+}
+
+#[event]
+pub struct PlayerLeft {
+    pub room: Pubkey,
+    pub player: Pubkey,
+    pub refund: u64,
+    pub player_count: u16, // Players left in the room
+}
+
+/// A sponsor added `amount` lamports to the pot; `sponsored_total` is what sponsors added so far.
+#[event]
+pub struct PotContributed {
+    pub room: Pubkey,
+    pub sponsor: Pubkey,
+    pub amount: u64,
+    pub fee_exempt: bool,
+    pub sponsored_total: u64,
+}
+
+/// The room moved to `InProgress`: `full` when `join_room` filled the last seat, otherwise the
+/// creator called `start_room`.
+#[event]
+pub struct RoomStarted {
+    pub room: Pubkey,
+    pub player_count: u16,
+    pub full: bool,
+}
+
+/// A referee approved a result with `approve_result`. `approvals` counts the referees whose current
+/// approval is for this same result.
+#[event]
+pub struct ResultApproved {
+    pub room: Pubkey,
+    pub referee: Pubkey,
+    pub winners: Vec<Pubkey>,
+    pub approvals: u8,
+}
+
+/// A result was announced in a room with a dispute window. Nothing is paid out yet: players can dispute
+/// it until `claimable_at`, and `claim_prize` pays it out from then on.
+#[event]
+pub struct ResultPending {
+    pub room: Pubkey,
+    pub winners: Vec<Pubkey>,
+    pub shares: Vec<u16>, // Basis points of each winner
+    pub claimable_at: i64,
+}
+
+#[event]
+pub struct ResultDisputed {
+    pub room: Pubkey,
+    pub player: Pubkey,
+}
+
+/// `resolve_dispute` settled a disputed result; `upheld` when it kept the announced one. The prize can
+/// be claimed right away.
+#[event]
+pub struct DisputeResolved {
+    pub room: Pubkey,
+    pub resolver: Pubkey,
+    pub winners: Vec<Pubkey>,
+    pub shares: Vec<u16>,
+    pub upheld: bool,
+}
+
+/// A raffle player revealed their commitment; `revealed` players have so far.
+#[event]
+pub struct CommitmentRevealed {
+    pub room: Pubkey,
+    pub player: Pubkey,
+    pub revealed: u16,
+    pub player_count: u16,
+}
+
+/// A raffle's draw will use the hash of `draw_slot`, a slot still ahead when it was scheduled.
+#[event]
+pub struct DrawScheduled {
+    pub room: Pubkey,
+    pub draw_slot: u64,
+}
+
+/// `draw_winner` picked a raffle's winner among `candidates` players. `entropy` (the XOR of the revealed
+/// secrets) and `slot_hash`, the hash of `slot`, are what the draw hashed, so anyone can recompute it.
+#[event]
+pub struct WinnerDrawn {
+    pub room: Pubkey,
+    pub caller: Pubkey,
+    pub winner: Pubkey,
+    pub slot: u64,
+    pub slot_hash: [u8; 32],
+    pub entropy: [u8; 32],
+    pub candidates: u16,
+}
+
+/// Payout of `announce_winner` (one winner), `announce_winners`, or `claim_prize` in rooms with a
+/// dispute window. `amounts` is what each place
+/// received, first place down. In lamport rooms first place's amount includes the vault's rent;
+/// token rooms pay that rent in lamports on top.
+#[event]
+pub struct WinnerAnnounced {
+    pub room: Pubkey,
+    pub winners: Vec<Pubkey>,
+    pub amounts: Vec<u64>,
+    pub prize_pool: u64,
+    pub creator_fee: u64,
+    pub service_fee: u64,
+    pub vault_rent: u64, // Lamports
+    pub mint: Option<Pubkey>,
+}
+
+/// One per `cancel_room` or `cancel_room_with_refunds` call: batched cancellations emit one per
+/// batch, and the last one (`players_left == 0`) returns the vault's remaining lamports to the creator.
+#[event]
+pub struct RoomCancelled {
+    pub room: Pubkey,
+    pub refunded: Vec<Pubkey>,
+    pub refund: u64, // Paid to each refunded player
+    pub players_left: u16,
+    pub creator_refund: u64, // Lamports
+}
+
+/// One per `expire_room` call, batched like `RoomCancelled`.
+#[event]
+pub struct RoomExpired {
+    pub room: Pubkey,
+    pub caller: Pubkey,
+    pub refunded: Vec<Pubkey>,
+    pub share: u64, // Paid to each refunded player
+    pub players_left: u16,
+    pub creator_refund: u64, // Lamports
+}
+
+/// A cancelled or expired room returned a sponsor's contribution, emitted ahead of its
+/// `RoomCancelled` or `RoomExpired`.
+#[event]
+pub struct SponsorRefunded {
+    pub room: Pubkey,
+    pub sponsor: Pubkey,
+    pub amount: u64,
+}
+
+
+/// Final outcome of a room, emitted by `close_room` before its account is closed.
+#[event]
+pub struct RoomResult {
+    pub room: Pubkey,
+    pub creator: Pubkey,
+    pub room_seed: String,
+    pub status: RoomStatus,
+    pub entry_fee: u64,
+    pub mint: Option<Pubkey>,
+    pub player_count: u16,
+    pub winners: Vec<Pubkey>,
+    pub end_timestamp: Option<i64>,
 }
 
 // --- Account Data Structures & Enums/Errors ---
 
+/// Program-wide settings, a singleton at `["config"]`.
+#[account]
+pub struct Config {
+    pub admin: Pubkey,
+    pub service_wallet: Pubkey,
+    pub creator_fee_basis_points: u16,
+    pub service_fee_basis_points: u16,
+    pub bump: u8,
+}
+
+impl Config {
+    pub const SPACE: usize = 8 + // Anchor discriminator
+        32 + // admin: Pubkey
+        32 + // service_wallet: Pubkey
+        2 + // creator_fee_basis_points: u16
+        2 + // service_fee_basis_points: u16
+        1; // bump: u8
+
+    fn validate_fees(creator_fee_basis_points: u16, service_fee_basis_points: u16) -> Result<()> {
+        require!(creator_fee_basis_points <= MAX_CREATOR_FEE_BASIS_POINTS, PalapaError::FeeTooHigh);
+        require!(service_fee_basis_points <= MAX_SERVICE_FEE_BASIS_POINTS, PalapaError::FeeTooHigh);
+        Ok(())
+    }
+
+    fn fee_rates(&self) -> FeeRates {
+        FeeRates { creator_fee_basis_points: self.creator_fee_basis_points, service_fee_basis_points: self.service_fee_basis_points }
+    }
+}
+
+/// The creator and service fee rates a payout uses. Held results keep the rates of their announcement,
+/// so a config change before `claim_prize` doesn't apply to them.
+#[derive(AnchorSerialize, AnchorDeserialize, Clone, Copy, Debug)]
+pub struct FeeRates {
+    pub creator_fee_basis_points: u16,
+    pub service_fee_basis_points: u16,
+}
+
+impl FeeRates {
+    pub const SPACE: usize = 2 + // creator_fee_basis_points: u16
+        2; // service_fee_basis_points: u16
+
+    /// Creator and service fees on `prize`, each rounded down.
+    fn fees(&self, prize: u64) -> Result<(u64, u64)> {
+        let fee = |basis_points: u16| prize.checked_mul(basis_points as u64).and_then(|amount| amount.checked_div(BASIS_POINTS_DENOMINATOR)).ok_or(PalapaError::CalculationOverflow);
+        Ok((fee(self.creator_fee_basis_points)?, fee(self.service_fee_basis_points)?))
+    }
+}
+
+/// One podium place for `announce_winners`.
+#[derive(AnchorSerialize, AnchorDeserialize, Clone, Debug)]
+pub struct WinnerShare {
+    pub winner: Pubkey,
+    pub share_basis_points: u16,
+}
+
+impl WinnerShare {
+    /// Between 1 and `MAX_WINNERS` distinct winners whose shares sum to exactly 10000.
+    fn validate(shares: &[WinnerShare]) -> Result<()> {
+        require!(!shares.is_empty() && shares.len() <= MAX_WINNERS, PalapaError::InvalidPrizeSplit);
+        let total = shares.iter().map(|share| share.share_basis_points as u64).sum::<u64>();
+        require!(total == BASIS_POINTS_DENOMINATOR, PalapaError::InvalidPrizeSplit);
+        for (i, share) in shares.iter().enumerate() {
+            require!(!shares[..i].iter().any(|other| other.winner == share.winner), PalapaError::InvalidPrizeSplit);
+        }
+        Ok(())
+    }
+
+    /// What referees approve: the SHA-256 of the shares in their Borsh layout, as `announce_winners`
+    /// receives them (a u32 length, then each winner and its u16 basis points, little-endian).
+    fn result_hash(shares: &[WinnerShare]) -> [u8; 32] {
+        let mut data = (shares.len() as u32).to_le_bytes().to_vec();
+        for share in shares {
+            data.extend_from_slice(share.winner.as_ref());
+            data.extend_from_slice(&share.share_basis_points.to_le_bytes());
+        }
+        hash(&data).to_bytes()
+    }
+}
+
+/// A referee's approval of a result, as hashed by `WinnerShare::result_hash`.
+#[derive(AnchorSerialize, AnchorDeserialize, Clone, Debug)]
+pub struct RefereeApproval {
+    pub referee: Pubkey,
+    pub result: [u8; 32],
+}
+
+impl RefereeApproval {
+    pub const SPACE: usize = 32 + // referee: Pubkey
+        32; // result: [u8; 32]
+}
+
+/// A raffle player's commitment, at the same index as the player in `RoomData.players`.
+#[derive(AnchorSerialize, AnchorDeserialize, Clone, Debug)]
+pub struct RaffleEntry {
+    pub commitment: [u8; 32],
+    pub revealed: bool,
+}
+
+impl RaffleEntry {
+    pub const SPACE: usize = 32 + // commitment: [u8; 32]
+        1; // revealed: bool
+}
+
+/// Lamports a sponsor added to a room's pot with `add_to_pot`.
+#[derive(AnchorSerialize, AnchorDeserialize, Clone, Debug)]
+pub struct SponsorContribution {
+    pub sponsor: Pubkey,
+    pub amount: u64,
+    pub fee_exempt: bool, // Paid to the winners without creator or service fees
+}
+
+impl SponsorContribution {
+    pub const SPACE: usize = 32 + // sponsor: Pubkey
+        8 + // amount: u64
+        1; // fee_exempt: bool
+}
+
+// Fixed-size fields come first so clients can filter with `memcmp` at stable offsets
+// (see client/layout.ts). Variable-length fields (room_seed, winners, players) go last.
 #[account]
 pub struct RoomData {
-    pub creator: Pubkey,
-    pub room_seed: String,
+    pub creator: Pubkey,         // offset 8
+    pub status: RoomStatus,      // offset 40
+    pub max_players: u16,        // offset 41
+    pub entry_fee: u64,          // offset 43
+    pub creation_timestamp: i64, // offset 51
     pub bump: u8, // Bump for the RoomData PDA itself
     pub vault_bump: u8, // Bump for the RoomVault PDA
-    pub status: RoomStatus,
-    pub winner: Option<Pubkey>,
-    pub max_players: u16,
-    pub entry_fee: u64,
+    pub room_seed: String,
+    pub winners: Vec<Pubkey>, // From first place down; a single entry for `announce_winner`
     pub players: Vec<Pubkey>,
-    pub creation_timestamp: i64,
     pub end_timestamp: Option<i64>,
+    // Fields from here on were added after the first deployment. Rooms from older layouts do not decode,
+    // so changing this layout needs a redeploy (or a migration of the existing rooms).
+    pub join_deadline: Option<i64>,
+    pub settle_deadline: Option<i64>,
+    pub mint: Option<Pubkey>, // Token rooms: entry fees are in this mint's base units; `None` for lamports
+    pub ticket_count: u16, // Ticket rooms: players holding a `PlayerTicket`; `players` stays empty
+    pub access: RoomAccess, // Who may join
+    pub allowlist: Vec<Pubkey>, // `Allowlist` rooms: the players who may join; empty otherwise
+    pub referees: Vec<Pubkey>, // Who settles the room; empty when the creator does
+    pub referee_threshold: u8, // Referees who must approve a result; 0 without referees
+    pub approvals: Vec<RefereeApproval>, // Latest approval of each referee that approved
+    pub dispute_window: u32, // Seconds players have to dispute a result; 0 pays it out on announcement
+    pub claimable_at: Option<i64>, // `PendingPayout` rooms: when `claim_prize` can pay the result out
+    pub winner_shares: Vec<u16>, // Basis points of each entry of `winners`
+    pub disputed_by: Option<Pubkey>, // The player who disputed the result, if anyone did
+    pub reveal_window: u32, // Raffles: seconds players have to reveal once the room starts; 0 for other rooms
+    pub reveal_deadline: Option<i64>, // Raffles: set when the room starts
+    pub entropy: [u8; 32], // Raffles: XOR of the secrets revealed so far
+    pub raffle_entries: Vec<RaffleEntry>, // Raffles: one per entry of `players`
+    pub min_players: u16, // Fewest players `start_room` accepts; 0 for no minimum
+    pub sponsors: Vec<SponsorContribution>, // Added to the pot on top of the entry fees
+    pub payout_fees: Option<FeeRates>, // `PendingPayout` rooms: the fee rates `claim_prize` pays out with
+    pub draw_slot: Option<u64>, // Raffles: the slot whose hash `draw_winner` uses, once scheduled
 }
 
 impl RoomData {
-    pub fn calculate_space(_max_players_request: u16, room_seed: &str) -> usize {
-        let players_capacity_for_space = MAX_PLAYERS_ALLOWED;
+    /// Sized for the requested seats: `players` only gets room for rooms that list players inline, and
+    /// `raffle_entries` only for raffles.
+    pub fn calculate_space(max_players: u16, room_seed: &str, allowlist_len: usize, referees_len: usize, raffle: bool) -> usize {
+        let players_capacity_for_space = if max_players as usize > MAX_INLINE_PLAYERS { 0 } else { max_players as usize };
+        let raffle_capacity = if raffle { players_capacity_for_space } else { 0 };
 
         8 + // Anchor discriminator
         32 + // creator: Pubkey
-        (4 + room_seed.len()) + // room_seed: String (variable length)
-        1 + // bump: u8
-        1 + // vault_bump: u8
         RoomStatus::SPACE + // status: RoomStatus
-        (1 + 32) + // winner: Option<Pubkey>
         2 + // max_players: u16
         8 + // entry_fee: u64
-        (4 + players_capacity_for_space * 32) + // players: Vec<Pubkey>
         8 + // creation_timestamp: i64
+        1 + // bump: u8
+        1 + // vault_bump: u8
+        (4 + room_seed.len()) + // room_seed: String (variable length)
+        (4 + MAX_WINNERS * 32) + // winners: Vec<Pubkey>
+        (4 + players_capacity_for_space * 32) + // players: Vec<Pubkey>
         (1 + 8) + // end_timestamp: Option<i64>
-        100 // Buffer
+        (1 + 8) + // join_deadline: Option<i64>
+        (1 + 8) + // settle_deadline: Option<i64>
+        (1 + 32) + // mint: Option<Pubkey>
+        2 + // ticket_count: u16
+        1 + // access: RoomAccess
+        (4 + allowlist_len * 32) + // allowlist: Vec<Pubkey>
+        (4 + referees_len * 32) + // referees: Vec<Pubkey>
+        1 + // referee_threshold: u8
+        (4 + referees_len * RefereeApproval::SPACE) + // approvals: Vec<RefereeApproval>, at most one per referee
+        4 + // dispute_window: u32
+        (1 + 8) + // claimable_at: Option<i64>
+        (4 + MAX_WINNERS * 2) + // winner_shares: Vec<u16>
+        (1 + 32) + // disputed_by: Option<Pubkey>
+        4 + // reveal_window: u32
+        (1 + 8) + // reveal_deadline: Option<i64>
+        32 + // entropy: [u8; 32]
+        (4 + raffle_capacity * RaffleEntry::SPACE) + // raffle_entries: Vec<RaffleEntry>
+        2 + // min_players: u16
+        (4 + MAX_SPONSORS * SponsorContribution::SPACE) + // sponsors: Vec<SponsorContribution>
+        (1 + FeeRates::SPACE) + // payout_fees: Option<FeeRates>
+        (1 + 8) // draw_slot: Option<u64>
+    }
+
+    /// Checks that `authority` may settle the room with `shares`. Without referees only the creator can.
+    /// Refereed rooms need a referee to sign, and `referee_threshold` referees to have approved exactly
+    /// these shares; the signer counts as approving them.
+    fn check_settlement(&self, authority: &Pubkey, shares: &[WinnerShare]) -> Result<()> {
+        if self.referees.is_empty() {
+            require!(*authority == self.creator, PalapaError::Unauthorized);
+            return Ok(());
+        }
+        require!(self.referees.contains(authority), PalapaError::NotAReferee);
+        let result = WinnerShare::result_hash(shares);
+        let others = self.approvals.iter().filter(|approval| approval.result == result && approval.referee != *authority).count();
+        require!(others + 1 >= self.referee_threshold as usize, PalapaError::NotEnoughApprovals);
+        Ok(())
+    }
+
+    /// Holds an announced result for the room's dispute window instead of paying it out: the prize stays
+    /// in the vault until `claim_prize`, which applies the `fee_rates` in force now, and players can
+    /// `dispute_result` until `claimable_at`.
+    fn hold_payout(&mut self, room: Pubkey, now: i64, fee_rates: FeeRates) -> Result<()> {
+        let claimable_at = now.checked_add(self.dispute_window as i64).ok_or(PalapaError::CalculationOverflow)?;
+        self.status = RoomStatus::PendingPayout;
+        self.claimable_at = Some(claimable_at);
+        self.payout_fees = Some(fee_rates);
+        msg!("Payout pending: the result can be disputed until {}", claimable_at);
+        emit!(ResultPending { room, winners: self.winners.clone(), shares: self.winner_shares.clone(), claimable_at });
+        Ok(())
+    }
+
+    /// Raffles start their reveal window as the room starts.
+    fn open_reveals(&mut self, now: i64) -> Result<()> {
+        if self.is_raffle() {
+            let deadline = now.checked_add(self.reveal_window as i64).ok_or(PalapaError::CalculationOverflow)?;
+            self.reveal_deadline = Some(deadline);
+            msg!("Raffle players can reveal their commitments until {}", deadline);
+        }
+        Ok(())
+    }
+
+    /// Raffles are drawn by `draw_winner` from the players' revealed commitments.
+    fn is_raffle(&self) -> bool {
+        self.reveal_window > 0
+    }
+
+    /// Sets the raffle's draw to a slot `DRAW_DELAY_SLOTS` after `slot`, whose hash nobody knows yet.
+    fn schedule_draw(&mut self, room: Pubkey, slot: u64) -> Result<()> {
+        let draw_slot = slot.checked_add(DRAW_DELAY_SLOTS).ok_or(PalapaError::CalculationOverflow)?;
+        self.draw_slot = Some(draw_slot);
+        msg!("Raffle draws with the hash of slot {}", draw_slot);
+        emit!(DrawScheduled { room, draw_slot });
+        Ok(())
+    }
+
+    /// Whether the raffle's draw slot is too old at `slot` for its hash to still be in SlotHashes.
+    fn draw_expired(&self, slot: u64) -> bool {
+        self.draw_slot.map_or(false, |draw_slot| slot > draw_slot.saturating_add(DRAW_SLOT_LIFETIME))
+    }
+
+    /// Whether a raffle in progress can never be drawn: nobody revealed by the reveal deadline.
+    fn raffle_void(&self, now: i64) -> bool {
+        if !self.is_raffle() || self.status != RoomStatus::InProgress || self.draw_slot.is_some() {
+            return false;
+        }
+        self.reveal_deadline.map_or(false, |d| now >= d) && !self.raffle_entries.iter().any(|entry| entry.revealed)
+    }
+
+    /// Rooms with more than `MAX_INLINE_PLAYERS` seats track their players with `PlayerTicket` PDAs.
+    fn uses_tickets(&self) -> bool {
+        self.max_players as usize > MAX_INLINE_PLAYERS
+    }
+
+    /// Players currently in the room, or still owed a refund once it is cancelled or expired.
+    fn player_count(&self) -> usize {
+        if self.uses_tickets() { self.ticket_count as usize } else { self.players.len() }
+    }
+
+    /// Whether the room missed a deadline and can be expired: an open room once either deadline
+    /// passes, a room in progress or with a disputed result once the settle deadline passes.
+    fn deadline_passed(&self, now: i64) -> bool {
+        let passed = |deadline: Option<i64>| deadline.map_or(false, |d| now >= d);
+        match self.status {
+            RoomStatus::Created | RoomStatus::OpenForJoining => passed(self.join_deadline) || passed(self.settle_deadline),
+            RoomStatus::InProgress | RoomStatus::Disputed => passed(self.settle_deadline),
+            _ => false,
+        }
+    }
+
+    /// Lamports sponsors added to the pot.
+    fn sponsored_total(&self) -> Result<u64> {
+        Ok(self.sponsors.iter().try_fold(0u64, |sum, c| sum.checked_add(c.amount)).ok_or(PalapaError::CalculationOverflow)?)
+    }
+
+    /// Sponsored lamports paid out without creator or service fees.
+    fn fee_exempt_total(&self) -> Result<u64> {
+        Ok(self.sponsors.iter().filter(|c| c.fee_exempt).try_fold(0u64, |sum, c| sum.checked_add(c.amount)).ok_or(PalapaError::CalculationOverflow)?)
+    }
+
+    /// Whether the room is over with nothing left to pay out, so `close_room` may close it.
+    fn is_settled(&self) -> bool {
+        match self.status {
+            // Ticket rooms also wait for `release_tickets`, so no ticket outlives its room.
+            RoomStatus::Finished => self.ticket_count == 0,
+            // Cancelled and expired rooms keep their players until their refunds are paid.
+            RoomStatus::Cancelled | RoomStatus::Expired => self.player_count() == 0,
+            _ => false,
+        }
+    }
+
+    /// `owner`'s associated token account for the room's mint; only meaningful for token rooms.
+    fn token_address(&self, owner: &Pubkey) -> Pubkey {
+        get_associated_token_address(owner, &self.mint.unwrap_or_default())
+    }
+
+    /// Removes the next batch of players to refund and returns their accounts. Refund accounts passed
+    /// as remaining accounts must be the first players still listed, in order and writable; ticket rooms
+    /// pass `(ticket, player)` pairs in any order instead, and their tickets are closed to the players.
+    /// An empty batch is only valid once every player has been refunded.
+    fn take_refund_batch<'info>(&mut self, room: &Pubkey, refund_accounts: &'info [AccountInfo<'info>]) -> Result<Vec<AccountInfo<'info>>> {
+        require!(!refund_accounts.is_empty() || self.player_count() == 0, PalapaError::RefundAccountMismatch);
+        if self.uses_tickets() {
+            let players = close_tickets(room, refund_accounts)?;
+            self.ticket_count = self.ticket_count.checked_sub(players.len() as u16).ok_or(PalapaError::CalculationOverflow)?;
+            return Ok(players);
+        }
+        require!(refund_accounts.len() <= self.players.len(), PalapaError::RefundAccountMismatch);
+        for (account, player) in refund_accounts.iter().zip(self.players.iter()) {
+            require!(account.key == player && account.is_writable, PalapaError::RefundAccountMismatch);
+        }
+        self.players.drain(..refund_accounts.len());
+        if self.is_raffle() {
+            self.raffle_entries.drain(..refund_accounts.len());
+        }
+        Ok(refund_accounts.to_vec())
+    }
+
+    /// Splits the sponsors off the front of a cancelling or expiring call's remaining accounts and clears
+    /// `sponsors`, returning each sponsor's account with its contribution, and the accounts after them.
+    /// Sponsor accounts must match `sponsors`, in order and writable; later batches have none left.
+    fn take_sponsor_refunds<'info>(&mut self, accounts: &'info [AccountInfo<'info>]) -> Result<(Vec<(AccountInfo<'info>, u64)>, &'info [AccountInfo<'info>])> {
+        require!(accounts.len() >= self.sponsors.len(), PalapaError::SponsorAccountMismatch);
+        let (sponsor_accounts, rest) = accounts.split_at(self.sponsors.len());
+        for (account, contribution) in sponsor_accounts.iter().zip(self.sponsors.iter()) {
+            require!(*account.key == contribution.sponsor && account.is_writable, PalapaError::SponsorAccountMismatch);
+        }
+        let refunds = sponsor_accounts.iter().cloned().zip(self.sponsors.drain(..).map(|c| c.amount)).collect();
+        Ok((refunds, rest))
     }
 }
 
+/// Proof that `player` joined a ticket room, at `["ticket", room, player]`. The player pays its rent
+/// and gets it back when it is closed: on leaving, on a refund, or by `release_tickets`.
+#[account]
+pub struct PlayerTicket {
+    pub room: Pubkey,
+    pub player: Pubkey,
+}
+
+impl PlayerTicket {
+    pub const SPACE: usize = 8 + // Anchor discriminator
+        32 + // room: Pubkey
+        32; // player: Pubkey
+}
+
 
 #[derive(AnchorSerialize, AnchorDeserialize, Clone, PartialEq, Eq, Debug)]
 pub enum RoomStatus {
@@ -398,6 +2376,9 @@ pub enum RoomStatus {
     InProgress,
     Finished,
     Cancelled,
+    Expired,        // A deadline passed before the room was settled; players were refunded by `expire_room`
+    PendingPayout,  // Result announced in a room with a dispute window; `claim_prize` pays it out once the window is over
+    Disputed,       // A player disputed the pending result; frozen until `resolve_dispute`
 }
 
 impl RoomStatus {
@@ -409,6 +2390,14 @@ impl RoomStatus {
 // Re-evaluating RoomStatus::SPACE. Anchor handles this internally for enums.
 // The way it was (1 byte for discriminant) is standard. So RoomStatus::SPACE = 1 is fine.
 
+/// Who may join a room.
+#[derive(AnchorSerialize, AnchorDeserialize, Clone, Copy, PartialEq, Eq, Debug)]
+pub enum RoomAccess {
+    Public,    // Any wallet
+    Allowlist, // Only the players in `RoomData.allowlist`
+    Invite,    // Only players with an invite signed by the creator
+}
+
 #[error_code]
 pub enum PalapaError {
     #[msg("Invalid number of maximum players specified (must be > 1).")] InvalidMaxPlayers, // 6000
@@ -431,4 +2420,48 @@ pub enum PalapaError {
     #[msg("Requested max players exceeds the program's limit used for space allocation.")] MaxPlayersExceedsLimit, // 6017
     #[msg("Invalid Creator account provided for seed derivation.")] InvalidCreator, // 6018
     #[msg("Room is not in the OpenForJoining state, cannot be started.")] RoomNotOpenForStarting, // 6019
+    #[msg("Fee basis points exceed the program's cap.")] FeeTooHigh, // 6020
+    #[msg("Unauthorized: Only the config admin can perform this action.")] UnauthorizedAdmin, // 6021
+    #[msg("This player has not joined the room.")] PlayerNotInRoom, // 6022
+    #[msg("Players can only leave a room while it is OpenForJoining.")] CannotLeaveRoomState, // 6023
+    #[msg("Refund accounts must be the room's first players, in order, and writable.")] RefundAccountMismatch, // 6024
+    #[msg("Deadlines must be in the future, and the settle deadline after the join deadline.")] InvalidDeadline, // 6025
+    #[msg("The room's deadline has passed; it can only be expired.")] JoinDeadlinePassed, // 6026
+    #[msg("The room's settle deadline has passed; the winner can no longer be announced.")] SettleDeadlinePassed, // 6027
+    #[msg("The room has not missed a deadline, so it cannot be expired.")] RoomNotExpired, // 6028
+    #[msg("Winner shares must list 1 to 10 distinct winners whose basis points sum to 10000.")] InvalidPrizeSplit, // 6029
+    #[msg("Token rooms need the mint, token program and token accounts for this instruction.")] MissingTokenAccounts, // 6030
+    #[msg("A token account or mint does not match the room's mint and expected owner.")] TokenAccountMismatch, // 6031
+    #[msg("This is not supported for token rooms yet.")] TokenRoomUnsupported, // 6032
+    #[msg("Only finished rooms, or cancelled and expired rooms with every refund paid, can be closed.")] RoomNotSettled, // 6033
+    #[msg("Rooms with more than 100 seats need the player's ticket account for this instruction.")] MissingPlayerTicket, // 6034
+    #[msg("A ticket account does not belong to this room and player, or is not expected here.")] PlayerTicketMismatch, // 6035
+    #[msg("Tickets can only be released once the room is finished.")] RoomNotFinished, // 6036
+    #[msg("This room is private: the player is not on its allowlist or has no valid invite from the creator.")] PlayerNotInvited, // 6037
+    #[msg("Allowlist rooms need 1 to 20 allowlisted players, and other rooms none.")] InvalidAllowlist, // 6038
+    #[msg("Rooms can have up to 5 distinct referees, with a threshold between 1 and their number (0 without referees).")] InvalidReferees, // 6039
+    #[msg("Only the room's referees can approve or announce its result.")] NotAReferee, // 6040
+    #[msg("Not enough referees approved this result.")] NotEnoughApprovals, // 6041
+    #[msg("Dispute windows can be at most 7 days and need a settle deadline.")] InvalidDisputeWindow, // 6042
+    #[msg("Results can only be disputed while their payout is pending and the dispute window is open.")] DisputeWindowClosed, // 6043
+    #[msg("Only a disputed result can be resolved.")] RoomNotDisputed, // 6044
+    #[msg("The prize can only be claimed once the result's dispute window is over.")] PayoutNotClaimable, // 6045
+    #[msg("Raffles need a reveal window of up to 7 days, at most 100 seats, lamport entry fees and no referees or dispute window.")] InvalidRaffle, // 6046
+    #[msg("Raffle players must join with a commitment, and players of other rooms without one.")] MissingCommitment, // 6047
+    #[msg("Only raffle rooms have commitments to reveal and winners to draw.")] NotARaffle, // 6048
+    #[msg("Raffle winners are drawn with draw_winner, not announced.")] RaffleDrawOnly, // 6049
+    #[msg("Commitments can only be revealed while the room is in progress, before its reveal deadline.")] RevealWindowClosed, // 6050
+    #[msg("This player has already revealed their commitment.")] AlreadyRevealed, // 6051
+    #[msg("The secret does not match the player's commitment.")] CommitmentMismatch, // 6052
+    #[msg("The raffle's draw can only be scheduled, and then drawn, once every player revealed or the reveal deadline passed.")] RevealsPending, // 6053
+    #[msg("Minimum players cannot exceed max players, and need a join deadline.")] InvalidMinPlayers, // 6054
+    #[msg("The room cannot start before it has its minimum number of players.")] NotEnoughPlayers, // 6055
+    #[msg("Contributions to the pot must be positive.")] InvalidContribution, // 6056
+    #[msg("Only rooms that are open or in progress, before their deadlines, can be sponsored.")] RoomNotSponsorable, // 6057
+    #[msg("The room already has the maximum number of sponsor contributions.")] TooManySponsors, // 6058
+    #[msg("Sponsor accounts must be the room's sponsors, in order and writable, ahead of the refunded players.")] SponsorAccountMismatch, // 6059
+    #[msg("The raffle's draw is already scheduled.")] DrawAlreadyScheduled, // 6060
+    #[msg("Nobody revealed their commitment, so the raffle can only be expired.")] NothingRevealed, // 6061
+    #[msg("No block has been produced at or after the raffle's draw slot yet.")] DrawSlotPending, // 6062
+    #[msg("The raffle's draw slot is too old to draw with; schedule the draw again.")] DrawSlotExpired, // 6063
 }
\ No newline at end of file
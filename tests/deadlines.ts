@@ -0,0 +1,794 @@
+import * as anchor from "@coral-xyz/anchor";
+import { BN, Program } from "@coral-xyz/anchor";
+import {
+  Keypair,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  SystemProgram,
+  SYSVAR_SLOT_HASHES_PUBKEY,
+  Transaction,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import { expect } from "chai";
+import * as path from "path";
+import { BanksClient, Clock, ProgramTestContext, start } from "solana-bankrun";
+import { PalapaFunRooms } from "../target/types/palapa_fun_rooms";
+import {
+  DRAW_DELAY_SLOTS,
+  DRAW_SLOT_LIFETIME,
+  DisputeWindowClosedError,
+  DrawAlreadyScheduledError,
+  DrawSlotExpiredError,
+  DrawSlotPendingError,
+  InvalidDeadlineError,
+  InvalidMinPlayersError,
+  JoinDeadlinePassedError,
+  PalapaProgramError,
+  NotEnoughPlayersError,
+  NothingRevealedError,
+  PayoutNotClaimableError,
+  RevealWindowClosedError,
+  RevealsPendingError,
+  RoomData,
+  RoomNotExpiredError,
+  RoomNotSponsorableError,
+  SettleDeadlinePassedError,
+  SponsorAccountMismatchError,
+  decodePalapaError,
+  drawRaffleWinner,
+  generateRaffleSecret,
+  getConfigPda,
+  getRoomPda,
+  getVaultPda,
+  raffleCandidates,
+  raffleCommitment,
+} from "../client";
+
+// Deadlines, dispute and reveal windows depend on the clock, so these run in a bankrun
+// test runtime where the `Clock` sysvar can be moved forward instead of
+// waiting on a validator.
+describe("room deadlines", () => {
+  const program = anchor.workspace.PalapaFunRooms as Program<PalapaFunRooms>;
+  const programId = program.programId;
+
+  const creator = Keypair.generate();
+  const players = [Keypair.generate(), Keypair.generate(), Keypair.generate()];
+  const caller = Keypair.generate();
+  const serviceWallet = Keypair.generate();
+  const entryFee = new BN(0.1 * LAMPORTS_PER_SOL);
+
+  let context: ProgramTestContext;
+  let banks: BanksClient;
+
+  // These rooms charge lamports, so their optional token accounts are absent.
+  const noTokenAccounts = {
+    mint: null,
+    vaultTokenAccount: null,
+    tokenProgram: null,
+  };
+
+  const funded = (address: PublicKey) => ({
+    address,
+    info: {
+      lamports: 10 * LAMPORTS_PER_SOL,
+      data: Buffer.alloc(0),
+      owner: SystemProgram.programId,
+      executable: false,
+    },
+  });
+
+  const now = async (): Promise<number> =>
+    Number((await banks.getClock()).unixTimestamp);
+
+  // Also moves `slots` ahead, so a transaction retried after the warp gets
+  // a fresh blockhash instead of being dropped as already processed.
+  const warpTo = async (unixTimestamp: number, slots = 1) => {
+    context.warpToSlot((await banks.getClock()).slot + BigInt(slots));
+    const clock = await banks.getClock();
+    context.setClock(
+      new Clock(
+        clock.slot,
+        clock.epochStartTimestamp,
+        clock.epoch,
+        clock.leaderScheduleEpoch,
+        BigInt(unixTimestamp)
+      )
+    );
+  };
+
+  const send = async (ix: TransactionInstruction, ...signers: Keypair[]) => {
+    const tx = new Transaction().add(ix);
+    [tx.recentBlockhash] = (await banks.getLatestBlockhash())!;
+    tx.feePayer = signers[0].publicKey;
+    tx.sign(...signers);
+    await banks.processTransaction(tx);
+  };
+
+  const expectError = async (
+    promise: Promise<unknown>,
+    errorClass: new (...args: any[]) => PalapaProgramError
+  ) => {
+    try {
+      await promise;
+    } catch (err) {
+      expect(decodePalapaError(err)).to.be.instanceOf(errorClass);
+      return;
+    }
+    expect.fail(`Expected ${errorClass.name}`);
+  };
+
+  const slot = async (): Promise<number> =>
+    Number((await banks.getClock()).slot);
+
+  // The SlotHashes sysvar's `[slot, hash]` entries, newest first.
+  const slotHashes = async (): Promise<[number, Buffer][]> => {
+    const data = Buffer.from(
+      (await banks.getAccount(SYSVAR_SLOT_HASHES_PUBKEY))!.data
+    );
+    return Array.from({ length: Number(data.readBigUInt64LE(0)) }, (_, i) => [
+      Number(data.readBigUInt64LE(8 + i * 40)),
+      data.subarray(16 + i * 40, 48 + i * 40),
+    ]);
+  };
+
+  const balance = async (address: PublicKey): Promise<number> =>
+    Number(await banks.getBalance(address));
+
+  const fetchRoom = async (seed: string): Promise<RoomData> => {
+    const [roomPda] = getRoomPda(programId, creator.publicKey, seed);
+    const account = await banks.getAccount(roomPda);
+    return program.coder.accounts.decode(
+      "roomData",
+      Buffer.from(account!.data)
+    );
+  };
+
+  const createRoom = (
+    seed: string,
+    maxPlayers: number,
+    joinDeadline: number | null,
+    settleDeadline: number | null,
+    { disputeWindow = 0, revealWindow = 0, minPlayers = 0 } = {}
+  ) =>
+    program.methods
+      .createRoom(
+        seed,
+        maxPlayers,
+        entryFee,
+        joinDeadline === null ? null : new BN(joinDeadline),
+        settleDeadline === null ? null : new BN(settleDeadline),
+        { public: {} },
+        [],
+        [],
+        0,
+        disputeWindow,
+        revealWindow,
+        minPlayers
+      )
+      .accountsPartial({
+        creator: creator.publicKey,
+        roomData: getRoomPda(programId, creator.publicKey, seed)[0],
+        roomVault: getVaultPda(programId, creator.publicKey, seed)[0],
+        systemProgram: SystemProgram.programId,
+        ...noTokenAccounts,
+        associatedTokenProgram: null,
+      })
+      .instruction()
+      .then((ix) => send(ix, creator));
+
+  const joinRoom = (
+    seed: string,
+    player: Keypair,
+    commitment: Uint8Array | null = null
+  ) =>
+    program.methods
+      .joinRoom(seed, commitment && Array.from(commitment))
+      .accountsPartial({
+        player: player.publicKey,
+        roomData: getRoomPda(programId, creator.publicKey, seed)[0],
+        roomVault: getVaultPda(programId, creator.publicKey, seed)[0],
+        systemProgram: SystemProgram.programId,
+        ...noTokenAccounts,
+        playerTokenAccount: null,
+        playerTicket: null,
+        instructionsSysvar: null,
+      })
+      .instruction()
+      .then((ix) => send(ix, player));
+
+  const startRoom = (seed: string) =>
+    program.methods
+      .startRoom(seed)
+      .accountsPartial({
+        creator: creator.publicKey,
+        roomData: getRoomPda(programId, creator.publicKey, seed)[0],
+      })
+      .instruction()
+      .then((ix) => send(ix, creator));
+
+  const addToPot = (seed: string, sponsor: Keypair, amount: number) =>
+    program.methods
+      .addToPot(seed, new BN(amount), false)
+      .accountsPartial({
+        sponsor: sponsor.publicKey,
+        roomData: getRoomPda(programId, creator.publicKey, seed)[0],
+        roomVault: getVaultPda(programId, creator.publicKey, seed)[0],
+        systemProgram: SystemProgram.programId,
+      })
+      .instruction()
+      .then((ix) => send(ix, sponsor));
+
+  const expireRoom = (seed: string, refunded: PublicKey[]) =>
+    program.methods
+      .expireRoom(seed)
+      .accountsPartial({
+        caller: caller.publicKey,
+        roomData: getRoomPda(programId, creator.publicKey, seed)[0],
+        roomVault: getVaultPda(programId, creator.publicKey, seed)[0],
+        creator: creator.publicKey,
+        systemProgram: SystemProgram.programId,
+        ...noTokenAccounts,
+        creatorTokenAccount: null,
+      })
+      .remainingAccounts(
+        refunded.map((pubkey) => ({
+          pubkey,
+          isWritable: true,
+          isSigner: false,
+        }))
+      )
+      .instruction()
+      .then((ix) => send(ix, caller));
+
+  const announceWinner = (seed: string, winner: PublicKey) =>
+    program.methods
+      .announceWinner(seed, winner)
+      .accountsPartial({
+        creator: creator.publicKey,
+        roomData: getRoomPda(programId, creator.publicKey, seed)[0],
+        roomVault: getVaultPda(programId, creator.publicKey, seed)[0],
+        winnerAccount: winner,
+        config: getConfigPda(programId)[0],
+        serviceFeeRecipient: serviceWallet.publicKey,
+        systemProgram: SystemProgram.programId,
+        ...noTokenAccounts,
+        creatorTokenAccount: null,
+        serviceFeeTokenAccount: null,
+        winnerTokenAccount: null,
+        winnerTicket: null,
+        authority: creator.publicKey,
+      })
+      .instruction()
+      .then((ix) => send(ix, creator));
+
+  const disputeResult = (seed: string, player: Keypair) =>
+    program.methods
+      .disputeResult(seed)
+      .accountsPartial({
+        player: player.publicKey,
+        roomData: getRoomPda(programId, creator.publicKey, seed)[0],
+        playerTicket: null,
+      })
+      .instruction()
+      .then((ix) => send(ix, player));
+
+  const resolveDispute = (seed: string, winner: PublicKey) =>
+    program.methods
+      .resolveDispute(seed, [{ winner, shareBasisPoints: 10_000 }])
+      .accountsPartial({
+        authority: creator.publicKey,
+        roomData: getRoomPda(programId, creator.publicKey, seed)[0],
+      })
+      .instruction()
+      .then((ix) => send(ix, creator));
+
+  const claimPrize = (seed: string, winners: PublicKey[]) =>
+    program.methods
+      .claimPrize(seed)
+      .accountsPartial({
+        creator: creator.publicKey,
+        roomData: getRoomPda(programId, creator.publicKey, seed)[0],
+        roomVault: getVaultPda(programId, creator.publicKey, seed)[0],
+        config: getConfigPda(programId)[0],
+        serviceFeeRecipient: serviceWallet.publicKey,
+        systemProgram: SystemProgram.programId,
+        caller: caller.publicKey,
+      })
+      .remainingAccounts(
+        winners.map((pubkey) => ({
+          pubkey,
+          isWritable: true,
+          isSigner: false,
+        }))
+      )
+      .instruction()
+      .then((ix) => send(ix, caller));
+
+  const updateFees = (creatorFee: number, serviceFee: number) =>
+    program.methods
+      .updateFees(creatorFee, serviceFee)
+      .accountsPartial({
+        admin: creator.publicKey,
+        config: getConfigPda(programId)[0],
+      })
+      .instruction()
+      .then((ix) => send(ix, creator));
+
+  const revealCommitment = (
+    seed: string,
+    player: Keypair,
+    secret: Uint8Array
+  ) =>
+    program.methods
+      .revealCommitment(seed, Array.from(secret))
+      .accountsPartial({
+        player: player.publicKey,
+        roomData: getRoomPda(programId, creator.publicKey, seed)[0],
+      })
+      .instruction()
+      .then((ix) => send(ix, player));
+
+  const scheduleDraw = (seed: string) =>
+    program.methods
+      .scheduleDraw(seed)
+      .accountsPartial({
+        caller: caller.publicKey,
+        roomData: getRoomPda(programId, creator.publicKey, seed)[0],
+      })
+      .instruction()
+      .then((ix) => send(ix, caller));
+
+  const drawWinner = (seed: string) =>
+    program.methods
+      .drawWinner(seed)
+      .accountsPartial({
+        caller: caller.publicKey,
+        roomData: getRoomPda(programId, creator.publicKey, seed)[0],
+        config: getConfigPda(programId)[0],
+        slotHashes: SYSVAR_SLOT_HASHES_PUBKEY,
+      })
+      .instruction()
+      .then((ix) => send(ix, caller));
+
+  before(async () => {
+    process.env.SBF_OUT_DIR ??= path.join(__dirname, "..", "target", "deploy");
+    const [configPda, configBump] = getConfigPda(programId);
+    const configData = await program.coder.accounts.encode("config", {
+      admin: creator.publicKey,
+      serviceWallet: serviceWallet.publicKey,
+      creatorFeeBasisPoints: 200,
+      serviceFeeBasisPoints: 300,
+      bump: configBump,
+    });
+    context = await start(
+      [{ name: "solana_playground", programId }],
+      [
+        ...[creator, caller, serviceWallet, ...players].map((k) =>
+          funded(k.publicKey)
+        ),
+        {
+          address: configPda,
+          info: {
+            lamports: LAMPORTS_PER_SOL,
+            data: configData,
+            owner: programId,
+            executable: false,
+          },
+        },
+      ]
+    );
+    banks = context.banksClient;
+  });
+
+  it("should reject deadlines in the past or out of order", async () => {
+    const t = await now();
+    await expectError(
+      createRoom("dl-past", 3, t - 1, null),
+      InvalidDeadlineError
+    );
+    await expectError(
+      createRoom("dl-order", 3, t + 600, t + 600),
+      InvalidDeadlineError
+    );
+  });
+
+  it("should close joining at the join deadline and refund players on expiry", async () => {
+    const seed = "dl-join";
+    const t = await now();
+    await createRoom(seed, 3, t + 60, t + 600);
+    await joinRoom(seed, players[0]);
+    await joinRoom(seed, players[1]);
+
+    await expectError(
+      expireRoom(seed, [players[0].publicKey, players[1].publicKey]),
+      RoomNotExpiredError
+    );
+
+    await warpTo(t + 61);
+    await expectError(joinRoom(seed, players[2]), JoinDeadlinePassedError);
+
+    const before = await Promise.all(
+      [players[0], players[1], creator].map((k) => balance(k.publicKey))
+    );
+    await expireRoom(seed, [players[0].publicKey, players[1].publicKey]);
+
+    const room = await fetchRoom(seed);
+    expect(room.status).to.deep.equal({ expired: {} });
+    expect(room.players).to.be.empty;
+    expect(room.endTimestamp!.toNumber()).to.equal(t + 61);
+    expect(await balance(players[0].publicKey)).to.equal(
+      before[0] + entryFee.toNumber()
+    );
+    expect(await balance(players[1].publicKey)).to.equal(
+      before[1] + entryFee.toNumber()
+    );
+    // Only the vault rent is left for the creator.
+    expect(await balance(creator.publicKey)).to.be.greaterThan(before[2]);
+    const [vaultPda] = getVaultPda(programId, creator.publicKey, seed);
+    expect(await balance(vaultPda)).to.equal(0);
+  });
+
+  it("should expire a started room after its settle deadline, pro rata and in batches", async () => {
+    const seed = "dl-settle";
+    const t = await now();
+    await createRoom(seed, 2, null, t + 120);
+    await joinRoom(seed, players[0]);
+    await joinRoom(seed, players[1]); // Fills the room: InProgress.
+    expect((await fetchRoom(seed)).status).to.deep.equal({ inProgress: {} });
+
+    // Lamports sent to the vault on top of the entry fees are shared too.
+    const [vaultPda] = getVaultPda(programId, creator.publicKey, seed);
+    const extra = 0.05 * LAMPORTS_PER_SOL;
+    await send(
+      SystemProgram.transfer({
+        fromPubkey: caller.publicKey,
+        toPubkey: vaultPda,
+        lamports: extra,
+      }),
+      caller
+    );
+
+    await warpTo(t + 120);
+    await expectError(
+      announceWinner(seed, players[0].publicKey),
+      SettleDeadlinePassedError
+    );
+
+    const share = entryFee.toNumber() + extra / 2;
+    const before = await Promise.all(
+      players.slice(0, 2).map((k) => balance(k.publicKey))
+    );
+
+    await expireRoom(seed, [players[0].publicKey]);
+    let room = await fetchRoom(seed);
+    expect(room.status).to.deep.equal({ expired: {} });
+    expect(room.players.map((p) => p.toBase58())).to.deep.equal([
+      players[1].publicKey.toBase58(),
+    ]);
+    expect(await balance(players[0].publicKey)).to.equal(before[0] + share);
+
+    await expireRoom(seed, [players[1].publicKey]);
+    room = await fetchRoom(seed);
+    expect(room.players).to.be.empty;
+    expect(await balance(players[1].publicKey)).to.equal(before[1] + share);
+    expect(await balance(vaultPda)).to.equal(0);
+  });
+
+  it("should refund every entry fee of a room short of its minimum at the join deadline", async () => {
+    const seed = "dl-min";
+    const t = await now();
+    await createRoom(seed, 3, t + 60, null, { minPlayers: 3 });
+    await joinRoom(seed, players[0]);
+    await joinRoom(seed, players[1]);
+    await expectError(startRoom(seed), NotEnoughPlayersError);
+    await expectError(
+      expireRoom(seed, [players[0].publicKey, players[1].publicKey]),
+      RoomNotExpiredError
+    );
+
+    await warpTo(t + 60);
+    const before = await Promise.all(
+      players.slice(0, 2).map((k) => balance(k.publicKey))
+    );
+    await expireRoom(seed, [players[0].publicKey, players[1].publicKey]);
+
+    const room = await fetchRoom(seed);
+    expect(room.status).to.deep.equal({ expired: {} });
+    expect(room.players).to.be.empty;
+    expect(await balance(players[0].publicKey)).to.equal(
+      before[0] + entryFee.toNumber()
+    );
+    expect(await balance(players[1].publicKey)).to.equal(
+      before[1] + entryFee.toNumber()
+    );
+  });
+
+  it("should reject a minimum number of players without a join deadline", async () => {
+    const t = await now();
+    // Nothing could expire a room that never reaches its minimum
+    await expectError(
+      createRoom("dl-min-open", 3, null, t + 3600, { minPlayers: 2 }),
+      InvalidMinPlayersError
+    );
+    await createRoom("dl-min-open", 3, null, t + 3600);
+    expect((await fetchRoom("dl-min-open")).minPlayers).to.equal(0);
+  });
+
+  it("should return sponsor contributions before splitting an expired pot", async () => {
+    const seed = "dl-sponsor";
+    const sponsor = players[2];
+    const contribution = 0.05 * LAMPORTS_PER_SOL;
+    const t = await now();
+    await createRoom(seed, 3, t + 60, null);
+    await joinRoom(seed, players[0]);
+    await joinRoom(seed, players[1]);
+    await addToPot(seed, sponsor, contribution);
+
+    await warpTo(t + 60);
+    await expectError(
+      addToPot(seed, sponsor, contribution),
+      RoomNotSponsorableError
+    );
+    // The first batch passes the sponsors ahead of its players.
+    await expectError(
+      expireRoom(seed, [players[0].publicKey]),
+      SponsorAccountMismatchError
+    );
+
+    const before = await Promise.all(
+      [players[0], players[1], sponsor].map((k) => balance(k.publicKey))
+    );
+    await expireRoom(seed, [sponsor.publicKey, players[0].publicKey]);
+    let room = await fetchRoom(seed);
+    expect(room.status).to.deep.equal({ expired: {} });
+    expect(room.sponsors).to.be.empty;
+    expect(await balance(sponsor.publicKey)).to.equal(before[2] + contribution);
+    expect(await balance(players[0].publicKey)).to.equal(
+      before[0] + entryFee.toNumber()
+    );
+
+    await expireRoom(seed, [players[1].publicKey]);
+    room = await fetchRoom(seed);
+    expect(room.players).to.be.empty;
+    expect(await balance(players[1].publicKey)).to.equal(
+      before[1] + entryFee.toNumber()
+    );
+  });
+
+  it("should never expire a room without deadlines", async () => {
+    const seed = "dl-none";
+    const t = await now();
+    await createRoom(seed, 2, null, null);
+    await warpTo(t + 365 * 24 * 60 * 60);
+    await expectError(expireRoom(seed, []), RoomNotExpiredError);
+    expect((await fetchRoom(seed)).status).to.deep.equal({
+      openForJoining: {},
+    });
+  });
+
+  it("should pay out a pending result once its dispute window is over", async () => {
+    const seed = "dw-claim";
+    const t = await now();
+    await createRoom(seed, 2, null, t + 3600, { disputeWindow: 300 });
+    await joinRoom(seed, players[0]);
+    await joinRoom(seed, players[1]);
+
+    const winner = players[0].publicKey;
+    await announceWinner(seed, winner);
+    const room = await fetchRoom(seed);
+    expect(room.status).to.deep.equal({ pendingPayout: {} });
+    expect(room.claimableAt!.toNumber()).to.equal(t + 300);
+    expect(room.winnerShares).to.deep.equal([10_000]);
+    await expectError(claimPrize(seed, [winner]), PayoutNotClaimableError);
+
+    await warpTo(t + 300);
+    await expectError(
+      disputeResult(seed, players[1]),
+      DisputeWindowClosedError
+    );
+
+    const [vaultPda] = getVaultPda(programId, creator.publicKey, seed);
+    const vaultBefore = await balance(vaultPda);
+    const winnerBefore = await balance(winner);
+    // Raising the fees after the announcement doesn't change this payout.
+    await updateFees(1_000, 1_000);
+    try {
+      await claimPrize(seed, [winner]);
+    } finally {
+      await updateFees(200, 300);
+    }
+
+    expect((await fetchRoom(seed)).status).to.deep.equal({ finished: {} });
+    // Everything but the 2% creator and 3% service fees on the entry fees.
+    const fees = (2 * entryFee.toNumber() * 5) / 100;
+    expect(await balance(winner)).to.equal(winnerBefore + vaultBefore - fees);
+    expect(await balance(vaultPda)).to.equal(0);
+  });
+
+  it("should expire a disputed room left unresolved past its settle deadline", async () => {
+    const seed = "dw-expire";
+    const t = await now();
+    await createRoom(seed, 2, null, t + 120, { disputeWindow: 600 });
+    await joinRoom(seed, players[0]);
+    await joinRoom(seed, players[1]);
+    await announceWinner(seed, players[0].publicKey);
+
+    await disputeResult(seed, players[1]);
+    let room = await fetchRoom(seed);
+    expect(room.status).to.deep.equal({ disputed: {} });
+    expect(room.disputedBy!.toBase58()).to.equal(
+      players[1].publicKey.toBase58()
+    );
+    await expectError(
+      expireRoom(seed, [players[0].publicKey, players[1].publicKey]),
+      RoomNotExpiredError
+    );
+
+    await warpTo(t + 120);
+    await expectError(
+      resolveDispute(seed, players[1].publicKey),
+      SettleDeadlinePassedError
+    );
+    const before = await Promise.all(
+      players.slice(0, 2).map((k) => balance(k.publicKey))
+    );
+    await expireRoom(seed, [players[0].publicKey, players[1].publicKey]);
+
+    room = await fetchRoom(seed);
+    expect(room.status).to.deep.equal({ expired: {} });
+    expect(room.winners).to.be.empty;
+    expect(await balance(players[0].publicKey)).to.equal(
+      before[0] + entryFee.toNumber()
+    );
+    expect(await balance(players[1].publicKey)).to.equal(
+      before[1] + entryFee.toNumber()
+    );
+  });
+
+  it("should leave players who don't reveal in time out of a raffle draw", async () => {
+    const seed = "rf-timeout";
+    const t = await now();
+    await createRoom(seed, 3, null, t + 3600, { revealWindow: 300 });
+    const [roomPda] = getRoomPda(programId, creator.publicKey, seed);
+    const secrets = players.map(() => generateRaffleSecret());
+    for (const [i, player] of players.entries()) {
+      await joinRoom(
+        seed,
+        player,
+        raffleCommitment(roomPda, player.publicKey, secrets[i])
+      );
+    }
+    let room = await fetchRoom(seed);
+    expect(room.status).to.deep.equal({ inProgress: {} });
+    expect(room.revealDeadline!.toNumber()).to.equal(t + 300);
+
+    await revealCommitment(seed, players[0], secrets[0]);
+    await revealCommitment(seed, players[1], secrets[1]);
+    await expectError(drawWinner(seed), RevealsPendingError);
+
+    await warpTo(t + 300);
+    await expectError(
+      revealCommitment(seed, players[2], secrets[2]),
+      RevealWindowClosedError
+    );
+    // Someone has to schedule the draw now that the last reveal won't
+    await expectError(drawWinner(seed), RevealsPendingError);
+    await scheduleDraw(seed);
+    await warpTo(t + 300, DRAW_DELAY_SLOTS + 2);
+    await drawWinner(seed);
+
+    room = await fetchRoom(seed);
+    expect(room.status).to.deep.equal({ pendingPayout: {} });
+    expect(room.claimableAt!.toNumber()).to.equal(t + 300);
+    expect(room.raffleEntries.map((entry) => entry.revealed)).to.deep.equal([
+      true,
+      true,
+      false,
+    ]);
+    expect(room.winners).to.have.length(1);
+    expect(room.winners[0].toBase58()).to.be.oneOf(
+      players.slice(0, 2).map((k) => k.publicKey.toBase58())
+    );
+  });
+
+  it("should draw with the hash of the draw slot, whenever the draw is sent", async () => {
+    const seed = "rf-slot";
+    const t = await now();
+    await createRoom(seed, 2, null, t + 3600, { revealWindow: 300 });
+    const [roomPda] = getRoomPda(programId, creator.publicKey, seed);
+    const secrets = players.slice(0, 2).map(() => generateRaffleSecret());
+    for (const [i, secret] of secrets.entries()) {
+      await joinRoom(
+        seed,
+        players[i],
+        raffleCommitment(roomPda, players[i].publicKey, secret)
+      );
+    }
+    await revealCommitment(seed, players[0], secrets[0]);
+    const revealSlot = await slot();
+    await revealCommitment(seed, players[1], secrets[1]);
+
+    // The last reveal picked a slot ahead, whose hash nobody knew yet
+    let room = await fetchRoom(seed);
+    const drawSlot = room.drawSlot!.toNumber();
+    expect(drawSlot).to.equal(revealSlot + DRAW_DELAY_SLOTS);
+    await expectError(scheduleDraw(seed), DrawAlreadyScheduledError);
+    await expectError(drawWinner(seed), DrawSlotPendingError);
+    await warpTo(t, DRAW_DELAY_SLOTS);
+    expect(await slot()).to.equal(drawSlot);
+    await expectError(drawWinner(seed), DrawSlotPendingError);
+
+    // Waiting for a newer slot hash doesn't change the one the draw uses
+    await warpTo(t, 1);
+    await warpTo(t, 5);
+    const hashes = await slotHashes();
+    expect(hashes[0][0]).to.be.greaterThan(drawSlot);
+    const [, drawHash] = hashes.find(([s]) => s === drawSlot)!;
+    await drawWinner(seed);
+
+    room = await fetchRoom(seed);
+    expect(room.status).to.deep.equal({ pendingPayout: {} });
+    expect(room.winners[0].toBase58()).to.equal(
+      drawRaffleWinner(
+        roomPda,
+        raffleCandidates(room),
+        room.entropy,
+        drawHash
+      ).toBase58()
+    );
+  });
+
+  it("should expire raffles nobody revealed in", async () => {
+    const seed = "rf-silent";
+    const t = await now();
+    await createRoom(seed, 2, null, t + 3600, { revealWindow: 300 });
+    await joinRoom(seed, players[0], generateRaffleSecret());
+    await joinRoom(seed, players[1], generateRaffleSecret());
+    await warpTo(t + 300);
+
+    // Nobody revealed, so there is nobody to draw
+    await expectError(scheduleDraw(seed), NothingRevealedError);
+    await expireRoom(seed, [players[0].publicKey, players[1].publicKey]);
+    const room = await fetchRoom(seed);
+    expect(room.status).to.deep.equal({ expired: {} });
+    expect(room.winners).to.be.empty;
+  });
+
+  it("should schedule a draw nobody sent in time again", async () => {
+    const seed = "rf-stale";
+    const t = await now();
+    await createRoom(seed, 2, null, t + 3600, { revealWindow: 300 });
+    const [roomPda] = getRoomPda(programId, creator.publicKey, seed);
+    const secret = generateRaffleSecret();
+    await joinRoom(
+      seed,
+      players[0],
+      raffleCommitment(roomPda, players[0].publicKey, secret)
+    );
+    await joinRoom(seed, players[1], generateRaffleSecret());
+    await revealCommitment(seed, players[0], secret);
+    await warpTo(t + 300);
+    await scheduleDraw(seed);
+
+    // The draw slot's hash may have left SlotHashes, so the draw gets a new slot
+    await warpTo(t + 300, DRAW_DELAY_SLOTS + DRAW_SLOT_LIFETIME + 1);
+    await expectError(drawWinner(seed), DrawSlotExpiredError);
+    await expectError(
+      expireRoom(seed, [players[0].publicKey, players[1].publicKey]),
+      RoomNotExpiredError
+    );
+    await scheduleDraw(seed);
+    expect((await fetchRoom(seed)).drawSlot!.toNumber()).to.equal(
+      (await slot()) + DRAW_DELAY_SLOTS
+    );
+    await expectError(scheduleDraw(seed), DrawAlreadyScheduledError);
+
+    await warpTo(t + 300, DRAW_DELAY_SLOTS + 1);
+    await drawWinner(seed);
+    const room = await fetchRoom(seed);
+    expect(room.status).to.deep.equal({ pendingPayout: {} });
+    expect(room.winners.map((k) => k.toBase58())).to.deep.equal([
+      players[0].publicKey.toBase58(),
+    ]);
+  });
+});
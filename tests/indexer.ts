@@ -0,0 +1,208 @@
+import * as anchor from "@coral-xyz/anchor";
+import { BN, Program } from "@coral-xyz/anchor";
+import {
+  createMint,
+  getOrCreateAssociatedTokenAccount,
+  mintTo,
+} from "@solana/spl-token";
+import { Keypair, LAMPORTS_PER_SOL } from "@solana/web3.js";
+import { expect } from "chai";
+import { AddressInfo } from "net";
+import * as http from "http";
+import { PalapaFunRooms } from "../target/types/palapa_fun_rooms";
+import { MAX_INLINE_PLAYERS, PalapaClient } from "../client";
+import {
+  IndexedRoom,
+  IndexedRoomPage,
+  RoomIndexer,
+  RoomStore,
+  createIndexerServer,
+} from "../indexer";
+
+describe("room indexer", () => {
+  const provider = anchor.AnchorProvider.env();
+  anchor.setProvider(provider);
+  const program = anchor.workspace.PalapaFunRooms as Program<PalapaFunRooms>;
+  const connection = provider.connection;
+  const client = new PalapaClient(program);
+
+  const creator = Keypair.generate();
+  const player = Keypair.generate();
+  const ticketHolder = Keypair.generate();
+  const entryFee = new BN(0.01 * LAMPORTS_PER_SOL);
+  const suffix = Date.now().toString(36);
+  const backfilledSeed = `ix-old-${suffix}`;
+  const liveSeed = `ix-live-${suffix}`;
+  const tokenSeed = `ix-token-${suffix}`;
+  const ticketSeed = `ix-ticket-${suffix}`;
+
+  let store: RoomStore;
+  let indexer: RoomIndexer;
+  let server: http.Server;
+  let baseUrl: string;
+
+  const get = async <T>(path: string): Promise<{ status: number; body: T }> => {
+    const res = await fetch(`${baseUrl}${path}`);
+    return { status: res.status, body: (await res.json()) as T };
+  };
+
+  // Polls `path` until `done` accepts the body; subscriptions are asynchronous.
+  const waitFor = async <T>(
+    path: string,
+    done: (body: T) => boolean
+  ): Promise<T> => {
+    const deadline = Date.now() + 20_000;
+    for (;;) {
+      const { body } = await get<T>(path);
+      if (done(body)) return body;
+      if (Date.now() > deadline)
+        expect.fail(`Timed out waiting on ${path}: ${JSON.stringify(body)}`);
+      await new Promise((resolve) => setTimeout(resolve, 250));
+    }
+  };
+
+  before(async () => {
+    for (const wallet of [creator, player, ticketHolder]) {
+      const sig = await connection.requestAirdrop(
+        wallet.publicKey,
+        2 * LAMPORTS_PER_SOL
+      );
+      await connection.confirmTransaction(
+        { signature: sig, ...(await connection.getLatestBlockhash()) },
+        "confirmed"
+      );
+    }
+    // Exists before the indexer starts, so it must come from the backfill.
+    await client.createRoom(creator, backfilledSeed, 3, entryFee);
+
+    store = await RoomStore.open();
+    indexer = new RoomIndexer(program, store);
+    await indexer.start();
+    server = createIndexerServer(store);
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    server?.close();
+    await indexer?.stop();
+    store?.close();
+  });
+
+  it("should backfill rooms that existed before it started", async () => {
+    const [roomPda] = client.getRoomPda(creator.publicKey, backfilledSeed);
+    const { status, body } = await get<IndexedRoom>(
+      `/rooms/${roomPda.toBase58()}`
+    );
+    expect(status).to.equal(200);
+    expect(body.roomSeed).to.equal(backfilledSeed);
+    expect(body.creator).to.equal(creator.publicKey.toBase58());
+    expect(body.status).to.equal("openForJoining");
+    expect(body.entryFee).to.equal(entryFee.toString());
+  });
+
+  it("should follow new rooms, joins and vault balances", async () => {
+    const { roomPda, vaultPda } = await client.createRoom(
+      creator,
+      liveSeed,
+      2,
+      entryFee
+    );
+    const path = `/rooms/${roomPda.toBase58()}`;
+    await waitFor<IndexedRoom>(
+      path,
+      (room) => room.status === "openForJoining"
+    );
+
+    await client.joinRoom(player, creator.publicKey, liveSeed);
+    const room = await waitFor<IndexedRoom>(
+      path,
+      (room) => room.players.length === 1
+    );
+    expect(room.players).to.deep.equal([player.publicKey.toBase58()]);
+    expect(room.vault).to.equal(vaultPda.toBase58());
+    expect(room.vaultBalance).to.equal(
+      String(await connection.getBalance(vaultPda))
+    );
+
+    const rooms = await waitFor<IndexedRoomPage>(
+      `/players/${player.publicKey.toBase58()}/rooms`,
+      (page) => page.total === 1
+    );
+    expect(rooms.items[0].pda).to.equal(roomPda.toBase58());
+  });
+
+  it("should record token rooms' mint and vault token balance", async () => {
+    const mint = await createMint(
+      connection,
+      creator,
+      creator.publicKey,
+      null,
+      6
+    );
+    const { address } = await getOrCreateAssociatedTokenAccount(
+      connection,
+      creator,
+      mint,
+      player.publicKey
+    );
+    await mintTo(connection, creator, mint, address, creator, 100_000_000);
+    const tokenEntryFee = new BN(25_000_000);
+    const { roomPda } = await client.createRoom(
+      creator,
+      tokenSeed,
+      2,
+      tokenEntryFee,
+      { mint }
+    );
+    await client.joinRoom(player, creator.publicKey, tokenSeed);
+
+    const room = await waitFor<IndexedRoom>(
+      `/rooms/${roomPda.toBase58()}`,
+      (room) => room.players.length === 1
+    );
+    expect(room.mint).to.equal(mint.toBase58());
+    expect(room.vaultBalance).to.equal(tokenEntryFee.toString());
+  });
+
+  it("should list ticket rooms among a ticket holder's rooms", async () => {
+    const { roomPda } = await client.createRoom(
+      creator,
+      ticketSeed,
+      MAX_INLINE_PLAYERS + 1,
+      entryFee
+    );
+    await client.joinRoom(ticketHolder, creator.publicKey, ticketSeed);
+
+    const rooms = await waitFor<IndexedRoomPage>(
+      `/players/${ticketHolder.publicKey.toBase58()}/rooms`,
+      (page) => page.total === 1
+    );
+    expect(rooms.items[0].pda).to.equal(roomPda.toBase58());
+    expect(rooms.items[0].players).to.deep.equal([
+      ticketHolder.publicKey.toBase58(),
+    ]);
+  });
+
+  it("should track status changes and filter by them", async () => {
+    await client.cancelRoom(creator, backfilledSeed);
+    const [roomPda] = client.getRoomPda(creator.publicKey, backfilledSeed);
+    await waitFor<IndexedRoom>(
+      `/rooms/${roomPda.toBase58()}`,
+      (room) => room.status === "cancelled"
+    );
+
+    const { body } = await get<IndexedRoomPage>(
+      `/rooms?creator=${creator.publicKey.toBase58()}&status=cancelled`
+    );
+    expect(body.items.map((r) => r.roomSeed)).to.deep.equal([backfilledSeed]);
+  });
+
+  it("should reject bad requests", async () => {
+    expect((await get(`/rooms?status=bogus`)).status).to.equal(400);
+    expect((await get(`/rooms/not-a-key`)).status).to.equal(400);
+    expect(
+      (await get(`/rooms/${Keypair.generate().publicKey.toBase58()}`)).status
+    ).to.equal(404);
+  });
+});
@@ -2,33 +2,115 @@
 import * as anchor from "@coral-xyz/anchor";
 import { AnchorError, BN, Program } from "@coral-xyz/anchor";
 import {
+    ComputeBudgetInstruction,
     Connection,
     Keypair,
     LAMPORTS_PER_SOL,
     PublicKey,
     SendTransactionError,
     SystemProgram,
+    Transaction,
     TransactionSignature
 } from "@solana/web3.js";
 import chai, { expect } from "chai";
+import {
+    TOKEN_PROGRAM_ID,
+    createMint,
+    getAccount,
+    getOrCreateAssociatedTokenAccount,
+    mintTo,
+    transfer
+} from "@solana/spl-token";
 import { PalapaFunRooms } from "../target/types/palapa_fun_rooms";
-
-// Constants from lib.rs
-const ROOM_SEED_PREFIX = Buffer.from("room");
-const VAULT_SEED_PREFIX = Buffer.from("vault");
-
-// Fee Constants
-const CREATOR_FEE_BASIS_POINTS = new BN(500);
-const SERVICE_FEE_BASIS_POINTS = new BN(300);
-const BASIS_POINTS_DENOMINATOR = new BN(10000);
-
-// Service Wallet (Ensure matches lib.rs *after* anchor build)
-// IMPORTANT: Replace FDKFLU6mUjfYZRRSrqbS9CPH87MFpae8JSH9Ddt79oRN with your actual service wallet address
-const SERVICE_WALLET_PUBKEY = new PublicKey("FDKFLU6mUjfYZRRSrqbS9CPH87MFpae8JSH9Ddt79oRN");
-
-// Data Size Constants
-const MAX_PLAYERS_ALLOWED = 100; // Must match lib.rs for space calculation
-const MAX_ROOM_SEED_LEN = 32; // Must match lib.rs
+import {
+    AlreadyRevealedError,
+    BASIS_POINTS_DENOMINATOR,
+    CommitmentMismatchError,
+    CREATOR_FEE_BASIS_POINTS,
+    DisputeWindowClosedError,
+    DRAW_DELAY_SLOTS,
+    FeeTooHighError,
+    InvalidAllowlistError,
+    InvalidContributionError,
+    InvalidDisputeWindowError,
+    InvalidMinPlayersError,
+    InvalidPrizeSplitError,
+    InvalidRaffleError,
+    InvalidRefereesError,
+    InvalidServiceWalletError,
+    MAX_CREATOR_FEE_BASIS_POINTS,
+    MAX_DISPUTE_WINDOW,
+    MAX_INLINE_PLAYERS,
+    MAX_PLAYERS_ALLOWED,
+    MAX_REFEREES,
+    MAX_REVEAL_WINDOW,
+    MAX_ROOM_SEED_LEN,
+    MAX_SERVICE_FEE_BASIS_POINTS,
+    MAX_SPONSORS,
+    MissingCommitmentError,
+    NotARaffleError,
+    NotARefereeError,
+    NotEnoughApprovalsError,
+    NotEnoughPlayersError,
+    PalapaClient,
+    PalapaErrorCode,
+    PalapaEvent,
+    PalapaEvents,
+    PLAYER_TICKET_SIZE,
+    PalapaProgramError,
+    PayoutNotClaimableError,
+    PlayerAlreadyJoinedError,
+    PlayerJoinedEvent,
+    PlayerLeftEvent,
+    PlayerNotInRoomError,
+    PlayerNotInvitedError,
+    RaffleDrawOnlyError,
+    RevealsPendingError,
+    RoomEvent,
+    RoomNotDisputedError,
+    RoomNotInProgressError,
+    RoomNotSettledError,
+    RoomNotSponsorableError,
+    RoomWatcher,
+    SERVICE_FEE_BASIS_POINTS,
+    SERVICE_WALLET_PUBKEY,
+    TokenRoomUnsupportedError,
+    TooManySponsorsError,
+    UnauthorizedAdminError,
+    UnauthorizedError,
+    WinnerAnnouncedEvent,
+    advertisedPot,
+    approvalStatus,
+    computePayout,
+    computeSplitPayout,
+    cosignTransaction,
+    diffRoom,
+    feeExemptTotal,
+    fetchTransactionEvents,
+    fetchPayoutReceipt,
+    isClaimable,
+    isDisputable,
+    isDrawable,
+    isRaffle,
+    drawRaffleWinner,
+    generateRaffleSecret,
+    raffleCandidates,
+    raffleCommitment,
+    getRoomDataSize,
+    inviteInstruction,
+    inviteMessage,
+    signInvite,
+    soleWinner,
+    sponsoredTotal,
+    verifyInvite,
+    getTokenAddress,
+    listOpenRooms,
+    listRoomsByCreator,
+    listRoomsByEntryFee,
+    listRoomsByPlayer,
+    listTicketHolders,
+    playerCount
+} from "../client";
 
 // Max potential TX fee variance on local validator
 const MAX_TX_FEE_VARIANCE = 20000; // Lamports tolerance for balance checks (adjust if needed)
@@ -42,7 +124,7 @@ const fail = (message: string): never => { // Use 'never' return type for clarit
     expect.fail(message);
 };
 
-// Robust Error Checker (Handles AnchorError, SendTransactionError, generic Error)
+// Robust Error Checker (Handles PalapaProgramError, AnchorError, SendTransactionError, generic Error)
 const checkError = (err: any, expectedCode?: number, expectedName?: string, messageIncludes?: string): boolean => {
     let matched = false;
     let errorLogs = "";
@@ -52,7 +134,11 @@ const checkError = (err: any, expectedCode?: number, expectedName?: string, mess
     let genericErrorMessage: string | undefined = undefined;
 
     // --- Identify Error Type and Extract Info ---
-    if (err instanceof AnchorError) {
+    if (err instanceof PalapaProgramError) { // Already decoded by PalapaClient
+        errorLogs = err.logs.join('\n');
+        programErrorCode = { number: err.code, code: err.errorName };
+        programErrorMessage = err.message;
+    } else if (err instanceof AnchorError) {
         const anchorError = err as AnchorError;
         errorLogs = anchorError.logs?.join('\n') ?? "";
         programErrorCode = anchorError.error?.errorCode; // { code: string, number: number }
@@ -142,6 +228,7 @@ describe("palapa_fun_rooms", () => {
   anchor.setProvider(provider);
   const program = anchor.workspace.PalapaFunRooms as Program<PalapaFunRooms>;
   const connection = provider.connection;
+  const client = new PalapaClient(program);
 
   // Test wallets
   const creator = Keypair.generate();
@@ -156,6 +243,13 @@ describe("palapa_fun_rooms", () => {
   const defaultEntryFee = new BN(0.1 * LAMPORTS_PER_SOL);
   let zeroDataRent: number; // Rent for vault PDA (space=0)
 
+  // Config every suite expects; the config suite restores it when done
+  const defaultConfig = {
+      creatorFeeBasisPoints: CREATOR_FEE_BASIS_POINTS.toNumber(),
+      serviceFeeBasisPoints: SERVICE_FEE_BASIS_POINTS.toNumber(),
+      serviceWallet: SERVICE_WALLET_PUBKEY,
+  };
+
   // Helper: Airdrop SOL safely
   const airdropSol = async (publicKey: PublicKey, lamports: number) => {
     try {
@@ -171,46 +265,6 @@ describe("palapa_fun_rooms", () => {
   // Helper: Get SOL balance
   const getBalance = async (publicKey: PublicKey): Promise<number> => connection.getBalance(publicKey);
 
-  // Helper: Get Room PDA
-  const getRoomPda = (creatorPubkey: PublicKey, roomSeed: string): [PublicKey, number] => {
-      const seedBuffer = Buffer.from(roomSeed);
-      if (seedBuffer.length === 0 || seedBuffer.length > MAX_ROOM_SEED_LEN) { throw new Error(`Invalid room seed length for PDA derivation: "${roomSeed}" (len ${seedBuffer.length})`); }
-      return PublicKey.findProgramAddressSync([ROOM_SEED_PREFIX, creatorPubkey.toBuffer(), seedBuffer], program.programId);
-  }
-  // Helper: Get Vault PDA
-  const getVaultPda = (creatorPubkey: PublicKey, roomSeed: string): [PublicKey, number] => {
-       const seedBuffer = Buffer.from(roomSeed);
-       if (seedBuffer.length === 0 || seedBuffer.length > MAX_ROOM_SEED_LEN) { throw new Error(`Invalid room seed length for PDA derivation: "${roomSeed}" (len ${seedBuffer.length})`); }
-      return PublicKey.findProgramAddressSync([VAULT_SEED_PREFIX, creatorPubkey.toBuffer(), seedBuffer], program.programId);
-  }
-   // Helper: Calculate expected room data size (must match lib.rs exactly)
-   const getRoomDataSize = (seed: string): number => {
-       const players_capacity_for_space = MAX_PLAYERS_ALLOWED; // Use the constant from lib.rs
-       const seedLen = Buffer.from(seed).length;
-       if (seedLen === 0 || seedLen > MAX_ROOM_SEED_LEN) { throw new Error(`Invalid room seed length for size calculation: "${seed}" (len ${seedLen})`); }
-       return (
-           8 + // Anchor discriminator
-           32 + // creator: Pubkey
-           (4 + seedLen) + // room_seed: String (4 + len)
-           1 + // bump: u8
-           1 + // vault_bump: u8
-           1 + // status: RoomStatus (discriminant size)
-           (1 + 32) + // winner: Option<Pubkey> (1 for Option + 32 for Pubkey)
-           2 + // max_players: u16
-           8 + // entry_fee: u64
-           (4 + players_capacity_for_space * 32) + // players: Vec<Pubkey> (4 for len + capacity * 32)
-           8 + // creation_timestamp: i64
-           (1 + 8) + // end_timestamp: Option<i64> (1 for Option + 8 for i64)
-           100 // Safety buffer
-       );
-   }
-   // Helper: Confirm transaction
-   const confirmTx = async (txSig: TransactionSignature) => {
-        const blockhashInfo = await connection.getLatestBlockhash();
-        await connection.confirmTransaction({ signature: txSig, ...blockhashInfo }, "confirmed");
-        // console.log(`Transaction confirmed: ${txSig}`); // Optional: log confirmation
-   }
-
 
   before(async () => {
     // Dynamically import chai-as-promised
@@ -233,6 +287,13 @@ describe("palapa_fun_rooms", () => {
         airdropSol(anotherWallet.publicKey, 1 * LAMPORTS_PER_SOL),
     ]);
     zeroDataRent = await getRentExemption(connection, 0); // Rent for account meta-data (used by vault)
+
+    // announce_winner reads fees and the service wallet from the Config.
+    // `anchor test` deploys with the provider wallet, so it is the upgrade authority.
+    const [configPda] = client.getConfigPda();
+    if (!(await program.account.config.fetchNullable(configPda))) {
+        await client.initializeConfig(provider.wallet.publicKey, defaultConfig);
+    }
     console.log(`Rent exemption for vault PDA (0 data bytes): ${zeroDataRent} lamports`);
     console.log(`Using Service Wallet (MUST MATCH lib.rs & build): ${SERVICE_WALLET_PUBKEY.toBase58()}`);
     console.log(`Program ID: ${program.programId.toBase58()}`);
@@ -244,30 +305,23 @@ describe("palapa_fun_rooms", () => {
         const roomSeed = "cr-success";
         const maxPlayers = defaultMaxPlayers;
         const entryFee = defaultEntryFee;
-        const [roomPda, roomBump] = getRoomPda(creator.publicKey, roomSeed);
-        const [vaultPda, vaultBump] = getVaultPda(creator.publicKey, roomSeed);
+        const [roomPda, roomBump] = client.getRoomPda(creator.publicKey, roomSeed);
+        const [vaultPda, vaultBump] = client.getVaultPda(creator.publicKey, roomSeed);
         const creatorBalanceBefore = await getBalance(creator.publicKey);
 
-        const txSig = await program.methods.createRoom(roomSeed, maxPlayers, entryFee)
-            .accountsPartial({ // Use full accountsPartial for clarity, even if some are defaulted
-                creator: creator.publicKey,
-                roomData: roomPda,
-                roomVault: vaultPda,
-                systemProgram: SystemProgram.programId
-            })
-            .signers([creator])
-            .rpc();
-        await confirmTx(txSig);
+        const result = await client.createRoom(creator, roomSeed, maxPlayers, entryFee);
+        expect(result.roomPda.toBase58()).to.equal(roomPda.toBase58());
+        expect(result.vaultPda.toBase58()).to.equal(vaultPda.toBase58());
 
-        // Fetch and verify room data
-        const roomAccount = await program.account.roomData.fetch(roomPda);
+        // Verify the decoded room data returned by the client
+        const roomAccount = result.room;
         expect(roomAccount.creator.toBase58()).to.equal(creator.publicKey.toBase58());
         expect(roomAccount.roomSeed).to.equal(roomSeed);
         expect(roomAccount.maxPlayers).to.equal(maxPlayers);
         expect(roomAccount.entryFee.eq(entryFee)).to.be.true;
         expect(roomAccount.status).to.deep.equal({ openForJoining: {} }); // Check enum variant
         expect(roomAccount.players).to.be.empty;
-        expect(roomAccount.winner).to.be.null;
+        expect(roomAccount.winners).to.be.empty;
         expect(roomAccount.bump).to.equal(roomBump);
         expect(roomAccount.vaultBump).to.equal(vaultBump);
         expect(roomAccount.creationTimestamp.toNumber()).to.be.a('number').greaterThan(0);
@@ -278,7 +332,7 @@ describe("palapa_fun_rooms", () => {
 
         // Verify creator balance change (paid rent for room + vault + tx fee)
         const creatorBalanceAfter = await getBalance(creator.publicKey);
-        const estimatedRoomSize = getRoomDataSize(roomSeed);
+        const estimatedRoomSize = getRoomDataSize(roomSeed, maxPlayers);
         const roomRent = await getRentExemption(connection, estimatedRoomSize);
         const expectedCost = roomRent + zeroDataRent;
         const actualCost = creatorBalanceBefore - creatorBalanceAfter;
@@ -290,13 +344,9 @@ describe("palapa_fun_rooms", () => {
 
     it("should allow creating a room with zero entry fee", async () => {
         const roomSeed = "cr-zero";
-        const [roomPda] = getRoomPda(creator.publicKey, roomSeed);
-        const [vaultPda] = getVaultPda(creator.publicKey, roomSeed);
-        const txSig = await program.methods.createRoom(roomSeed, 2, new BN(0))
-            .accountsPartial({ creator: creator.publicKey, roomData: roomPda, roomVault: vaultPda, systemProgram: SystemProgram.programId })
-            .signers([creator])
-            .rpc();
-        await confirmTx(txSig);
+        const [roomPda] = client.getRoomPda(creator.publicKey, roomSeed);
+        const [vaultPda] = client.getVaultPda(creator.publicKey, roomSeed);
+        await client.createRoom(creator, roomSeed, 2, new BN(0));
 
         const roomAccount = await program.account.roomData.fetch(roomPda);
         expect(roomAccount.entryFee.isZero()).to.be.true;
@@ -306,13 +356,8 @@ describe("palapa_fun_rooms", () => {
 
     it("should fail if max_players is less than 2", async () => {
         const roomSeed = "cr-maxp-fail";
-        const [roomPda] = getRoomPda(creator.publicKey, roomSeed);
-        const [vaultPda] = getVaultPda(creator.publicKey, roomSeed);
         try {
-            await program.methods.createRoom(roomSeed, 1, defaultEntryFee)
-                .accountsPartial({ creator: creator.publicKey, roomData: roomPda, roomVault: vaultPda, systemProgram: SystemProgram.programId })
-                .signers([creator])
-                .rpc();
+            await client.createRoom(creator, roomSeed, 1, defaultEntryFee);
             fail("Transaction should have failed due to invalid max_players.");
         } catch (err) {
             checkError(err, 6000, 'InvalidMaxPlayers');
@@ -322,13 +367,8 @@ describe("palapa_fun_rooms", () => {
     it("should fail if requested max_players exceeds allocation limit", async () => {
         const roomSeed = "cr-limit-fail";
         const invalidMaxPlayers = MAX_PLAYERS_ALLOWED + 1; // Exceeds program constant
-        const [roomPda] = getRoomPda(creator.publicKey, roomSeed);
-        const [vaultPda] = getVaultPda(creator.publicKey, roomSeed);
         try {
-            await program.methods.createRoom(roomSeed, invalidMaxPlayers, defaultEntryFee)
-               .accountsPartial({ creator: creator.publicKey, roomData: roomPda, roomVault: vaultPda, systemProgram: SystemProgram.programId })
-               .signers([creator])
-               .rpc();
+            await client.createRoom(creator, roomSeed, invalidMaxPlayers, defaultEntryFee);
             fail("Transaction should have failed due to exceeding max player allocation limit.");
         } catch (err) {
             checkError(err, 6017, 'MaxPlayersExceedsLimit');
@@ -339,14 +379,8 @@ describe("palapa_fun_rooms", () => {
       const emptySeed = "";
       // PDA derivation itself will fail client-side or on-chain with empty seed buffer
       try {
-          // This PDA derivation will throw an error before even sending the transaction
-          const [_roomPda] = getRoomPda(creator.publicKey, emptySeed);
-          const [_vaultPda] = getVaultPda(creator.publicKey, emptySeed);
-          // The following line likely won't be reached
-          await program.methods.createRoom(emptySeed, defaultMaxPlayers, defaultEntryFee)
-              .accountsPartial({ creator: creator.publicKey, roomData: _roomPda, roomVault: _vaultPda, systemProgram: SystemProgram.programId })
-              .signers([creator])
-              .rpc();
+          // PDA derivation inside the client will throw before even sending the transaction
+          await client.createRoom(creator, emptySeed, defaultMaxPlayers, defaultEntryFee);
           fail("Transaction should have failed due to empty seed.");
       } catch (err) {
           // Check for the client-side PDA derivation error OR the on-chain constraint error
@@ -362,14 +396,8 @@ describe("palapa_fun_rooms", () => {
     it("should fail if room_seed is too long", async () => {
         const longSeed = "a".repeat(MAX_ROOM_SEED_LEN + 1); // Exactly one byte too long
         try {
-             // Client-side check in getRoomPda/getVaultPda should catch this first
-             const [_roomPda] = getRoomPda(creator.publicKey, longSeed);
-             const [_vaultPda] = getVaultPda(creator.publicKey, longSeed);
-             // This part likely won't be reached
-             await program.methods.createRoom(longSeed, defaultMaxPlayers, defaultEntryFee)
-                .accountsPartial({ creator: creator.publicKey, roomData: _roomPda, roomVault: _vaultPda, systemProgram: SystemProgram.programId })
-                .signers([creator])
-                .rpc();
+             // Client-side check in the client's PDA derivation should catch this first
+             await client.createRoom(creator, longSeed, defaultMaxPlayers, defaultEntryFee);
              fail("Transaction should have failed due to long seed.");
         } catch (err) {
              // Check for the client-side PDA derivation error OR the on-chain require! error
@@ -395,19 +423,15 @@ describe("palapa_fun_rooms", () => {
     // Setup a room specifically for join tests
     before(async () => {
         creatorForJoinRoomKey = creator.publicKey; // Use the main creator
-        [roomPdaJoin] = getRoomPda(creatorForJoinRoomKey, roomSeedJoinBase);
-        [vaultPdaJoin] = getVaultPda(creatorForJoinRoomKey, roomSeedJoinBase);
+        [roomPdaJoin] = client.getRoomPda(creatorForJoinRoomKey, roomSeedJoinBase);
+        [vaultPdaJoin] = client.getVaultPda(creatorForJoinRoomKey, roomSeedJoinBase);
 
         // Optional: Clean up previous run if room exists and is cancellable
         try {
             const room = await program.account.roomData.fetch(roomPdaJoin);
              if ((room.status.hasOwnProperty('openForJoining') || room.status.hasOwnProperty('created')) && room.players.length === 0) {
                 console.log(`Cleaning up existing join test room: ${roomSeedJoinBase}`);
-                const txSig = await program.methods.cancelRoom(roomSeedJoinBase)
-                    .accountsPartial({ creator: creatorForJoinRoomKey, roomData: roomPdaJoin, roomVault: vaultPdaJoin, systemProgram: SystemProgram.programId })
-                    .signers([creator]) // Sign with the correct creator keypair
-                    .rpc();
-                await confirmTx(txSig);
+                await client.cancelRoom(creator, roomSeedJoinBase);
              }
         } catch (fetchErr) {
              // Ignore if room doesn't exist (expected on first run)
@@ -418,11 +442,7 @@ describe("palapa_fun_rooms", () => {
 
         // Create the actual room for testing
         console.log(`Creating join test room: ${roomSeedJoinBase}`);
-        const txSig = await program.methods.createRoom(roomSeedJoinBase, maxPlayersJoin, entryFeeJoin)
-            .accountsPartial({ creator: creatorForJoinRoomKey, roomData: roomPdaJoin, roomVault: vaultPdaJoin, systemProgram: SystemProgram.programId })
-            .signers([creator]) // Sign with the correct creator keypair
-            .rpc();
-        await confirmTx(txSig);
+        await client.createRoom(creator, roomSeedJoinBase, maxPlayersJoin, entryFeeJoin);
     });
 
     it("should allow a player to join a room with an entry fee", async () => {
@@ -430,16 +450,7 @@ describe("palapa_fun_rooms", () => {
         const playerBalanceBefore = await getBalance(player.publicKey);
         const vaultBalanceBefore = await getBalance(vaultPdaJoin);
 
-        const txSig = await program.methods.joinRoom(roomSeedJoinBase)
-            .accountsPartial({
-                player: player.publicKey,
-                roomData: roomPdaJoin,
-                roomVault: vaultPdaJoin,
-                systemProgram: SystemProgram.programId
-             })
-            .signers([player]) // Player signs to authorize fee transfer
-            .rpc();
-        await confirmTx(txSig);
+        await client.joinRoom(player, creator.publicKey, roomSeedJoinBase);
 
         // Verify room state
         const roomAccount = await program.account.roomData.fetch(roomPdaJoin);
@@ -459,26 +470,18 @@ describe("palapa_fun_rooms", () => {
 
     it("should allow creating and joining a room with zero entry fee", async () => {
         const zeroFeeSeed = "jr-zero";
-        const [zeroFeeRoomPda] = getRoomPda(creator.publicKey, zeroFeeSeed);
-        const [zeroFeeVaultPda] = getVaultPda(creator.publicKey, zeroFeeSeed);
+        const [zeroFeeRoomPda] = client.getRoomPda(creator.publicKey, zeroFeeSeed);
+        const [zeroFeeVaultPda] = client.getVaultPda(creator.publicKey, zeroFeeSeed);
 
         // Create zero-fee room
-        let txSig = await program.methods.createRoom(zeroFeeSeed, 2, new BN(0))
-             .accountsPartial({ creator: creator.publicKey, roomData: zeroFeeRoomPda, roomVault: zeroFeeVaultPda, systemProgram: SystemProgram.programId})
-             .signers([creator])
-             .rpc();
-         await confirmTx(txSig);
+        await client.createRoom(creator, zeroFeeSeed, 2, new BN(0));
 
         const player = player2; // Use player2 keypair
         const playerBalanceBefore = await getBalance(player.publicKey);
         const vaultBalanceBefore = await getBalance(zeroFeeVaultPda); // Should be zeroDataRent
 
         // Join zero-fee room
-        txSig = await program.methods.joinRoom(zeroFeeSeed)
-            .accountsPartial({ player: player.publicKey, roomData: zeroFeeRoomPda, roomVault: zeroFeeVaultPda, systemProgram: SystemProgram.programId })
-            .signers([player])
-            .rpc();
-        await confirmTx(txSig);
+        await client.joinRoom(player, creator.publicKey, zeroFeeSeed);
 
         // Verify room state
         const roomAccount = await program.account.roomData.fetch(zeroFeeRoomPda);
@@ -502,11 +505,7 @@ describe("palapa_fun_rooms", () => {
         const player = player2; // Player 2 joins now
         const vaultBalanceBefore = await getBalance(vaultPdaJoin);
 
-        const txSig = await program.methods.joinRoom(roomSeedJoinBase)
-            .accountsPartial({ player: player.publicKey, roomData: roomPdaJoin, roomVault: vaultPdaJoin, systemProgram: SystemProgram.programId })
-            .signers([player])
-            .rpc();
-        await confirmTx(txSig);
+        await client.joinRoom(player, creator.publicKey, roomSeedJoinBase);
 
         const roomAccount = await program.account.roomData.fetch(roomPdaJoin);
         expect(roomAccount.players.length).to.equal(maxPlayersJoin, "Room should have max players");
@@ -520,10 +519,7 @@ describe("palapa_fun_rooms", () => {
     it("should fail if a player tries to join a full room (now InProgress)", async () => {
       // Room 'jr-base' is now full and InProgress from previous test
       try {
-        await program.methods.joinRoom(roomSeedJoinBase)
-            .accountsPartial({ player: player3.publicKey, roomData: roomPdaJoin, roomVault: vaultPdaJoin, systemProgram: SystemProgram.programId })
-            .signers([player3])
-            .rpc();
+        await client.joinRoom(player3, creator.publicKey, roomSeedJoinBase);
         fail("Transaction should have failed because room is full/in progress.");
       } catch (err) {
           // Expect RoomNotJoinable because status is InProgress
@@ -534,69 +530,56 @@ describe("palapa_fun_rooms", () => {
     it("should fail if a player tries to join the same room twice", async () => {
         // Setup a new room for this test
         const doubleJoinSeed = "jr-double";
-        const [djRoomPda] = getRoomPda(creator.publicKey, doubleJoinSeed);
-        const [djVaultPda] = getVaultPda(creator.publicKey, doubleJoinSeed);
-        let txSig = await program.methods.createRoom(doubleJoinSeed, 3, entryFeeJoin) // Max 3 players
-            .accountsPartial({creator: creator.publicKey, roomData: djRoomPda, roomVault: djVaultPda, systemProgram: SystemProgram.programId})
-            .signers([creator])
-            .rpc();
-        await confirmTx(txSig);
+        await client.createRoom(creator, doubleJoinSeed, 3, entryFeeJoin);
 
         // Player 3 joins once successfully
-        txSig = await program.methods.joinRoom(doubleJoinSeed)
-            .accountsPartial({ player: player3.publicKey, roomData: djRoomPda, roomVault: djVaultPda, systemProgram: SystemProgram.programId })
-            .signers([player3])
-            .rpc();
-        await confirmTx(txSig);
+        await client.joinRoom(player3, creator.publicKey, doubleJoinSeed);
 
         // Player 3 tries to join again
         try {
-            await program.methods.joinRoom(doubleJoinSeed)
-                .accountsPartial({ player: player3.publicKey, roomData: djRoomPda, roomVault: djVaultPda, systemProgram: SystemProgram.programId })
-                .signers([player3])
-                .rpc();
+            await client.joinRoom(player3, creator.publicKey, doubleJoinSeed);
             fail("Transaction should have failed because player already joined.");
         } catch (err) {
             checkError(err, 6006, 'PlayerAlreadyJoined');
         }
     });
 
+    it("should surface typed errors and tell simulation failures from on-chain ones", async () => {
+        // Player 3 already joined 'jr-double' in the previous test
+        const doubleJoinSeed = "jr-double";
+        try {
+            await client.joinRoom(player3, creator.publicKey, doubleJoinSeed);
+            fail("Transaction should have failed because player already joined.");
+        } catch (err) {
+            expect(err).to.be.instanceOf(PlayerAlreadyJoinedError);
+            expect(err.code).to.equal(PalapaErrorCode.PlayerAlreadyJoined);
+            expect(err.message).to.equal("This player has already joined the room.");
+            expect(err.source).to.equal("simulation");
+        }
+
+        // Skipping preflight lets the transaction land and fail on-chain
+        const onChainClient = new PalapaClient(program, { skipPreflight: true });
+        try {
+            await onChainClient.joinRoom(player3, creator.publicKey, doubleJoinSeed);
+            fail("Transaction should have failed on-chain because player already joined.");
+        } catch (err) {
+            expect(err).to.be.instanceOf(PlayerAlreadyJoinedError);
+            expect(err.source).to.equal("onchain");
+            expect(err.signature).to.be.a("string");
+        }
+    });
+
      it("should fail if the room is Finished", async () => {
         // Setup: Create, fill, and finish a room
         const finishedSeed = "jr-fin-fail";
         const creatorKey = creator.publicKey;
-        const [fRoomPda] = getRoomPda(creatorKey, finishedSeed);
-        const [fVaultPda] = getVaultPda(creatorKey, finishedSeed);
-        let txSig = await program.methods.createRoom(finishedSeed, 2, entryFeeJoin) // Max 2
-             .accountsPartial({ creator: creatorKey, roomData: fRoomPda, roomVault: fVaultPda, systemProgram: SystemProgram.programId})
-             .signers([creator])
-             .rpc();
-        await confirmTx(txSig);
-        txSig = await program.methods.joinRoom(finishedSeed) // Player 1 joins
-             .accountsPartial({ player: player1.publicKey, roomData: fRoomPda, roomVault: fVaultPda, systemProgram: SystemProgram.programId })
-             .signers([player1])
-             .rpc();
-         await confirmTx(txSig);
-        txSig = await program.methods.joinRoom(finishedSeed) // Player 2 joins (room becomes InProgress)
-             .accountsPartial({ player: player2.publicKey, roomData: fRoomPda, roomVault: fVaultPda, systemProgram: SystemProgram.programId })
-             .signers([player2])
-             .rpc();
-        await confirmTx(txSig);
+        await client.createRoom(creator, finishedSeed, 2, entryFeeJoin);
+        await client.joinRoom(player1, creator.publicKey, finishedSeed);
+        await client.joinRoom(player2, creator.publicKey, finishedSeed);
 
         // Announce winner to make it Finished
         try {
-            txSig = await program.methods.announceWinner(finishedSeed, player1.publicKey)
-                .accountsPartial({
-                    creator: creatorKey,
-                    roomData: fRoomPda,
-                    roomVault: fVaultPda,
-                    winnerAccount: player1.publicKey,
-                    serviceFeeRecipient: SERVICE_WALLET_PUBKEY,
-                    systemProgram: SystemProgram.programId
-                })
-                .signers([creator])
-                .rpc();
-            await confirmTx(txSig);
+            await client.announceWinner(creator, finishedSeed, player1.publicKey);
         } catch(announceErr) {
              // If setup fails, make it clear
              expect.fail(`Setup for 'join finished room' test failed during announceWinner: ${announceErr}. Check SERVICE_WALLET_PUBKEY config and funding.`);
@@ -604,10 +587,7 @@ describe("palapa_fun_rooms", () => {
 
         // Attempt to join the Finished room
         try {
-            await program.methods.joinRoom(finishedSeed)
-                .accountsPartial({ player: player3.publicKey, roomData: fRoomPda, roomVault: fVaultPda, systemProgram: SystemProgram.programId })
-                .signers([player3])
-                .rpc();
+            await client.joinRoom(player3, creator.publicKey, finishedSeed);
             fail("Transaction should have failed because room is Finished.");
         } catch (err) {
             checkError(err, 6004, 'RoomNotJoinable');
@@ -617,25 +597,12 @@ describe("palapa_fun_rooms", () => {
      it("should fail if the room is Cancelled", async () => {
          // Setup: Create and cancel a room
          const cancelledSeed = "jr-can-fail";
-         const [cRoomPda] = getRoomPda(creator.publicKey, cancelledSeed);
-         const [cVaultPda] = getVaultPda(creator.publicKey, cancelledSeed);
-         let txSig = await program.methods.createRoom(cancelledSeed, 2, entryFeeJoin)
-             .accountsPartial({ creator: creator.publicKey, roomData: cRoomPda, roomVault: cVaultPda, systemProgram: SystemProgram.programId})
-             .signers([creator])
-             .rpc();
-         await confirmTx(txSig);
-         txSig = await program.methods.cancelRoom(cancelledSeed) // Cancel the empty room
-            .accountsPartial({ creator: creator.publicKey, roomData: cRoomPda, roomVault: cVaultPda, systemProgram: SystemProgram.programId })
-            .signers([creator])
-            .rpc();
-         await confirmTx(txSig);
+         await client.createRoom(creator, cancelledSeed, 2, entryFeeJoin);
+         await client.cancelRoom(creator, cancelledSeed);
 
         // Attempt to join the Cancelled room
         try {
-            await program.methods.joinRoom(cancelledSeed)
-                .accountsPartial({ player: player3.publicKey, roomData: cRoomPda, roomVault: cVaultPda, systemProgram: SystemProgram.programId })
-                .signers([player3])
-                .rpc();
+            await client.joinRoom(player3, creator.publicKey, cancelledSeed);
             fail("Transaction should have failed because room is Cancelled.");
         } catch (err) {
             checkError(err, 6004, 'RoomNotJoinable');
@@ -644,6 +611,112 @@ describe("palapa_fun_rooms", () => {
   }); // End join_room describe
 
 
+  // --- Test Suite for leave_room ---
+  describe("leave_room", () => {
+    const leaveSeed = "lr-base";
+    const entryFeeLeave = new BN(0.05 * LAMPORTS_PER_SOL);
+    let vaultPdaLeave: PublicKey;
+
+    before(async () => {
+        ({ vaultPda: vaultPdaLeave } = await client.createRoom(creator, leaveSeed, 3, entryFeeLeave));
+        await client.joinRoom(player1, creator.publicKey, leaveSeed);
+        await client.joinRoom(player2, creator.publicKey, leaveSeed);
+    });
+
+    it("should remove the player and refund the entry fee from the vault", async () => {
+        const playerBalanceBefore = await getBalance(player1.publicKey);
+        const vaultBalanceBefore = await getBalance(vaultPdaLeave);
+
+        const { room } = await client.leaveRoom(player1, creator.publicKey, leaveSeed);
+
+        expect(room.players.map((p) => p.toBase58())).to.deep.equal([player2.publicKey.toBase58()]);
+        expect(room.status).to.deep.equal({ openForJoining: {} });
+        // The provider wallet pays the transaction fee, so the refund is exact
+        expect(await getBalance(player1.publicKey)).to.equal(playerBalanceBefore + entryFeeLeave.toNumber());
+        expect(await getBalance(vaultPdaLeave)).to.equal(vaultBalanceBefore - entryFeeLeave.toNumber());
+    });
+
+    it("should let a player rejoin after leaving", async () => {
+        const { room } = await client.joinRoom(player1, creator.publicKey, leaveSeed);
+        expect(room.players.map((p) => p.toBase58())).to.deep.equal([
+            player2.publicKey.toBase58(),
+            player1.publicKey.toBase58(),
+        ]);
+        expect(await getBalance(vaultPdaLeave)).to.equal(zeroDataRent + 2 * entryFeeLeave.toNumber());
+    });
+
+    it("should fail for a wallet that has not joined", async () => {
+        await expect(client.leaveRoom(player3, creator.publicKey, leaveSeed)).to.be.rejectedWith(PlayerNotInRoomError);
+    });
+
+    it("should fail once the room has started", async () => {
+        await client.startRoom(creator, leaveSeed);
+        try {
+            await client.leaveRoom(player2, creator.publicKey, leaveSeed);
+            fail("Transaction should have failed because the room is InProgress.");
+        } catch (err) {
+            checkError(err, 6023, 'CannotLeaveRoomState');
+        }
+        expect(await getBalance(vaultPdaLeave)).to.equal(zeroDataRent + 2 * entryFeeLeave.toNumber());
+    });
+
+    it("should leave a free room without moving lamports", async () => {
+        const freeSeed = "lr-free";
+        const { vaultPda } = await client.createRoom(creator, freeSeed, 2, 0);
+        await client.joinRoom(player3, creator.publicKey, freeSeed);
+        const playerBalanceBefore = await getBalance(player3.publicKey);
+
+        const { room } = await client.leaveRoom(player3, creator.publicKey, freeSeed);
+
+        expect(room.players).to.be.empty;
+        expect(await getBalance(player3.publicKey)).to.equal(playerBalanceBefore);
+        expect(await getBalance(vaultPda)).to.equal(zeroDataRent);
+        // An empty room can be cancelled again
+        await client.cancelRoom(creator, freeSeed);
+    });
+  }); // End leave_room describe
+
+
+  // --- Test Suite for start_room and minimum players ---
+  describe("minimum players", () => {
+    const minFee = new BN(0.01 * LAMPORTS_PER_SOL);
+    // Far enough to never pass during the run
+    const joinDeadline = () => Math.floor(Date.now() / 1000) + 3600;
+
+    it("should not start a room below its minimum", async () => {
+        const seed = "mp-below";
+        const { room: created } = await client.createRoom(creator, seed, 4, minFee, { minPlayers: 3, joinDeadline: joinDeadline() });
+        expect(created.minPlayers).to.equal(3);
+        await client.joinRoom(player1, creator.publicKey, seed);
+        await client.joinRoom(player2, creator.publicKey, seed);
+        await expect(client.startRoom(creator, seed)).to.be.rejectedWith(NotEnoughPlayersError);
+
+        // Leaving takes the room back below the minimum too
+        await client.joinRoom(player3, creator.publicKey, seed);
+        await client.leaveRoom(player3, creator.publicKey, seed);
+        await expect(client.startRoom(creator, seed)).to.be.rejectedWith(NotEnoughPlayersError);
+        expect((await client.fetchRoom(creator.publicKey, seed)).status).to.deep.equal({ openForJoining: {} });
+        await client.cancelRoomWithRefunds(creator, seed);
+    });
+
+    it("should start a room exactly at its minimum", async () => {
+        const seed = "mp-exact";
+        await client.createRoom(creator, seed, 4, minFee, { minPlayers: 3, joinDeadline: joinDeadline() });
+        for (const p of [player1, player2, player3]) await client.joinRoom(p, creator.publicKey, seed);
+        const { room } = await client.startRoom(creator, seed);
+        expect(room.status).to.deep.equal({ inProgress: {} });
+        expect(playerCount(room)).to.equal(3);
+        await client.announceWinner(creator, seed, player1.publicKey);
+    });
+
+    it("should reject a minimum above max players", async () => {
+        await expect(
+            client.createRoom(creator, "mp-too-many", 2, minFee, { minPlayers: 3, joinDeadline: joinDeadline() })
+        ).to.be.rejectedWith(InvalidMinPlayersError);
+    });
+  }); // End minimum players describe
+
+
   // --- Test Suite for announce_winner ---
   describe("announce_winner", () => {
     const roomSeedWinBase = "win-base";
@@ -656,19 +729,15 @@ describe("palapa_fun_rooms", () => {
         if (Buffer.from(roomSeed).length > MAX_ROOM_SEED_LEN) { throw new Error(`Seed too long in test setup: ${roomSeed}`); }
 
         const creatorKey = creator.publicKey;
-        const [roomPda] = getRoomPda(creatorKey, roomSeed);
-        const [vaultPda] = getVaultPda(creatorKey, roomSeed);
+        const [roomPda] = client.getRoomPda(creatorKey, roomSeed);
+        const [vaultPda] = client.getVaultPda(creatorKey, roomSeed);
 
         // Optional: Cleanup previous run
          try {
             const room = await program.account.roomData.fetch(roomPda);
              if ((room.status.hasOwnProperty('openForJoining') || room.status.hasOwnProperty('created')) && room.players.length === 0 ) {
                  console.log(`Cleaning up existing announce test room: ${roomSeed}`);
-                 const txSig = await program.methods.cancelRoom(roomSeed)
-                     .accountsPartial({ creator: creatorKey, roomData: roomPda, roomVault: vaultPda, systemProgram: SystemProgram.programId })
-                     .signers([creator])
-                     .rpc();
-                 await confirmTx(txSig);
+                 await client.cancelRoom(creator, roomSeed);
              } else if (room.status.hasOwnProperty('inProgress') || room.status.hasOwnProperty('finished')) {
                  console.log(`Note: Test room ${roomSeed} already exists and is in progress/finished. Skipping creation, ensure state is suitable for test.`);
                  // Consider if you need to handle cleaning up 'InProgress' or 'Finished' states, e.g., by abandoning the old one
@@ -690,21 +759,9 @@ describe("palapa_fun_rooms", () => {
 
         // Create, Player 1 joins, Player 2 joins -> InProgress
         console.log(`Setting up announce test room: ${roomSeed}`);
-        let txSig = await program.methods.createRoom(roomSeed, maxPlayersWin, entryFeeWin)
-             .accountsPartial({creator: creatorKey, roomData: roomPda, roomVault: vaultPda, systemProgram: SystemProgram.programId})
-             .signers([creator])
-             .rpc();
-        await confirmTx(txSig);
-        txSig = await program.methods.joinRoom(roomSeed)
-             .accountsPartial({ player: player1.publicKey, roomData: roomPda, roomVault: vaultPda, systemProgram: SystemProgram.programId })
-             .signers([player1])
-             .rpc();
-        await confirmTx(txSig);
-        txSig = await program.methods.joinRoom(roomSeed)
-             .accountsPartial({ player: player2.publicKey, roomData: roomPda, roomVault: vaultPda, systemProgram: SystemProgram.programId })
-             .signers([player2])
-             .rpc();
-        await confirmTx(txSig);
+        await client.createRoom(creator, roomSeed, maxPlayersWin, entryFeeWin);
+        await client.joinRoom(player1, creator.publicKey, roomSeed);
+        await client.joinRoom(player2, creator.publicKey, roomSeed);
 
         // Sanity check vault balance before announce
         const vaultBalance = await getBalance(vaultPda);
@@ -733,20 +790,9 @@ describe("palapa_fun_rooms", () => {
         const winnerBalanceBefore = await getBalance(winner.publicKey);
 
         // Announce Winner
-        let txSig: TransactionSignature;
+        let announceSig: TransactionSignature;
         try {
-            txSig = await program.methods.announceWinner(roomSeed, winner.publicKey)
-                .accountsPartial({
-                    creator: creatorKey,
-                    roomData: roomPda,
-                    roomVault: vaultPda,
-                    winnerAccount: winner.publicKey,
-                    serviceFeeRecipient: SERVICE_WALLET_PUBKEY,
-                    systemProgram: SystemProgram.programId
-                })
-                .signers([creator]) // Creator signs
-                .rpc();
-            await confirmTx(txSig);
+            ({ signature: announceSig } = await client.announceWinner(creator, roomSeed, winner.publicKey));
         } catch (err) {
              expect.fail(`announceWinner failed unexpectedly in main success test. Check SERVICE_WALLET_PUBKEY in lib.rs & tests, ensure it's funded, and run 'anchor build'. Error: ${err}`);
         }
@@ -754,7 +800,7 @@ describe("palapa_fun_rooms", () => {
         // Verify room state
         const roomAccount = await program.account.roomData.fetch(roomPda);
         expect(roomAccount.status).to.deep.equal({ finished: {} });
-        expect(roomAccount.winner?.toBase58()).to.equal(winner.publicKey.toBase58());
+        expect(roomAccount.winners.map((w) => w.toBase58())).to.deep.equal([winner.publicKey.toBase58()]);
         expect(roomAccount.endTimestamp?.toNumber()).to.be.a('number').greaterThan(roomAccount.creationTimestamp.toNumber());
 
         // Verify balances after
@@ -779,29 +825,28 @@ describe("palapa_fun_rooms", () => {
         // Winner balance = before + winner_total_receive
         const winnerBalanceChange = winnerBalanceAfter - winnerBalanceBefore;
         expect(winnerBalanceChange).to.be.closeTo(expectedWinnerTotalReceive.toNumber(), MAX_TX_FEE_VARIANCE, `Winner balance change incorrect`);
+
+        // Receipt parsed from the transaction logs matches the expected split
+        const receipt = await fetchPayoutReceipt(program, announceSig);
+        expect(receipt.kind).to.equal("announceWinner");
+        expect(receipt.room.toBase58()).to.equal(roomPda.toBase58());
+        expect(receipt.vault.toBase58()).to.equal(vaultPda.toBase58());
+        expect(receipt.recipients.winner?.toBase58()).to.equal(winner.publicKey.toBase58());
+        expect(receipt.recipients.serviceWallet?.toBase58()).to.equal(SERVICE_WALLET_PUBKEY.toBase58());
+        expect(receipt.creatorFee.toString()).to.equal(expectedCreatorFee.toString());
+        expect(receipt.serviceFee.toString()).to.equal(expectedServiceFee.toString());
+        expect(receipt.winnerAmount.toString()).to.equal(expectedWinnerTotalReceive.toString());
+        expect(receipt.vaultOutflow.toString()).to.equal(receipt.vaultBalance.toString());
      });
 
       it("should handle announce winner with zero entry fee (no fees, winner gets rent)", async () => {
         // Setup: Create zero-fee room, fill it
         const zeroFeeSeed = roomSeedWinBase + "-zfee";
         const creatorKey = creator.publicKey;
-        const [zwRoomPda] = getRoomPda(creatorKey, zeroFeeSeed);
-        const [zwVaultPda] = getVaultPda(creatorKey, zeroFeeSeed);
-        let txSig = await program.methods.createRoom(zeroFeeSeed, 2, new BN(0))
-            .accountsPartial({ creator: creatorKey, roomData: zwRoomPda, roomVault: zwVaultPda, systemProgram: SystemProgram.programId})
-            .signers([creator])
-            .rpc();
-        await confirmTx(txSig);
-        txSig = await program.methods.joinRoom(zeroFeeSeed)
-            .accountsPartial({ player: player1.publicKey, roomData: zwRoomPda, roomVault: zwVaultPda, systemProgram: SystemProgram.programId })
-            .signers([player1])
-            .rpc();
-         await confirmTx(txSig);
-        txSig = await program.methods.joinRoom(zeroFeeSeed)
-            .accountsPartial({ player: player2.publicKey, roomData: zwRoomPda, roomVault: zwVaultPda, systemProgram: SystemProgram.programId })
-            .signers([player2])
-            .rpc();
-        await confirmTx(txSig);
+        const [zwVaultPda] = client.getVaultPda(creatorKey, zeroFeeSeed);
+        await client.createRoom(creator, zeroFeeSeed, 2, new BN(0));
+        await client.joinRoom(player1, creator.publicKey, zeroFeeSeed);
+        await client.joinRoom(player2, creator.publicKey, zeroFeeSeed);
 
         const winner = player2; // Player 2 wins
         const creatorBalanceBefore = await getBalance(creatorKey);
@@ -810,21 +855,14 @@ describe("palapa_fun_rooms", () => {
         const vaultBalanceBefore = await getBalance(zwVaultPda);
 
         expect(vaultBalanceBefore).to.equal(zeroDataRent, "Vault should contain only rent for zero-fee room");
+        // Rent-only path: no fees, the winner gets the whole vault
+        const computed = computePayout(vaultBalanceBefore, zeroDataRent, CREATOR_FEE_BASIS_POINTS, SERVICE_FEE_BASIS_POINTS);
+        expect(computed.prizePool.isZero()).to.be.true;
+        expect(computed.winnerAmount.toNumber()).to.equal(zeroDataRent);
 
          // Announce Winner
          try {
-             txSig = await program.methods.announceWinner(zeroFeeSeed, winner.publicKey)
-                .accountsPartial({
-                    creator: creatorKey,
-                    roomData: zwRoomPda,
-                    roomVault: zwVaultPda,
-                    winnerAccount: winner.publicKey,
-                    serviceFeeRecipient: SERVICE_WALLET_PUBKEY,
-                    systemProgram: SystemProgram.programId
-                 })
-                .signers([creator])
-                .rpc();
-             await confirmTx(txSig);
+             await client.announceWinner(creator, zeroFeeSeed, winner.publicKey);
          } catch (err) {
               expect.fail(`announceWinner failed unexpectedly in zero-fee test. Error: ${err}`);
          }
@@ -853,31 +891,14 @@ describe("palapa_fun_rooms", () => {
         // Setup room with fees that cause rounding
         const roomSeed = roomSeedWinBase + "-round";
         const creatorKey = creator.publicKey;
-        const [rRoomPda] = getRoomPda(creatorKey, roomSeed);
-        const [rVaultPda] = getVaultPda(creatorKey, roomSeed);
+        const [rVaultPda] = client.getVaultPda(creatorKey, roomSeed);
         const roundingEntryFee = new BN(101); // Fee that won't divide perfectly by basis points
         const roundingMaxPlayers = 3;
 
-        let txSig = await program.methods.createRoom(roomSeed, roundingMaxPlayers, roundingEntryFee)
-             .accountsPartial({ creator: creatorKey, roomData: rRoomPda, roomVault: rVaultPda, systemProgram: SystemProgram.programId})
-             .signers([creator])
-             .rpc();
-        await confirmTx(txSig);
-        txSig = await program.methods.joinRoom(roomSeed)
-            .accountsPartial({ player: player1.publicKey, roomData: rRoomPda, roomVault: rVaultPda, systemProgram: SystemProgram.programId })
-            .signers([player1])
-            .rpc();
-        await confirmTx(txSig);
-        txSig = await program.methods.joinRoom(roomSeed)
-            .accountsPartial({ player: player2.publicKey, roomData: rRoomPda, roomVault: rVaultPda, systemProgram: SystemProgram.programId })
-            .signers([player2])
-            .rpc();
-        await confirmTx(txSig);
-        txSig = await program.methods.joinRoom(roomSeed)
-            .accountsPartial({ player: player3.publicKey, roomData: rRoomPda, roomVault: rVaultPda, systemProgram: SystemProgram.programId })
-            .signers([player3])
-            .rpc();
-        await confirmTx(txSig);
+        await client.createRoom(creator, roomSeed, roundingMaxPlayers, roundingEntryFee);
+        await client.joinRoom(player1, creator.publicKey, roomSeed);
+        await client.joinRoom(player2, creator.publicKey, roomSeed);
+        await client.joinRoom(player3, creator.publicKey, roomSeed);
 
         const winner = player3; // Player 3 wins
 
@@ -897,24 +918,20 @@ describe("palapa_fun_rooms", () => {
         expect(expectedServiceFee.toNumber()).to.equal(9);
         expect(expectedWinnerSharePrize.toNumber()).to.equal(279);
 
+        // Off-chain calculator agrees
+        const computed = computePayout(totalPrizePoolLamports.addn(zeroDataRent), zeroDataRent, CREATOR_FEE_BASIS_POINTS, SERVICE_FEE_BASIS_POINTS);
+        expect(computed.creatorFee.toNumber()).to.equal(15);
+        expect(computed.serviceFee.toNumber()).to.equal(9);
+        expect(computed.winnerShare.toNumber()).to.equal(279);
+        expect(computed.winnerAmount.toString()).to.equal(expectedWinnerTotalReceive.toString());
+
         const creatorBalanceBefore = await getBalance(creatorKey);
         const serviceWalletBalanceBefore = await getBalance(SERVICE_WALLET_PUBKEY);
         const winnerBalanceBefore = await getBalance(winner.publicKey);
 
          // Announce Winner
          try {
-             txSig = await program.methods.announceWinner(roomSeed, winner.publicKey)
-                 .accountsPartial({
-                     creator: creatorKey,
-                     roomData: rRoomPda,
-                     roomVault: rVaultPda,
-                     winnerAccount: winner.publicKey,
-                     serviceFeeRecipient: SERVICE_WALLET_PUBKEY,
-                     systemProgram: SystemProgram.programId
-                  })
-                 .signers([creator])
-                 .rpc();
-             await confirmTx(txSig);
+             await client.announceWinner(creator, roomSeed, winner.publicKey);
          } catch (err) {
               expect.fail(`announceWinner failed unexpectedly in rounding test. Error: ${err}`);
          }
@@ -937,6 +954,50 @@ describe("palapa_fun_rooms", () => {
         expect(winnerBalanceChange).to.be.closeTo(expectedWinnerTotalReceive.toNumber(), MAX_TX_FEE_VARIANCE, `Winner balance change incorrect (rounding)`);
     });
 
+    it("should match computePayout across entry fees and player counts", async () => {
+        // [players, entry fee in lamports, winner index]: tiny fees whose fees round
+        // down to nothing or a lamport, and larger ones that don't split evenly
+        const cases: [number, number, number][] = [
+            [2, 1, 0],
+            [3, 7, 2],
+            [5, 33, 1],
+            [4, 333, 3],
+            [2, 999, 1],
+            [5, 1_001, 4],
+            [3, 12_345_679, 0],
+            [4, 49_999_999, 2],
+        ];
+        const pool = Array.from({ length: 5 }, () => Keypair.generate());
+        await Promise.all(pool.map((p) => airdropSol(p.publicKey, 1 * LAMPORTS_PER_SOL)));
+
+        for (const [i, [playerCount, fee, winnerIndex]] of cases.entries()) {
+            const roomSeed = `${roomSeedWinBase}-case${i}`;
+            const entryFee = new BN(fee);
+            const players = pool.slice(0, playerCount);
+            const winner = players[winnerIndex];
+
+            await client.createRoom(creator, roomSeed, playerCount, entryFee);
+            for (const player of players) {
+                await client.joinRoom(player, creator.publicKey, roomSeed);
+            }
+
+            const [vaultPda] = client.getVaultPda(creator.publicKey, roomSeed);
+            const vaultBalanceBefore = await getBalance(vaultPda);
+            const expected = computePayout(vaultBalanceBefore, zeroDataRent, CREATOR_FEE_BASIS_POINTS, SERVICE_FEE_BASIS_POINTS);
+            expect(expected.prizePool.toString()).to.equal(entryFee.muln(playerCount).toString());
+
+            const { signature } = await client.announceWinner(creator, roomSeed, winner.publicKey);
+            const receipt = await fetchPayoutReceipt(program, signature);
+
+            const context = `(case ${i}: players=${playerCount}, entryFee=${fee})`;
+            expect(receipt.prizePool.toString()).to.equal(expected.prizePool.toString(), `Prize pool mismatch ${context}`);
+            expect(receipt.creatorFee.toString()).to.equal(expected.creatorFee.toString(), `Creator fee mismatch ${context}`);
+            expect(receipt.serviceFee.toString()).to.equal(expected.serviceFee.toString(), `Service fee mismatch ${context}`);
+            expect(receipt.winnerAmount.toString()).to.equal(expected.winnerAmount.toString(), `Winner amount mismatch ${context}`);
+            expect(receipt.vaultOutflow.toNumber()).to.equal(vaultBalanceBefore, `Vault outflow mismatch ${context}`);
+        }
+    });
+
     // --- Failing Announce Tests ---
     it("should fail if non-creator tries to announce winner", async () => {
         const { roomSeed, roomPda, vaultPda, creatorKey } = await setupAnnounceWinnerRoom("-unauth");
@@ -949,7 +1010,10 @@ describe("palapa_fun_rooms", () => {
                      roomVault: vaultPda,
                      winnerAccount: player1.publicKey,
                      serviceFeeRecipient: SERVICE_WALLET_PUBKEY,
-                     systemProgram: SystemProgram.programId
+                     systemProgram: SystemProgram.programId,
+                     // Lamport room: no token accounts
+                     mint: null, vaultTokenAccount: null, creatorTokenAccount: null, serviceFeeTokenAccount: null, winnerTokenAccount: null, tokenProgram: null, winnerTicket: null,
+                     authority: player1.publicKey
                   })
                  .signers([player1]) // Signed by wrong person
                  .rpc();
@@ -970,33 +1034,13 @@ describe("palapa_fun_rooms", () => {
        // Setup: Create a room, only one player joins (still OpenForJoining)
        const roomSeed = roomSeedWinBase + "-nostart";
        const creatorKey = creator.publicKey;
-       const [nsRoomPda] = getRoomPda(creatorKey, roomSeed);
-       const [nsVaultPda] = getVaultPda(creatorKey, roomSeed);
-       let txSig = await program.methods.createRoom(roomSeed, 2, entryFeeWin) // Max 2
-            .accountsPartial({creator: creatorKey, roomData: nsRoomPda, roomVault: nsVaultPda, systemProgram: SystemProgram.programId })
-            .signers([creator])
-            .rpc();
-       await confirmTx(txSig);
-       txSig = await program.methods.joinRoom(roomSeed) // Player 1 joins
-            .accountsPartial({ player: player1.publicKey, roomData: nsRoomPda, roomVault: nsVaultPda, systemProgram: SystemProgram.programId })
-            .signers([player1])
-            .rpc();
-       await confirmTx(txSig);
+       await client.createRoom(creator, roomSeed, 2, entryFeeWin);
+       await client.joinRoom(player1, creator.publicKey, roomSeed);
         // Room is still OpenForJoining
 
          // Attempt to announce winner
          try {
-             await program.methods.announceWinner(roomSeed, player1.publicKey)
-                .accountsPartial({
-                     creator: creatorKey,
-                     roomData: nsRoomPda,
-                     roomVault: nsVaultPda,
-                     winnerAccount: player1.publicKey,
-                     serviceFeeRecipient: SERVICE_WALLET_PUBKEY,
-                     systemProgram: SystemProgram.programId
-                  })
-                 .signers([creator])
-                 .rpc();
+             await client.announceWinner(creator, roomSeed, player1.publicKey);
              fail("Transaction should have failed because room is not InProgress.");
          } catch (err) {
              checkError(err, 6007, 'RoomNotInProgress');
@@ -1007,17 +1051,7 @@ describe("palapa_fun_rooms", () => {
         const { roomSeed, roomPda, vaultPda, creatorKey } = await setupAnnounceWinnerRoom("-wrongwin");
         // Players in room are player1, player2. Announce outsider as winner.
          try {
-             await program.methods.announceWinner(roomSeed, outsider.publicKey) // Outsider didn't join
-                .accountsPartial({
-                     creator: creatorKey,
-                     roomData: roomPda,
-                     roomVault: vaultPda,
-                     winnerAccount: outsider.publicKey, // Account matches arg, but not in players Vec
-                     serviceFeeRecipient: SERVICE_WALLET_PUBKEY,
-                     systemProgram: SystemProgram.programId
-                  })
-                 .signers([creator])
-                 .rpc();
+             await client.announceWinner(creator, roomSeed, outsider.publicKey);
              fail("Transaction should have failed because winner was not in the room.");
          } catch (err) {
              checkError(err, 6008, 'WinnerNotInRoom');
@@ -1035,7 +1069,10 @@ describe("palapa_fun_rooms", () => {
                      roomVault: vaultPda,
                      winnerAccount: player2.publicKey, // Provide P2's account
                      serviceFeeRecipient: SERVICE_WALLET_PUBKEY,
-                     systemProgram: SystemProgram.programId
+                     systemProgram: SystemProgram.programId,
+                     // Lamport room: no token accounts
+                     mint: null, vaultTokenAccount: null, creatorTokenAccount: null, serviceFeeTokenAccount: null, winnerTokenAccount: null, tokenProgram: null, winnerTicket: null,
+                     authority: creatorKey
                   })
                  .signers([creator])
                  .rpc();
@@ -1047,21 +1084,12 @@ describe("palapa_fun_rooms", () => {
     });
 
     it("should fail if the wrong service_fee_recipient account is provided", async () => {
-        const { roomSeed, roomPda, vaultPda, creatorKey } = await setupAnnounceWinnerRoom("-wrongsvc");
+        const { roomSeed } = await setupAnnounceWinnerRoom("-wrongsvc");
         const winner = player1;
+        // Client configured with 'anotherWallet' instead of the correct SERVICE_WALLET_PUBKEY
+        const wrongServiceClient = new PalapaClient(program, { serviceWallet: anotherWallet.publicKey });
         try {
-            // Provide 'anotherWallet' instead of the correct SERVICE_WALLET_PUBKEY
-            await program.methods.announceWinner(roomSeed, winner.publicKey)
-                .accountsPartial({
-                     creator: creatorKey,
-                     roomData: roomPda,
-                     roomVault: vaultPda,
-                     winnerAccount: winner.publicKey,
-                     serviceFeeRecipient: anotherWallet.publicKey, // Wrong service wallet
-                     systemProgram: SystemProgram.programId
-                 })
-                .signers([creator])
-                .rpc();
+            await wrongServiceClient.announceWinner(creator, roomSeed, winner.publicKey);
              fail("Transaction should have failed due to incorrect service fee recipient.");
         } catch (err) {
              // Expect the constraint check on service_fee_recipient to fail
@@ -1093,18 +1121,141 @@ describe("palapa_fun_rooms", () => {
 
   }); // End announce_winner describe
 
+  // --- Test Suite for announce_winners (podiums) ---
+  describe("announce_winners", () => {
+    const podium = [Keypair.generate(), Keypair.generate(), Keypair.generate()];
+    // An odd fee so the 60/30/10 split leaves rounding dust for first place
+    const entryFeePodium = new BN(0.1 * LAMPORTS_PER_SOL + 7);
+    const splitBps = [6000, 3000, 1000];
+    const sharesFor = (bps: number[]) => podium.map((p, i) => ({ winner: p.publicKey, shareBasisPoints: bps[i] }));
+
+    const setupPodiumRoom = async (roomSeed: string) => {
+        await client.createRoom(creator, roomSeed, podium.length, entryFeePodium);
+        for (const player of podium) {
+            await client.joinRoom(player, creator.publicKey, roomSeed);
+        }
+        const [roomPda] = client.getRoomPda(creator.publicKey, roomSeed);
+        const [vaultPda] = client.getVaultPda(creator.publicKey, roomSeed);
+        return { roomPda, vaultPda };
+    };
+
+    before(async () => {
+        await Promise.all(podium.map((p) => airdropSol(p.publicKey, 1 * LAMPORTS_PER_SOL)));
+    });
+
+    it("should split the prize by shares and give rounding dust to first place", async () => {
+        const roomSeed = "podium-main";
+        const { roomPda, vaultPda } = await setupPodiumRoom(roomSeed);
+        const vaultBalanceBefore = await getBalance(vaultPda);
+        const expected = computeSplitPayout(vaultBalanceBefore, zeroDataRent, splitBps, CREATOR_FEE_BASIS_POINTS, SERVICE_FEE_BASIS_POINTS);
+        const floored = splitBps.map((bps) => expected.winnerShare.muln(bps).div(BASIS_POINTS_DENOMINATOR));
+        expect(expected.winnerAmounts[0].gt(floored[0].addn(zeroDataRent)), "expected rounding dust for first place").to.be.true;
+        expect(expected.winnerAmounts[1].toString()).to.equal(floored[1].toString());
+        expect(expected.winnerAmounts[2].toString()).to.equal(floored[2].toString());
+
+        const balancesBefore = await Promise.all(podium.map((p) => getBalance(p.publicKey)));
+        const serviceWalletBefore = await getBalance(SERVICE_WALLET_PUBKEY);
+        const { signature, room } = await client.announceWinners(creator, roomSeed, sharesFor(splitBps));
+
+        expect(room.status).to.deep.equal({ finished: {} });
+        expect(room.winners.map((w) => w.toBase58())).to.deep.equal(podium.map((p) => p.publicKey.toBase58()));
+        for (let i = 0; i < podium.length; i++) {
+            expect(await getBalance(podium[i].publicKey)).to.equal(balancesBefore[i] + expected.winnerAmounts[i].toNumber(), `Place ${i + 1} payout incorrect`);
+        }
+        expect(await getBalance(SERVICE_WALLET_PUBKEY)).to.equal(serviceWalletBefore + expected.serviceFee.toNumber());
+        expect(await getBalance(vaultPda)).to.equal(0, "Vault should be empty after payout");
+
+        const receipt = await fetchPayoutReceipt(program, signature);
+        expect(receipt.kind).to.equal("announceWinners");
+        expect(receipt.room.toBase58()).to.equal(roomPda.toBase58());
+        expect(receipt.recipients.winners?.map((w) => w.toBase58())).to.deep.equal(podium.map((p) => p.publicKey.toBase58()));
+        expect(receipt.winnerAmounts.map((a) => a.toString())).to.deep.equal(expected.winnerAmounts.map((a) => a.toString()));
+        expect(receipt.winnerAmount.toString()).to.equal(expected.winnerAmount.toString());
+        expect(receipt.creatorFee.toString()).to.equal(expected.creatorFee.toString());
+    });
+
+    it("should pay the whole vault to first place when there is no prize pool", async () => {
+        const roomSeed = "podium-zfee";
+        await client.createRoom(creator, roomSeed, 2, new BN(0));
+        await client.joinRoom(podium[0], creator.publicKey, roomSeed);
+        await client.joinRoom(podium[1], creator.publicKey, roomSeed);
+        const firstBefore = await getBalance(podium[1].publicKey);
+
+        const shares = [{ winner: podium[1].publicKey, shareBasisPoints: 7000 }, { winner: podium[0].publicKey, shareBasisPoints: 3000 }];
+        const expected = computeSplitPayout(zeroDataRent, zeroDataRent, [7000, 3000], CREATOR_FEE_BASIS_POINTS, SERVICE_FEE_BASIS_POINTS);
+        expect(expected.winnerAmounts.map((a) => a.toNumber())).to.deep.equal([zeroDataRent, 0]);
+        await client.announceWinners(creator, roomSeed, shares);
+        expect(await getBalance(podium[1].publicKey)).to.equal(firstBefore + zeroDataRent);
+    });
+
+    it("should reject shares that do not sum to 10000 or repeat a winner", async () => {
+        const roomSeed = "podium-badsplit";
+        await setupPodiumRoom(roomSeed);
+        try {
+            await client.announceWinners(creator, roomSeed, sharesFor([6000, 3000, 900]));
+            fail("Transaction should have failed because shares do not sum to 10000.");
+        } catch (err) {
+            checkError(err, 6029, 'InvalidPrizeSplit');
+        }
+        try {
+            await client.announceWinners(creator, roomSeed, [
+                { winner: podium[0].publicKey, shareBasisPoints: 5000 },
+                { winner: podium[0].publicKey, shareBasisPoints: 5000 },
+            ]);
+            fail("Transaction should have failed because a winner is listed twice.");
+        } catch (err) {
+            checkError(err, 6029, 'InvalidPrizeSplit');
+        }
+        expect(() => computeSplitPayout(LAMPORTS_PER_SOL, zeroDataRent, [6000, 3000, 900], CREATOR_FEE_BASIS_POINTS, SERVICE_FEE_BASIS_POINTS)).to.throw(InvalidPrizeSplitError);
+        expect(() => computeSplitPayout(LAMPORTS_PER_SOL, zeroDataRent, [], CREATOR_FEE_BASIS_POINTS, SERVICE_FEE_BASIS_POINTS)).to.throw(InvalidPrizeSplitError);
+    });
+
+    it("should reject a winner who is not in the room", async () => {
+        const roomSeed = "podium-outsider";
+        await setupPodiumRoom(roomSeed);
+        try {
+            await client.announceWinners(creator, roomSeed, [
+                { winner: podium[0].publicKey, shareBasisPoints: 8000 },
+                { winner: outsider.publicKey, shareBasisPoints: 2000 },
+            ]);
+            fail("Transaction should have failed because a winner was not in the room.");
+        } catch (err) {
+            checkError(err, 6008, 'WinnerNotInRoom');
+        }
+    });
+
+    it("should reject winner accounts that are not in share order", async () => {
+        const roomSeed = "podium-order";
+        const { roomPda, vaultPda } = await setupPodiumRoom(roomSeed);
+        try {
+            await program.methods.announceWinners(roomSeed, sharesFor(splitBps))
+                .accountsPartial({
+                    creator: creator.publicKey,
+                    roomData: roomPda,
+                    roomVault: vaultPda,
+                    config: client.getConfigPda()[0],
+                    serviceFeeRecipient: SERVICE_WALLET_PUBKEY,
+                    systemProgram: SystemProgram.programId,
+                    authority: creator.publicKey
+                })
+                .remainingAccounts([podium[1], podium[0], podium[2]].map((p) => ({ pubkey: p.publicKey, isWritable: true, isSigner: false })))
+                .signers([creator])
+                .rpc();
+            fail("Transaction should have failed because winner accounts are out of order.");
+        } catch (err) {
+            checkError(err, 6009, 'WinnerAccountMismatch');
+        }
+    });
+  }); // End announce_winners describe
+
   // --- Test Suite for cancel_room ---
   describe("cancel_room", () => {
     it("should allow the creator to cancel an empty room (recovering rent)", async () => {
         // Setup: Create a new empty room
         const cancelSeed = "cn-empty";
-        const [roomPda] = getRoomPda(creator.publicKey, cancelSeed);
-        const [vaultPda] = getVaultPda(creator.publicKey, cancelSeed);
-        let txSig = await program.methods.createRoom(cancelSeed, 2, defaultEntryFee)
-            .accountsPartial({creator: creator.publicKey, roomData: roomPda, roomVault: vaultPda, systemProgram: SystemProgram.programId })
-            .signers([creator])
-            .rpc();
-        await confirmTx(txSig);
+        const [roomPda] = client.getRoomPda(creator.publicKey, cancelSeed);
+        const [vaultPda] = client.getVaultPda(creator.publicKey, cancelSeed);
+        await client.createRoom(creator, cancelSeed, 2, defaultEntryFee);
 
         const creatorBalanceBefore = await getBalance(creator.publicKey);
         const vaultBalanceBefore = await getBalance(vaultPda); // Should be zeroDataRent
@@ -1112,11 +1263,7 @@ describe("palapa_fun_rooms", () => {
         expect(vaultBalanceBefore).to.equal(zeroDataRent);
 
         // Cancel the room
-        txSig = await program.methods.cancelRoom(cancelSeed)
-            .accountsPartial({ creator: creator.publicKey, roomData: roomPda, roomVault: vaultPda, systemProgram: SystemProgram.programId })
-            .signers([creator])
-            .rpc();
-        await confirmTx(txSig);
+        const { signature: cancelSig } = await client.cancelRoom(creator, cancelSeed);
 
         // Verify room state
         const roomAccount = await program.account.roomData.fetch(roomPda);
@@ -1142,17 +1289,22 @@ describe("palapa_fun_rooms", () => {
         });
 
         expect(creatorBalanceChange).to.be.closeTo(vaultBalanceBefore, MAX_TX_FEE_VARIANCE, `Creator balance change incorrect (should gain rent back, minus tx fee)`);
+
+        const receipt = await fetchPayoutReceipt(program, cancelSig);
+        expect(receipt.kind).to.equal("cancelRoom");
+        expect(receipt.recipients.creator.toBase58()).to.equal(creator.publicKey.toBase58());
+        expect(receipt.creatorRefund.toNumber()).to.equal(vaultBalanceBefore);
+        expect(receipt.vaultBalance.toNumber()).to.equal(vaultBalanceBefore);
+        expect(receipt.prizePool.isZero()).to.be.true;
+        expect(receipt.vaultOutflow.toNumber()).to.equal(vaultBalanceBefore);
     });
 
     it("should fail if non-creator tries to cancel", async () => {
         // Setup: Create a new empty room
         const cancelSeedUnauth = "cn-unauth";
-        const [roomPda] = getRoomPda(creator.publicKey, cancelSeedUnauth);
-        const [vaultPda] = getVaultPda(creator.publicKey, cancelSeedUnauth);
-        await program.methods.createRoom(cancelSeedUnauth, 2, defaultEntryFee)
-             .accountsPartial({creator: creator.publicKey, roomData: roomPda, roomVault: vaultPda, systemProgram: SystemProgram.programId })
-             .signers([creator])
-             .rpc();
+        const [roomPda] = client.getRoomPda(creator.publicKey, cancelSeedUnauth);
+        const [vaultPda] = client.getVaultPda(creator.publicKey, cancelSeedUnauth);
+        await client.createRoom(creator, cancelSeedUnauth, 2, defaultEntryFee);
 
         // Player 1 attempts to cancel
         try {
@@ -1161,7 +1313,8 @@ describe("palapa_fun_rooms", () => {
                      creator: player1.publicKey, // Wrong creator account
                      roomData: roomPda,
                      roomVault: vaultPda,
-                     systemProgram: SystemProgram.programId
+                     systemProgram: SystemProgram.programId,
+                     mint: null, vaultTokenAccount: null, creatorTokenAccount: null, tokenProgram: null
                  })
                 .signers([player1]) // Signed by wrong person
                 .rpc();
@@ -1179,25 +1332,12 @@ describe("palapa_fun_rooms", () => {
     it("should fail if players have already joined", async () => {
         // Setup: Create a room, player 1 joins
         const cancelSeedPlayers = "cn-players";
-        const [roomPda] = getRoomPda(creator.publicKey, cancelSeedPlayers);
-        const [vaultPda] = getVaultPda(creator.publicKey, cancelSeedPlayers);
-        let txSig = await program.methods.createRoom(cancelSeedPlayers, 2, defaultEntryFee)
-             .accountsPartial({creator: creator.publicKey, roomData: roomPda, roomVault: vaultPda, systemProgram: SystemProgram.programId })
-             .signers([creator])
-             .rpc();
-        await confirmTx(txSig);
-        txSig = await program.methods.joinRoom(cancelSeedPlayers) // Player 1 joins
-             .accountsPartial({ player: player1.publicKey, roomData: roomPda, roomVault: vaultPda, systemProgram: SystemProgram.programId })
-             .signers([player1])
-             .rpc();
-        await confirmTx(txSig);
+        await client.createRoom(creator, cancelSeedPlayers, 2, defaultEntryFee);
+        await client.joinRoom(player1, creator.publicKey, cancelSeedPlayers);
 
         // Creator attempts to cancel
         try {
-            await program.methods.cancelRoom(cancelSeedPlayers)
-                .accountsPartial({ creator: creator.publicKey, roomData: roomPda, roomVault: vaultPda, systemProgram: SystemProgram.programId })
-                .signers([creator])
-                .rpc();
+            await client.cancelRoom(creator, cancelSeedPlayers);
             fail("Transaction should have failed because players joined.");
         } catch (err) {
             checkError(err, 6013, 'CannotCancelRoomPlayersJoined');
@@ -1207,30 +1347,13 @@ describe("palapa_fun_rooms", () => {
     it("should fail if the room is InProgress", async () => {
         // Setup: Create room, fill it (becomes InProgress)
         const cancelSeedProgress = "cn-progress";
-        const [roomPda] = getRoomPda(creator.publicKey, cancelSeedProgress);
-        const [vaultPda] = getVaultPda(creator.publicKey, cancelSeedProgress);
-        let txSig = await program.methods.createRoom(cancelSeedProgress, 2, defaultEntryFee) // Max 2
-             .accountsPartial({creator: creator.publicKey, roomData: roomPda, roomVault: vaultPda, systemProgram: SystemProgram.programId })
-             .signers([creator])
-             .rpc();
-        await confirmTx(txSig);
-        txSig = await program.methods.joinRoom(cancelSeedProgress)
-             .accountsPartial({ player: player1.publicKey, roomData: roomPda, roomVault: vaultPda, systemProgram: SystemProgram.programId })
-             .signers([player1])
-             .rpc();
-        await confirmTx(txSig);
-        txSig = await program.methods.joinRoom(cancelSeedProgress)
-             .accountsPartial({ player: player2.publicKey, roomData: roomPda, roomVault: vaultPda, systemProgram: SystemProgram.programId })
-             .signers([player2])
-             .rpc();
-        await confirmTx(txSig); // Room is now InProgress
+        await client.createRoom(creator, cancelSeedProgress, 2, defaultEntryFee);
+        await client.joinRoom(player1, creator.publicKey, cancelSeedProgress);
+        await client.joinRoom(player2, creator.publicKey, cancelSeedProgress);
 
         // Creator attempts to cancel
         try {
-            await program.methods.cancelRoom(cancelSeedProgress)
-                .accountsPartial({ creator: creator.publicKey, roomData: roomPda, roomVault: vaultPda, systemProgram: SystemProgram.programId })
-                .signers([creator])
-                .rpc();
+            await client.cancelRoom(creator, cancelSeedProgress);
              fail("Transaction should have failed because room is InProgress.");
         } catch (err) {
              checkError(err, 6012, 'CannotCancelRoomState');
@@ -1241,51 +1364,1631 @@ describe("palapa_fun_rooms", () => {
         // Setup: Create room, fill it, finish it
         const cancelSeedFinished = "cn-fin-fail";
         const creatorKey = creator.publicKey;
-        const [roomPda] = getRoomPda(creatorKey, cancelSeedFinished);
-        const [vaultPda] = getVaultPda(creatorKey, cancelSeedFinished);
-        let txSig = await program.methods.createRoom(cancelSeedFinished, 2, defaultEntryFee) // Max 2
-             .accountsPartial({creator: creatorKey, roomData: roomPda, roomVault: vaultPda, systemProgram: SystemProgram.programId })
-             .signers([creator])
-             .rpc();
-        await confirmTx(txSig);
-        txSig = await program.methods.joinRoom(cancelSeedFinished)
-             .accountsPartial({ player: player1.publicKey, roomData: roomPda, roomVault: vaultPda, systemProgram: SystemProgram.programId })
-             .signers([player1])
-             .rpc();
-        await confirmTx(txSig);
-        txSig = await program.methods.joinRoom(cancelSeedFinished)
-             .accountsPartial({ player: player2.publicKey, roomData: roomPda, roomVault: vaultPda, systemProgram: SystemProgram.programId })
-             .signers([player2])
-             .rpc();
-        await confirmTx(txSig); // Room InProgress
+        await client.createRoom(creator, cancelSeedFinished, 2, defaultEntryFee);
+        await client.joinRoom(player1, creator.publicKey, cancelSeedFinished);
+        await client.joinRoom(player2, creator.publicKey, cancelSeedFinished);
         try { // Finish the room
-            txSig = await program.methods.announceWinner(cancelSeedFinished, player1.publicKey)
+            await client.announceWinner(creator, cancelSeedFinished, player1.publicKey);
+        } catch (announceErr) {
+             expect.fail(`Setup for 'cancel finished room' test failed during announceWinner: ${announceErr}.`);
+        }
+
+        // Attempt to cancel the Finished room
+        try {
+            await client.cancelRoom(creator, cancelSeedFinished);
+            fail("Transaction should have failed because room is Finished.");
+        } catch (err) {
+            checkError(err, 6012, 'CannotCancelRoomState');
+        }
+    });
+  }); // End cancel_room describe
+
+  // --- Test Suite for cancel_room_with_refunds ---
+  describe("cancel_room_with_refunds", () => {
+    const refundFee = new BN(0.02 * LAMPORTS_PER_SOL);
+    const crowd = Array.from({ length: 5 }, () => Keypair.generate());
+
+    before(async () => {
+        await Promise.all(crowd.map((p) => airdropSol(p.publicKey, 1 * LAMPORTS_PER_SOL)));
+    });
+
+    it("should refund every player and return the rent to the creator", async () => {
+        const seed = "cr-refund";
+        const { roomPda, vaultPda } = await client.createRoom(creator, seed, 3, refundFee);
+        await client.joinRoom(player1, creator.publicKey, seed);
+        await client.joinRoom(player2, creator.publicKey, seed);
+
+        const creatorBefore = await getBalance(creator.publicKey);
+        const player1Before = await getBalance(player1.publicKey);
+        const player2Before = await getBalance(player2.publicKey);
+
+        const { room, signatures } = await client.cancelRoomWithRefunds(creator, seed);
+
+        expect(signatures).to.have.lengthOf(1);
+        expect(room.status).to.deep.equal({ cancelled: {} });
+        expect(room.players).to.be.empty;
+        expect(room.endTimestamp).to.not.be.null;
+        expect(await getBalance(player1.publicKey)).to.equal(player1Before + refundFee.toNumber());
+        expect(await getBalance(player2.publicKey)).to.equal(player2Before + refundFee.toNumber());
+        expect(await getBalance(creator.publicKey)).to.equal(creatorBefore + zeroDataRent);
+        expect(await getBalance(vaultPda)).to.equal(0);
+        expect((await client.fetchRoomAt(roomPda)).status).to.deep.equal({ cancelled: {} });
+    });
+
+    it("should also cancel a room nobody joined", async () => {
+        const seed = "cr-empty";
+        const { vaultPda } = await client.createRoom(creator, seed, 2, refundFee);
+        const { room } = await client.cancelRoomWithRefunds(creator, seed);
+        expect(room.status).to.deep.equal({ cancelled: {} });
+        expect(await getBalance(vaultPda)).to.equal(0);
+    });
+
+    it("should reject refund accounts that do not match the players", async () => {
+        const seed = "cr-mismatch";
+        const { roomPda, vaultPda } = await client.createRoom(creator, seed, 3, refundFee);
+        await client.joinRoom(player1, creator.publicKey, seed);
+        await client.joinRoom(player2, creator.publicKey, seed);
+
+        const cancelWith = (accounts: PublicKey[]) =>
+            program.methods
+                .cancelRoomWithRefunds(seed)
+                .accountsPartial({ creator: creator.publicKey, roomData: roomPda, roomVault: vaultPda, systemProgram: SystemProgram.programId, mint: null, vaultTokenAccount: null, creatorTokenAccount: null, tokenProgram: null })
+                .remainingAccounts(accounts.map((pubkey) => ({ pubkey, isWritable: true, isSigner: false })))
+                .signers([creator])
+                .rpc();
+
+        for (const accounts of [
+            [player2.publicKey, player1.publicKey], // wrong order
+            [player3.publicKey],                    // not a player
+            [],                                     // players left without refund accounts
+            [player1.publicKey, player2.publicKey, player3.publicKey], // too many
+        ]) {
+            try {
+                await cancelWith(accounts);
+                fail("Transaction should have failed because the refund accounts do not match.");
+            } catch (err) {
+                checkError(err, 6024, 'RefundAccountMismatch');
+            }
+        }
+
+        const room = await client.fetchRoomAt(roomPda);
+        expect(room.status).to.deep.equal({ openForJoining: {} });
+        expect(room.players).to.have.lengthOf(2);
+    });
+
+    it("should refund large rooms in batches", async () => {
+        const seed = "cr-batch";
+        const { vaultPda } = await client.createRoom(creator, seed, 6, refundFee);
+        for (const p of crowd) await client.joinRoom(p, creator.publicKey, seed);
+        const before = await Promise.all(crowd.map((p) => getBalance(p.publicKey)));
+
+        const txs = await client.cancelRoomWithRefundsTransactions(creator, seed, { batchSize: 2 });
+        expect(txs).to.have.lengthOf(3);
+
+        // After the first batch the room is cancelled and nobody else can join
+        await txs[0].send();
+        const partial = await client.fetchRoom(creator.publicKey, seed);
+        expect(partial.status).to.deep.equal({ cancelled: {} });
+        expect(partial.players.map((p) => p.toBase58())).to.deep.equal(crowd.slice(2).map((p) => p.publicKey.toBase58()));
+        expect(await getBalance(vaultPda)).to.equal(zeroDataRent + 3 * refundFee.toNumber());
+        try {
+            await client.joinRoom(player3, creator.publicKey, seed);
+            fail("Transaction should have failed because the room is Cancelled.");
+        } catch (err) {
+            checkError(err, 6004, 'RoomNotJoinable');
+        }
+
+        // The client picks up where the first batch stopped
+        const { room, signatures } = await client.cancelRoomWithRefunds(creator, seed, { batchSize: 2 });
+        expect(signatures).to.have.lengthOf(2);
+        expect(room.players).to.be.empty;
+        expect(await getBalance(vaultPda)).to.equal(0);
+        const after = await Promise.all(crowd.map((p) => getBalance(p.publicKey)));
+        after.forEach((balance, i) => expect(balance).to.equal(before[i] + refundFee.toNumber()));
+    });
+  }); // End cancel_room_with_refunds describe
+
+  // --- Test Suite for token rooms (SPL entry fees) ---
+  describe("token rooms", () => {
+    const payer = (provider.wallet as anchor.Wallet).payer;
+    const tokenEntryFee = new BN(25_000_000); // 25 tokens at 6 decimals
+    let mint: PublicKey;
+    let otherMint: PublicKey;
+
+    const tokenBalance = async (mintKey: PublicKey, owner: PublicKey): Promise<bigint> => {
+        const account = await getAccount(connection, getTokenAddress(mintKey, owner)).catch(() => null);
+        return account ? account.amount : BigInt(0);
+    };
+
+    before(async () => {
+        mint = await createMint(connection, payer, payer.publicKey, null, 6);
+        otherMint = await createMint(connection, payer, payer.publicKey, null, 6);
+        for (const player of [player1, player2]) {
+            for (const m of [mint, otherMint]) {
+                const { address } = await getOrCreateAssociatedTokenAccount(connection, payer, m, player.publicKey);
+                await mintTo(connection, payer, m, address, payer, 100_000_000);
+            }
+        }
+    });
+
+    it("should hold entry fees in the vault token account and pay out to token accounts", async () => {
+        const roomSeed = "tk-main";
+        const { room, vaultPda } = await client.createRoom(creator, roomSeed, 2, tokenEntryFee, { mint });
+        expect(room.mint?.toBase58()).to.equal(mint.toBase58());
+        const vaultTokenAddress = getTokenAddress(mint, vaultPda);
+        expect((await getAccount(connection, vaultTokenAddress)).owner.toBase58()).to.equal(vaultPda.toBase58());
+
+        const player1Before = await tokenBalance(mint, player1.publicKey);
+        await client.joinRoom(player1, creator.publicKey, roomSeed);
+        await client.joinRoom(player2, creator.publicKey, roomSeed);
+        expect((await getAccount(connection, vaultTokenAddress)).amount.toString()).to.equal(tokenEntryFee.muln(2).toString());
+        expect((await tokenBalance(mint, player1.publicKey)).toString()).to.equal((player1Before - BigInt(tokenEntryFee.toString())).toString());
+        expect(await getBalance(vaultPda)).to.equal(zeroDataRent, "Lamport vault should only hold its rent");
+
+        // The client creates the creator's and service wallet's token accounts before paying out.
+        expect(await connection.getAccountInfo(getTokenAddress(mint, creator.publicKey))).to.be.null;
+        const expected = computePayout(tokenEntryFee.muln(2), 0, CREATOR_FEE_BASIS_POINTS, SERVICE_FEE_BASIS_POINTS);
+        const winnerBefore = await tokenBalance(mint, player1.publicKey);
+        const serviceBefore = await tokenBalance(mint, SERVICE_WALLET_PUBKEY);
+        const { signature } = await client.announceWinner(creator, roomSeed, player1.publicKey);
+
+        expect((await tokenBalance(mint, creator.publicKey)).toString()).to.equal(expected.creatorFee.toString());
+        expect((await tokenBalance(mint, SERVICE_WALLET_PUBKEY)).toString()).to.equal((serviceBefore + BigInt(expected.serviceFee.toString())).toString());
+        expect((await tokenBalance(mint, player1.publicKey)).toString()).to.equal((winnerBefore + BigInt(expected.winnerAmount.toString())).toString());
+        expect(await connection.getAccountInfo(vaultTokenAddress)).to.be.null; // Closed back to the creator
+        expect(await getBalance(vaultPda)).to.equal(0);
+
+        // The receipt has the token payout; the lamport vault only returns its rent to the winner.
+        const receipt = await fetchPayoutReceipt(program, signature);
+        expect(receipt.prizePool.toNumber()).to.equal(0);
+        expect(receipt.winnerAmount.toNumber()).to.equal(zeroDataRent);
+        expect(receipt.mint?.toBase58()).to.equal(mint.toBase58());
+        expect(receipt.vaultTokenOutflow?.toString()).to.equal(tokenEntryFee.muln(2).toString());
+        expect(receipt.tokens?.creatorFee.toString()).to.equal(expected.creatorFee.toString());
+        expect(receipt.tokens?.serviceFee.toString()).to.equal(expected.serviceFee.toString());
+        expect(receipt.tokens?.winnerAmount.toString()).to.equal(expected.winnerAmount.toString());
+    });
+
+    it("should return tokens sent to an empty room's vault to the creator on cancel", async () => {
+        const roomSeed = "tk-cancel";
+        const { vaultPda } = await client.createRoom(creator, roomSeed, 2, tokenEntryFee, { mint });
+        const vaultTokenAddress = getTokenAddress(mint, vaultPda);
+        await transfer(connection, player2, getTokenAddress(mint, player2.publicKey), vaultTokenAddress, player2, 1_000);
+        const creatorBefore = await tokenBalance(mint, creator.publicKey);
+
+        const { room } = await client.cancelRoom(creator, roomSeed);
+        expect(room.status).to.deep.equal({ cancelled: {} });
+        expect((await tokenBalance(mint, creator.publicKey)).toString()).to.equal((creatorBefore + BigInt(1_000)).toString());
+        expect(await connection.getAccountInfo(vaultTokenAddress)).to.be.null;
+        expect(await getBalance(vaultPda)).to.equal(0);
+    });
+
+    it("should reject token accounts of another mint", async () => {
+        const roomSeed = "tk-wrongmint";
+        const { roomPda, vaultPda } = await client.createRoom(creator, roomSeed, 2, tokenEntryFee, { mint });
+        try {
+            await program.methods.joinRoom(roomSeed, null)
                 .accountsPartial({
-                    creator: creatorKey,
+                    player: player1.publicKey,
                     roomData: roomPda,
                     roomVault: vaultPda,
-                    winnerAccount: player1.publicKey,
-                    serviceFeeRecipient: SERVICE_WALLET_PUBKEY,
-                    systemProgram: SystemProgram.programId
+                    systemProgram: SystemProgram.programId,
+                    mint: otherMint,
+                    playerTokenAccount: getTokenAddress(otherMint, player1.publicKey),
+                    vaultTokenAccount: getTokenAddress(mint, vaultPda),
+                    tokenProgram: TOKEN_PROGRAM_ID,
+                    playerTicket: null,
+                    instructionsSysvar: null,
                 })
-                .signers([creator])
+                .signers([player1])
                 .rpc();
-            await confirmTx(txSig); // Room is now Finished
-        } catch (announceErr) {
-             expect.fail(`Setup for 'cancel finished room' test failed during announceWinner: ${announceErr}.`);
+            fail("Transaction should have failed because the mint is not the room's.");
+        } catch (err) {
+            checkError(err, 6031, 'TokenAccountMismatch');
+        }
+        try {
+            await program.methods.joinRoom(roomSeed, null)
+                .accountsPartial({
+                    player: player1.publicKey,
+                    roomData: roomPda,
+                    roomVault: vaultPda,
+                    systemProgram: SystemProgram.programId,
+                    mint: null,
+                    playerTokenAccount: null,
+                    vaultTokenAccount: null,
+                    tokenProgram: null,
+                    playerTicket: null,
+                    instructionsSysvar: null,
+                })
+                .signers([player1])
+                .rpc();
+            fail("Transaction should have failed because the token accounts are missing.");
+        } catch (err) {
+            checkError(err, 6030, 'MissingTokenAccounts');
+        }
+    });
+
+    it("should refund token entry fees to the players' token accounts on cancel", async () => {
+        const roomSeed = "tk-refund";
+        const { vaultPda } = await client.createRoom(creator, roomSeed, 3, tokenEntryFee, { mint });
+        await client.joinRoom(player1, creator.publicKey, roomSeed);
+        await client.joinRoom(player2, creator.publicKey, roomSeed);
+        const before = await Promise.all([player1, player2].map((p) => tokenBalance(mint, p.publicKey)));
+
+        const { room, signatures } = await client.cancelRoomWithRefunds(creator, roomSeed, { batchSize: 1 });
+        expect(signatures).to.have.lengthOf(2);
+        expect(room.status).to.deep.equal({ cancelled: {} });
+        const after = await Promise.all([player1, player2].map((p) => tokenBalance(mint, p.publicKey)));
+        after.forEach((balance, i) => expect(balance.toString()).to.equal((before[i] + BigInt(tokenEntryFee.toString())).toString()));
+        expect(await connection.getAccountInfo(getTokenAddress(mint, vaultPda))).to.be.null;
+        expect(await getBalance(vaultPda)).to.equal(0);
+    });
+
+    it("should split the vault's tokens between the players when the room expires", async () => {
+        const roomSeed = "tk-expire";
+        const chainTime = async () => (await connection.getBlockTime(await connection.getSlot())) ?? 0;
+        const joinDeadline = (await chainTime()) + 3;
+        const { vaultPda } = await client.createRoom(creator, roomSeed, 3, tokenEntryFee, { mint, joinDeadline });
+        await client.joinRoom(player1, creator.publicKey, roomSeed);
+        await client.joinRoom(player2, creator.publicKey, roomSeed);
+        // One token unit too many to split evenly: it goes to the creator.
+        const vaultTokenAddress = getTokenAddress(mint, vaultPda);
+        await transfer(connection, player2, getTokenAddress(mint, player2.publicKey), vaultTokenAddress, player2, 1);
+        const before = await Promise.all([player1, player2, creator].map((k) => tokenBalance(mint, k.publicKey)));
+
+        while ((await chainTime()) <= joinDeadline) {
+            await new Promise((resolve) => setTimeout(resolve, 500));
         }
+        const { room } = await client.expireRoom(payer, creator.publicKey, roomSeed);
+        expect(room.status).to.deep.equal({ expired: {} });
+        const after = await Promise.all([player1, player2, creator].map((k) => tokenBalance(mint, k.publicKey)));
+        const fee = BigInt(tokenEntryFee.toString());
+        expect(after.map(String)).to.deep.equal([before[0] + fee, before[1] + fee, before[2] + BigInt(1)].map(String));
+        expect(await connection.getAccountInfo(vaultTokenAddress)).to.be.null;
+        expect(await getBalance(vaultPda)).to.equal(0);
+    });
 
-        // Attempt to cancel the Finished room
+    it("should refund the token entry fee to a player who leaves", async () => {
+        const roomSeed = "tk-leave";
+        const { vaultPda } = await client.createRoom(creator, roomSeed, 2, tokenEntryFee, { mint });
+        await client.joinRoom(player1, creator.publicKey, roomSeed);
+        const before = await tokenBalance(mint, player1.publicKey);
+
+        const { room } = await client.leaveRoom(player1, creator.publicKey, roomSeed);
+        expect(room.players).to.be.empty;
+        expect((await tokenBalance(mint, player1.publicKey)).toString()).to.equal((before + BigInt(tokenEntryFee.toString())).toString());
+        expect((await getAccount(connection, getTokenAddress(mint, vaultPda))).amount.toString()).to.equal("0");
+    });
+
+    it("should reject dispute windows in token rooms", async () => {
+        await expect(
+            client.createRoom(creator, "tk-dispute", 2, tokenEntryFee, { mint, disputeWindow: 60, settleDeadline: Math.floor(Date.now() / 1000) + 3600 })
+        ).to.be.rejectedWith(TokenRoomUnsupportedError);
+    });
+  }); // End token rooms describe
+
+  // --- Test Suite for close_room ---
+  describe("close_room", () => {
+    // Fresh creator so closeSettledRooms only sees rooms from this suite
+    const closer = Keypair.generate();
+    const closeFee = new BN(0.02 * LAMPORTS_PER_SOL);
+
+    const finishRoom = async (seed: string) => {
+        await client.createRoom(closer, seed, 2, closeFee);
+        await client.joinRoom(player1, closer.publicKey, seed);
+        await client.joinRoom(player2, closer.publicKey, seed);
+        await client.announceWinner(closer, seed, player1.publicKey);
+    };
+
+    before(async () => {
+        await airdropSol(closer.publicKey, 1 * LAMPORTS_PER_SOL);
+    });
+
+    it("should close a finished room, return its rent and log the result", async () => {
+        const seed = "cl-finished";
+        await finishRoom(seed);
+        const [roomPda] = client.getRoomPda(closer.publicKey, seed);
+        const [vaultPda] = client.getVaultPda(closer.publicKey, seed);
+        const roomRent = await getBalance(roomPda);
+        // Lamports sent to the vault after the payout are swept to the creator too
+        await provider.sendAndConfirm(new Transaction().add(
+            SystemProgram.transfer({ fromPubkey: provider.wallet.publicKey, toPubkey: vaultPda, lamports: zeroDataRent })
+        ));
+
+        const closerBefore = await getBalance(closer.publicKey);
+        const { signature } = await client.closeRoom(closer, seed, { emitResult: true });
+
+        expect(await program.account.roomData.fetchNullable(roomPda)).to.be.null;
+        expect(await getBalance(vaultPda)).to.equal(0);
+        expect(await getBalance(closer.publicKey)).to.equal(closerBefore + roomRent + zeroDataRent);
+
+        const tx = await connection.getTransaction(signature, { commitment: "confirmed", maxSupportedTransactionVersion: 0 });
+        const events = [...new anchor.EventParser(program.programId, program.coder).parseLogs(tx.meta.logMessages)];
+        expect(events).to.have.lengthOf(1);
+        expect(events[0].name).to.equal("roomResult");
+        expect(events[0].data.roomSeed).to.equal(seed);
+        expect(events[0].data.status).to.deep.equal({ finished: {} });
+        expect(events[0].data.playerCount).to.equal(2);
+        expect(events[0].data.winners.map((w: PublicKey) => w.toBase58())).to.deep.equal([player1.publicKey.toBase58()]);
+    });
+
+    it("should reject rooms that are not settled", async () => {
+        await client.createRoom(closer, "cl-open", 2, closeFee);
+        await expect(client.closeRoom(closer, "cl-open")).to.be.rejectedWith(RoomNotSettledError);
+
+        // A cancellation whose refunds stopped part way still owes players
+        const seed = "cl-partial";
+        await client.createRoom(closer, seed, 3, closeFee);
+        await client.joinRoom(player1, closer.publicKey, seed);
+        await client.joinRoom(player2, closer.publicKey, seed);
+        const [first] = await client.cancelRoomWithRefundsTransactions(closer, seed, { batchSize: 1 });
+        await first.send();
+        await expect(client.closeRoom(closer, seed)).to.be.rejectedWith(RoomNotSettledError);
+    });
+
+    it("should only let the creator close a room", async () => {
+        const seed = "cl-unauth";
+        await client.createRoom(closer, seed, 2, closeFee);
+        await client.cancelRoom(closer, seed);
+        try {
+            await program.methods
+                .closeRoom(seed, false)
+                .accountsPartial({
+                    creator: outsider.publicKey,
+                    roomData: client.getRoomPda(closer.publicKey, seed)[0],
+                    roomVault: client.getVaultPda(closer.publicKey, seed)[0],
+                    systemProgram: SystemProgram.programId,
+                })
+                .signers([outsider])
+                .rpc();
+            fail("Transaction should have failed because the signer is not the creator.");
+        } catch (err) {
+            checkError(err, 2006, 'ConstraintSeeds');
+        }
+    });
+
+    it("should bulk-close every settled room of a creator", async () => {
+        await finishRoom("cl-bulk-finished");
+        // cl-unauth (cancelled) is settled too; cl-open and cl-partial are not
+        const { rooms, signatures } = await client.closeSettledRooms(closer, { batchSize: 1 });
+
+        const closed = rooms.map((r) => r.toBase58()).sort();
+        expect(closed).to.deep.equal(
+            ["cl-bulk-finished", "cl-unauth"].map((seed) => client.getRoomPda(closer.publicKey, seed)[0].toBase58()).sort()
+        );
+        expect(signatures).to.have.lengthOf(2);
+        const left = await listRoomsByCreator(program, closer.publicKey);
+        expect(left.items.map((r) => r.account.roomSeed).sort()).to.deep.equal(["cl-open", "cl-partial"]);
+
+        expect((await client.closeSettledRooms(closer)).rooms).to.be.empty;
+    });
+  }); // End close_room describe
+
+  // --- Test Suite for room sizing and ticket rooms ---
+  describe("room sizing and ticket rooms", () => {
+    // Fresh creator so the rooms of this suite don't mix with the others
+    const host = Keypair.generate();
+    const ticketFee = new BN(0.01 * LAMPORTS_PER_SOL);
+    const ticketSeats = MAX_INLINE_PLAYERS + 50;
+    let ticketRent: number;
+
+    const toBase58 = (keys: PublicKey[]) => keys.map((k) => k.toBase58()).sort();
+
+    before(async () => {
+        await airdropSol(host.publicKey, 2 * LAMPORTS_PER_SOL);
+        ticketRent = await getRentExemption(connection, PLAYER_TICKET_SIZE);
+    });
+
+    it("should charge rent for the requested seats only", async () => {
+        const sizes = [2, 10, MAX_INLINE_PLAYERS, MAX_INLINE_PLAYERS + 1, MAX_PLAYERS_ALLOWED];
+        const rents: Record<number, number> = {};
+        for (const maxPlayers of sizes) {
+            // Same seed length for every size, so only the seats change the rent
+            const seed = `sz-${String(maxPlayers).padStart(5, "0")}`;
+            const { roomPda } = await client.createRoom(host, seed, maxPlayers, ticketFee);
+            const info = await connection.getAccountInfo(roomPda);
+            expect(info.data.length).to.equal(getRoomDataSize(seed, maxPlayers));
+            expect(info.lamports).to.equal(await getRentExemption(connection, info.data.length));
+            rents[maxPlayers] = info.lamports;
+        }
+
+        // Each inline seat costs the rent of one pubkey; ticket rooms cost the same at any size
+        const seatRent = (await getRentExemption(connection, 32)) - (await getRentExemption(connection, 0));
+        expect(rents[10] - rents[2]).to.equal(8 * seatRent);
+        expect(rents[MAX_INLINE_PLAYERS] - rents[2]).to.equal((MAX_INLINE_PLAYERS - 2) * seatRent);
+        expect(rents[2] - rents[MAX_INLINE_PLAYERS + 1]).to.equal(2 * seatRent);
+        expect(rents[MAX_PLAYERS_ALLOWED]).to.equal(rents[MAX_INLINE_PLAYERS + 1]);
+    });
+
+    it("should track ticket room players with PlayerTicket accounts", async () => {
+        const seed = "tr-main";
+        const { roomPda, vaultPda } = await client.createRoom(host, seed, ticketSeats, ticketFee);
+        const player1Before = await getBalance(player1.publicKey);
+        for (const player of [player1, player2, player3]) {
+            await client.joinRoom(player, host.publicKey, seed);
+        }
+
+        const room = await client.fetchRoomAt(roomPda);
+        expect(room.players).to.be.empty;
+        expect(room.ticketCount).to.equal(3);
+        expect(playerCount(room)).to.equal(3);
+        // The player pays the entry fee and the ticket's rent
+        expect(await getBalance(player1.publicKey)).to.equal(player1Before - ticketFee.toNumber() - ticketRent);
+        const ticket = await program.account.playerTicket.fetch(client.getTicketPda(roomPda, player1.publicKey)[0]);
+        expect(ticket.room.toBase58()).to.equal(roomPda.toBase58());
+        expect(ticket.player.toBase58()).to.equal(player1.publicKey.toBase58());
+        expect(toBase58(await listTicketHolders(program, roomPda))).to.deep.equal(toBase58([player1.publicKey, player2.publicKey, player3.publicKey]));
+        const joined = await listRoomsByPlayer(program, player3.publicKey, { pageSize: 100 });
+        expect(joined.items.map((r) => r.publicKey.toBase58())).to.include(roomPda.toBase58());
+
+        // The ticket already exists, so joining twice fails
+        await expect(client.joinRoom(player1, host.publicKey, seed)).to.be.rejected;
+
+        // Leaving closes the ticket, refunding its rent with the entry fee
+        const player3Before = await getBalance(player3.publicKey);
+        const { room: afterLeave } = await client.leaveRoom(player3, host.publicKey, seed);
+        expect(afterLeave.ticketCount).to.equal(2);
+        expect(await getBalance(player3.publicKey)).to.equal(player3Before + ticketFee.toNumber() + ticketRent);
+        expect(await connection.getAccountInfo(client.getTicketPda(roomPda, player3.publicKey)[0])).to.be.null;
+
+        // Winners prove they joined with their ticket
+        await client.startRoom(host, seed);
+        try {
+            await client.announceWinner(host, seed, outsider.publicKey);
+            fail("Transaction should have failed because the winner has no ticket.");
+        } catch (err) {
+            checkError(err, 3012, 'AccountNotInitialized');
+        }
+        await client.announceWinner(host, seed, player1.publicKey);
+        expect(await getBalance(vaultPda)).to.equal(0);
+
+        // close_room waits until every ticket is released, by anyone
+        await expect(client.closeRoom(host, seed)).to.be.rejectedWith(RoomNotSettledError);
+        const player2Before = await getBalance(player2.publicKey);
+        const { room: released } = await client.releaseTickets(outsider, host.publicKey, seed);
+        expect(released.ticketCount).to.equal(0);
+        expect(await getBalance(player2.publicKey)).to.equal(player2Before + ticketRent);
+        expect(await listTicketHolders(program, roomPda)).to.be.empty;
+        await client.closeRoom(host, seed);
+    });
+
+    it("should refund ticket rooms in batches of (ticket, player) pairs", async () => {
+        const seed = "tr-refund";
+        const { roomPda, vaultPda } = await client.createRoom(host, seed, ticketSeats, ticketFee);
+        const players = [player1, player2, player3];
+        for (const player of players) {
+            await client.joinRoom(player, host.publicKey, seed);
+        }
+        const before = await Promise.all(players.map((p) => getBalance(p.publicKey)));
+
+        const { room, signatures } = await client.cancelRoomWithRefunds(host, seed, { batchSize: 2 });
+
+        expect(signatures).to.have.lengthOf(2);
+        expect(room.status).to.deep.equal({ cancelled: {} });
+        expect(room.ticketCount).to.equal(0);
+        for (const [i, player] of players.entries()) {
+            expect(await getBalance(player.publicKey)).to.equal(before[i] + ticketFee.toNumber() + ticketRent);
+        }
+        expect(await getBalance(vaultPda)).to.equal(0);
+        expect(await listTicketHolders(program, roomPda)).to.be.empty;
+        await client.closeRoom(host, seed);
+    });
+
+    it("should reject tickets of another room", async () => {
+        const [seedA, seedB] = ["tr-other-a", "tr-other-b"];
+        await client.createRoom(host, seedA, ticketSeats, ticketFee);
+        await client.createRoom(host, seedB, ticketSeats, ticketFee);
+        await client.joinRoom(player1, host.publicKey, seedA);
+        await client.joinRoom(player2, host.publicKey, seedB);
+        const [roomA] = client.getRoomPda(host.publicKey, seedA);
+        const [roomB] = client.getRoomPda(host.publicKey, seedB);
+
+        try {
+            await program.methods
+                .cancelRoomWithRefunds(seedA)
+                .accountsPartial({ creator: host.publicKey, roomData: roomA, roomVault: client.getVaultPda(host.publicKey, seedA)[0], systemProgram: SystemProgram.programId, mint: null, vaultTokenAccount: null, creatorTokenAccount: null, tokenProgram: null })
+                .remainingAccounts([client.getTicketPda(roomB, player2.publicKey)[0], player2.publicKey].map((pubkey) => ({ pubkey, isWritable: true, isSigner: false })))
+                .signers([host])
+                .rpc();
+            fail("Transaction should have failed because the ticket belongs to another room.");
+        } catch (err) {
+            checkError(err, 6035, 'PlayerTicketMismatch');
+        }
+
+        await client.cancelRoomWithRefunds(host, seedA);
+        await client.cancelRoomWithRefunds(host, seedB);
+    });
+  }); // End room sizing and ticket rooms describe
+
+  // --- Test Suite for private rooms ---
+  describe("private rooms", () => {
+    const privateFee = new BN(0.01 * LAMPORTS_PER_SOL);
+
+    it("should only admit allowlisted players", async () => {
+        const seed = "pv-allowlist";
+        const allowlist = [player1.publicKey, player2.publicKey];
+        const { roomPda, room } = await client.createRoom(creator, seed, 3, privateFee, { allowlist });
+        expect(room.access).to.deep.equal({ allowlist: {} });
+        expect(room.allowlist.map((p) => p.toBase58())).to.deep.equal(allowlist.map((p) => p.toBase58()));
+        const info = await connection.getAccountInfo(roomPda);
+        expect(info.data.length).to.equal(getRoomDataSize(seed, 3, allowlist.length));
+
+        await client.joinRoom(player1, creator.publicKey, seed);
+        await expect(client.joinRoom(outsider, creator.publicKey, seed)).to.be.rejectedWith(PlayerNotInvitedError);
+        const { room: joined } = await client.joinRoom(player2, creator.publicKey, seed);
+        expect(joined.players.map((p) => p.toBase58())).to.deep.equal(allowlist.map((p) => p.toBase58()));
+        await client.cancelRoomWithRefunds(creator, seed);
+    });
+
+    it("should reject invalid allowlists", async () => {
+        await expect(client.createRoom(creator, "pv-empty", 3, privateFee, { allowlist: [] })).to.be.rejectedWith(InvalidAllowlistError);
+        await expect(
+            client.createRoom(creator, "pv-both", 3, privateFee, { allowlist: [player1.publicKey], inviteOnly: true })
+        ).to.be.rejectedWith(InvalidAllowlistError);
+    });
+
+    it("should sign and verify invites offline", async () => {
+        const [roomPda] = client.getRoomPda(creator.publicKey, "pv-offline");
+        const invite = signInvite(creator, roomPda, player1.publicKey);
+        expect(inviteMessage(roomPda, player1.publicKey)).to.have.lengthOf(64);
+        expect(verifyInvite(invite, creator.publicKey, roomPda, player1.publicKey)).to.be.true;
+        expect(verifyInvite(invite, creator.publicKey, roomPda, player2.publicKey)).to.be.false;
+        expect(verifyInvite(invite, outsider.publicKey, roomPda, player1.publicKey)).to.be.false;
+        expect(verifyInvite(new Uint8Array(64), creator.publicKey, roomPda, player1.publicKey)).to.be.false;
+    });
+
+    it("should only admit players with an invite from the creator", async () => {
+        const seed = "pv-invite";
+        const { roomPda, vaultPda, room } = await client.createRoom(creator, seed, 3, privateFee, { inviteOnly: true });
+        expect(room.access).to.deep.equal({ invite: {} });
+
+        // No invite, or an invite signed by someone else
+        await expect(client.joinRoom(player1, creator.publicKey, seed)).to.be.rejectedWith(PlayerNotInvitedError);
+        const forged = signInvite(outsider, roomPda, player1.publicKey);
+        await expect(client.joinRoom(player1, creator.publicKey, seed, { invite: forged })).to.be.rejectedWith(PlayerNotInvitedError);
+
+        const invite = signInvite(creator, roomPda, player1.publicKey);
+        const { room: joined } = await client.joinRoom(player1, creator.publicKey, seed, { invite });
+        expect(joined.players.map((p) => p.toBase58())).to.deep.equal([player1.publicKey.toBase58()]);
+
+        // Player 1's invite, verified as such, does not let player 2 in
+        try {
+            await program.methods.joinRoom(seed, null)
+                .accountsPartial({
+                    player: player2.publicKey,
+                    roomData: roomPda,
+                    roomVault: vaultPda,
+                    systemProgram: SystemProgram.programId,
+                    mint: null,
+                    playerTokenAccount: null,
+                    vaultTokenAccount: null,
+                    tokenProgram: null,
+                    playerTicket: null,
+                    instructionsSysvar: anchor.web3.SYSVAR_INSTRUCTIONS_PUBKEY,
+                })
+                .preInstructions([inviteInstruction(creator.publicKey, roomPda, player1.publicKey, invite)])
+                .signers([player2])
+                .rpc();
+            fail("Transaction should have failed because the invite is for another player.");
+        } catch (err) {
+            checkError(err, 6037, 'PlayerNotInvited');
+        }
+        await client.cancelRoomWithRefunds(creator, seed);
+    });
+  }); // End private rooms describe
+
+  // --- Test Suite for refereed rooms ---
+  describe("refereed rooms", () => {
+    const refFee = new BN(0.02 * LAMPORTS_PER_SOL);
+    const referees = [Keypair.generate(), Keypair.generate(), Keypair.generate()];
+    const [ref1, ref2, ref3] = referees;
+
+    const setupRefereedRoom = async (seed: string, refs: Keypair[], refereeThreshold?: number) => {
+        const created = await client.createRoom(creator, seed, 2, refFee, { referees: refs.map((r) => r.publicKey), refereeThreshold });
+        await client.joinRoom(player1, creator.publicKey, seed);
+        await client.joinRoom(player2, creator.publicKey, seed);
+        return created;
+    };
+
+    it("should only let the referee settle a single-referee room", async () => {
+        const seed = "ref-single";
+        const { roomPda, vaultPda, room } = await setupRefereedRoom(seed, [ref1]);
+        expect(room.referees.map((r) => r.toBase58())).to.deep.equal([ref1.publicKey.toBase58()]);
+        expect(room.refereeThreshold).to.equal(1);
+        const info = await connection.getAccountInfo(roomPda);
+        expect(info.data.length).to.equal(getRoomDataSize(seed, 2, 0, 1));
+
+        // The creator plays no part in settling, and neither does anyone else
+        await expect(client.announceWinner(creator, seed, player1.publicKey)).to.be.rejectedWith(NotARefereeError);
+        await expect(
+            client.announceWinner(outsider, seed, player1.publicKey, { creator: creator.publicKey })
+        ).to.be.rejectedWith(NotARefereeError);
+
+        const config = await client.fetchConfig();
+        const expected = computePayout(await getBalance(vaultPda), zeroDataRent, config.creatorFeeBasisPoints, config.serviceFeeBasisPoints);
+        const creatorBefore = await getBalance(creator.publicKey);
+        const { room: settled } = await client.announceWinner(ref1, seed, player1.publicKey, { creator: creator.publicKey });
+        expect(settled.status).to.deep.equal({ finished: {} });
+        expect(settled.winners.map((w) => w.toBase58())).to.deep.equal([player1.publicKey.toBase58()]);
+        // The creator still earns the creator fee without paying any transaction fee
+        expect(await getBalance(creator.publicKey)).to.equal(creatorBefore + expected.creatorFee.toNumber());
+    });
+
+    it("should require enough referees to approve the exact result", async () => {
+        const seed = "ref-2of3";
+        await setupRefereedRoom(seed, referees, 2);
+
+        await expect(
+            client.announceWinner(ref1, seed, player1.publicKey, { creator: creator.publicKey })
+        ).to.be.rejectedWith(NotEnoughApprovalsError);
+
+        // An approval for another winner does not count
+        await client.approveResult(ref2, creator.publicKey, seed, soleWinner(player2.publicKey));
+        await expect(
+            client.announceWinner(ref1, seed, player1.publicKey, { creator: creator.publicKey })
+        ).to.be.rejectedWith(NotEnoughApprovalsError);
+
+        // Approving again replaces the referee's earlier approval
+        const { signature, room } = await client.approveResult(ref2, creator.publicKey, seed, soleWinner(player1.publicKey));
+        expect(room.approvals).to.have.lengthOf(1);
+        expect(approvalStatus(room, soleWinner(player1.publicKey), ref1.publicKey)).to.deep.include({ missing: 0 });
+        expect(approvalStatus(room, soleWinner(player2.publicKey), ref1.publicKey)).to.deep.include({ missing: 1 });
+        const [approved] = await fetchTransactionEvents(program, signature);
+        expect(approved.name).to.equal("resultApproved");
+        expect(approved.data).to.deep.include({ approvals: 1 });
+
+        const { room: settled } = await client.announceWinner(ref1, seed, player1.publicKey, { creator: creator.publicKey });
+        expect(settled.winners.map((w) => w.toBase58())).to.deep.equal([player1.publicKey.toBase58()]);
+    });
+
+    it("should settle with approvals co-signed in the settling transaction", async () => {
+        const seed = "ref-cosign";
+        await setupRefereedRoom(seed, [ref1, ref2]);
+        const shares = [
+            { winner: player2.publicKey, shareBasisPoints: 7000 },
+            { winner: player1.publicKey, shareBasisPoints: 3000 },
+        ];
+
+        const { room } = await client.announceWinners(ref1, seed, shares, { creator: creator.publicKey, approvers: [ref2] });
+        expect(room.status).to.deep.equal({ finished: {} });
+        expect(room.winners.map((w) => w.toBase58())).to.deep.equal([player2.publicKey.toBase58(), player1.publicKey.toBase58()]);
+    });
+
+    it("should collect co-signatures on a serialized settlement", async () => {
+        const seed = "ref-offline";
+        const { roomPda } = await setupRefereedRoom(seed, [ref1, ref2, ref3], 3);
+
+        // Referee 1 settles; the other two only ever see the serialized transaction
+        const tx = await client.announceWinnerTransaction(ref1, seed, player2.publicKey, {
+            creator: creator.publicKey,
+            approvers: [ref2.publicKey, ref3.publicKey],
+        });
+        let serialized = await tx.serialize();
+        serialized = cosignTransaction(serialized, ref2);
+        serialized = cosignTransaction(serialized, ref3);
+        const signed = await provider.wallet.signTransaction(Transaction.from(Buffer.from(serialized, "base64")));
+        const signature = await connection.sendRawTransaction(signed.serialize());
+        await connection.confirmTransaction(signature, "confirmed");
+
+        const room = await client.fetchRoomAt(roomPda);
+        expect(room.winners.map((w) => w.toBase58())).to.deep.equal([player2.publicKey.toBase58()]);
+        expect(room.approvals.map((a) => a.referee.toBase58()).sort()).to.deep.equal([ref2, ref3].map((r) => r.publicKey.toBase58()).sort());
+    });
+
+    it("should reject approvals from outsiders and before the room starts", async () => {
+        const seed = "ref-approve";
+        await client.createRoom(creator, seed, 3, refFee, { referees: [ref1.publicKey] });
+        await expect(
+            client.approveResult(ref1, creator.publicKey, seed, soleWinner(player1.publicKey))
+        ).to.be.rejectedWith(RoomNotInProgressError);
+        await client.joinRoom(player1, creator.publicKey, seed);
+        await client.startRoom(creator, seed);
+        await expect(
+            client.approveResult(outsider, creator.publicKey, seed, soleWinner(player1.publicKey))
+        ).to.be.rejectedWith(NotARefereeError);
+        await expect(
+            client.approveResult(ref1, creator.publicKey, seed, [{ winner: player1.publicKey, shareBasisPoints: 5000 }])
+        ).to.be.rejectedWith(InvalidPrizeSplitError);
+        await client.announceWinner(ref1, seed, player1.publicKey, { creator: creator.publicKey });
+    });
+
+    it("should reject invalid referee sets", async () => {
+        const keys = referees.map((r) => r.publicKey);
+        const invalid: [string, PublicKey[], number | undefined][] = [
+            ["ref-zero", keys, 0],
+            ["ref-over", keys.slice(0, 2), 3],
+            ["ref-dup", [keys[0], keys[0]], 1],
+            ["ref-many", Array.from({ length: MAX_REFEREES + 1 }, () => Keypair.generate().publicKey), 1],
+            ["ref-none", [], 1],
+        ];
+        for (const [seed, refs, refereeThreshold] of invalid) {
+            await expect(
+                client.createRoom(creator, seed, 2, refFee, { referees: refs, refereeThreshold })
+            ).to.be.rejectedWith(InvalidRefereesError);
+        }
+    });
+  }); // End refereed rooms describe
+
+  // --- Test Suite for dispute windows and prize claims ---
+  describe("dispute window", () => {
+    const dwFee = new BN(0.02 * LAMPORTS_PER_SOL);
+    // Long enough to never close during the run; resolving a dispute makes the prize claimable at once
+    const window = 3600;
+    const settleDeadline = () => Math.floor(Date.now() / 1000) + 2 * window;
+
+    const setupDisputedRoom = async (seed: string, options: { referees?: PublicKey[] } = {}) => {
+        const created = await client.createRoom(creator, seed, 2, dwFee, { disputeWindow: window, settleDeadline: settleDeadline(), ...options });
+        await client.joinRoom(player1, creator.publicKey, seed);
+        await client.joinRoom(player2, creator.publicKey, seed);
+        return created;
+    };
+
+    it("should hold the result, freeze it on dispute and pay out the resolution", async () => {
+        const seed = "dw-resolve";
+        const { vaultPda, room: created } = await setupDisputedRoom(seed);
+        expect(created.disputeWindow).to.equal(window);
+
+        // Announcing only records the result; the prize stays in the vault
+        const vaultBefore = await getBalance(vaultPda);
+        const { signature, room: pending } = await client.announceWinner(creator, seed, player1.publicKey);
+        expect(pending.status).to.deep.equal({ pendingPayout: {} });
+        expect(pending.winners.map((w) => w.toBase58())).to.deep.equal([player1.publicKey.toBase58()]);
+        expect(pending.claimableAt.toNumber()).to.be.greaterThan(Date.now() / 1000 + window - 60);
+        expect(isDisputable(pending)).to.be.true;
+        expect(isClaimable(pending)).to.be.false;
+        expect(await getBalance(vaultPda)).to.equal(vaultBefore);
+        const events = await fetchTransactionEvents(program, signature);
+        expect(events.map((e) => e.name)).to.deep.equal(["resultPending"]);
+
+        await expect(client.claimPrize(outsider, creator.publicKey, seed)).to.be.rejectedWith(PayoutNotClaimableError);
+        await expect(client.disputeResult(outsider, creator.publicKey, seed)).to.be.rejectedWith(PlayerNotInRoomError);
+        await expect(
+            client.resolveDispute(creator, seed, soleWinner(player2.publicKey))
+        ).to.be.rejectedWith(RoomNotDisputedError);
+
+        const { room: disputed } = await client.disputeResult(player2, creator.publicKey, seed);
+        expect(disputed.status).to.deep.equal({ disputed: {} });
+        expect(disputed.disputedBy.toBase58()).to.equal(player2.publicKey.toBase58());
+        await expect(client.claimPrize(outsider, creator.publicKey, seed)).to.be.rejectedWith(PayoutNotClaimableError);
+
+        // Only the creator resolves a room without referees
+        await expect(
+            client.resolveDispute(outsider, seed, soleWinner(player2.publicKey), { creator: creator.publicKey })
+        ).to.be.rejectedWith(UnauthorizedError);
+        const resolved = await client.resolveDispute(creator, seed, soleWinner(player2.publicKey));
+        expect(resolved.room.status).to.deep.equal({ pendingPayout: {} });
+        expect(resolved.room.winners.map((w) => w.toBase58())).to.deep.equal([player2.publicKey.toBase58()]);
+        expect(isClaimable(resolved.room)).to.be.true;
+        const [resolvedEvent] = await fetchTransactionEvents(program, resolved.signature);
+        expect(resolvedEvent.name).to.equal("disputeResolved");
+        expect(resolvedEvent.data).to.deep.include({ upheld: false });
+
+        // The resolution is final
+        await expect(client.disputeResult(player1, creator.publicKey, seed)).to.be.rejectedWith(DisputeWindowClosedError);
+
+        const config = await client.fetchConfig();
+        const expected = computePayout(await getBalance(vaultPda), zeroDataRent, config.creatorFeeBasisPoints, config.serviceFeeBasisPoints);
+        const winnerBefore = await getBalance(player2.publicKey);
+        const claimed = await client.claimPrize(outsider, creator.publicKey, seed);
+        expect(claimed.room.status).to.deep.equal({ finished: {} });
+        expect(await getBalance(player2.publicKey)).to.equal(winnerBefore + expected.winnerAmount.toNumber());
+        expect(await getBalance(vaultPda)).to.equal(0);
+
+        const receipt = await fetchPayoutReceipt(program, claimed.signature);
+        expect(receipt.kind).to.equal("claimPrize");
+        expect(receipt.recipients.winners.map((w) => w.toBase58())).to.deep.equal([player2.publicKey.toBase58()]);
+        expect(receipt.winnerAmount.toNumber()).to.equal(expected.winnerAmount.toNumber());
+    });
+
+    it("should let the referees resolve a dispute once enough of them approve", async () => {
+        const seed = "dw-referees";
+        const [ref1, ref2] = [Keypair.generate(), Keypair.generate()];
+        await setupDisputedRoom(seed, { referees: [ref1.publicKey, ref2.publicKey] });
+        await client.announceWinner(ref1, seed, player1.publicKey, { creator: creator.publicKey, approvers: [ref2] });
+        await client.disputeResult(player2, creator.publicKey, seed);
+
+        await expect(
+            client.resolveDispute(ref1, seed, soleWinner(player2.publicKey), { creator: creator.publicKey })
+        ).to.be.rejectedWith(NotEnoughApprovalsError);
+        await client.approveResult(ref2, creator.publicKey, seed, soleWinner(player2.publicKey));
+        const { room } = await client.resolveDispute(ref1, seed, soleWinner(player2.publicKey), { creator: creator.publicKey });
+        expect(room.winners.map((w) => w.toBase58())).to.deep.equal([player2.publicKey.toBase58()]);
+
+        const { room: claimed } = await client.claimPrize(player2, creator.publicKey, seed);
+        expect(claimed.status).to.deep.equal({ finished: {} });
+    });
+
+    it("should reject dispute windows over the maximum and disputes of paid rooms", async () => {
+        await expect(
+            client.createRoom(creator, "dw-too-long", 2, dwFee, { disputeWindow: MAX_DISPUTE_WINDOW + 1, settleDeadline: settleDeadline() })
+        ).to.be.rejectedWith(InvalidDisputeWindowError);
+        // Without a settle deadline a disputed result could never be refunded
+        await expect(
+            client.createRoom(creator, "dw-no-deadline", 2, dwFee, { disputeWindow: window })
+        ).to.be.rejectedWith(InvalidDisputeWindowError);
+
+        // Without a dispute window the announcement pays out right away
+        const seed = "dw-none";
+        await client.createRoom(creator, seed, 2, dwFee);
+        await client.joinRoom(player1, creator.publicKey, seed);
+        await client.joinRoom(player2, creator.publicKey, seed);
+        const { room } = await client.announceWinner(creator, seed, player1.publicKey);
+        expect(room.status).to.deep.equal({ finished: {} });
+        await expect(client.disputeResult(player2, creator.publicKey, seed)).to.be.rejectedWith(DisputeWindowClosedError);
+    });
+  }); // End dispute window describe
+
+  // --- Test Suite for commit-reveal raffles ---
+  describe("raffle rooms", () => {
+    const raffleFee = new BN(0.02 * LAMPORTS_PER_SOL);
+    // Long enough to never close during the run; draws happen once everyone revealed
+    const revealWindow = 3600;
+
+    const xor = (secrets: Uint8Array[]) =>
+        secrets.reduce((acc, secret) => acc.map((byte, i) => byte ^ secret[i]), new Uint8Array(32));
+
+    it("should draw the winner from the revealed secrets and the draw slot's hash", async () => {
+        const seed = "rf-draw";
+        const { roomPda, vaultPda } = await client.createRoom(creator, seed, 3, raffleFee, { revealWindow });
+        const players = [player1, player2, player3];
+        const secrets = players.map(() => generateRaffleSecret());
+
+        await expect(client.joinRoom(player1, creator.publicKey, seed)).to.be.rejectedWith(MissingCommitmentError);
+        for (const [i, p] of players.entries()) {
+            await client.joinRoom(p, creator.publicKey, seed, {
+                raffleCommitment: raffleCommitment(roomPda, p.publicKey, secrets[i]),
+            });
+        }
+        let room = await client.fetchRoomAt(roomPda);
+        expect(isRaffle(room)).to.be.true;
+        expect(room.status).to.deep.equal({ inProgress: {} });
+        expect(room.revealDeadline.toNumber()).to.be.greaterThan(Date.now() / 1000 + revealWindow - 60);
+        expect(room.drawSlot).to.be.null;
+        expect(isDrawable(room, await connection.getSlot())).to.be.false;
+
+        // Nobody picks the winner of a raffle
+        await expect(client.announceWinner(creator, seed, player1.publicKey)).to.be.rejectedWith(RaffleDrawOnlyError);
+        await expect(client.drawWinner(outsider, creator.publicKey, seed)).to.be.rejectedWith(RevealsPendingError);
+
+        // A commitment only opens with its own secret, for its own player
+        await expect(
+            client.revealCommitment(player1, creator.publicKey, seed, secrets[1])
+        ).to.be.rejectedWith(CommitmentMismatchError);
+        await expect(
+            client.revealCommitment(outsider, creator.publicKey, seed, secrets[0])
+        ).to.be.rejectedWith(PlayerNotInRoomError);
+
+        let revealSlot = 0;
+        for (const [i, p] of players.entries()) {
+            const { signature } = await client.revealCommitment(p, creator.publicKey, seed, secrets[i]);
+            const [revealed, ...scheduled] = await fetchTransactionEvents(program, signature);
+            expect(revealed.name).to.equal("commitmentRevealed");
+            expect(revealed.data).to.deep.include({ revealed: i + 1, playerCount: 3 });
+            // Only the last reveal schedules the draw
+            expect(scheduled.map((e) => e.name)).to.deep.equal(i === players.length - 1 ? ["drawScheduled"] : []);
+            revealSlot = (await connection.getTransaction(signature, { commitment: "confirmed", maxSupportedTransactionVersion: 0 }))!.slot;
+        }
+        await expect(
+            client.revealCommitment(player1, creator.publicKey, seed, secrets[0])
+        ).to.be.rejectedWith(AlreadyRevealedError);
+        room = await client.fetchRoomAt(roomPda);
+        expect(Buffer.from(room.entropy).equals(Buffer.from(xor(secrets)))).to.be.true;
+        // The draw uses the hash of a slot that was still ahead when the last secret was revealed
+        const drawSlot = room.drawSlot.toNumber();
+        expect(drawSlot).to.equal(revealSlot + DRAW_DELAY_SLOTS);
+        while ((await connection.getSlot()) <= drawSlot + 1) {
+            await new Promise((resolve) => setTimeout(resolve, 250));
+        }
+        expect(isDrawable(room, await connection.getSlot())).to.be.true;
+
+        const drawn = await client.drawWinner(outsider, creator.publicKey, seed);
+        expect(drawn.room.status).to.deep.equal({ pendingPayout: {} });
+        expect(isClaimable(drawn.room)).to.be.true;
+        const [event] = await fetchTransactionEvents(program, drawn.signature);
+        expect(event.name).to.equal("winnerDrawn");
+        const draw = event.data as PalapaEvents["winnerDrawn"];
+        expect(draw.candidates).to.equal(3);
+        expect(draw.slot.toNumber()).to.be.at.least(drawSlot);
+        expect(Buffer.from(draw.entropy).equals(Buffer.from(xor(secrets)))).to.be.true;
+
+        // Anyone can check the draw off-chain
+        const winner = drawRaffleWinner(roomPda, raffleCandidates(room), xor(secrets), draw.slotHash);
+        expect(draw.winner.toBase58()).to.equal(winner.toBase58());
+        expect(drawn.room.winners.map((w) => w.toBase58())).to.deep.equal([winner.toBase58()]);
+
+        const config = await client.fetchConfig();
+        const expected = computePayout(await getBalance(vaultPda), zeroDataRent, config.creatorFeeBasisPoints, config.serviceFeeBasisPoints);
+        const winnerBefore = await getBalance(winner);
+        const { room: claimed } = await client.claimPrize(outsider, creator.publicKey, seed);
+        expect(claimed.status).to.deep.equal({ finished: {} });
+        expect(await getBalance(winner)).to.equal(winnerBefore + expected.winnerAmount.toNumber());
+    });
+
+    it("should reject invalid raffles and raffle calls on other rooms", async () => {
+        const invalid: [string, number, { disputeWindow?: number; referees?: PublicKey[]; revealWindow: number }][] = [
+            ["rf-too-long", 2, { revealWindow: MAX_REVEAL_WINDOW + 1 }],
+            ["rf-disputes", 2, { revealWindow, disputeWindow: 60 }],
+            ["rf-referees", 2, { revealWindow, referees: [outsider.publicKey] }],
+            ["rf-tickets", MAX_INLINE_PLAYERS + 1, { revealWindow }],
+        ];
+        for (const [seed, maxPlayers, options] of invalid) {
+            await expect(
+                client.createRoom(creator, seed, maxPlayers, raffleFee, options)
+            ).to.be.rejectedWith(InvalidRaffleError);
+        }
+
+        const seed = "rf-none";
+        const { roomPda } = await client.createRoom(creator, seed, 2, raffleFee);
+        const secret = generateRaffleSecret();
+        await expect(
+            client.joinRoom(player1, creator.publicKey, seed, {
+                raffleCommitment: raffleCommitment(roomPda, player1.publicKey, secret),
+            })
+        ).to.be.rejectedWith(MissingCommitmentError);
+        await client.joinRoom(player1, creator.publicKey, seed);
+        await client.joinRoom(player2, creator.publicKey, seed);
+        await expect(client.revealCommitment(player1, creator.publicKey, seed, secret)).to.be.rejectedWith(NotARaffleError);
+        await expect(client.drawWinner(outsider, creator.publicKey, seed)).to.be.rejectedWith(NotARaffleError);
+        await client.announceWinner(creator, seed, player1.publicKey);
+    });
+  }); // End raffle rooms describe
+
+
+  // --- Test Suite for add_to_pot ---
+  describe("sponsored pots", () => {
+    const sponsorFee = new BN(0.02 * LAMPORTS_PER_SOL);
+    const contribution = new BN(0.05 * LAMPORTS_PER_SOL);
+
+    it("should add sponsorship to the pot and pay fee-exempt sponsorship without fees", async () => {
+        const seed = "sp-payout";
+        const { vaultPda } = await client.createRoom(creator, seed, 2, sponsorFee);
+        await client.addToPot(outsider, creator.publicKey, seed, contribution);
+        await client.addToPot(outsider, creator.publicKey, seed, contribution, { feeExempt: true });
+        // A sponsor's contributions with the same exemption add up
+        const { room, signature } = await client.addToPot(outsider, creator.publicKey, seed, contribution);
+
+        expect(room.sponsors).to.have.lengthOf(2);
+        expect(room.sponsors[0].amount.toNumber()).to.equal(2 * contribution.toNumber());
+        expect(room.sponsors[0].feeExempt).to.be.false;
+        expect(room.sponsors[1].feeExempt).to.be.true;
+        expect(sponsoredTotal(room).toNumber()).to.equal(3 * contribution.toNumber());
+        expect(feeExemptTotal(room).toNumber()).to.equal(contribution.toNumber());
+        expect(await getBalance(vaultPda)).to.equal(zeroDataRent + 3 * contribution.toNumber());
+        const [event] = await fetchTransactionEvents(program, signature);
+        expect(event.name).to.equal("potContributed");
+        expect((event.data as PalapaEvents["potContributed"]).sponsoredTotal.toNumber()).to.equal(3 * contribution.toNumber());
+
+        const config = await client.fetchConfig();
+        const pot = advertisedPot(room, config.creatorFeeBasisPoints, config.serviceFeeBasisPoints);
+        expect(pot.entryFees.toNumber()).to.equal(2 * sponsorFee.toNumber());
+        expect(pot.total.toNumber()).to.equal(2 * sponsorFee.toNumber() + 3 * contribution.toNumber());
+
+        await client.joinRoom(player1, creator.publicKey, seed);
+        await client.joinRoom(player2, creator.publicKey, seed);
+        const expected = computePayout(await getBalance(vaultPda), zeroDataRent, config.creatorFeeBasisPoints, config.serviceFeeBasisPoints, feeExemptTotal(room));
+        // Fees are only taken on the entry fees and the sponsorship that is not exempt
+        const charged = computePayout(await getBalance(vaultPda) - contribution.toNumber(), zeroDataRent, config.creatorFeeBasisPoints, config.serviceFeeBasisPoints);
+        expect(expected.creatorFee.eq(charged.creatorFee)).to.be.true;
+        expect(expected.serviceFee.eq(charged.serviceFee)).to.be.true;
+        // The full room pays out what it advertised
+        expect(expected.winnerShare.eq(pot.prize)).to.be.true;
+
+        const winnerBefore = await getBalance(player1.publicKey);
+        const serviceBefore = await getBalance(config.serviceWallet);
+        const { room: finished } = await client.announceWinner(creator, seed, player1.publicKey);
+        expect(finished.status).to.deep.equal({ finished: {} });
+        expect(await getBalance(player1.publicKey)).to.equal(winnerBefore + expected.winnerAmount.toNumber());
+        expect(await getBalance(config.serviceWallet)).to.equal(serviceBefore + expected.serviceFee.toNumber());
+        expect(await getBalance(vaultPda)).to.equal(0);
+    });
+
+    it("should return contributions to their sponsors when the room is cancelled", async () => {
+        const seed = "sp-cancel";
+        await client.createRoom(creator, seed, 3, sponsorFee);
+        await client.joinRoom(player1, creator.publicKey, seed);
+        await client.addToPot(outsider, creator.publicKey, seed, contribution);
+        await client.addToPot(player2, creator.publicKey, seed, contribution, { feeExempt: true });
+
+        const outsiderBefore = await getBalance(outsider.publicKey);
+        const player1Before = await getBalance(player1.publicKey);
+        const player2Before = await getBalance(player2.publicKey);
+        const { room, signatures } = await client.cancelRoomWithRefunds(creator, seed);
+
+        expect(room.status).to.deep.equal({ cancelled: {} });
+        expect(room.sponsors).to.be.empty;
+        expect(await getBalance(outsider.publicKey)).to.equal(outsiderBefore + contribution.toNumber());
+        expect(await getBalance(player2.publicKey)).to.equal(player2Before + contribution.toNumber());
+        expect(await getBalance(player1.publicKey)).to.equal(player1Before + sponsorFee.toNumber());
+        const events = await fetchTransactionEvents(program, signatures[0]);
+        expect(events.map((e) => e.name)).to.deep.equal(["sponsorRefunded", "sponsorRefunded", "roomCancelled"]);
+        await expect(client.addToPot(outsider, creator.publicKey, seed, contribution)).to.be.rejectedWith(RoomNotSponsorableError);
+
+        // `cancel_room` returns them from rooms nobody joined too
+        const emptySeed = "sp-cancel-empty";
+        await client.createRoom(creator, emptySeed, 2, sponsorFee);
+        await client.addToPot(outsider, creator.publicKey, emptySeed, contribution);
+        const sponsorBefore = await getBalance(outsider.publicKey);
+        const { signature } = await client.cancelRoom(creator, emptySeed);
+        expect(await getBalance(outsider.publicKey)).to.equal(sponsorBefore + contribution.toNumber());
+        const receipt = await fetchPayoutReceipt(program, signature);
+        expect(receipt.sponsorRefunds.toNumber()).to.equal(contribution.toNumber());
+        expect(receipt.creatorRefund.toNumber()).to.equal(zeroDataRent);
+        expect(receipt.recipients.sponsors?.map((s) => s.toBase58())).to.deep.equal([outsider.publicKey.toBase58()]);
+    });
+
+    it("should reject empty contributions, too many sponsors and refunds that skip them", async () => {
+        const seed = "sp-limits";
+        const { roomPda, vaultPda } = await client.createRoom(creator, seed, 2, sponsorFee);
+        await expect(client.addToPot(outsider, creator.publicKey, seed, 0)).to.be.rejectedWith(InvalidContributionError);
+
+        const sponsors = [creator, player1, player2, player3, outsider];
+        expect(sponsors).to.have.lengthOf(MAX_SPONSORS);
+        for (const sponsor of sponsors) await client.addToPot(sponsor, creator.publicKey, seed, 1000);
+        await expect(
+            client.addToPot(outsider, creator.publicKey, seed, 1000, { feeExempt: true })
+        ).to.be.rejectedWith(TooManySponsorsError);
+
+        await client.joinRoom(player1, creator.publicKey, seed);
         try {
-            await program.methods.cancelRoom(cancelSeedFinished)
-                .accountsPartial({ creator: creatorKey, roomData: roomPda, roomVault: vaultPda, systemProgram: SystemProgram.programId })
+            await program.methods
+                .cancelRoomWithRefunds(seed)
+                .accountsPartial({ creator: creator.publicKey, roomData: roomPda, roomVault: vaultPda, systemProgram: SystemProgram.programId, mint: null, vaultTokenAccount: null, creatorTokenAccount: null, tokenProgram: null })
+                .remainingAccounts([{ pubkey: player1.publicKey, isWritable: true, isSigner: false }])
                 .signers([creator])
                 .rpc();
-            fail("Transaction should have failed because room is Finished.");
+            fail("Transaction should have failed because the sponsor accounts are missing.");
         } catch (err) {
-            checkError(err, 6012, 'CannotCancelRoomState');
+            checkError(err, 6059, 'SponsorAccountMismatch');
         }
+        await client.cancelRoomWithRefunds(creator, seed);
     });
-  }); // End cancel_room describe
+  }); // End sponsored pots describe
+
+  // --- Test Suite for program events ---
+  describe("room events", () => {
+    const eventFee = new BN(0.03 * LAMPORTS_PER_SOL + 11);
+    const keys = (list: PublicKey[]) => list.map((k) => k.toBase58());
+    const eventsOf = async (signature: TransactionSignature) => fetchTransactionEvents(program, signature);
+
+    it("should emit RoomCreated, PlayerJoined and RoomStarted when the room fills", async () => {
+        const seed = "ev-fill";
+        const { signature, roomPda } = await client.createRoom(creator, seed, 2, eventFee);
+        const [created] = await eventsOf(signature);
+        expect(created.name).to.equal("roomCreated");
+        if (created.name !== "roomCreated") return;
+        expect(created.data.room.equals(roomPda)).to.be.true;
+        expect(created.data.creator.equals(creator.publicKey)).to.be.true;
+        expect(created.data.roomSeed).to.equal(seed);
+        expect(created.data.maxPlayers).to.equal(2);
+        expect(created.data.entryFee.eq(eventFee)).to.be.true;
+        expect(created.data.mint).to.be.null;
+        expect(created.data.access).to.deep.equal({ public: {} });
+
+        const first = await eventsOf((await client.joinRoom(player1, creator.publicKey, seed)).signature);
+        expect(first.map((e) => e.name)).to.deep.equal(["playerJoined"]);
+        expect(first[0].data).to.deep.include({ playerCount: 1 });
+
+        const second = await eventsOf((await client.joinRoom(player2, creator.publicKey, seed)).signature);
+        expect(second.map((e) => e.name)).to.deep.equal(["playerJoined", "roomStarted"]);
+        expect(keys([(second[0].data as PalapaEvents["playerJoined"]).player])).to.deep.equal(keys([player2.publicKey]));
+        expect(second[1].data).to.deep.include({ playerCount: 2, full: true });
+        await client.announceWinner(creator, seed, player1.publicKey);
+    });
+
+    it("should report the fee breakdown in WinnerAnnounced", async () => {
+        const seed = "ev-payout";
+        const { vaultPda } = await client.createRoom(creator, seed, 3, eventFee);
+        await client.joinRoom(player1, creator.publicKey, seed);
+        await client.joinRoom(player2, creator.publicKey, seed);
+        const started = await eventsOf((await client.startRoom(creator, seed)).signature);
+        expect(started.map((e) => e.name)).to.deep.equal(["roomStarted"]);
+        expect(started[0].data).to.deep.include({ playerCount: 2, full: false });
+
+        const config = await client.fetchConfig();
+        const expected = computePayout(await getBalance(vaultPda), zeroDataRent, config.creatorFeeBasisPoints, config.serviceFeeBasisPoints);
+        const events = await eventsOf((await client.announceWinner(creator, seed, player2.publicKey)).signature);
+        expect(events.map((e) => e.name)).to.deep.equal(["winnerAnnounced"]);
+        const payout = events[0].data as PalapaEvents["winnerAnnounced"];
+        expect(keys(payout.winners)).to.deep.equal(keys([player2.publicKey]));
+        expect(payout.prizePool.eq(expected.prizePool)).to.be.true;
+        expect(payout.creatorFee.eq(expected.creatorFee)).to.be.true;
+        expect(payout.serviceFee.eq(expected.serviceFee)).to.be.true;
+        expect(payout.vaultRent.toNumber()).to.equal(zeroDataRent);
+        expect(payout.amounts.map((a) => a.toString())).to.deep.equal([expected.winnerAmount.toString()]);
+        expect(payout.mint).to.be.null;
+    });
+
+    it("should report every place of announce_winners", async () => {
+        const seed = "ev-podium";
+        const { vaultPda } = await client.createRoom(creator, seed, 3, eventFee);
+        for (const p of [player1, player2, player3]) await client.joinRoom(p, creator.publicKey, seed);
+
+        const shares = [
+            { winner: player3.publicKey, shareBasisPoints: 7000 },
+            { winner: player1.publicKey, shareBasisPoints: 3000 },
+        ];
+        const config = await client.fetchConfig();
+        const expected = computeSplitPayout(await getBalance(vaultPda), zeroDataRent, [7000, 3000], config.creatorFeeBasisPoints, config.serviceFeeBasisPoints);
+        const [event] = await eventsOf((await client.announceWinners(creator, seed, shares)).signature);
+        expect(event.name).to.equal("winnerAnnounced");
+        const payout = event.data as PalapaEvents["winnerAnnounced"];
+        expect(keys(payout.winners)).to.deep.equal(keys([player3.publicKey, player1.publicKey]));
+        expect(payout.amounts.map((a) => a.toString())).to.deep.equal(expected.winnerAmounts.map((a) => a.toString()));
+        expect(payout.creatorFee.eq(expected.creatorFee)).to.be.true;
+        expect(payout.serviceFee.eq(expected.serviceFee)).to.be.true;
+    });
+
+    it("should emit PlayerLeft and one RoomCancelled per refund batch", async () => {
+        const seed = "ev-cancel";
+        await client.createRoom(creator, seed, 3, eventFee);
+        for (const p of [player1, player2, player3]) await client.joinRoom(p, creator.publicKey, seed);
+
+        const left = await eventsOf((await client.leaveRoom(player3, creator.publicKey, seed)).signature);
+        expect(left.map((e) => e.name)).to.deep.equal(["playerLeft"]);
+        const leave = left[0].data as PalapaEvents["playerLeft"];
+        expect(leave.player.equals(player3.publicKey)).to.be.true;
+        expect(leave.refund.eq(eventFee)).to.be.true;
+        expect(leave.playerCount).to.equal(2);
+
+        const { signatures } = await client.cancelRoomWithRefunds(creator, seed, { batchSize: 1 });
+        expect(signatures).to.have.lengthOf(2);
+        const batches = (await Promise.all(signatures.map(eventsOf))).map((events) => {
+            expect(events.map((e) => e.name)).to.deep.equal(["roomCancelled"]);
+            return events[0].data as PalapaEvents["roomCancelled"];
+        });
+        expect(batches.map((b) => b.playersLeft)).to.deep.equal([1, 0]);
+        expect(batches.flatMap((b) => keys(b.refunded)).sort()).to.deep.equal(keys([player1.publicKey, player2.publicKey]).sort());
+        batches.forEach((b) => expect(b.refund.eq(eventFee)).to.be.true);
+        expect(batches.map((b) => b.creatorRefund.toNumber())).to.deep.equal([0, zeroDataRent]);
+
+        // cancel_room has nobody to refund
+        await client.createRoom(creator, "ev-cancel-empty", 2, eventFee);
+        const [cancelled] = await eventsOf((await client.cancelRoom(creator, "ev-cancel-empty")).signature);
+        expect(cancelled.name).to.equal("roomCancelled");
+        expect(cancelled.data).to.deep.include({ playersLeft: 0 });
+        expect((cancelled.data as PalapaEvents["roomCancelled"]).creatorRefund.toNumber()).to.equal(zeroDataRent);
+    });
+
+    it("should stream events live and recover them from history", async () => {
+        const seed = "ev-history";
+        const [roomPda] = client.getRoomPda(creator.publicKey, seed);
+        const seen: PalapaEvent[] = [];
+        const listener = client.listenEvents({ roomPda });
+        for (const name of ["roomCreated", "playerJoined", "roomStarted", "winnerAnnounced"] as const) {
+            listener.on(name, (event) => seen.push(event as PalapaEvent));
+        }
+        try {
+            // Let the log subscription register before sending anything
+            await new Promise((resolve) => setTimeout(resolve, 500));
+            await client.createRoom(creator, seed, 2, eventFee);
+            await client.createRoom(creator, "ev-history-other", 2, eventFee); // Filtered out
+            await client.joinRoom(player1, creator.publicKey, seed);
+            await client.joinRoom(player2, creator.publicKey, seed);
+            await client.announceWinner(creator, seed, player2.publicKey);
+
+            const expectedNames = ["roomCreated", "playerJoined", "playerJoined", "roomStarted", "winnerAnnounced"];
+            for (let i = 0; i < 20 && seen.length < expectedNames.length; i++) {
+                await new Promise((resolve) => setTimeout(resolve, 250));
+            }
+            expect(seen.map((e) => e.name)).to.deep.equal(expectedNames);
+            seen.forEach((e) => expect(e.data.room.equals(roomPda)).to.be.true);
+
+            const history = await client.fetchRoomEvents(creator.publicKey, seed);
+            expect(history.map((e) => e.name)).to.deep.equal(expectedNames);
+            expect(history.map((e) => e.signature)).to.deep.equal(seen.map((e) => e.signature));
+            history.forEach((e) => expect(e.blockTime).to.be.a("number"));
+        } finally {
+            await listener.close();
+        }
+        await client.cancelRoom(creator, "ev-history-other");
+    });
+  }); // End room events describe
+
+  // --- Test Suite for the transaction builder ---
+  describe("transaction builder", () => {
+    const builderSeed = "tx-builder";
+
+    before(async () => {
+        await client.createRoom(creator, builderSeed, 2, defaultEntryFee);
+    });
+
+    it("should simulate without sending and report compute units", async () => {
+        const tx = await client.joinRoomTransaction(player1, creator.publicKey, builderSeed);
+        const simulation = await tx.simulate();
+        expect(simulation.error).to.be.undefined;
+        expect(simulation.unitsConsumed).to.be.greaterThan(0);
+
+        // Nothing was sent
+        const room = await client.fetchRoom(creator.publicKey, builderSeed);
+        expect(room.players).to.be.empty;
+    });
+
+    it("should return the decoded PalapaError from a failed simulation", async () => {
+        // Player 3 already joined 'jr-double' in the join_room suite
+        const tx = await client.joinRoomTransaction(player3, creator.publicKey, "jr-double");
+        const simulation = await tx.simulate();
+        expect(simulation.error).to.be.instanceOf(PlayerAlreadyJoinedError);
+        expect((simulation.error as PalapaProgramError).source).to.equal("simulation");
+        expect(simulation.unitsConsumed).to.be.greaterThan(0);
+        expect(simulation.logs.join("\n")).to.include("PlayerAlreadyJoined");
+    });
+
+    it("should set the compute unit limit and priority fee", async () => {
+        const tx = await client.joinRoomTransaction(player1, creator.publicKey, builderSeed, {
+            computeUnitLimit: "auto",
+            priorityFee: 1_000,
+        });
+        const { transaction } = await tx.build();
+        const [limitIx, priceIx] = transaction.instructions;
+        const { units } = ComputeBudgetInstruction.decodeSetComputeUnitLimit(limitIx);
+        expect(Number(ComputeBudgetInstruction.decodeSetComputeUnitPrice(priceIx).microLamports)).to.equal(1_000);
+
+        const signature = await tx.send();
+        const landed = await connection.getTransaction(signature, { commitment: "confirmed", maxSupportedTransactionVersion: 0 });
+        expect(landed.meta.err).to.be.null;
+        // The limit is the simulated usage plus a 10% margin
+        expect(landed.meta.computeUnitsConsumed).to.be.greaterThan(0);
+        expect(landed.meta.computeUnitsConsumed).to.be.at.most(units);
+
+        const room = await client.fetchRoom(creator.publicKey, builderSeed);
+        expect(room.players.map((p) => p.toBase58())).to.deep.equal([player1.publicKey.toBase58()]);
+    });
+
+    it("should serialize an unsigned transaction for a wallet to sign", async () => {
+        // player2 pays its own fee, as with a browser wallet
+        const tx = await client.joinRoomTransaction(player2.publicKey, creator.publicKey, builderSeed, {
+            feePayer: player2.publicKey,
+            priorityFee: 1,
+        });
+        const blockhash = await connection.getLatestBlockhash("confirmed");
+        const serialized = await tx.serialize();
+        const unsigned = Transaction.from(Buffer.from(serialized, "base64"));
+        expect(unsigned.feePayer.equals(player2.publicKey)).to.be.true;
+        expect(unsigned.signatures.every(({ signature }) => signature === null)).to.be.true;
+
+        unsigned.sign(player2);
+        const signature = await connection.sendRawTransaction(unsigned.serialize());
+        await connection.confirmTransaction({ signature, ...blockhash }, "confirmed");
+
+        const room = await client.fetchRoom(creator.publicKey, builderSeed);
+        expect(room.players).to.have.lengthOf(2);
+        expect(room.status).to.deep.equal({ inProgress: {} });
+    });
+
+    it("should resend the same transaction after a transport failure", async () => {
+        const seed = "tb-resend";
+        await client.createRoom(creator, seed, 3, defaultEntryFee);
+        const rpc = program.provider.connection;
+        const realSend = rpc.sendRawTransaction.bind(rpc);
+        const sent: string[] = [];
+        // The first send reaches the validator but its response is lost
+        rpc.sendRawTransaction = async (raw, options) => {
+            sent.push(Buffer.from(raw as Buffer).toString("base64"));
+            const signature = await realSend(raw, options);
+            if (sent.length === 1) throw new Error("socket hang up");
+            return signature;
+        };
+        const playerBefore = await getBalance(player3.publicKey);
+        let signature: string;
+        try {
+            ({ signature } = await client.joinRoom(player3, creator.publicKey, seed));
+        } finally {
+            rpc.sendRawTransaction = realSend;
+        }
+
+        expect(sent.length).to.be.at.least(2);
+        expect(new Set(sent).size).to.equal(1); // Same blockhash and signature every time
+        const room = await client.fetchRoom(creator.publicKey, seed);
+        expect(room.players.map((p) => p.toBase58())).to.deep.equal([player3.publicKey.toBase58()]);
+        // One entry fee paid, plus at most one transaction fee
+        expect(playerBefore - await getBalance(player3.publicKey)).to.be.closeTo(defaultEntryFee.toNumber(), MAX_TX_FEE_VARIANCE);
+        const landed = await connection.getTransaction(signature, { commitment: "confirmed", maxSupportedTransactionVersion: 0 });
+        expect(landed.meta.err).to.be.null;
+    });
+
+    it("should rebroadcast a transaction the node dropped while confirming it", async () => {
+        const seed = "tb-rebroadcast";
+        await client.createRoom(creator, seed, 3, defaultEntryFee);
+        const rpc = program.provider.connection;
+        const realSend = rpc.sendRawTransaction.bind(rpc);
+        const sent: string[] = [];
+        // The first send is accepted but never forwarded to the leader
+        rpc.sendRawTransaction = async (raw, options) => {
+            sent.push(Buffer.from(raw as Buffer).toString("base64"));
+            return sent.length === 1 ? "dropped" : realSend(raw, options);
+        };
+        try {
+            await client.joinRoom(player3, creator.publicKey, seed);
+        } finally {
+            rpc.sendRawTransaction = realSend;
+        }
+
+        expect(sent.length).to.be.at.least(2);
+        expect(new Set(sent).size).to.equal(1);
+        const room = await client.fetchRoom(creator.publicKey, seed);
+        expect(room.players.map((p) => p.toBase58())).to.deep.equal([player3.publicKey.toBase58()]);
+    });
+  }); // End transaction builder describe
+
+  // --- Test Suite for room discovery queries ---
+  describe("room discovery", () => {
+    // Fresh creator so results are not mixed with rooms from other suites
+    const discoveryCreator = Keypair.generate();
+    const uniqueEntryFee = new BN(12345); // Odd fee so the range query matches a single room
+    const seeds = { open: "dq-open", joined: "dq-joined", cancelled: "dq-cancelled" };
+
+    before(async () => {
+        await airdropSol(discoveryCreator.publicKey, 1 * LAMPORTS_PER_SOL);
+        await client.createRoom(discoveryCreator, seeds.open, 3, uniqueEntryFee);
+        await client.createRoom(discoveryCreator, seeds.joined, 3, defaultEntryFee);
+        await client.joinRoom(player1, discoveryCreator.publicKey, seeds.joined);
+        await client.createRoom(discoveryCreator, seeds.cancelled, 2, defaultEntryFee);
+        await client.cancelRoom(discoveryCreator, seeds.cancelled);
+    });
+
+    it("should list rooms by creator sorted by creation_timestamp and paginated", async () => {
+        const all = await listRoomsByCreator(program, discoveryCreator.publicKey);
+        expect(all.total).to.equal(3);
+        const timestamps = all.items.map(r => r.account.creationTimestamp.toNumber());
+        expect(timestamps).to.deep.equal([...timestamps].sort((a, b) => b - a), "Rooms should be newest first");
+
+        const firstPage = await listRoomsByCreator(program, discoveryCreator.publicKey, { pageSize: 2, order: "asc" });
+        const secondPage = await listRoomsByCreator(program, discoveryCreator.publicKey, { pageSize: 2, page: 1, order: "asc" });
+        expect(firstPage.items.length).to.equal(2);
+        expect(secondPage.items.length).to.equal(1);
+        expect(secondPage.total).to.equal(3);
+        const pagedKeys = [...firstPage.items, ...secondPage.items].map(r => r.publicKey.toBase58());
+        expect(new Set(pagedKeys).size).to.equal(3, "Pages should not overlap");
+    });
+
+    it("should filter rooms by creator and status", async () => {
+        const cancelled = await listRoomsByCreator(program, discoveryCreator.publicKey, { status: "cancelled" });
+        expect(cancelled.items.map(r => r.account.roomSeed)).to.deep.equal([seeds.cancelled]);
+    });
+
+    it("should list open rooms only", async () => {
+        const open = await listOpenRooms(program, { pageSize: 1000 });
+        const openSeeds = open.items
+            .filter(r => r.account.creator.equals(discoveryCreator.publicKey))
+            .map(r => r.account.roomSeed);
+        expect(openSeeds).to.have.members([seeds.open, seeds.joined]);
+        open.items.forEach(r => expect(r.account.status).to.deep.equal({ openForJoining: {} }));
+    });
+
+    it("should list rooms a player has joined", async () => {
+        const joined = await listRoomsByPlayer(program, player1.publicKey, { pageSize: 1000 });
+        const [joinedRoomPda] = client.getRoomPda(discoveryCreator.publicKey, seeds.joined);
+        expect(joined.items.map(r => r.publicKey.toBase58())).to.include(joinedRoomPda.toBase58());
+        joined.items.forEach(r => expect(r.account.players.some(p => p.equals(player1.publicKey))).to.be.true);
+    });
+
+    it("should list rooms by entry-fee range", async () => {
+        const matching = await listRoomsByEntryFee(program, { min: uniqueEntryFee, max: uniqueEntryFee });
+        expect(matching.items.map(r => r.account.roomSeed)).to.deep.equal([seeds.open]);
+    });
+  }); // End room discovery describe
+
+  describe("room subscriptions", () => {
+    const watchCreator = Keypair.generate();
+    const watchers: RoomWatcher[] = [];
+
+    // Subscriptions are asynchronous: poll until `count` events have arrived.
+    const waitForEvents = async (events: RoomEvent[], count: number): Promise<RoomEvent[]> => {
+        const deadline = Date.now() + 20_000;
+        while (events.length < count && Date.now() < deadline) {
+            await new Promise(resolve => setTimeout(resolve, 200));
+        }
+        expect(events.length).to.equal(count, `Got events: ${events.map(e => e.type).join(", ")}`);
+        return events;
+    };
+    const record = (watcher: RoomWatcher, events: RoomEvent[]) => {
+        (["playerJoined", "roomFull", "roomStarted", "winnerAnnounced", "roomCancelled"] as const)
+            .forEach(type => watcher.on(type, (event: RoomEvent) => events.push(event)));
+        watchers.push(watcher);
+        return watcher;
+    };
+
+    before(async () => {
+        await airdropSol(watchCreator.publicKey, 1 * LAMPORTS_PER_SOL);
+    });
+
+    after(async () => {
+        await Promise.all(watchers.map(w => w.close()));
+    });
+
+    it("should emit playerJoined and roomFull when the last seat is taken", async () => {
+        const seed = "ws-full";
+        await client.createRoom(watchCreator, seed, 2, defaultEntryFee);
+        const events: RoomEvent[] = [];
+        record(await client.watchRoom(watchCreator.publicKey, seed), events);
+
+        await client.joinRoom(player1, watchCreator.publicKey, seed);
+        await client.joinRoom(player2, watchCreator.publicKey, seed);
+
+        await waitForEvents(events, 3);
+        expect(events.map(e => e.type)).to.deep.equal(["playerJoined", "playerJoined", "roomFull"]);
+        const joined = events.filter((e): e is PlayerJoinedEvent => e.type === "playerJoined").map(e => e.player.toBase58());
+        expect(joined).to.deep.equal([player1.publicKey.toBase58(), player2.publicKey.toBase58()]);
+        expect(events[2].room.status).to.deep.equal({ inProgress: {} });
+    });
+
+    it("should emit roomStarted and winnerAnnounced", async () => {
+        const seed = "ws-start";
+        await client.createRoom(watchCreator, seed, 3, defaultEntryFee);
+        await client.joinRoom(player1, watchCreator.publicKey, seed);
+        const events: RoomEvent[] = [];
+        record(await client.watchRoom(watchCreator.publicKey, seed), events);
+
+        await client.startRoom(watchCreator, seed);
+        await waitForEvents(events, 1);
+        await client.announceWinner(watchCreator, seed, player1.publicKey);
+        await waitForEvents(events, 2);
+
+        expect(events.map(e => e.type)).to.deep.equal(["roomStarted", "winnerAnnounced"]);
+        const announced = events[1] as WinnerAnnouncedEvent;
+        expect(announced.winner.toBase58()).to.equal(player1.publicKey.toBase58());
+    });
+
+    it("should report cancellations of rooms created after watchAll started", async () => {
+        const seed = "ws-cancel";
+        const [roomPda] = client.getRoomPda(watchCreator.publicKey, seed);
+        const events: RoomEvent[] = [];
+        const watcher = await client.watchAll();
+        watchers.push(watcher);
+        watcher.on("roomCancelled", (event) => {
+            if (event.roomPda.equals(roomPda)) events.push(event);
+        });
+
+        await client.createRoom(watchCreator, seed, 2, defaultEntryFee);
+        await client.cancelRoom(watchCreator, seed);
+
+        await waitForEvents(events, 1);
+        expect(events[0].type).to.equal("roomCancelled");
+    });
+
+    it("should fill in transitions skipped between two snapshots", async () => {
+        // e.g. the websocket was down between the room opening and its payout
+        const seed = "ws-missed";
+        const { room: open } = await client.createRoom(watchCreator, seed, 2, defaultEntryFee);
+        await client.joinRoom(player1, watchCreator.publicKey, seed);
+        await client.joinRoom(player2, watchCreator.publicKey, seed);
+        const { room: finished } = await client.announceWinner(watchCreator, seed, player2.publicKey);
+
+        expect(diffRoom(open, finished).map(t => t.type)).to.deep.equal([
+            "playerJoined", "playerJoined", "roomFull", "winnerAnnounced"
+        ]);
+        expect(diffRoom(finished, finished)).to.be.empty;
+    });
+
+    it("should emit playerLeft when a player leaves", async () => {
+        const seed = "ws-leave";
+        const [roomPda] = client.getRoomPda(watchCreator.publicKey, seed);
+        await client.createRoom(watchCreator, seed, 3, defaultEntryFee);
+        await client.joinRoom(player1, watchCreator.publicKey, seed);
+
+        const events: RoomEvent[] = [];
+        const watcher = await client.watchRoom(watchCreator.publicKey, seed);
+        watchers.push(watcher);
+        watcher.on("playerLeft", (event) => events.push(event));
+
+        await client.leaveRoom(player1, watchCreator.publicKey, seed);
+
+        await waitForEvents(events, 1);
+        expect(events[0].roomPda.toBase58()).to.equal(roomPda.toBase58());
+        expect((events[0] as PlayerLeftEvent).player.toBase58()).to.equal(player1.publicKey.toBase58());
+        expect(events[0].room.players).to.be.empty;
+    });
+
+    it("should forget a room once it is closed", async () => {
+        const seed = "ws-close";
+        const [roomPda] = client.getRoomPda(watchCreator.publicKey, seed);
+        await client.createRoom(watchCreator, seed, 2, defaultEntryFee);
+        const watcher = await client.watchRoom(watchCreator.publicKey, seed, { resyncIntervalMs: 0 });
+        watchers.push(watcher);
+        expect(watcher.current(roomPda)).to.not.be.undefined;
+
+        await client.cancelRoom(watchCreator, seed);
+        await client.closeRoom(watchCreator, seed);
+        await watcher.resync();
+        expect(watcher.current(roomPda)).to.be.undefined;
+    });
+  }); // End room subscriptions describe
+
+  // --- Test Suite for the global Config ---
+  describe("config", () => {
+    const admin = provider.wallet.publicKey;
+    const newAdmin = Keypair.generate();
+    const newServiceWallet = Keypair.generate();
+    const configSeed = "cfg-fees";
+
+    before(async () => {
+        await Promise.all([
+            airdropSol(newAdmin.publicKey, 1 * LAMPORTS_PER_SOL),
+            airdropSol(newServiceWallet.publicKey, 1 * LAMPORTS_PER_SOL),
+        ]);
+    });
+
+    after(async () => {
+        // Leave the defaults behind for any suite that runs later
+        const config = await client.fetchConfig();
+        const currentAdmin = config.admin.equals(newAdmin.publicKey) ? newAdmin : admin;
+        if (!config.admin.equals(admin)) await client.setAdmin(currentAdmin, admin);
+        await client.updateFees(admin, defaultConfig.creatorFeeBasisPoints, defaultConfig.serviceFeeBasisPoints);
+        await client.setServiceWallet(admin, defaultConfig.serviceWallet);
+    });
+
+    it("should hold the admin, fees and service wallet", async () => {
+        const config = await client.fetchConfig();
+        expect(config.admin.toBase58()).to.equal(admin.toBase58());
+        expect(config.serviceWallet.toBase58()).to.equal(SERVICE_WALLET_PUBKEY.toBase58());
+        expect(config.creatorFeeBasisPoints).to.equal(defaultConfig.creatorFeeBasisPoints);
+        expect(config.serviceFeeBasisPoints).to.equal(defaultConfig.serviceFeeBasisPoints);
+    });
+
+    it("should not initialize twice", async () => {
+        await expect(client.initializeConfig(admin, defaultConfig)).to.be.rejected;
+    });
+
+    it("should reject fees above the caps", async () => {
+        await expect(client.updateFees(admin, MAX_CREATOR_FEE_BASIS_POINTS + 1, 0)).to.be.rejectedWith(FeeTooHighError);
+        await expect(client.updateFees(admin, 0, MAX_SERVICE_FEE_BASIS_POINTS + 1)).to.be.rejectedWith(FeeTooHighError);
+
+        // Exactly at the caps is allowed
+        const { config } = await client.updateFees(admin, MAX_CREATOR_FEE_BASIS_POINTS, MAX_SERVICE_FEE_BASIS_POINTS);
+        expect(config.creatorFeeBasisPoints).to.equal(MAX_CREATOR_FEE_BASIS_POINTS);
+        expect(config.serviceFeeBasisPoints).to.equal(MAX_SERVICE_FEE_BASIS_POINTS);
+    });
+
+    it("should reject changes from anyone but the admin", async () => {
+        await expect(client.updateFees(outsider, 0, 0)).to.be.rejectedWith(UnauthorizedAdminError);
+        await expect(client.setServiceWallet(outsider, outsider.publicKey)).to.be.rejectedWith(UnauthorizedAdminError);
+        await expect(client.setAdmin(outsider, outsider.publicKey)).to.be.rejectedWith(UnauthorizedAdminError);
+    });
+
+    it("should pay out with the configured fees and service wallet", async () => {
+        const creatorBps = 700;
+        const serviceBps = 150;
+        await client.updateFees(admin, creatorBps, serviceBps);
+        await client.setServiceWallet(admin, newServiceWallet.publicKey);
+
+        await client.createRoom(creator, configSeed, 2, defaultEntryFee);
+        await client.joinRoom(player1, creator.publicKey, configSeed);
+        await client.joinRoom(player2, creator.publicKey, configSeed);
+        const [vaultPda] = client.getVaultPda(creator.publicKey, configSeed);
+        const expected = computePayout(await getBalance(vaultPda), zeroDataRent, creatorBps, serviceBps);
+
+        // The previous service wallet is no longer accepted
+        const staleClient = new PalapaClient(program, { serviceWallet: SERVICE_WALLET_PUBKEY });
+        await expect(staleClient.announceWinner(creator, configSeed, player1.publicKey)).to.be.rejectedWith(InvalidServiceWalletError);
+
+        const serviceBefore = await getBalance(newServiceWallet.publicKey);
+        const winnerBefore = await getBalance(player1.publicKey);
+        const { signature } = await client.announceWinner(creator, configSeed, player1.publicKey);
+
+        expect(await getBalance(newServiceWallet.publicKey)).to.equal(serviceBefore + expected.serviceFee.toNumber());
+        expect(await getBalance(player1.publicKey)).to.equal(winnerBefore + expected.winnerAmount.toNumber());
+        const receipt = await fetchPayoutReceipt(program, signature);
+        expect(receipt.recipients.serviceWallet.toBase58()).to.equal(newServiceWallet.publicKey.toBase58());
+        expect(receipt.creatorFee.toString()).to.equal(expected.creatorFee.toString());
+        expect(receipt.serviceFee.toString()).to.equal(expected.serviceFee.toString());
+    });
+
+    it("should rotate the admin authority", async () => {
+        const { config } = await client.setAdmin(admin, newAdmin.publicKey);
+        expect(config.admin.toBase58()).to.equal(newAdmin.publicKey.toBase58());
+
+        // The previous admin lost its rights immediately
+        await expect(client.updateFees(admin, 0, 0)).to.be.rejectedWith(UnauthorizedAdminError);
+
+        const updated = await client.updateFees(newAdmin, 100, 100);
+        expect(updated.config.creatorFeeBasisPoints).to.equal(100);
+        await client.setServiceWallet(newAdmin, SERVICE_WALLET_PUBKEY);
+
+        // And hands it back
+        const rotatedBack = await client.setAdmin(newAdmin, admin);
+        expect(rotatedBack.config.admin.toBase58()).to.equal(admin.toBase58());
+        await expect(client.setAdmin(newAdmin, newAdmin.publicKey)).to.be.rejectedWith(UnauthorizedAdminError);
+    });
+  }); // End config describe
 
 }); // End main describe
\ No newline at end of file